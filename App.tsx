@@ -4,46 +4,89 @@ import React, { useEffect, useState } from 'react';
 import CandleChart from './components/CandleChart';
 import SettingsModal from './components/SettingsModal';
 import HistoryModal from './components/HistoryModal';
+import JournalModal from './components/JournalModal';
 import DecisionReport from './components/DecisionReport';
-import { MarketDataCollection, AccountContext, AIDecision, SystemLog, AppConfig, PositionData } from './types';
-import { Settings, Play, Pause, Activity, Terminal, History, Wallet, TrendingUp, AlertTriangle, ExternalLink, ShieldCheck, Crosshair, DollarSign, Layers, X, BarChart2 } from 'lucide-react';
-import { DEFAULT_CONFIG, INSTRUMENT_ID, CONTRACT_VAL_ETH, TAKER_FEE_RATE } from './constants';
+import DepthPanel from './components/DepthPanel';
+import OrdersPanel from './components/OrdersPanel';
+import LoginScreen from './components/LoginScreen';
+import { AccountContext, SystemLog, AppConfig, PositionData, MarketDataCollection, InstrumentStatus, InstrumentSpec, FeedStatus, AuthUser, SecretVaultStatus, ReconciliationReport, StatusSnapshot, StreamEvent, RollLadder, TakeProfitLadder, TakeProfitLevelStatus } from './types';
+import { Settings, Play, Pause, Activity, Terminal, History, Wallet, TrendingUp, AlertTriangle, ExternalLink, ShieldCheck, Crosshair, DollarSign, Layers, X, BarChart2, XOctagon, BookOpen, LogOut, ListChecks, BookMarked, Timer } from 'lucide-react';
+import { apiFetch, getStoredUser, logout, openEventStream, setUnauthorizedHandler } from './services/apiClient';
+import { applyStreamEvent } from './services/statusStream';
+import { positionFunding } from './services/fundingService';
+import { analyzeMultiTimeframe } from './services/multiTimeframe';
+import { ROLL_SOURCE_LABELS } from './services/rollingService';
+import { DEFAULT_CONFIG, DEFAULT_INSTRUMENT_ID, TAKER_FEE_RATE, STREAM_HEARTBEAT_MS, STREAM_RECONNECT_MS, STREAM_STALE_MS } from './constants';
+
+const TP_STATUS: Record<TakeProfitLevelStatus, { label: string; className: string }> = {
+  WAITING: { label: '未挂出', className: 'text-gray-500' },
+  PLACED: { label: '已挂单', className: 'text-blue-400' },
+  FILLED: { label: '已成交', className: 'text-okx-up' },
+};
 
 const App: React.FC = () => {
-  const [marketData, setMarketData] = useState<MarketDataCollection | null>(null);
+  const [user, setUser] = useState<AuthUser | null>(getStoredUser);
+  const [instruments, setInstruments] = useState<InstrumentStatus[]>([]);
+  const [selectedInstId, setSelectedInstId] = useState<string>(DEFAULT_INSTRUMENT_ID);
   const [accountData, setAccountData] = useState<AccountContext | null>(null);
-  const [decision, setDecision] = useState<AIDecision | null>(null);
   const [logs, setLogs] = useState<SystemLog[]>([]);
   const [isRunning, setIsRunning] = useState(false);
+  const [feedStatus, setFeedStatus] = useState<FeedStatus | null>(null);
   const [config, setConfig] = useState<AppConfig>(DEFAULT_CONFIG);
+  const [secrets, setSecrets] = useState<SecretVaultStatus | null>(null);
+  const [reconciliation, setReconciliation] = useState<ReconciliationReport | null>(null);
+  const [pushLive, setPushLive] = useState(false); // Dashboard fed by /api/stream rather than polling
   
   const [isSettingsOpen, setIsSettingsOpen] = useState(false);
   const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const [isJournalOpen, setIsJournalOpen] = useState(false);
   const [isFullReportOpen, setIsFullReportOpen] = useState(false);
 
-  // Fetch Status
+  const isOperator = user?.role === 'operator';
+
+  // Any 401 (expired/revoked session) drops back to the login screen
+  useEffect(() => {
+    setUnauthorizedHandler(() => setUser(null));
+    return () => setUnauthorizedHandler(null);
+  }, []);
+
+  // Live status: push stream (/api/stream), polling /api/status until it delivers and whenever it drops
   useEffect(() => {
+    if (!user) return;
+    let status: StatusSnapshot | null = null;
+    let stream: EventSource | null = null;
+    let pollTimer: ReturnType<typeof setInterval> | null = null;
+    let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+    let lastEventAt = Date.now();
+    let disposed = false;
+
+    const applyStatus = (data: StatusSnapshot) => {
+        status = data;
+        setInstruments(data.instruments || []);
+        setAccountData(data.accountData);
+        setLogs(data.logs || []);
+        setIsRunning(data.isRunning);
+        setFeedStatus(data.feed || null);
+        setConfig(data.config);
+        setSecrets(data.secrets || null);
+        setReconciliation(data.reconciliation || null);
+    };
+
     const fetchStatus = async () => {
       try {
-        const res = await fetch('/api/status');
+        const res = await apiFetch('/api/status');
         
         if (!res.ok) {
            return;
         }
 
         const text = await res.text();
-        if (!text) return;
+        // The stream may have taken over while this request was in flight
+        if (!text || pollTimer === null) return;
 
         try {
             const data = JSON.parse(text);
-            if (data) {
-                setMarketData(data.marketData);
-                setAccountData(data.accountData);
-                setDecision(data.latestDecision);
-                setLogs(data.logs || []);
-                setIsRunning(data.isRunning);
-                setConfig(data.config);
-            }
+            if (data) applyStatus(data);
         } catch (parseError) {
             console.error("JSON Parse Error:", parseError);
         }
@@ -52,18 +95,113 @@ const App: React.FC = () => {
       }
     };
 
-    const interval = setInterval(fetchStatus, 1000);
-    return () => clearInterval(interval);
-  }, []);
+    const startPolling = () => {
+      setPushLive(false);
+      if (pollTimer !== null) return;
+      pollTimer = setInterval(fetchStatus, 1000);
+      fetchStatus();
+    };
+    const stopPolling = () => {
+      if (pollTimer !== null) clearInterval(pollTimer);
+      pollTimer = null;
+    };
+
+    const connect = async () => {
+      lastEventAt = Date.now();
+      const opened = await openEventStream('/api/stream');
+      if (disposed) {
+        opened?.close();
+        return;
+      }
+      stream = opened;
+      if (!stream) {
+        // No EventSource: keep polling; no ticket (server busy/restarting): try again later
+        if (typeof EventSource !== 'undefined') reconnectTimer = setTimeout(connect, STREAM_RECONNECT_MS);
+        return;
+      }
+      stream.onmessage = (e) => {
+        lastEventAt = Date.now();
+        let ev: StreamEvent;
+        try {
+          ev = JSON.parse(e.data);
+        } catch (parseError) {
+          return;
+        }
+        if (ev.type === 'snapshot') {
+          stopPolling();
+          setPushLive(true);
+        }
+        const next = applyStreamEvent(status, ev);
+        if (next && next !== status) applyStatus(next);
+      };
+      stream.onerror = () => {
+        startPolling();
+        // The browser retries by itself unless the stream was refused (a used ticket is
+        // refused too, so that ends in a reconnect with a fresh one)
+        if (stream?.readyState === EventSource.CLOSED) {
+          stream = null;
+          reconnectTimer = setTimeout(connect, STREAM_RECONNECT_MS);
+        }
+      };
+    };
+
+    startPolling();
+    connect();
+    // A stream that went silent (buffering proxy, half-open socket) is replaced
+    const watchdog = setInterval(() => {
+      if (!stream || Date.now() - lastEventAt < STREAM_STALE_MS) return;
+      stream.close();
+      stream = null;
+      startPolling();
+      connect();
+    }, STREAM_HEARTBEAT_MS);
+
+    return () => {
+      disposed = true;
+      stream?.close();
+      stopPolling();
+      if (reconnectTimer) clearTimeout(reconnectTimer);
+      clearInterval(watchdog);
+    };
+  }, [user]);
 
   const toggleStrategy = async () => {
     try {
-      await fetch('/api/toggle', {
+      const res = await apiFetch('/api/toggle', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({ running: !isRunning })
       });
-      setIsRunning(!isRunning);
+      if (res.ok) setIsRunning(!isRunning);
+    } catch (e) {
+      console.error(e);
+    }
+  };
+
+  // Manual close of one side; the server verifies the result and logs it
+  const closePosition = async (pos: PositionData, pct: number) => {
+    if (!window.confirm(`确认市价平掉 ${pos.instId} ${pos.posSide} ${pct}% 持仓?`)) return;
+    try {
+      const res = await apiFetch('/api/positions/close', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ instId: pos.instId, posSide: pos.posSide, pct })
+      });
+      const data = await res.json();
+      if (!data.success) window.alert(`平仓未确认: ${data.error || data.result?.error}`);
+    } catch (e) {
+      console.error(e);
+    }
+  };
+
+  // Emergency flatten: pauses the engine and closes every position
+  const flattenAll = async () => {
+    if (!window.confirm('一键清仓: 暂停策略引擎并市价平掉全部持仓, 确认?')) return;
+    try {
+      const res = await apiFetch('/api/positions/flatten', { method: 'POST' });
+      const data = await res.json();
+      setIsRunning(false);
+      if (!data.success) window.alert(`清仓未全部确认: ${data.error || (data.results || []).filter((r: any) => !r.verified).map((r: any) => `${r.instId} ${r.posSide}: ${r.error}`).join('; ')}`);
     } catch (e) {
       console.error(e);
     }
@@ -71,11 +209,12 @@ const App: React.FC = () => {
 
   const saveConfig = async (newConfig: AppConfig) => {
     try {
-      await fetch('/api/config', {
+      const res = await apiFetch('/api/config', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify(newConfig)
       });
+      if (!res.ok) return;
       setConfig(newConfig);
       setIsSettingsOpen(false);
     } catch (e) {
@@ -83,20 +222,32 @@ const App: React.FC = () => {
     }
   };
 
+  // Selected instrument tab (falls back to the first configured one)
+  const selected = instruments.find(i => i.instId === selectedInstId) || instruments[0] || null;
+  const marketData = selected?.marketData || null;
+  const decision = selected?.latestDecision || null;
+  const mtf = marketData ? analyzeMultiTimeframe(marketData) : null;
+  const selectedPositions = accountData?.positions.filter(p => p.instId === (selected?.instId || selectedInstId)) || [];
+
   // Helper to render a single position card
-  const renderPositionCard = (pos: PositionData, currentPriceStr: string) => {
+  const renderPositionCard = (pos: PositionData, md: MarketDataCollection | null, spec: InstrumentSpec | null, ladder: RollLadder | null, takeProfit: TakeProfitLadder | null) => {
     const isLong = pos.posSide === 'long';
     const upl = parseFloat(pos.upl);
-    const sizeEth = (parseFloat(pos.pos) * CONTRACT_VAL_ETH).toFixed(2);
+    const ctVal = spec?.ctVal ?? 0;
+    const ctValCcy = spec?.ctValCcy || pos.instId.split('-')[0];
+    const sizeCoin = (parseFloat(pos.pos) * ctVal).toFixed(2);
     const margin = parseFloat(pos.margin).toFixed(2);
-    const price = parseFloat(currentPriceStr || "0");
+    const price = parseFloat(md?.ticker?.last || "0");
     const avgPx = parseFloat(pos.avgPx);
     
     // 1. Calculate Net Profit (Est. Fees: Open + Close)
-    const sizeVal = parseFloat(pos.pos) * CONTRACT_VAL_ETH;
+    const sizeVal = parseFloat(pos.pos) * ctVal;
     const openFee = sizeVal * avgPx * TAKER_FEE_RATE;
     const closeFee = sizeVal * price * TAKER_FEE_RATE;
-    const netPnL = upl - (openFee + closeFee);
+    const funding = md ? positionFunding(pos, md, ctVal, price) : null;
+    const netPnL = upl - (openFee + closeFee) + (funding?.accrued ?? 0);
+    const fundingMins = funding ? Math.max(0, Math.floor((funding.nextFundingTime - Date.now()) / 60000)) : 0;
+    const fundingCountdown = `${Math.floor(fundingMins / 60)}h ${String(fundingMins % 60).padStart(2, '0')}m`;
     
     // 2. Robust Breakeven Display (Exchange Data -> Fallback Calc)
     let bePxVal = parseFloat(pos.breakEvenPx || "0");
@@ -138,7 +289,7 @@ const App: React.FC = () => {
                  <Layers size={10} /> 持仓规模
               </div>
               <div className="text-gray-200 font-mono">
-                 {pos.pos} 张 <span className="text-gray-500">({sizeEth} ETH)</span>
+                 {pos.pos} 张 <span className="text-gray-500">({sizeCoin} {ctValCcy})</span>
               </div>
            </div>
            <div className="space-y-1 text-right">
@@ -176,9 +327,25 @@ const App: React.FC = () => {
               </div>
            </div>
 
+           {/* Row 4: Funding (accrued is already in Net) */}
+           <div className="space-y-1">
+              <div className="text-okx-subtext">已结算资金费</div>
+              <div className={`font-mono ${(funding?.accrued ?? 0) >= 0 ? 'text-okx-up' : 'text-okx-down'}`}>
+                 {funding ? `${funding.accrued > 0 ? '+' : ''}${funding.accrued.toFixed(4)} U` : '--'}
+              </div>
+           </div>
+           <div className="space-y-1 text-right">
+              <div className="text-okx-subtext flex items-center justify-end gap-1" title={`费率 ${md ? (parseFloat(md.fundingRate) * 100).toFixed(4) : '--'}%`}>
+                 <Timer size={10} /> 下次结算 {funding ? fundingCountdown : '--'}
+              </div>
+              <div className={`font-mono ${funding && funding.nextCost > 0 ? 'text-okx-down' : 'text-okx-up'}`}>
+                 {funding ? `${funding.nextCost > 0 ? '-' : '+'}${Math.abs(funding.nextCost).toFixed(4)} U` : '--'}
+              </div>
+           </div>
+
            <div className="col-span-2 h-px bg-gray-800/50 my-1"></div>
 
-           {/* Row 4: SL & TP */}
+           {/* Row 5: SL & TP */}
            <div className="space-y-1">
               <div className="text-okx-subtext flex items-center gap-1">
                  <ShieldCheck size={10} /> 止损触发 (SL)
@@ -193,10 +360,89 @@ const App: React.FC = () => {
               <div className="text-green-400 font-mono">{pos.tpTriggerPx || '未设置'}</div>
            </div>
         </div>
+
+        {isOperator && (
+          <div className="mt-3 flex justify-end gap-2 text-[11px]">
+            {[25, 50, 100].map(pct => (
+              <button
+                key={pct}
+                onClick={() => closePosition(pos, pct)}
+                className={`px-2 py-1 rounded border transition-colors ${pct === 100 ? 'border-okx-down/40 text-okx-down hover:bg-okx-down/10' : 'border-okx-border text-okx-subtext hover:text-white'}`}
+              >
+                {pct === 100 ? '全平' : `平 ${pct}%`}
+              </button>
+            ))}
+          </div>
+        )}
+
+        {/* Take-profit ladder: one reduce-only order per level */}
+        {takeProfit && (
+          <div className="mt-3 pt-2 border-t border-gray-800 text-[11px]">
+            <div className="flex justify-between text-okx-subtext mb-1">
+              <span>分批止盈</span>
+              <span>{takeProfit.riskPerUnit > 0 ? `1R = ${takeProfit.riskPerUnit.toFixed(2)}` : '等待开仓止损'}</span>
+            </div>
+            {takeProfit.riskPerUnit > 0 && (
+              <div className="space-y-0.5 font-mono">
+                {takeProfit.levels.map((l, i) => (
+                  <div key={i} className="flex justify-between">
+                    <span className="text-gray-400">{l.rMultiple}R · {l.sizePct}%</span>
+                    <span className="text-green-400">{l.price > 0 ? l.price : '--'}</span>
+                    <span className="text-gray-300">{l.contracts} 张</span>
+                    <span className={TP_STATUS[l.status].className}>{TP_STATUS[l.status].label}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
+        {/* Rolling ladder: one row per leg, values after that leg */}
+        {ladder && ladder.legs.length > 0 && (
+          <div className="mt-3 pt-2 border-t border-gray-800 text-[11px]">
+            <div className="flex justify-between text-okx-subtext mb-1">
+              <span>滚仓阶梯</span>
+              <span className={ladder.rolls >= ladder.maxRolls ? 'text-yellow-500' : ''}>已滚仓 {ladder.rolls} / {ladder.maxRolls}</span>
+            </div>
+            <table className="w-full font-mono">
+              <thead>
+                <tr className="text-gray-500">
+                  <th className="text-left font-normal">#</th>
+                  <th className="text-right font-normal">张数</th>
+                  <th className="text-right font-normal">成交价</th>
+                  <th className="text-right font-normal">均价</th>
+                  <th className="text-right font-normal">强平价</th>
+                  <th className="text-right font-normal">止损</th>
+                </tr>
+              </thead>
+              <tbody>
+                {ladder.legs.map((leg, i) => (
+                  <tr key={leg.ts + '-' + i} className="text-gray-300" title={new Date(leg.ts).toLocaleString()}>
+                    <td className="text-left">{i} <span className="text-gray-500">{ROLL_SOURCE_LABELS[leg.source]}</span></td>
+                    <td className="text-right">+{leg.contracts}</td>
+                    <td className="text-right">{leg.price.toFixed(2)}</td>
+                    <td className="text-right">{leg.avgPx.toFixed(2)}</td>
+                    <td className="text-right text-okx-down">{leg.liqPx > 0 ? leg.liqPx.toFixed(2) : '--'}</td>
+                    <td className="text-right text-orange-400">{leg.stopPx > 0 ? leg.stopPx : '--'}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
       </div>
     );
   };
 
+  const handleLogout = async () => {
+    await logout();
+    setUser(null);
+  };
+
+  if (!user) {
+    return <LoginScreen onLogin={setUser} />;
+  }
+
   const sharpe = accountData?.sharpeRatio ?? 0;
   const sharpeColor = sharpe < 0 ? 'text-red-400' : sharpe < 1 ? 'text-yellow-400' : 'text-green-400';
 
@@ -208,9 +454,23 @@ const App: React.FC = () => {
           <div className="flex items-center gap-3">
             <div className={`w-3 h-3 rounded-full transition-colors duration-500 ${isRunning ? 'bg-okx-up animate-pulse' : 'bg-okx-subtext'}`}></div>
             <h1 className="font-bold text-lg tracking-tight flex items-center gap-2">
-              ETH 10U 战神 
+              10U 战神 
               <span className="text-xs font-normal text-okx-subtext px-2 py-0.5 bg-okx-border rounded-full">Cloud Pro</span>
             </h1>
+            {!config.isSimulation && (
+              <span
+                className={`text-[10px] font-mono px-1.5 py-0.5 rounded border ${feedStatus?.public ? 'text-okx-up border-okx-up/30' : 'text-okx-subtext border-okx-border'}`}
+                title={`public: ${feedStatus?.public ? 'on' : 'off'} / business: ${feedStatus?.business ? 'on' : 'off'} / private: ${feedStatus?.private ? 'on' : 'off'}`}
+              >
+                {config.marketFeed === 'WS' && feedStatus?.public ? 'WS' : 'REST'}
+              </span>
+            )}
+            <span
+              className={`text-[10px] font-mono px-1.5 py-0.5 rounded border ${pushLive ? 'text-okx-up border-okx-up/30' : 'text-okx-subtext border-okx-border'}`}
+              title={pushLive ? '仪表盘通过服务器推送实时更新' : '推送不可用, 每秒轮询 /api/status'}
+            >
+              {pushLive ? 'LIVE' : 'POLL'}
+            </span>
           </div>
           
           <div className="flex items-center gap-2">
@@ -239,6 +499,16 @@ const App: React.FC = () => {
               <span className="text-xs font-bold hidden sm:block">历史推演</span>
             </button>
 
+            <button 
+              onClick={() => setIsJournalOpen(true)}
+              className="p-2 hover:bg-okx-border rounded-lg text-okx-subtext hover:text-white transition-colors flex items-center gap-2"
+              title="交易日志"
+            >
+              <BookMarked size={18} />
+              <span className="text-xs font-bold hidden sm:block">交易日志</span>
+            </button>
+
+            {isOperator && (
             <button 
               onClick={toggleStrategy}
               className={`flex items-center gap-2 px-4 py-1.5 rounded-lg font-bold text-sm transition-all shadow-lg ${
@@ -250,17 +520,59 @@ const App: React.FC = () => {
               {isRunning ? <Pause size={16} /> : <Play size={16} />}
               {isRunning ? '停止策略' : '启动引擎'}
             </button>
+            )}
+
+            {isOperator && (
+            <button
+              onClick={flattenAll}
+              className="flex items-center gap-2 px-3 py-1.5 rounded-lg font-bold text-sm bg-red-600/10 text-red-400 hover:bg-red-600/20 border border-red-600/30 transition-all"
+              title="暂停引擎并市价平掉全部持仓"
+            >
+              <XOctagon size={16} /> 一键清仓
+            </button>
+            )}
 
+            {isOperator && (
             <button 
               onClick={() => setIsSettingsOpen(true)}
               className="p-2 hover:bg-okx-border rounded-lg text-okx-subtext hover:text-white transition-colors"
             >
               <Settings size={20} />
             </button>
+            )}
+
+            <button
+              onClick={handleLogout}
+              className="p-2 hover:bg-okx-border rounded-lg text-okx-subtext hover:text-white transition-colors flex items-center gap-2"
+              title="退出登录"
+            >
+              <LogOut size={18} />
+              <span className="text-xs font-mono hidden sm:block">{user.username} · {user.role}</span>
+            </button>
           </div>
         </div>
       </header>
 
+      {/* Instrument Tabs */}
+      {instruments.length > 1 && (
+        <div className="shrink-0 border-b border-okx-border bg-okx-card/30">
+          <div className="max-w-[1920px] mx-auto px-4 flex gap-1">
+            {instruments.map(inst => (
+              <button
+                key={inst.instId}
+                onClick={() => setSelectedInstId(inst.instId)}
+                className={`px-3 py-2 text-xs font-bold font-mono border-b-2 transition-colors ${
+                  inst.instId === selected?.instId ? 'border-okx-primary text-white' : 'border-transparent text-okx-subtext hover:text-white'
+                }`}
+              >
+                {inst.instId}
+                <span className="ml-2 text-okx-subtext font-normal">{inst.marketData?.ticker?.last || '--'}</span>
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Main Content (Responsive Layout) */}
       <main className="flex-1 overflow-y-auto lg:overflow-hidden p-4">
         <div className="max-w-[1920px] mx-auto w-full lg:h-full h-auto grid grid-cols-1 lg:grid-cols-12 gap-4">
@@ -279,6 +591,7 @@ const App: React.FC = () => {
                )}
                {/* Floating Ticker Info */}
                <div className="absolute top-4 left-4 bg-black/60 backdrop-blur px-4 py-2 rounded-lg border border-white/10 text-xs font-mono shadow-xl pointer-events-none">
+                  <div className="text-okx-subtext mb-1">{selected?.instId || selectedInstId}</div>
                   <div className="text-2xl font-bold text-white mb-1 flex items-center gap-2">
                     {marketData?.ticker?.last || '0.00'}
                     <span className="text-xs font-normal text-okx-subtext px-1.5 py-0.5 bg-gray-800 rounded">USDT</span>
@@ -287,6 +600,16 @@ const App: React.FC = () => {
                       <span className="flex items-center gap-1"><TrendingUp size={10}/> 24H: {marketData?.ticker?.volCcy24h ? (parseInt(marketData.ticker.volCcy24h)/1000000).toFixed(1) + 'M' : '0'}</span>
                       <span className="flex items-center gap-1 text-purple-400 border border-purple-400/30 px-1 rounded bg-purple-400/10">EMA Trend: 4H</span>
                   </div>
+                  {mtf && (
+                    <div className="flex items-center gap-1.5 mt-2" title="各周期 EMA21/55 趋势 (▲ 多头 / ▼ 空头 / ◆ 中性), 共振评分 -100 ~ 100">
+                      {mtf.trends.map(t => (
+                        <span key={t.bar} className={`px-1 rounded border ${t.state === 'BULLISH' ? 'text-okx-up border-okx-up/30' : t.state === 'BEARISH' ? 'text-okx-down border-okx-down/30' : 'text-okx-subtext border-okx-border'}`}>
+                          {t.bar} {t.state === 'BULLISH' ? '▲' : t.state === 'BEARISH' ? '▼' : t.state === 'NEUTRAL' ? '◆' : '-'}
+                        </span>
+                      ))}
+                      <span className={`ml-1 font-bold ${mtf.bias === 'BULLISH' ? 'text-okx-up' : mtf.bias === 'BEARISH' ? 'text-okx-down' : 'text-gray-400'}`}>共振 {mtf.confluence > 0 ? '+' : ''}{mtf.confluence}</span>
+                    </div>
+                  )}
                </div>
             </div>
 
@@ -327,13 +650,13 @@ const App: React.FC = () => {
                   <div className="px-4 py-3 border-b border-okx-border bg-okx-bg/30 flex justify-between items-center shrink-0">
                       <div className="flex items-center gap-2 font-bold text-white text-sm">
                           <Wallet size={16} className="text-blue-500"/>
-                          持仓监控 ({accountData?.positions.length || 0})
+                          持仓监控 ({selectedPositions.length})
                       </div>
                   </div>
                   
                   <div className="flex-1 overflow-y-auto p-4 space-y-3 custom-scrollbar">
-                     {accountData && accountData.positions.length > 0 ? (
-                         accountData.positions.map(p => renderPositionCard(p, marketData?.ticker?.last || "0"))
+                     {selectedPositions.length > 0 ? (
+                         selectedPositions.map(p => renderPositionCard(p, marketData, selected?.spec || null, selected?.ladders?.find(l => l.posSide === p.posSide) || null, selected?.takeProfits?.find(l => l.posSide === p.posSide) || null))
                      ) : (
                          <div className="h-full flex flex-col items-center justify-center text-okx-subtext opacity-40 gap-2">
                              <Wallet size={32} />
@@ -343,12 +666,53 @@ const App: React.FC = () => {
                   </div>
               </div>
 
-              {/* 2. AI Compact Summary (Fixed Height) */}
+              {/* 2. Bot Orders: fills, slippage, TP/SL confirmation (Fixed Height) */}
+              <div className="h-auto max-h-[220px] bg-okx-card rounded-xl border border-okx-border flex flex-col overflow-hidden shadow-lg shrink-0">
+                  <div className="px-4 py-2 border-b border-okx-border bg-okx-bg/30 flex items-center justify-between font-bold text-white text-sm">
+                      <span className="flex items-center gap-2">
+                          <ListChecks size={16} className="text-okx-primary"/>
+                          订单跟踪
+                      </span>
+                      {reconciliation && (
+                          <span className={`text-[10px] font-normal px-1.5 py-0.5 rounded border ${reconciliation.inSync ? 'text-okx-up border-okx-up/30 bg-okx-up/10' : 'text-yellow-400 border-yellow-500/30 bg-yellow-500/10'}`}
+                                title={`上次对账 ${new Date(reconciliation.checkedAt).toLocaleTimeString()}`}>
+                              {reconciliation.inSync ? '持仓已对账' : '持仓偏差'}
+                          </span>
+                      )}
+                  </div>
+                  <div className="overflow-y-auto custom-scrollbar">
+                      <OrdersPanel
+                          orders={selected?.recentOrders || []}
+                          reconciliation={reconciliation}
+                          instId={selected?.instId || selectedInstId}
+                      />
+                  </div>
+              </div>
+
+              {/* 3. Order Book Depth (Fixed Height) */}
+              <div className="h-auto bg-okx-card rounded-xl border border-okx-border flex flex-col overflow-hidden shadow-lg shrink-0">
+                  <div className="px-4 py-2 border-b border-okx-border bg-okx-bg/30 flex items-center gap-2 font-bold text-white text-sm">
+                      <BookOpen size={16} className="text-okx-primary"/>
+                      盘口深度
+                  </div>
+                  <DepthPanel
+                      orderbook={marketData?.orderbook || null}
+                      trades={marketData?.trades || []}
+                      ctVal={selected?.spec?.ctVal ?? 1}
+                  />
+              </div>
+
+              {/* 4. AI Compact Summary (Fixed Height) */}
               <div className="h-auto bg-okx-card rounded-xl border border-okx-border flex flex-col overflow-hidden shadow-lg shrink-0">
                   <div className="p-3 border-b border-okx-border bg-gradient-to-r from-purple-900/20 to-transparent flex justify-between items-center">
                       <h2 className="font-bold text-white text-sm flex items-center gap-2">
                           <Activity size={16} className="text-purple-500" />
                           AI 决策核心
+                          {decision?.source && decision.source !== 'AI' && (
+                              <span className="text-[10px] font-normal text-okx-subtext px-1.5 py-0.5 bg-gray-800 rounded">
+                                  {decision.source === 'RULE' ? '规则引擎' : '规则 + AI 否决'}
+                              </span>
+                          )}
                       </h2>
                       <span className="text-[10px] font-mono text-gray-500">
                           {decision?.timestamp ? new Date(decision.timestamp).toLocaleTimeString() : '--:--:--'}
@@ -368,6 +732,11 @@ const App: React.FC = () => {
                                   }`}>
                                       {decision.action}
                                   </span>
+                                  {decision.riskCheck && !decision.riskCheck.allowed && (
+                                      <span className="px-2 py-1 rounded text-[10px] font-bold bg-red-900/30 text-red-400 border border-red-500/30" title={decision.riskCheck.violations.map(v => v.message).join('\n')}>
+                                          风控拦截
+                                      </span>
+                                  )}
                                   <div className="text-right">
                                       <div className="text-[10px] text-okx-subtext">AI 置信度</div>
                                       <div className="text-purple-400 font-bold font-mono">{decision.trading_decision?.confidence}</div>
@@ -426,12 +795,20 @@ const App: React.FC = () => {
         isOpen={isSettingsOpen} 
         onClose={() => setIsSettingsOpen(false)} 
         config={config}
+        secrets={secrets}
         onSave={saveConfig}
       />
       
       <HistoryModal
         isOpen={isHistoryOpen}
         onClose={() => setIsHistoryOpen(false)}
+        instId={selected?.instId || selectedInstId}
+      />
+
+      <JournalModal
+        isOpen={isJournalOpen}
+        onClose={() => setIsJournalOpen(false)}
+        instId={selected?.instId || selectedInstId}
       />
 
       {/* Full Report Modal */}
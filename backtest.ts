@@ -0,0 +1,49 @@
+import fs from 'fs';
+import { BacktestConfig, SizingMode } from './types';
+import { DEFAULT_SIZING_CONFIG } from './constants';
+import { loadCandlesFromFile, runBacktest } from './services/backtestService';
+
+// Usage: npm run backtest -- <candles.csv|candles.json> [--inst=ETH-USDT-SWAP] [--equity=15] [--sizing=FIXED|RISK|ATR|KELLY] [--risk=2] [--out=report.json]
+const args = process.argv.slice(2);
+const file = args.find(a => !a.startsWith('--'));
+const opt = (name: string) => args.find(a => a.startsWith(`--${name}=`))?.split('=')[1];
+
+if (!file) {
+    console.error('用法: npm run backtest -- <candles.csv|candles.json> [--inst=ETH-USDT-SWAP] [--equity=15] [--sizing=FIXED|RISK|ATR|KELLY] [--risk=2] [--out=report.json]');
+    process.exit(1);
+}
+
+const overrides: Partial<BacktestConfig> = {};
+if (opt('inst')) overrides.instId = opt('inst')!;
+if (opt('equity')) overrides.initialEquity = parseFloat(opt('equity')!);
+if (opt('sizing') || opt('risk')) {
+    const mode = (opt('sizing') || DEFAULT_SIZING_CONFIG.mode).toUpperCase() as SizingMode;
+    if (!['FIXED', 'RISK', 'ATR', 'KELLY'].includes(mode)) {
+        console.error(`未知仓位模式: ${mode}`);
+        process.exit(1);
+    }
+    overrides.sizing = {
+        ...DEFAULT_SIZING_CONFIG,
+        mode,
+        riskPct: opt('risk') ? parseFloat(opt('risk')!) : DEFAULT_SIZING_CONFIG.riskPct,
+    };
+}
+
+const candles = loadCandlesFromFile(file);
+const result = runBacktest(candles, overrides);
+
+const pct = (v: number) => `${(v * 100).toFixed(2)}%`;
+console.log(`=== 回测报告 ${result.config.instId} (${result.bars} 根K线) ===`);
+console.log(`区间: ${new Date(parseInt(result.startTs)).toISOString()} -> ${new Date(parseInt(result.endTs)).toISOString()}`);
+console.log(`初始权益: ${result.initialEquity.toFixed(2)} U  最终权益: ${result.finalEquity.toFixed(2)} U  收益率: ${pct(result.totalReturn)}`);
+console.log(`最大回撤: ${pct(result.maxDrawdown)}  胜率: ${pct(result.winRate)}  Sharpe: ${result.sharpeRatio.toFixed(4)}  手续费: ${result.totalFees.toFixed(2)} U`);
+console.log(`仓位模式: ${result.config.sizing.mode}  交易次数: ${result.trades.length}`);
+for (const t of result.trades) {
+    console.log(`- ${t.posSide.toUpperCase()} ${new Date(parseInt(t.openTs)).toISOString()} 均价 ${t.avgEntryPx.toFixed(2)} -> ${t.exitPx.toFixed(2)} 滚仓 ${t.rolls} 次 净利润 ${t.netPnL.toFixed(2)} U (${t.exitReason})`);
+}
+
+const out = opt('out');
+if (out) {
+    fs.writeFileSync(out, JSON.stringify(result, null, 2));
+    console.log(`完整结果已写入 ${out}`);
+}
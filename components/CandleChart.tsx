@@ -3,30 +3,12 @@
 import React, { useMemo } from 'react';
 import { ResponsiveContainer, ComposedChart, XAxis, YAxis, Tooltip, Bar, CartesianGrid, Line, Cell, ReferenceLine } from 'recharts';
 import { CandleData } from '../types';
+import { calculateIndicatorSeries } from '../services/indicators';
 
 interface Props {
   data: CandleData[];
 }
 
-// 辅助函数：计算 EMA (Exponential Moving Average)
-const calculateEMA = (data: any[], period: number) => {
-  if (data.length === 0) return [];
-  
-  const k = 2 / (period + 1);
-  const result = [];
-  
-  // 初始化 EMA，通常第一个点可以用 SMA 代替，或者直接用第一个价格
-  let ema = data[0].c; 
-  
-  for (let i = 0; i < data.length; i++) {
-    const price = data[i].c;
-    // EMA Formula: Price(t) * k + EMA(y) * (1 - k)
-    ema = price * k + ema * (1 - k);
-    result.push(ema);
-  }
-  return result;
-};
-
 const CandleChart: React.FC<Props> = ({ data }) => {
   const chartData = useMemo(() => {
     const processed = data.map(d => ({
@@ -39,16 +21,24 @@ const CandleChart: React.FC<Props> = ({ data }) => {
       vol: parseFloat(d.vol),
     }));
 
-    // Strategy uses EMA 21 and EMA 55
-    const ema21 = calculateEMA(processed, 21);
-    const ema55 = calculateEMA(processed, 55);
-
-    return processed.map((item, i) => ({
-      ...item,
-      ema21: ema21[i],
-      ema55: ema55[i],
-      isUp: item.c >= item.o
-    }));
+    // Strategy uses EMA 21 and EMA 55; the rest feed the tooltip and the Bollinger overlay
+    const indicators = calculateIndicatorSeries(data);
+
+    return processed.map((item, i) => {
+      const ind = indicators[i];
+      return {
+        ...item,
+        ema21: ind.ema21,
+        ema55: ind.ema55,
+        bbUpper: ind.bollinger?.upper,
+        bbLower: ind.bollinger?.lower,
+        rsi: ind.rsi,
+        macdHist: ind.macd?.histogram,
+        atr: ind.atr,
+        adx: ind.adx?.adx,
+        isUp: item.c >= item.o
+      };
+    });
   }, [data]);
 
   const yDomain = useMemo(() => {
@@ -173,6 +163,22 @@ const CandleChart: React.FC<Props> = ({ data }) => {
                                 <span className="text-purple-500">EMA55</span>
                                 <span>{data.ema55?.toFixed(1)}</span>
                             </div>
+                            <div className="flex justify-between gap-4 mt-1 pt-1 border-t border-gray-800">
+                                <span className="text-gray-500">RSI</span>
+                                <span>{data.rsi?.toFixed(1) ?? '-'}</span>
+                            </div>
+                            <div className="flex justify-between gap-4">
+                                <span className="text-gray-500">MACD</span>
+                                <span className={data.macdHist === undefined ? '' : data.macdHist >= 0 ? 'text-[#00C076]' : 'text-[#FF4D4F]'}>{data.macdHist?.toFixed(2) ?? '-'}</span>
+                            </div>
+                            <div className="flex justify-between gap-4">
+                                <span className="text-gray-500">ATR</span>
+                                <span>{data.atr?.toFixed(2) ?? '-'}</span>
+                            </div>
+                            <div className="flex justify-between gap-4">
+                                <span className="text-gray-500">ADX</span>
+                                <span>{data.adx?.toFixed(1) ?? '-'}</span>
+                            </div>
                         </div>
                     );
                 }
@@ -193,6 +199,10 @@ const CandleChart: React.FC<Props> = ({ data }) => {
           {/* EMA 55 (Purple) */}
           <Line type="monotone" dataKey="ema55" stroke="#a855f7" strokeWidth={1} dot={false} isAnimationActive={false} />
 
+          {/* Bollinger Bands (20, 2) */}
+          <Line type="monotone" dataKey="bbUpper" stroke="#38bdf8" strokeWidth={1} strokeDasharray="2 2" strokeOpacity={0.5} dot={false} isAnimationActive={false} />
+          <Line type="monotone" dataKey="bbLower" stroke="#38bdf8" strokeWidth={1} strokeDasharray="2 2" strokeOpacity={0.5} dot={false} isAnimationActive={false} />
+
           {/* Current Price Line */}
           <ReferenceLine y={lastPrice} stroke="rgba(255, 255, 255, 0.4)" strokeDasharray="3 3" label={{ position: 'right',  value: lastPrice, fill: 'white', fontSize: 10 }} />
 
@@ -56,6 +56,43 @@ const DecisionReport: React.FC<Props> = ({ decision }) => {
             </div>
         </div>
 
+        {decision.sizing && (
+            <div className="p-3 bg-gray-900/50 border border-okx-border rounded space-y-1">
+                <div className="font-bold text-gray-200">仓位计算 ({decision.sizing.mode})</div>
+                <div>{decision.sizing.contracts} 张, 保证金 {decision.sizing.marginRequired.toFixed(2)} U, 止损 {decision.sizing.stopPrice || '-'} (距离 {decision.sizing.stopDistancePct.toFixed(2)}%)</div>
+                <div className={decision.sizing.riskPct > decision.sizing.targetRiskPct + 0.01 ? 'text-yellow-300' : ''}>
+                    止损处亏损 {decision.sizing.riskAmount.toFixed(2)} U = {decision.sizing.riskPct.toFixed(2)}% 权益 (目标 {decision.sizing.targetRiskPct.toFixed(2)}%)
+                </div>
+                {decision.sizing.notes.map((n, i) => <div key={i} className="text-gray-500">{n}</div>)}
+            </div>
+        )}
+
+        {decision.vetoReason && (
+            <div className="p-3 bg-yellow-900/10 border border-yellow-500/20 rounded text-yellow-300">
+                AI 否决: {decision.vetoReason}
+            </div>
+        )}
+
+        {decision.riskCheck && !decision.riskCheck.allowed && (
+            <div className="p-3 bg-red-900/10 border border-red-500/20 rounded text-red-300 space-y-1">
+                <div className="font-bold">风控拦截 (订单未执行)</div>
+                {decision.riskCheck.violations.map(v => (
+                    <div key={v.code}>[{v.code}] {v.message}</div>
+                ))}
+            </div>
+        )}
+
+        {decision.validation && decision.validation.failures.length > 0 && (
+            <div className={`p-3 rounded space-y-1 border ${decision.validation.valid ? 'bg-yellow-900/10 border-yellow-500/20 text-yellow-300' : 'bg-red-900/10 border-red-500/20 text-red-300'}`}>
+                <div className="font-bold">
+                    AI 输出校验 {decision.validation.valid ? `(第 ${decision.validation.attempts} 次修正后通过)` : `(${decision.validation.attempts} 次均未通过, 已强制 HOLD)`}
+                </div>
+                {decision.validation.failures.map(f => (
+                    <div key={f.attempt}>第 {f.attempt} 次: {f.errors.join('; ')}</div>
+                ))}
+            </div>
+        )}
+
         <div className="space-y-2">
             <h4 className="flex items-center gap-2 text-red-400 font-bold uppercase tracking-wider text-xs">
                 <AlertCircle size={14}/> 06. 策略失效条件
@@ -0,0 +1,85 @@
+
+import React from 'react';
+import { OrderBook, TradeData } from '../types';
+import { BookOpen } from 'lucide-react';
+import { calculateOrderFlowMetrics } from '../services/orderFlowService';
+
+interface Props {
+  orderbook: OrderBook | null;
+  trades: TradeData[];
+  ctVal: number;
+}
+
+const LADDER_LEVELS = 6;
+
+const fmtU = (v: number) => v >= 1e6 ? `${(v / 1e6).toFixed(2)}M` : v >= 1e3 ? `${(v / 1e3).toFixed(1)}K` : v.toFixed(0);
+
+const DepthPanel: React.FC<Props> = ({ orderbook, trades, ctVal }) => {
+  const metrics = calculateOrderFlowMetrics(orderbook, trades, ctVal);
+
+  if (!orderbook || !metrics) {
+    return (
+      <div className="p-4 text-xs text-okx-subtext opacity-50 text-center">等待盘口数据...</div>
+    );
+  }
+
+  const asks = orderbook.asks.slice(0, LADDER_LEVELS).reverse();
+  const bids = orderbook.bids.slice(0, LADDER_LEVELS);
+  const maxSz = Math.max(...asks.concat(bids).map(l => parseFloat(l.sz)), 1);
+  const bidShare = metrics.bidDepth + metrics.askDepth > 0 ? (metrics.bidDepth / (metrics.bidDepth + metrics.askDepth)) * 100 : 50;
+
+  const renderLevel = (level: { px: string; sz: string }, side: 'ask' | 'bid') => (
+    <div key={side + level.px} className="relative flex justify-between px-2 py-0.5">
+      <div
+        className={`absolute inset-y-0 right-0 ${side === 'ask' ? 'bg-okx-down/10' : 'bg-okx-up/10'}`}
+        style={{ width: `${(parseFloat(level.sz) / maxSz) * 100}%` }}
+      ></div>
+      <span className={`relative ${side === 'ask' ? 'text-okx-down' : 'text-okx-up'}`}>{level.px}</span>
+      <span className="relative text-gray-400">{level.sz}</span>
+    </div>
+  );
+
+  return (
+    <div className="grid grid-cols-2 gap-3 p-3 text-[11px] font-mono">
+      {/* Ladder */}
+      <div className="bg-black/20 rounded border border-gray-800 py-1">
+        {asks.map(l => renderLevel(l, 'ask'))}
+        <div className="px-2 py-1 text-center text-okx-subtext border-y border-gray-800 my-0.5">
+          价差 {metrics.spreadBps.toFixed(2)} bps
+        </div>
+        {bids.map(l => renderLevel(l, 'bid'))}
+      </div>
+
+      {/* Metrics */}
+      <div className="space-y-2">
+        <div>
+          <div className="text-okx-subtext mb-1">±0.5% 深度 (U)</div>
+          <div className="flex justify-between">
+            <span className="text-okx-up">{fmtU(metrics.bidDepth)}</span>
+            <span className="text-okx-down">{fmtU(metrics.askDepth)}</span>
+          </div>
+          <div className="h-1.5 bg-okx-down/60 rounded overflow-hidden mt-1">
+            <div className="h-full bg-okx-up" style={{ width: `${bidShare}%` }}></div>
+          </div>
+          <div className={`mt-1 ${metrics.imbalance >= 0 ? 'text-okx-up' : 'text-okx-down'}`}>
+            失衡 {(metrics.imbalance * 100).toFixed(1)}%
+          </div>
+        </div>
+
+        <div className="space-y-1">
+          <div className="text-okx-subtext">主动买 / 卖 (U)</div>
+          {metrics.takerWindows.map(w => (
+            <div key={w.label} className="flex justify-between">
+              <span className="text-gray-500 w-8">{w.label}</span>
+              <span className="text-okx-up">{fmtU(w.buyVol)}</span>
+              <span className="text-okx-down">{fmtU(w.sellVol)}</span>
+            </div>
+          ))}
+          <div className="text-[10px] text-gray-600">样本覆盖 {(metrics.tradeCoverageMs / 1000).toFixed(0)}s</div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DepthPanel;
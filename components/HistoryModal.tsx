@@ -3,13 +3,15 @@ import React, { useEffect, useState } from 'react';
 import { AIDecision } from '../types';
 import { X, Clock, Zap, RefreshCw, ChevronRight } from 'lucide-react';
 import DecisionReport from './DecisionReport';
+import { apiFetch } from '../services/apiClient';
 
 interface Props {
   isOpen: boolean;
   onClose: () => void;
+  instId?: string;
 }
 
-const HistoryModal: React.FC<Props> = ({ isOpen, onClose }) => {
+const HistoryModal: React.FC<Props> = ({ isOpen, onClose, instId }) => {
   const [activeTab, setActiveTab] = useState<'recent' | 'actions'>('recent');
   const [data, setData] = useState<{ recent: AIDecision[], actions: AIDecision[] }>({ recent: [], actions: [] });
   const [selectedDecision, setSelectedDecision] = useState<AIDecision | null>(null);
@@ -19,12 +21,12 @@ const HistoryModal: React.FC<Props> = ({ isOpen, onClose }) => {
     if (isOpen) {
         fetchHistory();
     }
-  }, [isOpen]);
+  }, [isOpen, instId]);
 
   const fetchHistory = async () => {
     setLoading(true);
     try {
-        const res = await fetch('/api/history');
+        const res = await apiFetch(instId ? `/api/history?instId=${encodeURIComponent(instId)}` : '/api/history');
         const json = await res.json();
         setData(json);
         // Select first item by default if nothing selected
@@ -50,6 +52,7 @@ const HistoryModal: React.FC<Props> = ({ isOpen, onClose }) => {
           <h3 className="text-lg font-bold text-white flex items-center gap-2">
             <Clock size={20} className="text-okx-primary"/> 
             云端战神历史回溯
+            {instId && <span className="text-xs font-mono font-normal text-okx-subtext px-2 py-0.5 bg-okx-border rounded-full">{instId}</span>}
           </h3>
           <div className="flex items-center gap-4">
             <button onClick={fetchHistory} className="text-okx-subtext hover:text-white transition-colors" title="刷新">
@@ -0,0 +1,185 @@
+
+import React, { useEffect, useState } from 'react';
+import { TradeRecord } from '../types';
+import { X, BookMarked, RefreshCw, ChevronRight } from 'lucide-react';
+import { apiFetch } from '../services/apiClient';
+
+interface Props {
+  isOpen: boolean;
+  onClose: () => void;
+  instId?: string;
+}
+
+const LEG_LABELS: Record<TradeRecord['legs'][number]['type'], string> = {
+  OPEN: '开仓',
+  ADD: '加仓',
+  REDUCE: '减仓',
+  CLOSE: '平仓',
+};
+
+const fmtU = (v: number) => `${v >= 0 ? '+' : ''}${v.toFixed(4)}`;
+const fmtHold = (ms: number) => {
+  const mins = Math.floor(ms / 60000);
+  return mins >= 60 ? `${Math.floor(mins / 60)}h ${mins % 60}m` : `${mins}m`;
+};
+
+const JournalModal: React.FC<Props> = ({ isOpen, onClose, instId }) => {
+  const [trades, setTrades] = useState<TradeRecord[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (isOpen) fetchJournal();
+  }, [isOpen, instId]);
+
+  const fetchJournal = async () => {
+    setLoading(true);
+    try {
+      const res = await apiFetch(instId ? `/api/journal?instId=${encodeURIComponent(instId)}` : '/api/journal');
+      const json = await res.json();
+      const list: TradeRecord[] = json.trades || [];
+      setTrades(list);
+      if (!list.some(t => t.id === selectedId)) setSelectedId(list[0]?.id || null);
+    } catch (e) {
+      console.error("Failed to fetch journal", e);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  const selected = trades.find(t => t.id === selectedId) || null;
+  const closed = trades.filter(t => t.status === 'CLOSED');
+  const wins = closed.filter(t => t.netPnl > 0).length;
+  const totalNet = closed.reduce((sum, t) => sum + t.netPnl, 0);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/80 backdrop-blur-sm animate-in fade-in duration-200">
+      <div className="bg-okx-card w-full max-w-6xl h-[85vh] rounded-xl border border-okx-border shadow-2xl flex flex-col overflow-hidden">
+
+        {/* Header */}
+        <div className="p-4 border-b border-okx-border flex justify-between items-center bg-okx-card shrink-0">
+          <h3 className="text-lg font-bold text-white flex items-center gap-2">
+            <BookMarked size={20} className="text-okx-primary"/>
+            交易日志
+            {instId && <span className="text-xs font-mono font-normal text-okx-subtext px-2 py-0.5 bg-okx-border rounded-full">{instId}</span>}
+          </h3>
+          <div className="flex items-center gap-4">
+            <div className="text-xs font-mono text-okx-subtext hidden sm:block">
+              {closed.length} 回合 · 胜率 {closed.length > 0 ? ((wins / closed.length) * 100).toFixed(0) : '--'}% · 净盈亏 <span className={totalNet >= 0 ? 'text-okx-up' : 'text-okx-down'}>{fmtU(totalNet)} U</span>
+            </div>
+            <button onClick={fetchJournal} className="text-okx-subtext hover:text-white transition-colors" title="刷新">
+              <RefreshCw size={18} className={loading ? "animate-spin" : ""} />
+            </button>
+            <button onClick={onClose} className="text-okx-subtext hover:text-white transition-colors">
+              <X size={24} />
+            </button>
+          </div>
+        </div>
+
+        {/* Body */}
+        <div className="flex flex-1 overflow-hidden">
+          {/* Trade List */}
+          <div className="w-1/3 min-w-[300px] border-r border-okx-border flex flex-col bg-[#121214] overflow-y-auto custom-scrollbar">
+            {trades.length === 0 ? (
+              <div className="p-8 text-center text-okx-subtext text-xs">暂无交易记录</div>
+            ) : (
+              trades.map(t => (
+                <button
+                  key={t.id}
+                  onClick={() => setSelectedId(t.id)}
+                  className={`w-full text-left p-4 border-b border-gray-800/50 hover:bg-white/5 transition-colors flex items-center justify-between group ${selectedId === t.id ? 'bg-white/5 border-l-2 border-l-okx-primary' : 'border-l-2 border-l-transparent'}`}
+                >
+                  <div>
+                    <div className="flex items-center gap-2 mb-1">
+                      <span className={`text-xs font-bold px-1.5 py-0.5 rounded ${t.posSide === 'long' ? 'bg-green-500/20 text-green-400' : 'bg-red-500/20 text-red-400'}`}>
+                        {t.posSide.toUpperCase()}
+                      </span>
+                      {t.status === 'OPEN' && <span className="text-[10px] px-1.5 py-0.5 rounded bg-blue-500/20 text-blue-400">持仓中</span>}
+                      <span className="text-xs text-okx-subtext font-mono">{new Date(t.openedAt).toLocaleString()}</span>
+                    </div>
+                    <div className="text-xs text-gray-400 font-mono">
+                      {t.instId} · {t.legs.length} 笔 · {fmtHold(t.holdMs)}
+                    </div>
+                  </div>
+                  <div className="text-right">
+                    <div className={`text-xs font-bold font-mono ${t.netPnl >= 0 ? 'text-okx-up' : 'text-okx-down'}`}>{fmtU(t.netPnl)}</div>
+                    <ChevronRight size={14} className={`text-gray-600 mt-1 ml-auto group-hover:text-white transition-colors ${selectedId === t.id ? 'text-okx-primary' : ''}`} />
+                  </div>
+                </button>
+              ))
+            )}
+          </div>
+
+          {/* Trade Detail */}
+          <div className="flex-1 overflow-y-auto custom-scrollbar p-6">
+            {selected ? (
+              <div className="space-y-6">
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-3 text-xs font-mono">
+                  {[
+                    ['开仓均价', selected.entryAvgPx.toFixed(4)],
+                    ['平仓均价', selected.exitAvgPx !== null ? selected.exitAvgPx.toFixed(4) : '--'],
+                    ['最大持仓', `${selected.maxSize} 张`],
+                    ['持仓时长', fmtHold(selected.holdMs)],
+                    ['毛盈亏', `${fmtU(selected.grossPnl)} U`],
+                    ['手续费', `${(-selected.fees).toFixed(4)} U`],
+                    ['资金费', `${fmtU(selected.funding)} U`],
+                    ['净盈亏', `${fmtU(selected.netPnl)} U`],
+                    ['MAE', selected.mae !== null ? `-${selected.mae.toFixed(2)}%` : '--'],
+                    ['MFE', selected.mfe !== null ? `+${selected.mfe.toFixed(2)}%` : '--'],
+                  ].map(([label, value]) => (
+                    <div key={label} className="bg-okx-bg rounded p-3 border border-okx-border">
+                      <div className="text-okx-subtext mb-1">{label}</div>
+                      <div className="text-white font-bold">{value}</div>
+                    </div>
+                  ))}
+                </div>
+
+                <div>
+                  <div className="text-xs font-bold text-okx-subtext uppercase tracking-wider mb-2">成交明细</div>
+                  <div className="space-y-2">
+                    {selected.legs.map(leg => (
+                      <div key={leg.ordId + leg.ts} className="bg-okx-bg rounded p-3 border border-okx-border text-xs">
+                        <div className="flex justify-between font-mono">
+                          <span className="flex items-center gap-2">
+                            <span className="font-bold text-white">{LEG_LABELS[leg.type]}</span>
+                            <span className="text-gray-500">{new Date(leg.ts).toLocaleString()}</span>
+                          </span>
+                          <span className="text-gray-300">
+                            {leg.sz} 张 @ {leg.px.toFixed(4)} · 手续费 {leg.fee.toFixed(4)}
+                            {leg.pnl !== 0 && <span className={`ml-2 ${leg.pnl >= 0 ? 'text-okx-up' : 'text-okx-down'}`}>{fmtU(leg.pnl)}</span>}
+                          </span>
+                        </div>
+                        <div className="mt-1 text-gray-400">
+                          {leg.decision ? (
+                            <>
+                              <span className="text-okx-primary">{leg.decision.action}</span>
+                              <span className="text-gray-600"> · {new Date(leg.decision.ts).toLocaleTimeString()}{leg.decision.source ? ` · ${leg.decision.source}` : ''}</span>
+                              {leg.decision.summary && <div className="mt-1 text-gray-500">{leg.decision.summary}</div>}
+                            </>
+                          ) : (
+                            <span className="text-gray-600">交易所触发 (止盈/止损/强平) 或非机器人订单</span>
+                          )}
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              </div>
+            ) : (
+              <div className="flex items-center justify-center h-full text-okx-subtext">
+                <div className="text-center">
+                  <BookMarked size={48} className="mx-auto mb-4 opacity-20"/>
+                  <p>请选择左侧交易查看详情</p>
+                </div>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default JournalModal;
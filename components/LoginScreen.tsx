@@ -0,0 +1,73 @@
+
+import React, { useState } from 'react';
+import { AuthUser } from '../types';
+import { Lock, AlertCircle } from 'lucide-react';
+import { login } from '../services/apiClient';
+
+interface Props {
+  onLogin: (user: AuthUser) => void;
+}
+
+const LoginScreen: React.FC<Props> = ({ onLogin }) => {
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState('');
+  const [loading, setLoading] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+    setError('');
+    try {
+      onLogin(await login(username, password));
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="h-screen bg-okx-bg text-okx-text font-sans flex items-center justify-center p-4">
+      <form onSubmit={handleSubmit} className="bg-okx-card border border-okx-border rounded-xl w-full max-w-sm shadow-2xl p-6 space-y-4">
+        <h1 className="font-bold text-lg tracking-tight flex items-center gap-2 text-white">
+          <Lock size={18} className="text-okx-primary"/> 10U 战神 登录
+        </h1>
+        <div>
+          <label className="block text-sm font-medium text-okx-subtext mb-1">用户名</label>
+          <input
+            type="text"
+            autoComplete="username"
+            value={username}
+            onChange={e => setUsername(e.target.value)}
+            className="w-full bg-okx-bg border border-okx-border rounded px-3 py-2 text-white focus:border-okx-primary focus:outline-none"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-okx-subtext mb-1">密码</label>
+          <input
+            type="password"
+            autoComplete="current-password"
+            value={password}
+            onChange={e => setPassword(e.target.value)}
+            className="w-full bg-okx-bg border border-okx-border rounded px-3 py-2 text-white focus:border-okx-primary focus:outline-none"
+          />
+        </div>
+        {error && (
+          <div className="text-xs text-red-400 flex items-center gap-1">
+            <AlertCircle size={14}/> {error}
+          </div>
+        )}
+        <button
+          type="submit"
+          disabled={loading || !username || !password}
+          className="w-full py-2 rounded-lg font-bold text-sm bg-okx-primary text-white hover:bg-okx-primary/90 disabled:opacity-50 transition-colors"
+        >
+          {loading ? '登录中...' : '登录'}
+        </button>
+      </form>
+    </div>
+  );
+};
+
+export default LoginScreen;
@@ -0,0 +1,92 @@
+
+import React from 'react';
+import { ReconciliationReport, TrackedOrder } from '../types';
+
+interface Props {
+  orders: TrackedOrder[];
+  reconciliation: ReconciliationReport | null;
+  instId: string;
+}
+
+const STATUS_STYLES: Record<TrackedOrder['status'], string> = {
+  PENDING: 'text-yellow-500',
+  PARTIALLY_FILLED: 'text-yellow-400',
+  FILLED: 'text-okx-up',
+  CANCELED: 'text-gray-500',
+  TIMEOUT: 'text-okx-down',
+};
+
+const STATUS_LABELS: Record<TrackedOrder['status'], string> = {
+  PENDING: '待成交',
+  PARTIALLY_FILLED: '部分成交',
+  FILLED: '已成交',
+  CANCELED: '已撤销',
+  TIMEOUT: '超时',
+};
+
+const OrdersPanel: React.FC<Props> = ({ orders, reconciliation, instId }) => {
+  const drifts = (reconciliation?.drifts || []).filter(d => d.instId === instId && !d.explained);
+
+  return (
+    <div className="text-[11px] font-mono">
+      {drifts.length > 0 && (
+        <div className="mx-3 mt-3 p-2 rounded border border-yellow-500/30 bg-yellow-500/10 text-yellow-400 space-y-0.5">
+          {drifts.slice(0, 3).map(d => (
+            <div key={d.posSide + d.detectedAt}>
+              {new Date(d.detectedAt).toLocaleTimeString()} {d.posSide.toUpperCase()} 预期 {d.expected} 张, 实际 {d.actual} 张
+            </div>
+          ))}
+        </div>
+      )}
+
+      {orders.length === 0 ? (
+        <div className="p-4 text-xs text-okx-subtext opacity-50 text-center">暂无机器人订单</div>
+      ) : (
+        <table className="w-full">
+          <thead className="text-okx-subtext text-[10px]">
+            <tr className="border-b border-okx-border">
+              <th className="text-left px-3 py-1.5 font-normal">时间 / 方向</th>
+              <th className="text-right px-2 py-1.5 font-normal">成交</th>
+              <th className="text-right px-2 py-1.5 font-normal">均价 / 滑点</th>
+              <th className="text-right px-3 py-1.5 font-normal">手续费 / 止损</th>
+            </tr>
+          </thead>
+          <tbody>
+            {orders.map(o => (
+              <tr key={o.ordId} className="border-b border-white/5 last:border-0">
+                <td className="px-3 py-1.5">
+                  <div className="text-gray-500">{new Date(o.placedAt).toLocaleTimeString()}</div>
+                  <div className={o.side === 'buy' ? 'text-okx-up' : 'text-okx-down'}>
+                    {o.action} {o.posSide.toUpperCase()}
+                  </div>
+                </td>
+                <td className="text-right px-2 py-1.5">
+                  <div className="text-gray-300">{o.filledSz}/{o.requestedSz}</div>
+                  <div className={STATUS_STYLES[o.status]}>{STATUS_LABELS[o.status]}</div>
+                </td>
+                <td className="text-right px-2 py-1.5">
+                  <div className="text-gray-300">{o.avgFillPx ?? '--'}</div>
+                  <div className={o.slippageBps !== null && o.slippageBps > 0 ? 'text-okx-down' : 'text-gray-500'}>
+                    {o.slippageBps !== null ? `${o.slippageBps >= 0 ? '+' : ''}${o.slippageBps.toFixed(1)} bps` : '--'}
+                  </div>
+                </td>
+                <td className="text-right px-3 py-1.5">
+                  <div className="text-gray-300">{o.fee !== null ? o.fee.toFixed(4) : '--'}</div>
+                  <div className={
+                    !o.protection.requested ? 'text-gray-600' :
+                    o.protection.confirmed === true ? 'text-okx-up' :
+                    o.protection.confirmed === false ? 'text-okx-down' : 'text-gray-500'
+                  }>
+                    {!o.protection.requested ? '无' : o.protection.confirmed === true ? 'TP/SL ✓' : o.protection.confirmed === false ? 'TP/SL 缺失' : 'TP/SL ...'}
+                  </div>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+};
+
+export default OrdersPanel;
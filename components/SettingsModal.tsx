@@ -1,39 +1,103 @@
 
-import React, { useState } from 'react';
-import { AppConfig } from '../types';
-import { X, Save, AlertTriangle, Activity, CheckCircle, AlertCircle } from 'lucide-react';
-import { testConnection } from '../services/aiService';
+import React, { useEffect, useState } from 'react';
+import { AppConfig, LLMProviderKind, NotificationConfig, SizingMode, TrailMode, NotifyChannelKind, NotifyEventType, SecretName, SecretVaultStatus } from '../types';
+import { X, Save, AlertTriangle, Activity, CheckCircle, AlertCircle, KeyRound, Bell, Send } from 'lucide-react';
+import { SUPPORTED_INSTRUMENTS, LLM_PROVIDER_DEFAULTS, LLM_KEY_FIELDS, MAX_TAKE_PROFIT_LEVELS } from '../constants';
+import { INDICATOR_NAMES } from '../services/indicators';
+import { apiFetch } from '../services/apiClient';
 
 interface Props {
   isOpen: boolean;
   onClose: () => void;
   config: AppConfig;
+  secrets: SecretVaultStatus | null;
   onSave: (cfg: AppConfig) => void;
 }
 
-const SettingsModal: React.FC<Props> = ({ isOpen, onClose, config, onSave }) => {
+const SOURCE_LABELS = { env: '环境变量', vault: '加密密钥库', memory: '仅内存' };
+
+const PROVIDER_LABELS: Record<LLMProviderKind, string> = {
+  DEEPSEEK: 'DeepSeek',
+  GEMINI: 'Google Gemini',
+  OPENAI_COMPATIBLE: 'OpenAI 兼容接口 (llama.cpp / Ollama 等)',
+  FAKE: '脚本模型 (离线测试, 固定 HOLD)',
+};
+
+const CHANNEL_LABELS: Record<NotifyChannelKind, string> = { telegram: 'Telegram Bot', webhook: 'Webhook', email: '邮件 (SMTP)' };
+const EVENT_LABELS: Record<NotifyEventType, string> = { TRADE: '交易', ERROR: '错误', WARNING: '警告' };
+
+const SettingsModal: React.FC<Props> = ({ isOpen, onClose, config, secrets, onSave }) => {
   const [localConfig, setLocalConfig] = useState<AppConfig>(config);
   const [testStatus, setTestStatus] = useState<'idle' | 'loading' | 'success' | 'error'>('idle');
   const [testMsg, setTestMsg] = useState('');
+  const [notifyTest, setNotifyTest] = useState<Partial<Record<NotifyChannelKind, { ok: boolean | null; msg: string }>>>({});
+
+  // Start from the server copy each time; secret fields arrive blank
+  useEffect(() => {
+    if (isOpen) setLocalConfig(config);
+  }, [isOpen]);
 
   if (!isOpen) return null;
 
+  // Blank input keeps the loaded key; the placeholder shows which one is loaded
+  const secretPlaceholder = (name: SecretName, fallback = '') => {
+    const info = secrets?.keys[name];
+    return info ? `已加载 ${info.fingerprint} (${SOURCE_LABELS[info.source]}) · 留空保持不变` : fallback || '未设置';
+  };
+
+  const llm = localConfig.llm;
+  const keyField = LLM_KEY_FIELDS[llm.provider];
+
   const handleTestConnection = async () => {
     setTestStatus('loading');
-    setTestMsg('正在连接 DeepSeek API...');
+    setTestMsg(`正在连接 ${PROVIDER_LABELS[llm.provider]}...`);
     try {
-      const res = await testConnection(localConfig.deepseekApiKey);
+      const res = await apiFetch('/api/ai/test', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ llm, apiKey: keyField ? localConfig[keyField] : '' }),
+      });
+      const data = await res.json();
+      if (!res.ok || !data.success) throw new Error(data.error || `HTTP ${res.status}`);
       setTestStatus('success');
-      setTestMsg(`连接成功! 响应: ${res.substring(0, 20)}...`);
+      setTestMsg(`连接成功 (${data.model})! 响应: ${String(data.response).substring(0, 20)}...`);
     } catch (e: any) {
       setTestStatus('error');
       setTestMsg(`连接失败: ${e.message}`);
     }
   };
 
+  const notifications = localConfig.notifications;
+  const setChannel = <K extends NotifyChannelKind>(kind: K, patch: Partial<NotificationConfig[K]>) =>
+    setLocalConfig({ ...localConfig, notifications: { ...notifications, [kind]: { ...notifications[kind], ...patch } } });
+
+  const handleTestNotify = async (channel: NotifyChannelKind) => {
+    setNotifyTest(prev => ({ ...prev, [channel]: { ok: null, msg: '发送中...' } }));
+    try {
+      const res = await apiFetch('/api/notify/test', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ channel, notifications, telegramBotToken: localConfig.telegramBotToken, smtpPassword: localConfig.smtpPassword }),
+      });
+      const data = await res.json();
+      if (!res.ok || !data.success) throw new Error(data.error || `HTTP ${res.status}`);
+      setNotifyTest(prev => ({ ...prev, [channel]: { ok: true, msg: '测试消息已发送' } }));
+    } catch (e: any) {
+      setNotifyTest(prev => ({ ...prev, [channel]: { ok: false, msg: `发送失败: ${e.message}` } }));
+    }
+  };
+
+  const inputClass = "w-full bg-okx-bg border border-okx-border rounded px-3 py-2 text-white focus:outline-none focus:border-okx-primary";
+
+  // Switching provider resets model/base URL to that provider's defaults
+  const setProvider = (provider: LLMProviderKind) => {
+    setTestStatus('idle');
+    setLocalConfig({ ...localConfig, llm: { ...llm, provider, model: LLM_PROVIDER_DEFAULTS[provider].model, baseUrl: LLM_PROVIDER_DEFAULTS[provider].baseUrl } });
+  };
+
   return (
     <div className="fixed inset-0 bg-black/80 flex items-center justify-center z-50 p-4 backdrop-blur-sm">
-      <div className="bg-okx-card border border-okx-border rounded-xl w-full max-w-lg shadow-2xl">
+      <div className="bg-okx-card border border-okx-border rounded-xl w-full max-w-lg shadow-2xl max-h-[90vh] flex flex-col">
         <div className="flex justify-between items-center p-6 border-b border-okx-border">
           <h2 className="text-xl font-bold text-white flex items-center gap-2">
             系统设置
@@ -43,7 +107,7 @@ const SettingsModal: React.FC<Props> = ({ isOpen, onClose, config, onSave }) =>
           </button>
         </div>
 
-        <div className="p-6 space-y-6">
+        <div className="p-6 space-y-6 overflow-y-auto custom-scrollbar">
           {/* Simulation Toggle */}
           <div className="flex items-center justify-between bg-okx-bg p-4 rounded-lg border border-okx-border">
             <div>
@@ -61,24 +125,444 @@ const SettingsModal: React.FC<Props> = ({ isOpen, onClose, config, onSave }) =>
             </label>
           </div>
 
-          {/* DeepSeek Key */}
+          {/* Paper Price Source */}
+          {localConfig.isSimulation && (
+            <div className="space-y-2">
+              <label className="block text-sm font-medium text-okx-subtext">模拟盘价格来源</label>
+              <select
+                className="w-full bg-okx-bg border border-okx-border rounded px-3 py-2 text-white focus:outline-none focus:border-okx-primary"
+                value={localConfig.paperPriceSource}
+                onChange={e => setLocalConfig({...localConfig, paperPriceSource: e.target.value as AppConfig['paperPriceSource']})}
+              >
+                <option value="MOCK">本地随机行情</option>
+                <option value="LIVE">OKX 实时公共行情 (无需 API Key)</option>
+              </select>
+            </div>
+          )}
+
+          {/* Decision Engine */}
+          <div className="space-y-2">
+            <label className="block text-sm font-medium text-okx-subtext">决策引擎 (Decision Engine)</label>
+            <select
+              className="w-full bg-okx-bg border border-okx-border rounded px-3 py-2 text-white focus:outline-none focus:border-okx-primary"
+              value={localConfig.decisionMode}
+              onChange={e => setLocalConfig({...localConfig, decisionMode: e.target.value as AppConfig['decisionMode']})}
+            >
+              <option value="AI">AI 决策 (LLM)</option>
+              <option value="RULE">规则引擎 (确定性, 无网络调用)</option>
+              <option value="AI_VETO">规则引擎 + AI 否决 (AI 仅可降级为 HOLD)</option>
+            </select>
+          </div>
+
+          {/* Lower-Timeframe Entry Refinement */}
+          <div className="space-y-2">
+            <label className="block text-sm font-medium text-okx-subtext">低周期入场确认 (4H 开仓信号需 15m 趋势同向且 3m 结构配合)</label>
+            <div className="flex flex-wrap gap-3">
+              {([['AI', 'AI 决策'], ['RULE', '规则引擎'], ['AI_VETO', '规则引擎 + AI 否决']] as const).map(([mode, label]) => (
+                <label key={mode} className="flex items-center gap-2 text-xs text-okx-subtext">
+                  <input
+                    type="checkbox"
+                    checked={localConfig.multiTimeframe?.refineEntry?.[mode] ?? false}
+                    onChange={e => setLocalConfig({...localConfig, multiTimeframe: {...localConfig.multiTimeframe, refineEntry: {...localConfig.multiTimeframe?.refineEntry, [mode]: e.target.checked}}})}
+                  />
+                  {label}
+                </label>
+              ))}
+            </div>
+          </div>
+
+          {/* Prompt Indicators */}
+          <div className="space-y-2">
+            <label className="block text-sm font-medium text-okx-subtext">提示词附加指标 (4H, 用于 AI 决策与 AI 否决, 仅作参考)</label>
+            <div className="flex flex-wrap gap-3">
+              {INDICATOR_NAMES.map(({ name, label }) => {
+                const selected = localConfig.indicators?.prompt || [];
+                return (
+                  <label key={name} className="flex items-center gap-2 text-xs text-okx-subtext">
+                    <input
+                      type="checkbox"
+                      checked={selected.includes(name)}
+                      onChange={e => setLocalConfig({...localConfig, indicators: {...localConfig.indicators, prompt: e.target.checked ? [...selected, name] : selected.filter(n => n !== name)}})}
+                    />
+                    {label}
+                  </label>
+                );
+              })}
+            </div>
+          </div>
+
+          {/* Market Feed */}
+          <div className="space-y-2">
+            <label className="block text-sm font-medium text-okx-subtext">行情数据源 (仅实盘生效)</label>
+            <select
+              className="w-full bg-okx-bg border border-okx-border rounded px-3 py-2 text-white focus:outline-none focus:border-okx-primary"
+              value={localConfig.marketFeed}
+              onChange={e => setLocalConfig({...localConfig, marketFeed: e.target.value as AppConfig['marketFeed']})}
+            >
+              <option value="WS">WebSocket 推送 (断线自动回退 REST)</option>
+              <option value="REST">REST 轮询 (每 5 秒)</option>
+            </select>
+          </div>
+
+          {/* Margin & Position Mode */}
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <label className="block text-sm font-medium text-okx-subtext">保证金模式</label>
+              <select
+                className="w-full bg-okx-bg border border-okx-border rounded px-3 py-2 text-white focus:outline-none focus:border-okx-primary"
+                value={localConfig.marginMode}
+                onChange={e => setLocalConfig({...localConfig, marginMode: e.target.value as AppConfig['marginMode']})}
+              >
+                <option value="isolated">逐仓 (isolated)</option>
+                <option value="cross">全仓 (cross)</option>
+              </select>
+            </div>
+            <div className="space-y-2">
+              <label className="block text-sm font-medium text-okx-subtext">持仓模式</label>
+              <select
+                className="w-full bg-okx-bg border border-okx-border rounded px-3 py-2 text-white focus:outline-none focus:border-okx-primary"
+                value={localConfig.positionMode}
+                onChange={e => setLocalConfig({...localConfig, positionMode: e.target.value as AppConfig['positionMode']})}
+              >
+                <option value="long_short_mode">双向持仓 (long/short)</option>
+                <option value="net_mode">单向持仓 (net)</option>
+              </select>
+            </div>
+            <div className="col-span-2 text-xs text-okx-subtext">下单前账户会被切换到所选持仓模式 (OKX 要求无持仓和挂单时才能切换)。模拟盘同样按所选模式成交。</div>
+          </div>
+
+          {/* Instruments */}
+          <div className="space-y-2">
+            <label className="block text-sm font-medium text-okx-subtext">交易品种 (每个品种独立运行策略)</label>
+            <div className="flex flex-wrap gap-2">
+              {SUPPORTED_INSTRUMENTS.map(instId => {
+                const selected = (localConfig.instruments || []).includes(instId);
+                return (
+                  <label key={instId} className={`flex items-center gap-2 px-3 py-1.5 rounded border text-xs font-mono cursor-pointer ${selected ? 'border-okx-primary text-white' : 'border-okx-border text-okx-subtext'}`}>
+                    <input
+                      type="checkbox"
+                      checked={selected}
+                      onChange={e => {
+                        const current = localConfig.instruments || [];
+                        const next = e.target.checked ? [...current, instId] : current.filter(i => i !== instId);
+                        // Keep at least one instrument
+                        if (next.length > 0) setLocalConfig({...localConfig, instruments: next});
+                      }}
+                    />
+                    {instId}
+                  </label>
+                );
+              })}
+            </div>
+          </div>
+
+          {/* Risk Limits */}
+          <div className="space-y-2">
+            <label className="block text-sm font-medium text-okx-subtext">下单前风控 (0 = 不限制)</label>
+            <div className="grid grid-cols-2 gap-2">
+              {([
+                ['maxLeverage', '最大杠杆 (x)'],
+                ['maxPositionNotional', '最大持仓名义价值 (U)'],
+                ['maxDailyLoss', '单日最大已实现亏损 (U)'],
+                ['maxConsecutiveLosses', '最大连续亏损 (笔)'],
+                ['minStopLiqDistancePct', '止损距强平最小距离 (%)'],
+              ] as const).map(([key, label]) => (
+                <label key={key} className="text-xs text-okx-subtext space-y-1">
+                  <span>{label}</span>
+                  <input
+                    type="number"
+                    min={0}
+                    step="any"
+                    className="w-full bg-okx-bg border border-okx-border rounded px-3 py-2 text-white focus:outline-none focus:border-okx-primary"
+                    value={localConfig.risk?.[key] ?? ''}
+                    onChange={e => setLocalConfig({...localConfig, risk: {...localConfig.risk, [key]: parseFloat(e.target.value) || 0}})}
+                  />
+                </label>
+              ))}
+              <label className="flex items-center gap-2 text-xs text-okx-subtext self-end pb-2">
+                <input
+                  type="checkbox"
+                  checked={localConfig.risk?.requireStopLoss ?? true}
+                  onChange={e => setLocalConfig({...localConfig, risk: {...localConfig.risk, requireStopLoss: e.target.checked}})}
+                />
+                开仓/加仓必须带止损
+              </label>
+            </div>
+          </div>
+
+          {/* Position Sizing */}
+          <div className="space-y-2">
+            <label className="block text-sm font-medium text-okx-subtext">开仓/滚仓仓位计算</label>
+            <select
+              className="w-full bg-okx-bg border border-okx-border rounded px-3 py-2 text-white focus:outline-none focus:border-okx-primary"
+              value={localConfig.sizing?.mode ?? 'FIXED'}
+              onChange={e => setLocalConfig({...localConfig, sizing: {...localConfig.sizing, mode: e.target.value as SizingMode}})}
+            >
+              <option value="FIXED">固定比例 (每笔保证金 = 权益 x 比例)</option>
+              <option value="RISK">止损风险 (止损处亏损 = 权益 x 风险比例)</option>
+              <option value="ATR">ATR 波动率 (按 N 倍 4H ATR 计算风险)</option>
+              <option value="KELLY">Kelly (按历史胜率/盈亏比决定风险比例)</option>
+            </select>
+            <div className="grid grid-cols-2 gap-2">
+              {([
+                ['fixedMarginPct', '固定保证金比例 (%)', 'FIXED'],
+                ['riskPct', '单笔风险比例 (%)', 'RISK'],
+                ['riskPct', '单笔风险比例 (%)', 'ATR'],
+                ['atrMultiple', 'ATR 倍数', 'ATR'],
+                ['kellyFraction', 'Kelly 系数 (0.5 = 半 Kelly)', 'KELLY'],
+                ['kellyWinRate', '默认胜率 (0-1, 历史不足时)', 'KELLY'],
+                ['kellyPayoff', '默认盈亏比 (历史不足时)', 'KELLY'],
+                ['maxRiskPct', '止损处最大亏损 (%, 所有模式)', null],
+              ] as const).filter(([, , mode]) => mode === null || mode === (localConfig.sizing?.mode ?? 'FIXED')).map(([key, label]) => (
+                <label key={key} className="text-xs text-okx-subtext space-y-1">
+                  <span>{label}</span>
+                  <input
+                    type="number"
+                    min={0}
+                    step="any"
+                    className="w-full bg-okx-bg border border-okx-border rounded px-3 py-2 text-white focus:outline-none focus:border-okx-primary"
+                    value={localConfig.sizing?.[key] ?? ''}
+                    onChange={e => setLocalConfig({...localConfig, sizing: {...localConfig.sizing, [key]: parseFloat(e.target.value) || 0}})}
+                  />
+                </label>
+              ))}
+            </div>
+          </div>
+
+          {/* Stop Manager */}
+          <div className="space-y-2">
+            <label className="flex items-center gap-2 text-sm font-medium text-okx-subtext">
+              <input
+                type="checkbox"
+                checked={localConfig.stopManager?.enabled ?? false}
+                onChange={e => setLocalConfig({...localConfig, stopManager: {...localConfig.stopManager, enabled: e.target.checked}})}
+              />
+              服务端止损管理 (每个循环检查, 止损只朝有利方向移动)
+            </label>
+            <div className="grid grid-cols-2 gap-2">
+              <label className="text-xs text-okx-subtext space-y-1">
+                <span>跟踪方式</span>
+                <select
+                  className="w-full bg-okx-bg border border-okx-border rounded px-3 py-2 text-white focus:outline-none focus:border-okx-primary"
+                  value={localConfig.stopManager?.trailMode ?? 'CANDLE'}
+                  onChange={e => setLocalConfig({...localConfig, stopManager: {...localConfig.stopManager, trailMode: e.target.value as TrailMode}})}
+                >
+                  <option value="OFF">不跟踪</option>
+                  <option value="CANDLE">前一根 4H K线低点/高点</option>
+                  <option value="ATR">N 倍 4H ATR</option>
+                </select>
+              </label>
+              {([
+                ['breakEvenRoePct', '保本触发净收益率 (%, 0 = 关闭)'],
+                ['trailActivationRoePct', '跟踪启动净收益率 (%)'],
+                ['trailAtrMultiple', 'ATR 倍数'],
+              ] as const).map(([key, label]) => (
+                <label key={key} className="text-xs text-okx-subtext space-y-1">
+                  <span>{label}</span>
+                  <input
+                    type="number"
+                    min={0}
+                    step="any"
+                    className="w-full bg-okx-bg border border-okx-border rounded px-3 py-2 text-white focus:outline-none focus:border-okx-primary"
+                    value={localConfig.stopManager?.[key] ?? ''}
+                    onChange={e => setLocalConfig({...localConfig, stopManager: {...localConfig.stopManager, [key]: parseFloat(e.target.value) || 0}})}
+                  />
+                </label>
+              ))}
+              <label className="flex items-center gap-2 text-xs text-okx-subtext">
+                <input
+                  type="checkbox"
+                  checked={localConfig.stopManager?.stepOnRoll ?? true}
+                  onChange={e => setLocalConfig({...localConfig, stopManager: {...localConfig.stopManager, stepOnRoll: e.target.checked}})}
+                />
+                滚仓后止损上移至滚仓前保本价
+              </label>
+              <label className="flex items-center gap-2 text-xs text-okx-subtext">
+                <input
+                  type="checkbox"
+                  checked={localConfig.stopManager?.nativeTrailing ?? true}
+                  onChange={e => setLocalConfig({...localConfig, stopManager: {...localConfig.stopManager, nativeTrailing: e.target.checked}})}
+                />
+                ATR 跟踪使用 OKX 原生移动止损
+              </label>
+            </div>
+          </div>
+
+          {/* Take-Profit Ladder */}
           <div className="space-y-2">
-            <label className="block text-sm font-medium text-okx-subtext">DeepSeek API Key (用于智能决策)</label>
+            <label className="flex items-center gap-2 text-sm font-medium text-okx-subtext">
+              <input
+                type="checkbox"
+                checked={localConfig.takeProfit?.enabled ?? false}
+                onChange={e => setLocalConfig({...localConfig, takeProfit: {...localConfig.takeProfit, enabled: e.target.checked}})}
+              />
+              分批止盈阶梯 (每档一个只减仓止盈单, 剩余仓位交给止损/跟踪止损)
+            </label>
+            {(localConfig.takeProfit?.levels || []).map((level, i) => (
+              <div key={i} className="grid grid-cols-[1fr_1fr_auto] gap-2 items-end">
+                {([
+                  ['rMultiple', '距离 (R 倍数)'],
+                  ['sizePct', '平仓比例 (%)'],
+                ] as const).map(([key, label]) => (
+                  <label key={key} className="text-xs text-okx-subtext space-y-1">
+                    <span>第 {i + 1} 档 {label}</span>
+                    <input
+                      type="number"
+                      min={0}
+                      step="any"
+                      className="w-full bg-okx-bg border border-okx-border rounded px-3 py-2 text-white focus:outline-none focus:border-okx-primary"
+                      value={level[key]}
+                      onChange={e => setLocalConfig({...localConfig, takeProfit: {...localConfig.takeProfit, levels: localConfig.takeProfit.levels.map((l, j) => j === i ? {...l, [key]: parseFloat(e.target.value) || 0} : l)}})}
+                    />
+                  </label>
+                ))}
+                <button
+                  type="button"
+                  className="px-2 py-2 text-xs text-okx-subtext hover:text-red-400"
+                  onClick={() => setLocalConfig({...localConfig, takeProfit: {...localConfig.takeProfit, levels: localConfig.takeProfit.levels.filter((_, j) => j !== i)}})}
+                >
+                  删除
+                </button>
+              </div>
+            ))}
+            {(localConfig.takeProfit?.levels || []).length < MAX_TAKE_PROFIT_LEVELS && (
+              <button
+                type="button"
+                className="text-xs text-okx-primary hover:underline"
+                onClick={() => {
+                  const levels = localConfig.takeProfit?.levels || [];
+                  const last = levels[levels.length - 1];
+                  setLocalConfig({...localConfig, takeProfit: {...localConfig.takeProfit, levels: [...levels, { rMultiple: last ? last.rMultiple + 1 : 1, sizePct: 30 }]}});
+                }}
+              >
+                + 添加一档
+              </button>
+            )}
+          </div>
+
+          {/* Rolling Executor */}
+          <div className="space-y-2">
+            <label className="flex items-center gap-2 text-sm font-medium text-okx-subtext">
+              <input
+                type="checkbox"
+                checked={localConfig.rolling?.enabled ?? false}
+                onChange={e => setLocalConfig({...localConfig, rolling: {...localConfig.rolling, enabled: e.target.checked}})}
+              />
+              自动滚仓 (以利润作保证金加仓, 滚仓后全仓一个止损)
+            </label>
+            <div className="grid grid-cols-3 gap-2">
+              {([
+                ['triggerRoePct', '触发净收益率 (%)'],
+                ['profitSharePct', '投入利润比例 (%)'],
+                ['maxRolls', '最多滚仓次数 (含策略滚仓)'],
+              ] as const).map(([key, label]) => (
+                <label key={key} className="text-xs text-okx-subtext space-y-1">
+                  <span>{label}</span>
+                  <input
+                    type="number"
+                    min={0}
+                    step={key === 'maxRolls' ? 1 : 'any'}
+                    className="w-full bg-okx-bg border border-okx-border rounded px-3 py-2 text-white focus:outline-none focus:border-okx-primary"
+                    value={localConfig.rolling?.[key] ?? ''}
+                    onChange={e => setLocalConfig({...localConfig, rolling: {...localConfig.rolling, [key]: parseFloat(e.target.value) || 0}})}
+                  />
+                </label>
+              ))}
+            </div>
+          </div>
+
+          {/* Retention Policy */}
+          <div className="space-y-2">
+            <label className="block text-sm font-medium text-okx-subtext">数据保留条数 (日志 / 决策 / 权益点)</label>
+            <div className="grid grid-cols-3 gap-2">
+              {(['maxLogs', 'maxDecisions', 'maxEquityPoints'] as const).map(key => (
+                <input
+                  key={key}
+                  type="number"
+                  min={10}
+                  className="w-full bg-okx-bg border border-okx-border rounded px-3 py-2 text-white focus:outline-none focus:border-okx-primary"
+                  value={localConfig.retention?.[key] ?? ''}
+                  onChange={e => setLocalConfig({...localConfig, retention: {...localConfig.retention, [key]: parseInt(e.target.value) || 0}})}
+                />
+              ))}
+            </div>
+          </div>
+
+          {/* LLM Provider */}
+          <div className="space-y-2">
+            <label className="block text-sm font-medium text-okx-subtext">AI 模型 (用于智能决策与否决)</label>
+            <select
+              className="w-full bg-okx-bg border border-okx-border rounded px-3 py-2 text-white focus:outline-none focus:border-okx-primary"
+              value={llm.provider}
+              onChange={e => setProvider(e.target.value as LLMProviderKind)}
+            >
+              {(Object.keys(PROVIDER_LABELS) as LLMProviderKind[]).map(p => (
+                <option key={p} value={p}>{PROVIDER_LABELS[p]}</option>
+              ))}
+            </select>
+            <div className="grid grid-cols-3 gap-2">
+              <label className="text-xs text-okx-subtext space-y-1 col-span-3">
+                <span>模型</span>
+                <input
+                  type="text"
+                  className="w-full bg-okx-bg border border-okx-border rounded px-3 py-2 text-white focus:outline-none focus:border-okx-primary"
+                  value={llm.model}
+                  onChange={e => setLocalConfig({...localConfig, llm: {...llm, model: e.target.value}})}
+                />
+              </label>
+              {llm.provider === 'OPENAI_COMPATIBLE' && (
+                <label className="text-xs text-okx-subtext space-y-1 col-span-3">
+                  <span>Base URL</span>
+                  <input
+                    type="text"
+                    className="w-full bg-okx-bg border border-okx-border rounded px-3 py-2 text-white focus:outline-none focus:border-okx-primary"
+                    value={llm.baseUrl}
+                    onChange={e => setLocalConfig({...localConfig, llm: {...llm, baseUrl: e.target.value}})}
+                    placeholder={LLM_PROVIDER_DEFAULTS.OPENAI_COMPATIBLE.baseUrl}
+                  />
+                </label>
+              )}
+              <label className="text-xs text-okx-subtext space-y-1">
+                <span>Temperature</span>
+                <input
+                  type="number"
+                  min={0}
+                  max={2}
+                  step={0.1}
+                  className="w-full bg-okx-bg border border-okx-border rounded px-3 py-2 text-white focus:outline-none focus:border-okx-primary"
+                  value={llm.temperature}
+                  onChange={e => setLocalConfig({...localConfig, llm: {...llm, temperature: parseFloat(e.target.value) || 0}})}
+                />
+              </label>
+              <label className="text-xs text-okx-subtext space-y-1">
+                <span>Max Tokens</span>
+                <input
+                  type="number"
+                  min={1}
+                  className="w-full bg-okx-bg border border-okx-border rounded px-3 py-2 text-white focus:outline-none focus:border-okx-primary"
+                  value={llm.maxTokens}
+                  onChange={e => setLocalConfig({...localConfig, llm: {...llm, maxTokens: parseInt(e.target.value) || 0}})}
+                />
+              </label>
+            </div>
             <div className="flex gap-2">
+                {keyField && (
                 <input 
                 type="password"
                 className="flex-1 bg-okx-bg border border-okx-border rounded px-3 py-2 text-white focus:outline-none focus:border-okx-primary"
-                value={localConfig.deepseekApiKey}
-                onChange={e => setLocalConfig({...localConfig, deepseekApiKey: e.target.value})}
-                placeholder="sk-..."
+                value={localConfig[keyField]}
+                onChange={e => setLocalConfig({...localConfig, [keyField]: e.target.value})}
+                placeholder={secretPlaceholder(keyField, llm.provider === 'OPENAI_COMPATIBLE' ? 'API Key (本地服务可留空)' : 'API Key')}
                 />
+                )}
                 <button 
                   onClick={handleTestConnection}
-                  disabled={testStatus === 'loading' || !localConfig.deepseekApiKey}
-                  className="px-3 py-2 bg-gray-700 hover:bg-gray-600 rounded text-white disabled:opacity-50"
+                  disabled={testStatus === 'loading'}
+                  className={`px-3 py-2 bg-gray-700 hover:bg-gray-600 rounded text-white disabled:opacity-50 ${keyField ? '' : 'flex-1 flex items-center justify-center gap-2 text-sm'}`}
                   title="测试 API 连接"
                 >
                    <Activity size={18} />
+                   {!keyField && '测试连接'}
                 </button>
             </div>
              {/* Test Status Feedback */}
@@ -94,6 +578,108 @@ const SettingsModal: React.FC<Props> = ({ isOpen, onClose, config, onSave }) =>
             )}
           </div>
 
+          {/* Notifications */}
+          <div className="space-y-3 border-t border-okx-border pt-4">
+            <label className="flex items-center gap-2 text-sm font-medium text-okx-subtext"><Bell size={14} /> 通知推送 (交易 / 错误 / 警告日志)</label>
+            {(['telegram', 'webhook', 'email'] as const).map(kind => {
+              const channel = notifications[kind];
+              const status = notifyTest[kind];
+              return (
+                <div key={kind} className="bg-okx-bg border border-okx-border rounded-lg p-3 space-y-2">
+                  <div className="flex items-center justify-between">
+                    <label className="flex items-center gap-2 text-sm text-white">
+                      <input type="checkbox" checked={channel.enabled} onChange={e => setChannel(kind, { enabled: e.target.checked })} />
+                      {CHANNEL_LABELS[kind]}
+                    </label>
+                    <div className="flex items-center gap-3">
+                      {(Object.keys(EVENT_LABELS) as NotifyEventType[]).map(ev => (
+                        <label key={ev} className="flex items-center gap-1 text-xs text-okx-subtext">
+                          <input
+                            type="checkbox"
+                            checked={channel.events.includes(ev)}
+                            onChange={e => setChannel(kind, { events: e.target.checked ? [...channel.events, ev] : channel.events.filter(x => x !== ev) })}
+                          />
+                          {EVENT_LABELS[ev]}
+                        </label>
+                      ))}
+                      <button
+                        onClick={() => handleTestNotify(kind)}
+                        disabled={status?.ok === null}
+                        className="px-2 py-1 bg-gray-700 hover:bg-gray-600 rounded text-white disabled:opacity-50"
+                        title="发送测试消息 (使用当前表单配置)"
+                      >
+                        <Send size={14} />
+                      </button>
+                    </div>
+                  </div>
+                  {kind === 'telegram' && (
+                    <div className="grid grid-cols-2 gap-2">
+                      <input type="password" className={`${inputClass} col-span-2`} value={localConfig.telegramBotToken} onChange={e => setLocalConfig({...localConfig, telegramBotToken: e.target.value})} placeholder={secretPlaceholder('telegramBotToken', 'Bot Token')} />
+                      <input type="text" className={inputClass} value={notifications.telegram.chatId} onChange={e => setChannel('telegram', { chatId: e.target.value })} placeholder="Chat ID" />
+                      <input type="text" className={inputClass} value={notifications.telegram.apiBaseUrl} onChange={e => setChannel('telegram', { apiBaseUrl: e.target.value })} placeholder="https://api.telegram.org" />
+                    </div>
+                  )}
+                  {kind === 'webhook' && (
+                    <input type="text" className={inputClass} value={notifications.webhook.url} onChange={e => setChannel('webhook', { url: e.target.value })} placeholder="https://example.com/hook (POST JSON)" />
+                  )}
+                  {kind === 'email' && (
+                    <div className="grid grid-cols-3 gap-2">
+                      <input type="text" className={`${inputClass} col-span-2`} value={notifications.email.host} onChange={e => setChannel('email', { host: e.target.value })} placeholder="SMTP 服务器" />
+                      <input type="number" min={1} className={inputClass} value={notifications.email.port} onChange={e => setChannel('email', { port: parseInt(e.target.value) || 0 })} />
+                      <input type="text" className={inputClass} value={notifications.email.username} onChange={e => setChannel('email', { username: e.target.value })} placeholder="用户名 (留空不认证)" />
+                      <input type="password" className={`${inputClass} col-span-2`} value={localConfig.smtpPassword} onChange={e => setLocalConfig({...localConfig, smtpPassword: e.target.value})} placeholder={secretPlaceholder('smtpPassword', '密码')} />
+                      <input type="text" className={inputClass} value={notifications.email.from} onChange={e => setChannel('email', { from: e.target.value })} placeholder="发件人" />
+                      <input type="text" className={`${inputClass} col-span-2`} value={notifications.email.to} onChange={e => setChannel('email', { to: e.target.value })} placeholder="收件人 (逗号分隔)" />
+                      <label className="flex items-center gap-2 text-xs text-okx-subtext col-span-3">
+                        <input type="checkbox" checked={notifications.email.secure} onChange={e => setChannel('email', { secure: e.target.checked })} />
+                        SSL/TLS 直连 (465 端口; 不勾选时服务器支持则使用 STARTTLS)
+                      </label>
+                    </div>
+                  )}
+                  {status && (
+                    <div className={`text-xs flex items-center gap-1 ${status.ok === true ? 'text-green-400' : status.ok === false ? 'text-red-400' : 'text-blue-400'}`}>
+                      {status.ok === true && <CheckCircle size={12}/>}
+                      {status.ok === false && <AlertCircle size={12}/>}
+                      {status.msg}
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+            <label className="text-xs text-okx-subtext space-y-1 block">
+              <span>每个渠道每分钟最多发送 (0 = 不限制, 超出部分丢弃并在下一条中注明)</span>
+              <input
+                type="number"
+                min={0}
+                className={inputClass}
+                value={notifications.maxPerMinute}
+                onChange={e => setLocalConfig({...localConfig, notifications: {...notifications, maxPerMinute: parseInt(e.target.value) || 0}})}
+              />
+            </label>
+            <div className="space-y-1">
+              <span className="text-xs text-okx-subtext">消息模板 (可用变量: {'{type} {message} {time} {instId} {mode}'})</span>
+              {(Object.keys(EVENT_LABELS) as NotifyEventType[]).map(ev => (
+                <label key={ev} className="flex items-start gap-2 text-xs text-okx-subtext">
+                  <span className="w-8 pt-2 shrink-0">{EVENT_LABELS[ev]}</span>
+                  <textarea
+                    rows={2}
+                    className={`${inputClass} text-xs font-mono`}
+                    value={notifications.templates[ev]}
+                    onChange={e => setLocalConfig({...localConfig, notifications: {...notifications, templates: {...notifications.templates, [ev]: e.target.value}}})}
+                  />
+                </label>
+              ))}
+            </div>
+          </div>
+
+          {/* Vault Status */}
+          {secrets && !secrets.persistent && (
+            <div className="flex items-center gap-2 text-yellow-500 bg-yellow-500/10 p-2 rounded text-xs">
+              <KeyRound size={14} />
+              <span>未设置 VAULT_MASTER_KEY: 在此填写的密钥不会写入磁盘, 重启后需重新填写; 请设置主密钥以加密保存 (或改用环境变量)</span>
+            </div>
+          )}
+
           {/* OKX Keys */}
           {!localConfig.isSimulation && (
             <div className="space-y-4 border-t border-okx-border pt-4">
@@ -108,6 +694,7 @@ const SettingsModal: React.FC<Props> = ({ isOpen, onClose, config, onSave }) =>
                   className="w-full bg-okx-bg border border-okx-border rounded px-3 py-2 text-white focus:outline-none focus:border-okx-primary"
                   value={localConfig.okxApiKey}
                   onChange={e => setLocalConfig({...localConfig, okxApiKey: e.target.value})}
+                  placeholder={secretPlaceholder('okxApiKey')}
                 />
               </div>
               <div className="space-y-2">
@@ -117,6 +704,7 @@ const SettingsModal: React.FC<Props> = ({ isOpen, onClose, config, onSave }) =>
                   className="w-full bg-okx-bg border border-okx-border rounded px-3 py-2 text-white focus:outline-none focus:border-okx-primary"
                   value={localConfig.okxSecretKey}
                   onChange={e => setLocalConfig({...localConfig, okxSecretKey: e.target.value})}
+                  placeholder={secretPlaceholder('okxSecretKey')}
                 />
               </div>
               <div className="space-y-2">
@@ -126,6 +714,7 @@ const SettingsModal: React.FC<Props> = ({ isOpen, onClose, config, onSave }) =>
                   className="w-full bg-okx-bg border border-okx-border rounded px-3 py-2 text-white focus:outline-none focus:border-okx-primary"
                   value={localConfig.okxPassphrase}
                   onChange={e => setLocalConfig({...localConfig, okxPassphrase: e.target.value})}
+                  placeholder={secretPlaceholder('okxPassphrase')}
                 />
               </div>
             </div>
@@ -1,18 +1,247 @@
 
-export const INSTRUMENT_ID = "ETH-USDT-SWAP";
-// OKX V5 规范: ETH-USDT-SWAP 1张合约 = 0.1 ETH
-// 注意: 实际交易前请核对 OKX 文档，部分币种为 0.01 或 10 USD
-export const CONTRACT_VAL_ETH = 0.1;
+import { IndicatorName, InstrumentSpec, SizingMode, TrailMode, LLMProviderKind, NotifyEventType, SecretName, TimeframeBar } from './types';
+
+// 默认交易品种 (可在设置中同时启用多个, 每个品种独立运行策略循环)
+export const DEFAULT_INSTRUMENT_ID = "ETH-USDT-SWAP";
+export const SUPPORTED_INSTRUMENTS = ["ETH-USDT-SWAP", "BTC-USDT-SWAP", "SOL-USDT-SWAP"];
+
+// 合约规格兜底值 (模拟模式 / 回测 / 公共接口不可用时使用)
+// 实盘以 /api/v5/public/instruments 返回的 ctVal / lotSz / minSz / tickSz 为准
+export const FALLBACK_INSTRUMENT_SPECS: Record<string, InstrumentSpec> = {
+  "ETH-USDT-SWAP": { instId: "ETH-USDT-SWAP", ctVal: 0.1, ctValCcy: "ETH", lotSz: 0.01, minSz: 0.01, tickSz: 0.01 },
+  "BTC-USDT-SWAP": { instId: "BTC-USDT-SWAP", ctVal: 0.01, ctValCcy: "BTC", lotSz: 0.01, minSz: 0.01, tickSz: 0.1 },
+  "SOL-USDT-SWAP": { instId: "SOL-USDT-SWAP", ctVal: 1, ctValCcy: "SOL", lotSz: 0.01, minSz: 0.01, tickSz: 0.01 },
+};
+
+// 模拟行情基准价
+export const MOCK_BASE_PRICES: Record<string, number> = {
+  "ETH-USDT-SWAP": 3250,
+  "BTC-USDT-SWAP": 65000,
+  "SOL-USDT-SWAP": 150,
+};
 
 // 费率设定 (保守估计 Taker 0.05%)
 export const TAKER_FEE_RATE = 0.0005; 
 
+// 资金费: OKX 每 8 小时结算一次 (UTC 00:00/08:00/16:00), 历史费率拉取条数 (7 天) 与缓存时间
+export const FUNDING_INTERVAL_MS = 8 * 60 * 60 * 1000;
+export const FUNDING_HISTORY_LIMIT = 21;
+export const FUNDING_HISTORY_TTL_MS = 30 * 60 * 1000;
+
+// 维持保证金率 (OKX ETH-USDT-SWAP 第一档约 0.4%), 用于估算逐仓强平价
+export const MAINT_MARGIN_RATE = 0.004;
+
+// OKX V5 WebSocket endpoints (candle channels live on /business)
+export const OKX_WS_URLS = {
+  public: "wss://ws.okx.com:8443/ws/v5/public",
+  private: "wss://ws.okx.com:8443/ws/v5/private",
+  business: "wss://ws.okx.com:8443/ws/v5/business",
+};
+
+// 盘口/成交流指标
+export const DEPTH_BAND_PCT = 0.005; // Depth within ±0.5% of mid
+export const ORDER_BOOK_DEPTH = 400; // Levels kept per side
+export const TAKER_WINDOWS = [
+  { label: '1m', windowMs: 60000 },
+  { label: '5m', windowMs: 300000 },
+  { label: '15m', windowMs: 900000 },
+];
+
+// 数据保留策略 (内存与磁盘一致)
+export const DEFAULT_RETENTION = {
+  maxLogs: 200,
+  maxDecisions: 1000,
+  maxEquityPoints: 1000,
+};
+
+// LLM 提供方默认参数 (切换提供方时填入)
+export const LLM_PROVIDER_DEFAULTS = {
+  DEEPSEEK: { model: 'deepseek-chat', baseUrl: 'https://api.deepseek.com' },
+  GEMINI: { model: 'gemini-2.5-flash', baseUrl: '' },
+  OPENAI_COMPATIBLE: { model: 'llama3.1', baseUrl: 'http://127.0.0.1:11434/v1' },
+  FAKE: { model: 'scripted', baseUrl: '' },
+};
+
+// AI 决策 JSON 校验失败后的最多修正次数 (不含首次请求)
+export const AI_REPAIR_MAX_RETRIES = 2;
+
+// 各提供方读取的密钥字段 (FAKE 无需密钥)
+export const LLM_KEY_FIELDS: Record<LLMProviderKind, SecretName | null> = {
+  DEEPSEEK: 'deepseekApiKey',
+  GEMINI: 'geminiApiKey',
+  OPENAI_COMPATIBLE: 'openaiApiKey',
+  FAKE: null,
+};
+
+export const DEFAULT_LLM_CONFIG = {
+  provider: 'DEEPSEEK' as const,
+  model: LLM_PROVIDER_DEFAULTS.DEEPSEEK.model,
+  temperature: 0.8,
+  maxTokens: 4096,
+  baseUrl: '',
+};
+
+// 登录会话有效期与审计记录保留条数
+export const SESSION_TTL_MS = 12 * 60 * 60 * 1000;
+export const MAX_AUDIT_ENTRIES = 1000;
+
+// 登录限流 (按 IP 与用户名分别计数): 连续失败多少次后锁定, 首次锁定时长 (之后每次失败翻倍), 锁定上限, 多久无失败后清零
+export const LOGIN_MAX_FAILURES = 5;
+export const LOGIN_LOCK_BASE_MS = 30 * 1000;
+export const LOGIN_LOCK_MAX_MS = 15 * 60 * 1000;
+export const LOGIN_FAILURE_WINDOW_MS = 15 * 60 * 1000;
+
+// 仪表盘推送 (/api/stream): 变更检测周期, 心跳间隔, 客户端判定断流并回退轮询的时长, 断开后重连间隔
+export const STREAM_PUSH_INTERVAL_MS = 1000;
+export const STREAM_HEARTBEAT_MS = 15000;
+export const STREAM_STALE_MS = 40000;
+export const STREAM_RECONNECT_MS = 5000;
+// 推送连接票据有效期 (一次性, 代替在 URL 中携带登录令牌)
+export const STREAM_TICKET_TTL_MS = 30000;
+
+// 订单跟踪: 未成交超时, 对账周期, 成交后等待账户同步的静默期, 保留条数
+export const ORDER_FILL_TIMEOUT_MS = 60000;
+export const RECONCILE_INTERVAL_MS = 60000;
+export const RECONCILE_SETTLE_MS = 15000;
+export const MAX_TRACKED_ORDERS = 500;
+
+// 交易日志: 保留的已平仓回合数, 拉取成交的回溯窗口 (无历史记录时), 平仓后等待交易所资金费结算的最长时间
+export const MAX_JOURNAL_TRADES = 1000;
+export const JOURNAL_LOOKBACK_MS = 7 * 24 * 60 * 60 * 1000;
+export const JOURNAL_FUNDING_WAIT_MS = 10 * 60 * 1000;
+
+// 多周期共振: 各周期权重 (高周期优先), EMA21 斜率回看根数, 判定偏多/偏空的共振分阈值
+export const MTF_WEIGHTS: Record<TimeframeBar, number> = { '4H': 3, '1H': 2, '15m': 1.5, '5m': 1, '3m': 0.5 };
+export const MTF_SLOPE_BARS = 5;
+export const MTF_BIAS_THRESHOLD = 30;
+
+// 低周期入场确认 (4H 信号需 15m/3m 结构配合), 按决策模式分别开关
+export const DEFAULT_MULTI_TIMEFRAME_CONFIG = {
+  refineEntry: { AI: false, RULE: false, AI_VETO: false },
+};
+
+// 仓位计算: 默认沿用 5% 权益保证金规则, 各模式都受单笔最大亏损 (止损处) 5% 约束
+export const DEFAULT_SIZING_CONFIG = {
+  mode: 'FIXED' as SizingMode,
+  fixedMarginPct: 5,
+  riskPct: 2,
+  atrMultiple: 2,
+  kellyFraction: 0.5,
+  kellyWinRate: 0.4,
+  kellyPayoff: 2,
+  maxRiskPct: 5,
+};
+// Kelly 模式: 交易日志中已平仓回合少于此数时使用配置的胜率/盈亏比
+export const KELLY_MIN_TRADES = 20;
+
+// 止损管理 (每个循环执行, 不依赖 AI): 默认关闭; 保本/跟踪触发的净收益率 (%), 跟踪方式, 滚仓后上移止损, 优先使用 OKX 原生移动止损
+export const DEFAULT_STOP_MANAGER_CONFIG = {
+  enabled: false,
+  breakEvenRoePct: 10,
+  trailMode: 'CANDLE' as TrailMode,
+  trailAtrMultiple: 2,
+  trailActivationRoePct: 20,
+  stepOnRoll: true,
+  nativeTrailing: true,
+};
+// 止损每次至少移动价格的 0.05%, 与现价至少保持 0.2% 距离; ATR 变化超过 25% 时重挂原生移动止损
+export const STOP_MIN_STEP_PCT = 0.05;
+export const STOP_MIN_GAP_PCT = 0.2;
+export const TRAIL_RESPREAD_PCT = 25;
+
+// 滚仓执行器: 默认关闭; 净收益率 (扣除下次资金费后) 达到 50% 时, 以净利润的 50% 作为新一腿保证金加仓
+// 最多滚仓次数对所有来源 (AI/规则决策与执行器) 生效
+export const DEFAULT_ROLLING_CONFIG = {
+  enabled: false,
+  triggerRoePct: 50,
+  profitSharePct: 50,
+  maxRolls: 5,
+};
+// 已下单但尚未在持仓中看到的滚仓腿, 超过此时间后不再等待
+export const ROLL_PENDING_MS = 2 * 60 * 1000;
+
+// 分批止盈阶梯: 默认关闭; 1R 平 30%, 2R 平 30%, 剩余仓位交给止损/跟踪止损 (R = 开仓时入场价到止损的距离)
+export const DEFAULT_TAKE_PROFIT_CONFIG = {
+  enabled: false,
+  levels: [
+    { rMultiple: 1, sizePct: 30 },
+    { rMultiple: 2, sizePct: 30 },
+  ],
+};
+export const MAX_TAKE_PROFIT_LEVELS = 5;
+
+// 平仓后复查持仓: 每 1 秒查询一次, 最多 5 次 (全平未成功时每次复查后重发市价全平)
+export const CLOSE_VERIFY_ATTEMPTS = 5;
+export const CLOSE_VERIFY_DELAY_MS = 1000;
+
+// 技术指标参数 (RSI/ATR/ADX 使用 Wilder 平滑, 随机指标为慢速 %K/%D)
+export const INDICATOR_PARAMS = {
+  rsiPeriod: 14,
+  macd: { fast: 12, slow: 26, signal: 9 },
+  atrPeriod: 14,
+  bollinger: { period: 20, stdDev: 2 },
+  adxPeriod: 14,
+  stochastic: { period: 14, smoothK: 3, smoothD: 3 },
+};
+
+// 决策提示词中附加的指标 (默认不附加, 保持原有 EMA 策略提示词)
+export const DEFAULT_INDICATOR_CONFIG = {
+  prompt: [] as IndicatorName[],
+};
+
+// 通知推送: 默认全部关闭, 每个渠道每分钟最多发送条数, 消息模板
+export const DEFAULT_NOTIFICATION_CONFIG = {
+  telegram: { enabled: false, events: ['TRADE', 'ERROR'] as NotifyEventType[], chatId: '', apiBaseUrl: 'https://api.telegram.org' },
+  webhook: { enabled: false, events: ['TRADE', 'ERROR', 'WARNING'] as NotifyEventType[], url: '' },
+  email: { enabled: false, events: ['ERROR'] as NotifyEventType[], host: '', port: 587, secure: false, username: '', from: '', to: '' },
+  maxPerMinute: 10,
+  templates: {
+    TRADE: '💰 [{mode}] {message}\n{time}',
+    ERROR: '🚨 [{mode}] 错误: {message}\n{time}',
+    WARNING: '⚠️ [{mode}] 警告: {message}\n{time}',
+  },
+};
+export const NOTIFY_TIMEOUT_MS = 10000;
+
+// 模拟盘初始资金 (起步期 15U)
+export const PAPER_INITIAL_BALANCE = 15;
+
+// 下单前风控硬限制 (独立于 AI, 0 = 不限制)
+export const DEFAULT_RISK_LIMITS = {
+  maxLeverage: 20,
+  maxPositionNotional: 2000,
+  maxDailyLoss: 5,
+  maxConsecutiveLosses: 3,
+  minStopLiqDistancePct: 0.5,
+  requireStopLoss: true,
+};
+
 export const DEFAULT_CONFIG = {
   okxApiKey: "",
   okxSecretKey: "",
   okxPassphrase: "",
   deepseekApiKey: "", // Renamed
+  geminiApiKey: "",
+  openaiApiKey: "",
+  llm: DEFAULT_LLM_CONFIG,
   isSimulation: true, 
+  decisionMode: 'AI' as const, // 'AI' | 'RULE' | 'AI_VETO'
+  retention: DEFAULT_RETENTION,
+  instruments: [DEFAULT_INSTRUMENT_ID],
+  marketFeed: 'WS' as const, // 'WS' | 'REST' (live mode only)
+  marginMode: 'isolated' as const, // 'isolated' | 'cross'
+  positionMode: 'long_short_mode' as const, // 'long_short_mode' | 'net_mode'
+  risk: DEFAULT_RISK_LIMITS,
+  paperPriceSource: 'MOCK' as const, // 'MOCK' | 'LIVE' (public OKX prices for paper fills)
+  multiTimeframe: DEFAULT_MULTI_TIMEFRAME_CONFIG,
+  indicators: DEFAULT_INDICATOR_CONFIG,
+  sizing: DEFAULT_SIZING_CONFIG,
+  stopManager: DEFAULT_STOP_MANAGER_CONFIG,
+  rolling: DEFAULT_ROLLING_CONFIG,
+  takeProfit: DEFAULT_TAKE_PROFIT_CONFIG,
+  notifications: DEFAULT_NOTIFICATION_CONFIG,
+  telegramBotToken: "",
+  smtpPassword: "",
 };
 
 // 10U 战神策略阶段定义
@@ -40,7 +269,7 @@ export const STRATEGY_STAGES = {
 };
 
 export const MOCK_TICKER = {
-  instId: INSTRUMENT_ID,
+  instId: DEFAULT_INSTRUMENT_ID,
   last: "3250.50",
   lastSz: "1.2",
   askPx: "3250.60",
@@ -51,3 +280,11 @@ export const MOCK_TICKER = {
   volCcy24h: "500000000",
   ts: Date.now().toString(),
 };
+
+// 回测默认参数 (杠杆/仓位/费率由规则引擎与实盘常量决定)
+export const DEFAULT_BACKTEST_CONFIG = {
+  instId: DEFAULT_INSTRUMENT_ID,
+  initialEquity: 15, // 与模拟账户一致, Stage 1 起步资金
+  lookbackBars: 100, // 与实盘 4H K线拉取数量 (limit=100) 一致, 保证 EMA 计算口径相同
+  sizing: DEFAULT_SIZING_CONFIG,
+};
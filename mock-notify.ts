@@ -0,0 +1,38 @@
+import { startMockNotifyServer } from './services/mockNotifyServer';
+
+// Usage: npm run mock:notify -- [--http-port=8766] [--smtp-port=2525]
+// Starts the local Telegram/webhook/SMTP stand-in and prints every message it
+// receives. In Settings -> 通知推送 use the printed Telegram API base URL,
+// webhook URL and SMTP host/port (any bot token, chat ID and login work).
+const args = process.argv.slice(2);
+const opt = (name: string) => args.find(a => a.startsWith(`--${name}=`))?.split('=')[1];
+
+const main = async () => {
+    const server = await startMockNotifyServer(parseInt(opt('http-port') || '8766'), parseInt(opt('smtp-port') || '2525'));
+
+    console.log(`Mock 通知服务已启动:`);
+    console.log(`  Telegram API Base URL: ${server.telegramBaseUrl}`);
+    console.log(`  Webhook URL:           ${server.webhookUrl}`);
+    console.log(`  SMTP:                  127.0.0.1:${server.smtpPort} (无 TLS)`);
+
+    let printed = 0;
+    setInterval(() => {
+        const list = server.received();
+        list.slice(printed).forEach(n => {
+            const summary = n.channel === 'telegram' ? n.body.text
+                : n.channel === 'webhook' ? JSON.stringify(n.body)
+                : `${n.body.from} -> ${n.body.to.join(', ')}`;
+            console.log(`[${new Date(n.at).toLocaleTimeString()}] ${n.channel}: ${summary}`);
+        });
+        printed = list.length;
+    }, 500);
+
+    const shutdown = async () => {
+        await server.close();
+        process.exit(0);
+    };
+    process.on('SIGINT', shutdown);
+    process.on('SIGTERM', shutdown);
+};
+
+main();
@@ -0,0 +1,70 @@
+import { startMockOkxWsServer } from './services/mockOkxWsServer';
+import { MOCK_BASE_PRICES } from './constants';
+
+// Usage: npm run mock:ws -- [--port=8765]
+// Starts the local OKX WebSocket stand-in and streams a random walk for every
+// subscribed instrument plus a flat USDT account. Point the server at it with
+// OKX_WS_PUBLIC_URL / OKX_WS_PRIVATE_URL / OKX_WS_BUSINESS_URL.
+const args = process.argv.slice(2);
+const opt = (name: string) => args.find(a => a.startsWith(`--${name}=`))?.split('=')[1];
+
+const BARS: Record<string, number> = { '3m': 180000, '5m': 300000, '15m': 900000, '1H': 3600000, '4H': 14400000 };
+
+const main = async () => {
+    const server = await startMockOkxWsServer(parseInt(opt('port') || '8765'));
+    const prices: Record<string, number> = {};
+
+    console.log(`Mock OKX WS 已启动:`);
+    console.log(`  OKX_WS_PUBLIC_URL=${server.urls.public}`);
+    console.log(`  OKX_WS_PRIVATE_URL=${server.urls.private}`);
+    console.log(`  OKX_WS_BUSINESS_URL=${server.urls.business}`);
+
+    setInterval(() => {
+        const now = Date.now();
+        const instIds = new Set(server.subscriptions('public').map(a => a.instId).filter(Boolean));
+
+        instIds.forEach(instId => {
+            const prev = prices[instId] ?? MOCK_BASE_PRICES[instId] ?? 100;
+            const last = prev * (1 + (Math.random() - 0.5) * 0.002);
+            prices[instId] = last;
+            const px = last.toFixed(2);
+
+            server.push({ channel: 'tickers', instId }, [{
+                instId, last: px, lastSz: '1', askPx: (last * 1.0001).toFixed(2), bidPx: (last * 0.9999).toFixed(2),
+                open24h: prev.toFixed(2), high24h: (last * 1.02).toFixed(2), low24h: (last * 0.98).toFixed(2),
+                volCcy24h: '150000000', ts: now.toString(),
+            }]);
+            // Full snapshot each tick keeps the seqId chain trivially consistent
+            const seqId = now;
+            server.push({ channel: 'books', instId }, [{
+                asks: Array.from({ length: 50 }, (_, i) => [(last * (1 + (i + 1) * 0.0001)).toFixed(2), (Math.random() * 200 + 10).toFixed(0), '0', '1']),
+                bids: Array.from({ length: 50 }, (_, i) => [(last * (1 - (i + 1) * 0.0001)).toFixed(2), (Math.random() * 200 + 10).toFixed(0), '0', '1']),
+                ts: now.toString(),
+                seqId,
+                prevSeqId: -1,
+            }], 'snapshot');
+            server.push({ channel: 'trades', instId }, [{
+                instId, tradeId: now.toString(), px, sz: '1', side: Math.random() > 0.5 ? 'buy' : 'sell', ts: now.toString(),
+            }]);
+            for (const [bar, ms] of Object.entries(BARS)) {
+                const ts = (Math.floor(now / ms) * ms).toString();
+                server.push({ channel: `candle${bar}`, instId }, [[ts, px, px, px, px, '100', '10', '1000', '0']]);
+            }
+        });
+
+        server.push({ channel: 'account', ccy: 'USDT' }, [{
+            uTime: now.toString(),
+            details: [{ ccy: 'USDT', eq: '15.00', availEq: '15.00' }],
+        }]);
+        server.push({ channel: 'positions', instType: 'SWAP' }, []);
+    }, 1000);
+
+    const shutdown = async () => {
+        await server.close();
+        process.exit(0);
+    };
+    process.on('SIGINT', shutdown);
+    process.on('SIGTERM', shutdown);
+};
+
+main();
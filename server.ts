@@ -1,13 +1,33 @@
 
 
+import 'dotenv/config';
 import express from 'express';
+import crypto from 'crypto';
 import cors from 'cors';
 import path from 'path';
 import { fileURLToPath } from 'url';
-import { MarketDataCollection, AccountContext, AIDecision, SystemLog, AppConfig } from './types';
-import { DEFAULT_CONFIG, INSTRUMENT_ID, CONTRACT_VAL_ETH, TAKER_FEE_RATE } from './constants';
+import { MarketDataCollection, AccountContext, AIDecision, PositionData, SystemLog, AppConfig, InstrumentSpec, InstrumentStatus, StatusSnapshot, RiskCheckResult, RiskLimits, LLMConfig, DecisionMode, MultiTimeframeConfig, IndicatorConfig, SizingConfig, StopManagerConfig, RollingConfig, TakeProfitConfig, NotificationConfig, NotifyChannelKind, NotifyEventType, UserAccount, UserRole, AuditEntry, AuditAction, AuthUser, SecretName } from './types';
+import { DEFAULT_CONFIG, DEFAULT_INSTRUMENT_ID, FALLBACK_INSTRUMENT_SPECS, OKX_WS_URLS, DEFAULT_RISK_LIMITS, RECONCILE_INTERVAL_MS, DEFAULT_LLM_CONFIG, DEFAULT_MULTI_TIMEFRAME_CONFIG, DEFAULT_INDICATOR_CONFIG, DEFAULT_SIZING_CONFIG, DEFAULT_STOP_MANAGER_CONFIG, DEFAULT_ROLLING_CONFIG, DEFAULT_TAKE_PROFIT_CONFIG, MAX_TAKE_PROFIT_LEVELS, DEFAULT_NOTIFICATION_CONFIG, LLM_PROVIDER_DEFAULTS, LLM_KEY_FIELDS, SESSION_TTL_MS, MAX_AUDIT_ENTRIES, STREAM_PUSH_INTERVAL_MS, STREAM_HEARTBEAT_MS, STREAM_TICKET_TTL_MS, LOGIN_MAX_FAILURES, LOGIN_LOCK_BASE_MS, LOGIN_LOCK_MAX_MS, LOGIN_FAILURE_WINDOW_MS } from './constants';
 import * as okxService from './services/okxService';
+import { createOkxFeed } from './services/okxWsService';
 import * as aiService from './services/aiService';
+import { createProvider } from './services/llmProvider';
+import * as ruleEngine from './services/ruleEngine';
+import { createOrderTracker } from './services/orderTracker';
+import { createTradeJournal } from './services/tradeJournal';
+import { createNotifier } from './services/notifier';
+import { createPushHub } from './services/pushHub';
+import { createStopManager } from './services/stopManager';
+import { createRollingExecutor } from './services/rollingService';
+import { createTakeProfitLadder } from './services/takeProfitLadder';
+import { createCloseService } from './services/closeService';
+import { INDICATOR_NAMES } from './services/indicators';
+import { kellyStats, SizingOptions } from './services/sizingService';
+import { checkOrderRisk, isReducingOrder, summarizeRealizedPnl } from './services/riskManager';
+import { calculateSharpeRatio } from './services/performanceService';
+import { createStoreFromEnv } from './services/storageService';
+import { createVaultFromEnv, SECRET_NAMES } from './services/secretVault';
+import { createSessionStore, createLoginThrottle, hashPassword, verifyPassword, hasRole, isUserRole } from './services/authService';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -15,23 +35,211 @@ const __dirname = path.dirname(__filename);
 const app = express();
 const PORT = process.env.PORT || 3000;
 
-app.use(cors() as any);
+// Same-origin only unless CORS_ORIGIN lists allowed origins (comma separated)
+app.use(cors({ origin: process.env.CORS_ORIGIN ? process.env.CORS_ORIGIN.split(',').map(o => o.trim()) : false }) as any);
 app.use(express.json() as any);
 app.use(express.static(path.join(__dirname, 'dist')) as any);
 
+// --- Persistence ---
+const store = createStoreFromEnv();
+
+// --- Credentials (encrypted at rest, see services/secretVault.ts) ---
+const vault = createVaultFromEnv();
+
 // --- Server State ---
 let config: AppConfig = { ...DEFAULT_CONFIG };
 let isRunning = false;
-let marketData: MarketDataCollection | null = null;
-let accountData: AccountContext | null = null;
-let latestDecision: AIDecision | null = null;
+let accountData: AccountContext | null = null; // Shared by all instruments (one account)
 let decisionHistory: AIDecision[] = []; // Store history
 let logs: SystemLog[] = [];
-let lastAnalysisTime = 0;
+let users: UserAccount[] = [];
+let auditTrail: AuditEntry[] = []; // Oldest first
+const sessions = createSessionStore(SESSION_TTL_MS, STREAM_TICKET_TTL_MS);
+const loginThrottle = createLoginThrottle({ maxFailures: LOGIN_MAX_FAILURES, baseLockMs: LOGIN_LOCK_BASE_MS, maxLockMs: LOGIN_LOCK_MAX_MS, windowMs: LOGIN_FAILURE_WINDOW_MS });
+
+// config carries the decrypted credentials in memory only; the vault owns them
+const applySecrets = () => {
+    for (const name of SECRET_NAMES) config[name] = vault.get(name);
+};
+const withoutSecrets = (c: AppConfig): AppConfig => {
+    const copy = { ...c };
+    for (const name of SECRET_NAMES) copy[name] = '';
+    return copy;
+};
+// Plain-text keys an older config.json still holds while the vault cannot take them over
+let legacyPlaintext: Partial<Record<SecretName, string>> = {};
+// What config.json gets: never a key it does not already hold. Keys from Settings stay in
+// memory until VAULT_MASTER_KEY is set; legacy keys stay until replaced in Settings.
+const persistableConfig = (c: AppConfig): AppConfig => {
+    const copy = withoutSecrets(c);
+    if (vault.isPersistent()) return copy;
+    return { ...copy, ...legacyPlaintext };
+};
+
+// --- Market/Account Feed (OKX WebSocket, REST fallback) ---
+// URLs can point at the local stand-in (npm run mock:ws)
+const feed = createOkxFeed({
+    urls: {
+        public: process.env.OKX_WS_PUBLIC_URL || OKX_WS_URLS.public,
+        private: process.env.OKX_WS_PRIVATE_URL || OKX_WS_URLS.private,
+        business: process.env.OKX_WS_BUSINESS_URL || OKX_WS_URLS.business,
+    },
+    seedMarketData: (instId) => okxService.fetchMarketData(config, instId),
+    seedAlgoOrders: async () => [...await okxService.fetchPendingAlgoOrders(config), ...await okxService.fetchTrailingStops(config)],
+    onLog: (type, message) => addLog(type, message),
+});
+
+// Feed only runs for live trading with WS selected; simulation keeps mock data
+const syncFeed = () => {
+    if (config.isSimulation || config.marketFeed !== 'WS') {
+        feed.stop();
+        return;
+    }
+    feed.setInstruments(config.instruments);
+    feed.setCredentials(config.okxApiKey && config.okxSecretKey && config.okxPassphrase
+        ? { apiKey: config.okxApiKey, secretKey: config.okxSecretKey, passphrase: config.okxPassphrase }
+        : null);
+    feed.start();
+};
+
+// Paper exchange TP/SL and liquidation fills happen between loop ticks; every close reports its realized PnL
+okxService.getPaperExchange().onEvent((event) => {
+    addLog(event.type === 'LIQUIDATION' ? 'ERROR' : 'TRADE', `[模拟盘][${event.instId}] ${event.posSide.toUpperCase()} ${event.message}`);
+});
+
+// Fill confirmation for bot orders and periodic position reconciliation
+const orderTracker = createOrderTracker({
+    fetchOrder: (instId, ordId) => okxService.fetchOrder(config, instId, ordId),
+    fetchAlgoOrders: (instId) => okxService.fetchPendingAlgoOrders(config, instId),
+    fetchClosedPositions: () => okxService.fetchClosedPositions(config),
+    onLog: (type, message) => addLog(type, message),
+    onOrderFinal: (order) => store.appendOrder(order),
+});
+let lastReconcileAt = 0;
+
+// Round-trip trade records built from exchange fills
+const tradeJournal = createTradeJournal({
+    fetchFills: (since) => okxService.fetchFills(config, since),
+    fetchClosedPositions: () => okxService.fetchClosedPositions(config),
+    getCtVal: (instId) => instrumentStates.get(instId)?.spec?.ctVal ?? FALLBACK_INSTRUMENT_SPECS[instId]?.ctVal ?? 1,
+    describeOrder: (ordId) => {
+        const order = orderTracker.getOrders().find(o => o.ordId === ordId);
+        if (!order) return undefined;
+        const decision = decisionHistory.find(d => d.instId === order.instId && d.timestamp === order.decisionTs);
+        return { ts: order.decisionTs, action: order.action, source: decision?.source, summary: (decision?.reasoning || '').slice(0, 200) };
+    },
+    onLog: (type, message) => addLog(type, message),
+    onTradeClosed: (trade) => store.appendTrade(trade),
+});
+
+// Break-even / trailing / roll-step stops, applied on every loop tick
+const stopManager = createStopManager({
+    getConfig: () => config.stopManager,
+    replaceStopLoss: (instId, posSide, size, slPrice) => okxService.replaceStopLoss(instId, posSide, size, slPrice, config),
+    placeTrailingStop: (instId, posSide, size, callbackSpread) => okxService.placeTrailingStop(instId, posSide, size, callbackSpread, config),
+    onLog: (type, message) => addLog(type, message),
+});
+
+// Roll ladders, a single stop after each roll, and profit-funded legs (rolling executor)
+const roller = createRollingExecutor({
+    getConfig: () => config.rolling,
+    placeLeg: async (decision, spec) => {
+        const md = instrumentStates.get(spec.instId)?.marketData;
+        if (!md || !accountData) throw new Error('行情或账户数据不可用');
+        decision.riskCheck = await runRiskCheck(decision, md, accountData, spec);
+        if (!decision.riskCheck.allowed) throw new Error('风控拦截');
+        const res = await okxService.executeOrder(decision, config, spec);
+        addLog('TRADE', `[${spec.instId}] 订单已提交: ${decision.action} ${decision.size} 张 (自动滚仓). 回执: ${res.msg || 'OK'}`);
+        trackExecution(decision, res, parseFloat(md.ticker?.last || "0"), accountData.positions);
+    },
+    replaceStopLoss: (instId, posSide, size, slPrice) => okxService.replaceStopLoss(instId, posSide, size, slPrice, config),
+    onStopPlaced: (instId, posSide, size, slPrice) => stopManager.noteStop(instId, posSide, size, slPrice),
+    onLog: (type, message) => addLog(type, message),
+});
+
+// Partial take-profits at R multiples, as separate reduce-only algo orders
+const takeProfits = createTakeProfitLadder({
+    getConfig: () => config.takeProfit,
+    fetchPendingAlgoIds: async (instId) => (await okxService.fetchPendingAlgoOrders(config, instId)).map((o: any) => o.algoId),
+    placeTakeProfit: (instId, posSide, size, tpPrice) => okxService.placeTakeProfit(instId, posSide, size, tpPrice, config),
+    cancelAlgos: (instId, algoIds) => okxService.cancelAlgoOrders(instId, algoIds, config),
+    onFilled: (instId, posSide, contracts) => orderTracker.noteReduced(instId, posSide, contracts),
+    onLog: (type, message) => addLog(type, message),
+});
+
+// Closes by the position's own side and margin mode, verified flat afterwards
+const closeService = createCloseService({
+    fetchPositions: async () => (await okxService.fetchAccountData(config)).positions,
+    getSpec: (instId) => okxService.fetchInstrumentSpec(instId, config),
+    closeSide: (position) => okxService.closePositionSide(position, config),
+    reduceSide: (position, spec, size) => okxService.reducePositionSide(position, spec, size, config),
+    cancelSideAlgos: (instId, posSide) => okxService.cancelSideAlgoOrders(instId, posSide, config),
+    onLog: (type, message) => addLog(type, message),
+});
+
+// Hand an executed order over to the tracker (CLOSE may cover both sides and, live, has no ordId)
+const trackExecution = (decision: AIDecision, res: any, decisionPx: number, positions: PositionData[]) => {
+    const instId = decision.instId || '';
+    const rows: any[] = Array.isArray(res?.data) ? res.data : [];
+    if (decision.action === 'CLOSE') {
+        rows.forEach(row => {
+            const posSide = row.posSide as 'long' | 'short';
+            if (posSide !== 'long' && posSide !== 'short') return;
+            const pos = positions.find(p => p.instId === instId && p.posSide === posSide);
+            if (row.ordId) orderTracker.track({ ordId: row.ordId, decision, decisionPx, posSide, requestedSz: pos?.pos || "0" });
+            orderTracker.noteClosed(instId, posSide);
+        });
+        return;
+    }
+    const ordId = rows[0]?.ordId;
+    if (!ordId) {
+        addLog('WARNING', `[${instId}] 下单回执缺少 ordId, 无法跟踪成交`);
+        return;
+    }
+    orderTracker.track({ ordId, decision, decisionPx, posSide: decision.posSide || (decision.action === 'BUY' ? 'long' : 'short') });
+};
+
+// Per-instrument strategy loop state
+interface InstrumentLoopState {
+    instId: string;
+    spec: InstrumentSpec | null;
+    marketData: MarketDataCollection | null;
+    latestDecision: AIDecision | null;
+    lastAnalysisTime: number;
+    partialTpTaken: boolean; // Rule engine memory: 50% tiered take-profit already executed
+}
+const instrumentStates = new Map<string, InstrumentLoopState>();
+
+// Keep one loop state per configured instrument (added ones start fresh, removed ones are dropped)
+const syncInstruments = () => {
+    for (const instId of Array.from(instrumentStates.keys())) {
+        if (!config.instruments.includes(instId)) instrumentStates.delete(instId);
+    }
+    for (const instId of config.instruments) {
+        if (instrumentStates.has(instId)) continue;
+        instrumentStates.set(instId, {
+            instId,
+            spec: null,
+            marketData: null,
+            // Decisions persisted before multi-instrument support carry no instId
+            latestDecision: decisionHistory.find(d => (d.instId || DEFAULT_INSTRUMENT_ID) === instId) || null,
+            lastAnalysisTime: 0,
+            partialTpTaken: false,
+        });
+    }
+};
 
 // Performance Tracking
 let equityHistory: number[] = [];
-const MAX_EQUITY_HISTORY = 1000;
+
+// --- Notifications (Telegram / webhook / email, see services/notifier.ts) ---
+const notifier = createNotifier({
+    getConfig: () => config,
+    onLog: (type, message) => addLog(type, message),
+});
+
+// --- Dashboard Push (server-sent events on /api/stream) ---
+const pushHub = createPushHub({ snapshot: () => buildStatusSnapshot() });
 
 // Helper to add logs
 const addLog = (type: SystemLog['type'], message: string) => {
@@ -42,43 +250,85 @@ const addLog = (type: SystemLog['type'], message: string) => {
       message 
   };
   logs.push(log);
-  // Keep last 200 logs to prevent memory overflow
-  if (logs.length > 200) logs = logs.slice(-200);
+  store.appendLog(log);
+  // Keep last N logs to prevent memory overflow
+  if (logs.length > config.retention.maxLogs) logs = logs.slice(-config.retention.maxLogs);
   console.log(`[${type}] ${message}`);
+  pushHub.publish({ type: 'log', log });
+  notifier.notify(log);
 };
 
-// Helper: Calculate Sharpe Ratio
-const calculateSharpeRatio = (history: number[]): number => {
-    if (history.length < 2) return 0;
-    
-    const returns: number[] = [];
-    for (let i = 1; i < history.length; i++) {
-        const prev = history[i - 1];
-        const curr = history[i];
-        if (prev === 0) continue;
-        returns.push((curr - prev) / prev);
+// Pre-trade risk gate for exposure-increasing orders (fails closed if realized PnL is unavailable)
+const runRiskCheck = async (decision: AIDecision, md: MarketDataCollection, ad: AccountContext, spec: InstrumentSpec): Promise<RiskCheckResult> => {
+    let result: RiskCheckResult;
+    try {
+        const closed = await okxService.fetchClosedPositions(config);
+        result = checkOrderRisk({
+            decision,
+            accountData: ad,
+            spec,
+            price: parseFloat(md.ticker?.last || "0"),
+            realized: summarizeRealizedPnl(closed),
+        }, config.risk);
+    } catch (e: any) {
+        result = {
+            allowed: false,
+            violations: [{ code: 'RISK_DATA_UNAVAILABLE', message: `无法获取已实现盈亏: ${e.message}`, limit: 0, actual: 0 }],
+            checkedAt: Date.now(),
+        };
     }
-    
-    if (returns.length === 0) return 0;
-    
-    const meanReturn = returns.reduce((a, b) => a + b, 0) / returns.length;
-    
-    const squaredDiffs = returns.map(r => Math.pow(r - meanReturn, 2));
-    const avgSquaredDiff = squaredDiffs.reduce((a, b) => a + b, 0) / returns.length;
-    const stdDev = Math.sqrt(avgSquaredDiff);
-    
-    if (stdDev === 0) return 0;
-    
-    // Assuming Risk Free Rate is negligible for short term high frequency
-    return meanReturn / stdDev;
+
+    if (!result.allowed) {
+        const reasons = result.violations.map(v => `[${v.code}] ${v.message}`).join('; ');
+        addLog('WARNING', `[${spec.instId}] 风控拦截 ${decision.action} ${decision.size} 张: ${reasons}`);
+    }
+    return result;
+};
+
+// Sizing config plus KELLY stats from this instrument's closed trades
+const sizingOptions = (instId: string): SizingOptions => ({
+    config: config.sizing,
+    stats: config.sizing.mode === 'KELLY'
+        ? kellyStats(tradeJournal.getTrades(instId).filter(t => t.status === 'CLOSED').map(t => t.netPnl))
+        : null,
+});
+
+// Produce a decision according to config.decisionMode
+const makeDecision = async (state: InstrumentLoopState, md: MarketDataCollection, ad: AccountContext, spec: InstrumentSpec): Promise<AIDecision> => {
+    const mode = config.decisionMode || 'AI';
+    const sizing = sizingOptions(spec.instId);
+    if (mode === 'AI') {
+        const decision = await aiService.getTradingDecision(createProvider(config), md, ad, spec, { refineEntry: config.multiTimeframe.refineEntry.AI, indicators: config.indicators.prompt, sizing });
+        const v = decision.validation;
+        if (v && v.failures.length > 0) {
+            addLog(v.valid ? 'WARNING' : 'ERROR', `[${spec.instId}] AI 输出校验失败 ${v.failures.length} 次${v.valid ? ', 修正后通过' : ', 已强制 HOLD'}: ${v.failures[v.failures.length - 1].errors.join('; ')}`);
+        }
+        return decision;
+    }
+
+    const ruleDecision = ruleEngine.getRuleDecision(md, ad, spec, { partialTpTaken: state.partialTpTaken, refineEntry: config.multiTimeframe.refineEntry[mode], sizing });
+    if (mode === 'RULE' || ruleDecision.action === 'HOLD') return ruleDecision;
+
+    // AI_VETO: exits and take-profits always pass, only opens/rolls can be downgraded
+    ruleDecision.source = 'AI_VETO';
+    if (isReducingOrder(ruleDecision)) return ruleDecision;
+
+    const { veto, reason } = await aiService.getAIVeto(createProvider(config), ruleDecision, md, config.indicators.prompt);
+    if (veto) {
+        addLog('WARNING', `[${spec.instId}] AI 否决规则信号 ${ruleDecision.action}: ${reason}`);
+        ruleDecision.action = 'HOLD';
+        ruleDecision.size = "0";
+        ruleDecision.vetoReason = reason;
+        ruleDecision.reasoning += ` [AI 否决: ${reason}]`;
+    }
+    return ruleDecision;
 };
 
 // --- Background Trading Loop ---
 const runTradingLoop = async () => {
-    // 1. Fetch Data (Keep fetching OKX data frequently to maintain chart/UI updates)
+    // 1. Fetch Account (shared by every instrument loop)
     try {
-        marketData = await okxService.fetchMarketData(config);
-        accountData = await okxService.fetchAccountData(config);
+        accountData = feed.getAccountData() || await okxService.fetchAccountData(config);
         
         // Update Equity History for Sharpe Calculation
         if (accountData) {
@@ -87,8 +337,9 @@ const runTradingLoop = async () => {
                 // Only push if changed significantly or interval passed (to avoid noise)
                 // For simplicity, we push every successful fetch, but limit size
                 equityHistory.push(currentEq);
-                if (equityHistory.length > MAX_EQUITY_HISTORY) {
-                    equityHistory = equityHistory.slice(-MAX_EQUITY_HISTORY);
+                store.appendEquity(currentEq);
+                if (equityHistory.length > config.retention.maxEquityPoints) {
+                    equityHistory = equityHistory.slice(-config.retention.maxEquityPoints);
                 }
                 
                 // Calculate Sharpe and inject into accountData context
@@ -102,7 +353,42 @@ const runTradingLoop = async () => {
         return;
     }
 
-    if (!isRunning) return;
+    // 2. Confirm fills of submitted orders
+    await orderTracker.poll();
+
+    // 3. Each instrument runs its own strategy loop
+    for (const state of Array.from(instrumentStates.values())) {
+        await runInstrumentLoop(state);
+    }
+
+    // 4. Once a minute reconcile positions (after the take-profit ladders reported their fills) and update the trade journal
+    if (Date.now() - lastReconcileAt >= RECONCILE_INTERVAL_MS) {
+        lastReconcileAt = Date.now();
+        if (accountData) await orderTracker.reconcile(accountData.positions);
+        await tradeJournal.sync();
+    }
+    if (accountData) {
+        const openKeys = accountData.positions.map(p => `${p.instId}:${p.posSide}`);
+        stopManager.prune(openKeys);
+        roller.prune(openKeys);
+        takeProfits.prune(openKeys);
+    }
+};
+
+const runInstrumentLoop = async (state: InstrumentLoopState) => {
+    const { instId } = state;
+
+    // 1. Fetch Data (Keep fetching OKX data frequently to maintain chart/UI updates)
+    try {
+        state.spec = await okxService.fetchInstrumentSpec(instId, config);
+        state.marketData = feed.getMarketData(instId) || await okxService.fetchMarketData(config, instId);
+        if (state.marketData.ticker) tradeJournal.markPrice(instId, parseFloat(state.marketData.ticker.last));
+    } catch (e: any) {
+        if (isRunning) addLog('ERROR', `[${instId}] 数据同步失败: ${e.message}`);
+        return;
+    }
+
+    if (!isRunning || !accountData) return;
 
     // 2. AI Analysis Logic (With Dynamic Frequency Optimization)
     const now = Date.now();
@@ -111,50 +397,78 @@ const runTradingLoop = async () => {
     let aiInterval = 300000; // Default: 5 minutes
     let modeText = "初始化";
 
-    if (accountData) {
-        // Check for active position on the target instrument
-        const primaryPosition = accountData.positions.find(p => p.instId === INSTRUMENT_ID);
-        // Only consider actual size > 0 as holding (ignore dust or closed pos if any leftovers)
-        const hasPosition = !!primaryPosition && parseFloat(primaryPosition.pos) > 0;
-        
-        if (hasPosition) {
-            // [Holding Mode]: High Frequency (15s) for tight risk management and rolling
-            aiInterval = 60000; 
-            modeText = "持仓高频战备 (60s)";
-        } else {
-            // [Empty Mode]: Very Low Frequency (5m) for 4H Strategy Token Saving
-            // 4H candles take 240 mins to close. Checking every 5 mins is sufficient for trend & pullback entries.
-            aiInterval = 600000; 
-            modeText = "空仓节能扫描 (10min)";
-        }
+    // Check for active position on this instrument
+    const currentPosition = accountData.positions.find(p => p.instId === instId);
+    // Only consider actual size > 0 as holding (ignore dust or closed pos if any leftovers)
+    const hasPosition = !!currentPosition && parseFloat(currentPosition.pos) > 0;
+    if (!hasPosition) state.partialTpTaken = false;
+    
+    // Roll ladder and stop rules run every tick, between AI calls
+    if (hasPosition && state.marketData && state.spec) {
+        await roller.observe(currentPosition!, state.spec, parseFloat(state.marketData.ticker?.last || "0"));
+        const netRoePct = aiService.analyzePositionState(state.marketData, accountData, state.spec).netProfitRatio * 100;
+        await stopManager.manage({ position: currentPosition!, marketData: state.marketData, spec: state.spec, netRoePct });
+        await takeProfits.sync(currentPosition!, state.spec, parseFloat(state.marketData.ticker?.last || "0"));
+    }
+
+    if (hasPosition) {
+        // [Holding Mode]: High Frequency (15s) for tight risk management and rolling
+        aiInterval = 60000; 
+        modeText = "持仓高频战备 (60s)";
+    } else {
+        // [Empty Mode]: Very Low Frequency (5m) for 4H Strategy Token Saving
+        // 4H candles take 240 mins to close. Checking every 5 mins is sufficient for trend & pullback entries.
+        aiInterval = 600000; 
+        modeText = "空仓节能扫描 (10min)";
     }
 
     // Check if enough time has passed based on dynamic interval
-    if (now - lastAnalysisTime < aiInterval) return;
+    if (now - state.lastAnalysisTime < aiInterval) return;
 
     // Use setTimeout instead of setImmediate to avoid TS errors
     setTimeout(async () => {
         try {
-            lastAnalysisTime = now;
-            addLog('INFO', `正在调用云端战神引擎 [${modeText}]...`);
+            state.lastAnalysisTime = now;
+            const engineText = config.decisionMode === 'RULE' ? '规则引擎' : config.decisionMode === 'AI_VETO' ? '规则引擎 + AI 否决' : '云端战神引擎';
+            addLog('INFO', `[${instId}] 正在调用${engineText} [${modeText}]...`);
             
-            if (!marketData || !accountData) return;
+            const marketData = state.marketData;
+            const spec = state.spec;
+            if (!marketData || !accountData || !spec) return;
+
+            const decision = await makeDecision(state, marketData, accountData, spec);
 
-            // Updated to use deepseekApiKey
-            const decision = await aiService.getTradingDecision(config.deepseekApiKey, marketData, accountData);
+            // Rolls onto an open position count against the roll cap
+            const rollTarget = (decision.action === 'BUY' || decision.action === 'SELL') && !isReducingOrder(decision)
+                ? accountData.positions.find(p => p.instId === instId && p.posSide === decision.posSide && parseFloat(p.pos) > 0)
+                : undefined;
+            const rollCap = rollTarget ? roller.canRoll(instId, decision.posSide!) : null;
+            if (rollCap && !rollCap.allowed) {
+                addLog('WARNING', `[${instId}] 拦截 ${decision.action} ${decision.size} 张: ${rollCap.reason}`);
+                decision.action = 'HOLD';
+                decision.size = "0";
+                decision.reasoning += ` [${rollCap.reason}, 不再加码]`;
+            }
+
+            // Every order that adds exposure passes the hard risk limits first
+            if ((decision.action === 'BUY' || decision.action === 'SELL') && !isReducingOrder(decision)) {
+                decision.riskCheck = await runRiskCheck(decision, marketData, accountData, spec);
+            }
             
             // Timestamp and Store History
             decision.timestamp = Date.now();
-            latestDecision = decision;
+            decision.instId = instId;
+            state.latestDecision = decision;
             decisionHistory.unshift(decision);
-            // Keep last 1000 items in memory
-            if (decisionHistory.length > 1000) decisionHistory = decisionHistory.slice(0, 1000);
+            store.appendDecision(decision);
+            // Keep last N items in memory
+            if (decisionHistory.length > config.retention.maxDecisions) decisionHistory = decisionHistory.slice(0, config.retention.maxDecisions);
             
             const conf = decision.trading_decision?.confidence || "0%";
-            addLog('INFO', `[${decision.stage_analysis.substring(0, 10)}..] 决策: ${decision.action} (置信度 ${conf})`);
+            addLog('INFO', `[${instId}] [${decision.stage_analysis.substring(0, 10)}..] 决策: ${decision.action} (置信度 ${conf})`);
 
             // Find main position for management
-            const primaryPosition = accountData.positions.find(p => p.instId === INSTRUMENT_ID);
+            const primaryPosition = accountData.positions.find(p => p.instId === instId);
 
             // Execute Actions
             if (decision.action === 'UPDATE_TPSL') {
@@ -166,133 +480,638 @@ const runTradingLoop = async () => {
                     const isValid = (p: string) => p && !isNaN(parseFloat(p)) && parseFloat(p) > 0;
                     
                     if (isValid(newSL) || isValid(newTP)) {
-                        // Ensure strict type check against 'net' to allow TS to narrow posSide to 'long' | 'short'
-                        if (primaryPosition.posSide === 'net') {
-                             addLog('WARNING', '单向持仓模式不支持自动更新止损/止盈');
-                        } else {
-                            try {
-                                const res = await okxService.updatePositionTPSL(
-                                    INSTRUMENT_ID, 
-                                    primaryPosition.posSide, 
-                                    primaryPosition.pos, 
-                                    isValid(newSL) ? newSL : undefined,
-                                    isValid(newTP) ? newTP : undefined,
-                                    config
-                                );
-                                addLog('SUCCESS', `云端止损更新: ${res.msg}`);
-                            } catch(err: any) {
-                                addLog('ERROR', `更新止损失败: ${err.message}`);
-                            }
+                        try {
+                            const res = await okxService.updatePositionTPSL(
+                                instId, 
+                                primaryPosition.posSide, 
+                                primaryPosition.pos, 
+                                isValid(newSL) ? newSL : undefined,
+                                isValid(newTP) ? newTP : undefined,
+                                config,
+                                takeProfits.algoIds(instId, primaryPosition.posSide)
+                            );
+                            addLog('SUCCESS', `[${instId}] 云端止损更新: ${res.msg}`);
+                        } catch(err: any) {
+                            addLog('ERROR', `[${instId}] 更新止损失败: ${err.message}`);
                         }
                     }
                  }
+            } else if (decision.riskCheck && !decision.riskCheck.allowed) {
+                // Blocked by the risk gate (reasons already logged)
+            } else if (decision.action === 'CLOSE') {
+                const open = accountData.positions.filter(p => p.instId === instId && parseFloat(p.pos) !== 0);
+                if (open.length === 0) addLog('WARNING', `[${instId}] 平仓信号, 但当前无持仓`);
+                for (const p of open) {
+                    try {
+                        const r = await closeService.closePosition(p, 100, '策略平仓');
+                        trackExecution(decision, { data: [{ posSide: p.posSide, ordId: r.ordId }] }, parseFloat(marketData.ticker?.last || "0"), accountData.positions);
+                    } catch(err: any) {
+                        addLog('ERROR', `[${instId}] 平仓失败: ${err.message}`);
+                    }
+                }
             } else if (decision.action !== 'HOLD') {
                 try {
-                    const res = await okxService.executeOrder(decision, config);
-                    addLog('TRADE', `执行订单: ${decision.action} ${decision.size} 张. 结果: ${res.msg}`);
+                    const res = await okxService.executeOrder(decision, config, spec);
+                    addLog('TRADE', `[${instId}] 订单已提交: ${decision.action} ${decision.size} 张. 回执: ${res.msg || 'OK'}`);
+                    trackExecution(decision, res, parseFloat(marketData.ticker?.last || "0"), accountData.positions);
+                    state.partialTpTaken = isReducingOrder(decision);
                 } catch(err: any) {
-                    addLog('ERROR', `订单执行失败: ${err.message}`);
+                    addLog('ERROR', `[${instId}] 订单执行失败: ${err.message}`);
                 }
             }
 
-            // Rolling Logic (Server Safeguard)
-            if (decision.action === 'HOLD' && primaryPosition && marketData?.ticker) {
-                const currentPrice = parseFloat(marketData.ticker.last);
-                const posSize = parseFloat(primaryPosition.pos);
-                const avgPx = parseFloat(primaryPosition.avgPx);
-                const upl = parseFloat(primaryPosition.upl);
-                const margin = parseFloat(primaryPosition.margin);
-                
-                // Calculate Net Profit for Server Rolling Trigger
-                const sizeCoin = posSize * CONTRACT_VAL_ETH;
-                const openFee = sizeCoin * avgPx * TAKER_FEE_RATE;
-                const closeFee = sizeCoin * currentPrice * TAKER_FEE_RATE;
-                const netPnL = upl - (openFee + closeFee);
-                const netRoe = margin > 0 ? (netPnL / margin) * 100 : 0;
-
-                // Failsafe auto-rolling logic (aggressive)
-                if (netRoe >= 50) {
-                     addLog('SUCCESS', `触发自动滚仓: 净收益率 ${netRoe.toFixed(2)}%`);
-                     try {
-                         await okxService.addMargin({
-                            instId: INSTRUMENT_ID,
-                            posSide: primaryPosition.posSide,
-                            type: 'add',
-                            amt: (parseFloat(primaryPosition.upl) * 0.5).toFixed(2)
-                         }, config);
-                         addLog('TRADE', '滚仓成功');
-                     } catch(e: any) {
-                         addLog('ERROR', `滚仓失败: ${e.message}`);
-                     }
-                }
+            // Rolling executor: a profit-funded leg once net ROE reaches the trigger
+            if (decision.action === 'HOLD' && primaryPosition && parseFloat(primaryPosition.pos) > 0) {
+                await roller.maybeRoll(primaryPosition, spec, aiService.analyzePositionState(marketData, accountData, spec));
             }
 
         } catch (e: any) {
-            addLog('ERROR', `策略执行异常: ${e.message}`);
+            addLog('ERROR', `[${instId}] 策略执行异常: ${e.message}`);
         }
     }, 0);
 };
 
-// Start Loop
-// Check loop condition every 5 seconds (must be smaller than min analysis interval)
-// This ensures market data is always fresh on the UI even if AI runs infrequently
-setInterval(runTradingLoop, 5000);
+// --- Auth & Audit ---
+
+const audit = (req: express.Request, user: AuthUser | null, username: string, action: AuditAction, success: boolean, detail: string) => {
+    const entry: AuditEntry = {
+        id: Date.now().toString() + Math.random(),
+        ts: Date.now(),
+        username,
+        role: user?.role ?? null,
+        action,
+        success,
+        detail,
+        ip: req.ip || '',
+    };
+    auditTrail.push(entry);
+    if (auditTrail.length > MAX_AUDIT_ENTRIES) auditTrail = auditTrail.slice(-MAX_AUDIT_ENTRIES);
+    store.appendAudit(entry);
+};
+
+const bearerToken = (req: express.Request) => {
+    const header = req.headers.authorization || '';
+    return header.startsWith('Bearer ') ? header.slice(7).trim() : '';
+};
+
+// Attaches the session user to res.locals.user; 401 without a valid token, 403 below the role
+const requireRole = (role: UserRole): express.RequestHandler => (req, res, next) => {
+    const session = sessions.get(bearerToken(req));
+    if (!session) {
+        res.status(401).json({ error: '未登录或会话已过期' });
+        return;
+    }
+    if (!hasRole(session, role)) {
+        res.status(403).json({ error: '权限不足' });
+        return;
+    }
+    res.locals.user = { username: session.username, role: session.role } as AuthUser;
+    next();
+};
+
+const publicUser = (u: UserAccount) => ({ username: u.username, role: u.role, createdAt: u.createdAt });
+
+app.post('/api/auth/login', (req, res) => {
+    const { username, password } = req.body || {};
+    const name = typeof username === 'string' ? username.trim() : '';
+    const ip = req.ip || '';
+    const lockedMs = loginThrottle.retryAfter(ip, name);
+    if (lockedMs > 0) {
+        const seconds = Math.ceil(lockedMs / 1000);
+        audit(req, null, name, 'LOGIN', false, `登录失败次数过多, 锁定中 (${seconds}s)`);
+        res.set('Retry-After', String(seconds));
+        res.status(429).json({ error: `登录失败次数过多, 请 ${seconds} 秒后重试` });
+        return;
+    }
+    const user = users.find(u => u.username === name);
+    if (!user || typeof password !== 'string' || !verifyPassword(password, user.passwordHash)) {
+        loginThrottle.fail(ip, name);
+        audit(req, null, name, 'LOGIN', false, '用户名或密码错误');
+        res.status(401).json({ error: '用户名或密码错误' });
+        return;
+    }
+    loginThrottle.succeed(ip, name);
+    const session = sessions.create({ username: user.username, role: user.role });
+    audit(req, user, user.username, 'LOGIN', true, '');
+    res.json({ token: session.token, expiresAt: session.expiresAt, user: { username: user.username, role: user.role } });
+});
+
+app.post('/api/auth/logout', requireRole('viewer'), (req, res) => {
+    const user: AuthUser = res.locals.user;
+    sessions.revoke(bearerToken(req));
+    audit(req, user, user.username, 'LOGOUT', true, '');
+    res.json({ success: true });
+});
+
+app.get('/api/auth/me', requireRole('viewer'), (req, res) => {
+    res.json({ user: res.locals.user });
+});
+
+app.get('/api/auth/users', requireRole('operator'), (req, res) => {
+    res.json({ users: users.map(publicUser) });
+});
+
+// Create a user or change an existing user's role/password (operator only)
+app.post('/api/auth/users', requireRole('operator'), (req, res) => {
+    const actor: AuthUser = res.locals.user;
+    const { username, password, role } = req.body || {};
+    const name = typeof username === 'string' ? username.trim() : '';
+    const existing = users.find(u => u.username === name);
+
+    if (!/^[A-Za-z0-9_.-]{3,32}$/.test(name)) {
+        res.status(400).json({ error: '用户名需为 3-32 位字母、数字或 _ . -' });
+        return;
+    }
+    if (role !== undefined && !isUserRole(role)) {
+        res.status(400).json({ error: '角色必须是 viewer 或 operator' });
+        return;
+    }
+    if (password !== undefined && (typeof password !== 'string' || password.length < 8)) {
+        res.status(400).json({ error: '密码至少 8 位' });
+        return;
+    }
+    if (!existing && password === undefined) {
+        res.status(400).json({ error: '新用户必须设置密码' });
+        return;
+    }
+    // Never leave the system without an operator
+    if (existing?.role === 'operator' && role === 'viewer' && users.filter(u => u.role === 'operator').length === 1) {
+        res.status(400).json({ error: '至少需要保留一个 operator 账号' });
+        return;
+    }
+
+    const next: UserAccount = {
+        username: name,
+        role: role ?? existing?.role ?? 'viewer',
+        passwordHash: password !== undefined ? hashPassword(password) : existing!.passwordHash,
+        createdAt: existing?.createdAt ?? Date.now(),
+    };
+    users = existing ? users.map(u => u.username === name ? next : u) : [...users, next];
+    store.saveUsers(users);
+    if (existing) sessions.revokeUser(name);
+
+    const changes = [existing ? '更新' : '创建', `角色=${next.role}`, password !== undefined ? '密码已设置' : ''].filter(Boolean).join(', ');
+    audit(req, actor, actor.username, 'USER_UPDATE', true, `${name}: ${changes}`);
+    res.json({ success: true, user: publicUser(next) });
+});
+
+app.get('/api/audit', requireRole('operator'), (req, res) => {
+    res.json({ entries: auditTrail.slice().reverse() });
+});
+
+// First start: seed accounts from env, or create an operator with a one-time random password
+const seedUsers = () => {
+    if (users.length > 0) return;
+    const operatorName = process.env.AUTH_OPERATOR_USERNAME || 'admin';
+    let operatorPassword = process.env.AUTH_OPERATOR_PASSWORD;
+    if (!operatorPassword) {
+        operatorPassword = crypto.randomBytes(12).toString('base64url');
+        console.log(`[Auth] 已创建初始 operator 账号 ${operatorName}, 密码: ${operatorPassword} (仅显示一次, 请登录后修改)`);
+    }
+    users.push({ username: operatorName, role: 'operator', passwordHash: hashPassword(operatorPassword), createdAt: Date.now() });
+
+    if (process.env.AUTH_VIEWER_USERNAME && process.env.AUTH_VIEWER_PASSWORD) {
+        users.push({ username: process.env.AUTH_VIEWER_USERNAME, role: 'viewer', passwordHash: hashPassword(process.env.AUTH_VIEWER_PASSWORD), createdAt: Date.now() });
+    }
+    store.saveUsers(users);
+};
 
 // --- API Endpoints ---
 
-app.get('/api/status', (req, res) => {
-    res.json({
-        isRunning,
-        config: { ...config, okxSecretKey: '***', okxPassphrase: '***', deepseekApiKey: '***' }, // Hide sensitive
-        marketData,
-        accountData,
-        latestDecision,
-        logs
+const buildStatusSnapshot = (): StatusSnapshot => ({
+    isRunning,
+    feed: feed.getStatus(),
+    // Credentials never leave the server, only their fingerprints
+    config: withoutSecrets(config),
+    secrets: vault.status(),
+    accountData,
+    instruments: Array.from(instrumentStates.values()).map((s): InstrumentStatus => ({
+        instId: s.instId,
+        spec: s.spec,
+        marketData: s.marketData,
+        latestDecision: s.latestDecision,
+        recentOrders: orderTracker.getOrders(s.instId).slice(0, 10),
+        ladders: roller.getLadders(s.instId),
+        takeProfits: takeProfits.getLadders(s.instId),
+    })),
+    reconciliation: orderTracker.getReport(),
+    logs
+});
+
+app.get('/api/status', requireRole('viewer'), (req, res) => {
+    res.json(buildStatusSnapshot());
+});
+
+// EventSource cannot send headers: the client trades its bearer token for a one-time
+// ticket here and opens /api/stream?ticket=, so the token never appears in a URL
+app.post('/api/stream/ticket', requireRole('viewer'), (req, res) => {
+    res.json(sessions.createTicket(bearerToken(req)));
+});
+
+// Push channel for the dashboard; /api/status stays as the polling fallback
+app.get('/api/stream', (req, res) => {
+    const ticket = typeof req.query.ticket === 'string' ? req.query.ticket : '';
+    const session = sessions.redeemTicket(ticket);
+    if (!session) {
+        res.status(401).json({ error: '推送票据无效或已过期' });
+        return;
+    }
+    if (!hasRole(session, 'viewer')) {
+        res.status(403).json({ error: '权限不足' });
+        return;
+    }
+    pushHub.attach(req, res, () => {
+        const current = sessions.get(session.token);
+        return !!current && hasRole(current, 'viewer');
     });
 });
 
-app.get('/api/history', (req, res) => {
+app.get('/api/history', requireRole('viewer'), (req, res) => {
     const now = Date.now();
+    // Optional ?instId= filter for the per-instrument dashboard tab
+    const instId = typeof req.query.instId === 'string' ? req.query.instId : null;
+    const history = instId ? decisionHistory.filter(d => (d.instId || DEFAULT_INSTRUMENT_ID) === instId) : decisionHistory;
     // 1 Hour in milliseconds
     const oneHour = 60 * 60 * 1000;
     
     // Recent 1 hour reports
-    const recent = decisionHistory.filter(d => (d.timestamp || 0) > now - oneHour);
+    const recent = history.filter(d => (d.timestamp || 0) > now - oneHour);
     
     // Last 50 NON-HOLD reports
-    const actions = decisionHistory.filter(d => d.action !== 'HOLD').slice(0, 50);
+    const actions = history.filter(d => d.action !== 'HOLD').slice(0, 50);
     
     res.json({ recent, actions });
 });
 
-app.post('/api/config', (req, res) => {
+app.get('/api/journal', requireRole('viewer'), (req, res) => {
+    const instId = typeof req.query.instId === 'string' ? req.query.instId : undefined;
+    res.json({ trades: tradeJournal.getTrades(instId) });
+});
+
+app.get('/api/orders', requireRole('viewer'), (req, res) => {
+    const instId = typeof req.query.instId === 'string' ? req.query.instId : undefined;
+    res.json({ orders: orderTracker.getOrders(instId), reconciliation: orderTracker.getReport() });
+});
+
+// Retention limits must be positive integers, fall back to defaults otherwise
+const sanitizeRetention = (r: AppConfig['retention']): AppConfig['retention'] => ({
+    maxLogs: Math.floor(r.maxLogs) > 0 ? Math.floor(r.maxLogs) : DEFAULT_CONFIG.retention.maxLogs,
+    maxDecisions: Math.floor(r.maxDecisions) > 0 ? Math.floor(r.maxDecisions) : DEFAULT_CONFIG.retention.maxDecisions,
+    maxEquityPoints: Math.floor(r.maxEquityPoints) > 0 ? Math.floor(r.maxEquityPoints) : DEFAULT_CONFIG.retention.maxEquityPoints,
+});
+
+// Non-negative numbers (0 disables a limit); anything else falls back to the default
+const sanitizeRisk = (r: Partial<RiskLimits>): RiskLimits => {
+    const num = (v: any, def: number) => Number.isFinite(Number(v)) && Number(v) >= 0 ? Number(v) : def;
+    return {
+        maxLeverage: num(r.maxLeverage, DEFAULT_RISK_LIMITS.maxLeverage),
+        maxPositionNotional: num(r.maxPositionNotional, DEFAULT_RISK_LIMITS.maxPositionNotional),
+        maxDailyLoss: num(r.maxDailyLoss, DEFAULT_RISK_LIMITS.maxDailyLoss),
+        maxConsecutiveLosses: Math.floor(num(r.maxConsecutiveLosses, DEFAULT_RISK_LIMITS.maxConsecutiveLosses)),
+        minStopLiqDistancePct: num(r.minStopLiqDistancePct, DEFAULT_RISK_LIMITS.minStopLiqDistancePct),
+        requireStopLoss: typeof r.requireStopLoss === 'boolean' ? r.requireStopLoss : DEFAULT_RISK_LIMITS.requireStopLoss,
+    };
+};
+
+// Unknown mode keeps FIXED; percentages must be positive, Kelly inputs in range
+const sanitizeSizing = (z: Partial<SizingConfig>): SizingConfig => {
+    const d = DEFAULT_SIZING_CONFIG;
+    const num = (v: any, def: number, max = Infinity) => Number.isFinite(Number(v)) && Number(v) > 0 && Number(v) <= max ? Number(v) : def;
+    return {
+        mode: z.mode === 'RISK' || z.mode === 'ATR' || z.mode === 'KELLY' ? z.mode : 'FIXED',
+        fixedMarginPct: num(z.fixedMarginPct, d.fixedMarginPct, 100),
+        riskPct: num(z.riskPct, d.riskPct, 100),
+        atrMultiple: num(z.atrMultiple, d.atrMultiple),
+        kellyFraction: num(z.kellyFraction, d.kellyFraction, 1),
+        kellyWinRate: num(z.kellyWinRate, d.kellyWinRate, 1),
+        kellyPayoff: num(z.kellyPayoff, d.kellyPayoff),
+        maxRiskPct: num(z.maxRiskPct, d.maxRiskPct, 100),
+    };
+};
+
+// Unknown trail mode keeps the default; ROE thresholds >= 0, ATR multiple > 0
+const sanitizeRolling = (r: Partial<RollingConfig>): RollingConfig => {
+    const d = DEFAULT_ROLLING_CONFIG;
+    return {
+        enabled: typeof r.enabled === 'boolean' ? r.enabled : d.enabled,
+        triggerRoePct: Number(r.triggerRoePct) > 0 ? Number(r.triggerRoePct) : d.triggerRoePct,
+        profitSharePct: Number(r.profitSharePct) > 0 && Number(r.profitSharePct) <= 100 ? Number(r.profitSharePct) : d.profitSharePct,
+        maxRolls: Number.isInteger(Number(r.maxRolls)) && Number(r.maxRolls) >= 0 ? Number(r.maxRolls) : d.maxRolls,
+    };
+};
+
+// Levels sorted nearest first, dropping invalid ones; shares are trimmed so they add up to 100% at most
+const sanitizeTakeProfit = (t: Partial<TakeProfitConfig>): TakeProfitConfig => {
+    const levels = (Array.isArray(t.levels) ? t.levels : DEFAULT_TAKE_PROFIT_CONFIG.levels)
+        .map(l => ({ rMultiple: Number(l?.rMultiple), sizePct: Number(l?.sizePct) }))
+        .filter(l => l.rMultiple > 0 && l.sizePct > 0)
+        .sort((a, b) => a.rMultiple - b.rMultiple)
+        .slice(0, MAX_TAKE_PROFIT_LEVELS);
+    let left = 100;
+    return {
+        enabled: typeof t.enabled === 'boolean' ? t.enabled : DEFAULT_TAKE_PROFIT_CONFIG.enabled,
+        levels: levels
+            .map(l => {
+                const sizePct = Math.min(l.sizePct, left);
+                left -= sizePct;
+                return { ...l, sizePct };
+            })
+            .filter(l => l.sizePct > 0),
+    };
+};
+
+const sanitizeStopManager = (m: Partial<StopManagerConfig>): StopManagerConfig => {
+    const d = DEFAULT_STOP_MANAGER_CONFIG;
+    const num = (v: any, def: number) => Number.isFinite(Number(v)) && Number(v) >= 0 ? Number(v) : def;
+    const bool = (v: any, def: boolean) => typeof v === 'boolean' ? v : def;
+    return {
+        enabled: bool(m.enabled, d.enabled),
+        breakEvenRoePct: num(m.breakEvenRoePct, d.breakEvenRoePct),
+        trailMode: m.trailMode === 'OFF' || m.trailMode === 'ATR' || m.trailMode === 'CANDLE' ? m.trailMode : d.trailMode,
+        trailAtrMultiple: Number(m.trailAtrMultiple) > 0 ? Number(m.trailAtrMultiple) : d.trailAtrMultiple,
+        trailActivationRoePct: num(m.trailActivationRoePct, d.trailActivationRoePct),
+        stepOnRoll: bool(m.stepOnRoll, d.stepOnRoll),
+        nativeTrailing: bool(m.nativeTrailing, d.nativeTrailing),
+    };
+};
+
+// Unknown provider falls back to DeepSeek; blank model/base URL take the provider default
+const sanitizeLlm = (l: Partial<LLMConfig>): LLMConfig => {
+    const provider = l.provider && l.provider in LLM_PROVIDER_DEFAULTS ? l.provider : DEFAULT_LLM_CONFIG.provider;
+    const temperature = Number(l.temperature);
+    const maxTokens = Math.floor(Number(l.maxTokens));
+    return {
+        provider,
+        model: typeof l.model === 'string' && l.model.trim() ? l.model.trim() : LLM_PROVIDER_DEFAULTS[provider].model,
+        temperature: Number.isFinite(temperature) && temperature >= 0 && temperature <= 2 ? temperature : DEFAULT_LLM_CONFIG.temperature,
+        maxTokens: maxTokens > 0 ? maxTokens : DEFAULT_LLM_CONFIG.maxTokens,
+        baseUrl: typeof l.baseUrl === 'string' && l.baseUrl.trim() ? l.baseUrl.trim() : LLM_PROVIDER_DEFAULTS[provider].baseUrl,
+    };
+};
+
+// Per-channel merge over defaults; unknown event types are dropped, blank templates take the default
+const sanitizeNotifications = (n: Partial<NotificationConfig>): NotificationConfig => {
+    const d = DEFAULT_NOTIFICATION_CONFIG;
+    const str = (v: any, def: string) => typeof v === 'string' ? v.trim() : def;
+    const events = (v: any, def: NotifyEventType[]): NotifyEventType[] =>
+        Array.isArray(v) ? Array.from(new Set(v.filter((e): e is NotifyEventType => e === 'TRADE' || e === 'ERROR' || e === 'WARNING'))) : def;
+    const t = { ...d.telegram, ...(n.telegram || {}) };
+    const w = { ...d.webhook, ...(n.webhook || {}) };
+    const e = { ...d.email, ...(n.email || {}) };
+    const port = Math.floor(Number(e.port));
+    const maxPerMinute = Math.floor(Number(n.maxPerMinute));
+    const templates = { ...d.templates, ...(n.templates || {}) };
+    return {
+        telegram: { enabled: t.enabled === true, events: events(t.events, d.telegram.events), chatId: str(t.chatId, ''), apiBaseUrl: str(t.apiBaseUrl, '') || d.telegram.apiBaseUrl },
+        webhook: { enabled: w.enabled === true, events: events(w.events, d.webhook.events), url: str(w.url, '') },
+        email: {
+            enabled: e.enabled === true,
+            events: events(e.events, d.email.events),
+            host: str(e.host, ''),
+            port: port > 0 && port < 65536 ? port : d.email.port,
+            secure: e.secure === true,
+            username: str(e.username, ''),
+            from: str(e.from, ''),
+            to: str(e.to, ''),
+        },
+        maxPerMinute: maxPerMinute >= 0 ? maxPerMinute : d.maxPerMinute,
+        templates: {
+            TRADE: str(templates.TRADE, '') || d.templates.TRADE,
+            ERROR: str(templates.ERROR, '') || d.templates.ERROR,
+            WARNING: str(templates.WARNING, '') || d.templates.WARNING,
+        },
+    };
+};
+
+// Booleans per decision mode, anything else keeps the default (off)
+const sanitizeMultiTimeframe = (m: Partial<MultiTimeframeConfig>): MultiTimeframeConfig => {
+    const refine: Partial<Record<DecisionMode, unknown>> = m.refineEntry || {};
+    const flag = (mode: DecisionMode) => typeof refine[mode] === 'boolean' ? refine[mode] as boolean : DEFAULT_MULTI_TIMEFRAME_CONFIG.refineEntry[mode];
+    return { refineEntry: { AI: flag('AI'), RULE: flag('RULE'), AI_VETO: flag('AI_VETO') } };
+};
+
+// Known indicator names only, no duplicates
+const sanitizeIndicators = (c: Partial<IndicatorConfig>): IndicatorConfig => ({
+    prompt: Array.isArray(c.prompt)
+        ? INDICATOR_NAMES.map(i => i.name).filter(name => (c.prompt as unknown[]).includes(name))
+        : DEFAULT_INDICATOR_CONFIG.prompt,
+});
+
+// At least one instrument, unique, OKX instId format
+const sanitizeInstruments = (list: unknown): string[] => {
+    const valid = Array.isArray(list)
+        ? list.filter((id): id is string => typeof id === 'string' && /^[A-Z0-9]+-[A-Z0-9]+-SWAP$/.test(id))
+        : [];
+    return valid.length > 0 ? Array.from(new Set(valid)) : [DEFAULT_INSTRUMENT_ID];
+};
+
+// Top-level config keys whose value differs, secrets named but never logged
+const describeConfigChange = (before: AppConfig, after: AppConfig) => {
+    const changed = (Object.keys(after) as (keyof AppConfig)[])
+        .filter(k => JSON.stringify(before[k]) !== JSON.stringify(after[k]))
+        .map(k => (SECRET_NAMES as string[]).includes(k) ? `${k}(已更换)` : `${k}=${JSON.stringify(after[k])}`);
+    return changed.length > 0 ? changed.join('; ') : '无变更';
+};
+
+app.post('/api/config', requireRole('operator'), (req, res) => {
     const newConfig = req.body;
+    const before = config;
+    // Blank secret fields mean "keep the loaded key"; new values go to the vault
+    for (const name of SECRET_NAMES) {
+        const incoming = typeof newConfig[name] === 'string' ? newConfig[name].trim() : '';
+        if (!incoming || incoming === config[name]) continue;
+        delete legacyPlaintext[name]; // The old plain-text copy is superseded
+        if (vault.set(name, incoming) === 'memory') {
+            addLog('WARNING', `密钥库不可用 (未设置 VAULT_MASTER_KEY?), ${name} 仅保存在内存中, 重启后需重新填写; 请设置 VAULT_MASTER_KEY 以加密保存`);
+        }
+    }
     // Merge logic
     config = {
         ...config,
         ...newConfig,
-        // Keep old secrets if sending masked version
-        okxSecretKey: newConfig.okxSecretKey === '***' ? config.okxSecretKey : newConfig.okxSecretKey,
-        okxPassphrase: newConfig.okxPassphrase === '***' ? config.okxPassphrase : newConfig.okxPassphrase,
-        deepseekApiKey: newConfig.deepseekApiKey === '***' ? config.deepseekApiKey : newConfig.deepseekApiKey,
+        retention: sanitizeRetention({ ...config.retention, ...(newConfig.retention || {}) }),
+        instruments: sanitizeInstruments(newConfig.instruments ?? config.instruments),
+        marketFeed: (newConfig.marketFeed ?? config.marketFeed) === 'REST' ? 'REST' : 'WS',
+        marginMode: (newConfig.marginMode ?? config.marginMode) === 'cross' ? 'cross' : 'isolated',
+        positionMode: (newConfig.positionMode ?? config.positionMode) === 'net_mode' ? 'net_mode' : 'long_short_mode',
+        risk: sanitizeRisk({ ...config.risk, ...(newConfig.risk || {}) }),
+        llm: sanitizeLlm({ ...config.llm, ...(newConfig.llm || {}) }),
+        multiTimeframe: sanitizeMultiTimeframe({ refineEntry: { ...config.multiTimeframe.refineEntry, ...(newConfig.multiTimeframe?.refineEntry || {}) } }),
+        indicators: sanitizeIndicators({ ...config.indicators, ...(newConfig.indicators || {}) }),
+        sizing: sanitizeSizing({ ...config.sizing, ...(newConfig.sizing || {}) }),
+        stopManager: sanitizeStopManager({ ...config.stopManager, ...(newConfig.stopManager || {}) }),
+        rolling: sanitizeRolling({ ...config.rolling, ...(newConfig.rolling || {}) }),
+        takeProfit: sanitizeTakeProfit({ ...config.takeProfit, ...(newConfig.takeProfit || {}) }),
+        notifications: sanitizeNotifications({ ...config.notifications, ...(newConfig.notifications || {}) }),
+        paperPriceSource: (newConfig.paperPriceSource ?? config.paperPriceSource) === 'LIVE' ? 'LIVE' : 'MOCK',
     };
-    addLog('INFO', '配置已通过 Web 更新');
+    applySecrets();
+    syncInstruments();
+    syncFeed();
+    store.setRetention(config.retention);
+    store.saveConfig(persistableConfig(config));
+    const user: AuthUser = res.locals.user;
+    audit(req, user, user.username, 'CONFIG_UPDATE', true, describeConfigChange(before, config));
+    addLog('INFO', `配置已通过 Web 更新 (${user.username})`);
     res.json({ success: true });
 });
 
-app.post('/api/toggle', (req, res) => {
+app.post('/api/toggle', requireRole('operator'), (req, res) => {
     const { running } = req.body;
-    isRunning = running;
-    addLog('INFO', isRunning ? '>>> 策略引擎已启动 <<<' : '>>> 策略引擎已暂停 <<<');
+    const user: AuthUser = res.locals.user;
+    isRunning = running === true;
+    audit(req, user, user.username, 'ENGINE_TOGGLE', true, `${isRunning ? '启动' : '暂停'} (${config.isSimulation ? '模拟盘' : '实盘'})`);
+    addLog('INFO', isRunning ? `>>> 策略引擎已启动 (${user.username}) <<<` : `>>> 策略引擎已暂停 (${user.username}) <<<`);
     res.json({ success: true, isRunning });
 });
 
+// Manual close of one side, whole or a percentage
+app.post('/api/positions/close', requireRole('operator'), async (req, res) => {
+    const user: AuthUser = res.locals.user;
+    const { instId, posSide } = req.body || {};
+    const pct = req.body?.pct === undefined ? 100 : Number(req.body.pct);
+    if (!(pct > 0 && pct <= 100)) return res.status(400).json({ success: false, error: '平仓比例需在 0-100 之间' });
+    try {
+        const position = (await okxService.fetchAccountData(config)).positions.find(p => p.instId === instId && p.posSide === posSide && parseFloat(p.pos) !== 0);
+        if (!position) return res.status(404).json({ success: false, error: `无 ${instId} ${posSide} 持仓` });
+        const result = await closeService.closePosition(position, pct, `手动, ${user.username}`);
+        audit(req, user, user.username, 'POSITION_CLOSE', result.verified, `${instId} ${posSide} ${result.pct}%: ${result.requested} 张${result.error ? `, ${result.error}` : ''}`);
+        res.status(result.verified ? 200 : 502).json({ success: result.verified, result });
+    } catch (e: any) {
+        audit(req, user, user.username, 'POSITION_CLOSE', false, `${instId} ${posSide} ${pct}%: ${e.message}`);
+        res.status(502).json({ success: false, error: e.message });
+    }
+});
+
+// Emergency: pause the engine (so nothing reopens) and close every open position
+app.post('/api/positions/flatten', requireRole('operator'), async (req, res) => {
+    const user: AuthUser = res.locals.user;
+    isRunning = false;
+    addLog('WARNING', `>>> 一键清仓 (${user.username}): 策略引擎已暂停, 正在平掉全部持仓 <<<`);
+    try {
+        const results = await closeService.flattenAll(`一键清仓, ${user.username}`);
+        const flat = results.every(r => r.verified);
+        audit(req, user, user.username, 'FLATTEN', flat, `${results.length} 个持仓, ${results.filter(r => r.verified).length} 个已确认平仓 (${config.isSimulation ? '模拟盘' : '实盘'})`);
+        res.status(flat ? 200 : 502).json({ success: flat, isRunning, results });
+    } catch (e: any) {
+        audit(req, user, user.username, 'FLATTEN', false, e.message);
+        res.status(502).json({ success: false, isRunning, error: e.message });
+    }
+});
+
+// Tests the provider settings from the form (unsaved) with a freshly typed key,
+// or the loaded key for that provider when the field is left blank
+app.post('/api/ai/test', requireRole('operator'), async (req, res) => {
+    const llm = sanitizeLlm({ ...config.llm, ...(req.body?.llm || {}) });
+    const keyField = LLM_KEY_FIELDS[llm.provider];
+    const typedKey = typeof req.body?.apiKey === 'string' ? req.body.apiKey.trim() : '';
+    const testConfig: AppConfig = { ...config, llm };
+    if (keyField && typedKey) testConfig[keyField] = typedKey;
+    const user: AuthUser = res.locals.user;
+    const target = `${llm.provider}/${llm.model}${typedKey ? ' (表单密钥)' : ''}`;
+    try {
+        const response = await aiService.testConnection(createProvider(testConfig));
+        audit(req, user, user.username, 'AI_TEST', true, target);
+        res.json({ success: true, provider: llm.provider, model: llm.model, response });
+    } catch (e: any) {
+        audit(req, user, user.username, 'AI_TEST', false, `${target}: ${e.message}`);
+        res.status(502).json({ success: false, error: e.message });
+    }
+});
+
+// Sends a test message through one channel with the settings from the form (unsaved);
+// blank secret fields fall back to the loaded ones
+app.post('/api/notify/test', requireRole('operator'), async (req, res) => {
+    const channel: NotifyChannelKind = req.body?.channel;
+    if (!['telegram', 'webhook', 'email'].includes(channel)) {
+        return res.status(400).json({ success: false, error: '未知通知渠道' });
+    }
+    const notifications = sanitizeNotifications({ ...config.notifications, ...(req.body?.notifications || {}) });
+    const typed = (v: any) => typeof v === 'string' ? v.trim() : '';
+    const user: AuthUser = res.locals.user;
+    try {
+        await notifier.test(channel, notifications, {
+            telegramBotToken: typed(req.body?.telegramBotToken) || config.telegramBotToken,
+            smtpPassword: typed(req.body?.smtpPassword) || config.smtpPassword,
+        }, config.isSimulation);
+        audit(req, user, user.username, 'NOTIFY_TEST', true, channel);
+        res.json({ success: true, channel });
+    } catch (e: any) {
+        audit(req, user, user.username, 'NOTIFY_TEST', false, `${channel}: ${e.message}`);
+        res.status(502).json({ success: false, channel, error: e.message });
+    }
+});
+
 // Serve React App
 app.get('*', (req, res) => {
     res.sendFile(path.join(__dirname, 'dist', 'index.html'));
 });
 
-app.listen(PORT, () => {
-    console.log(`Server running on port ${PORT}`);
-    addLog('INFO', `系统初始化完成，等待指令...`);
-});
+// --- Boot: Rehydrate persisted state, then start loop & HTTP ---
+const bootstrap = async () => {
+    try {
+        const persisted = await store.load(config.retention);
+        if (persisted.config) {
+            // Merge over defaults so fields added in newer versions get a value
+            config = { ...DEFAULT_CONFIG, ...persisted.config, retention: { ...DEFAULT_CONFIG.retention, ...persisted.config.retention } };
+            config.risk = sanitizeRisk({ ...DEFAULT_CONFIG.risk, ...persisted.config.risk });
+            config.llm = sanitizeLlm({ ...DEFAULT_CONFIG.llm, ...persisted.config.llm });
+            config.notifications = sanitizeNotifications(persisted.config.notifications || {});
+            config.multiTimeframe = sanitizeMultiTimeframe(persisted.config.multiTimeframe || {});
+            config.indicators = sanitizeIndicators(persisted.config.indicators || {});
+            config.sizing = sanitizeSizing({ ...DEFAULT_CONFIG.sizing, ...persisted.config.sizing });
+            config.stopManager = sanitizeStopManager(persisted.config.stopManager || {});
+            config.rolling = sanitizeRolling(persisted.config.rolling || {});
+            config.takeProfit = sanitizeTakeProfit(persisted.config.takeProfit || {});
+            config.instruments = sanitizeInstruments(config.instruments);
+        }
+        decisionHistory = persisted.decisions;
+        logs = persisted.logs;
+        equityHistory = persisted.equityHistory;
+        users = persisted.users;
+        auditTrail = persisted.audit;
+        orderTracker.load(persisted.orders);
+        tradeJournal.load(persisted.trades);
+        console.log(`[Storage] 已恢复 ${decisionHistory.length} 条决策, ${logs.length} 条日志, ${equityHistory.length} 个权益点`);
+    } catch (e: any) {
+        console.error(`[Storage] 状态恢复失败, 以空状态启动: ${e.message}`);
+    }
+
+    // Credentials: env/.env first, then the encrypted vault. Older versions kept
+    // them in config.json as plain text; move those into the vault once it persists.
+    try {
+        const warnings = await vault.load();
+        warnings.forEach(w => addLog('WARNING', `[Vault] ${w}`));
+        const plaintext = SECRET_NAMES.filter(name => config[name]);
+        const onDisk = Object.fromEntries(plaintext.map(name => [name, config[name]]));
+        plaintext.filter(name => !vault.get(name)).forEach(name => vault.set(name, config[name]));
+        applySecrets();
+        if (plaintext.length > 0 && vault.isPersistent()) {
+            store.saveConfig(withoutSecrets(config));
+            addLog('INFO', '[Vault] 已将 config.json 中的明文密钥迁移至加密密钥库');
+        } else if (plaintext.length > 0) {
+            legacyPlaintext = onDisk;
+            addLog('WARNING', '[Vault] 密钥库不可用 (未设置 VAULT_MASTER_KEY?), config.json 中的明文密钥保持不变; 设置后重启即可迁移');
+        }
+    } catch (e: any) {
+        addLog('ERROR', `[Vault] 密钥加载失败: ${e.message}`);
+    }
+
+    seedUsers();
+    syncInstruments();
+    syncFeed();
+
+    // Start Loop
+    // Check loop condition every 5 seconds (must be smaller than min analysis interval)
+    // This ensures market data is always fresh on the UI even if AI runs infrequently
+    setInterval(runTradingLoop, 5000);
+    setInterval(pushHub.publishChanges, STREAM_PUSH_INTERVAL_MS);
+    setInterval(pushHub.heartbeat, STREAM_HEARTBEAT_MS);
+
+    app.listen(PORT, () => {
+        console.log(`Server running on port ${PORT}`);
+        addLog('INFO', `系统初始化完成，等待指令...`);
+    });
+};
+
+bootstrap();
@@ -1,113 +1,20 @@
 
 
-import { AIDecision, MarketDataCollection, AccountContext } from "../types";
-import { CONTRACT_VAL_ETH, STRATEGY_STAGES, INSTRUMENT_ID, TAKER_FEE_RATE } from "../constants";
+import { AIDecision, MarketDataCollection, AccountContext, CandleData, EmaTrendAnalysis, StrategyState, InstrumentSpec, OrderFlowMetrics, DecisionValidationReport, LLMMessage, IndicatorName } from "../types";
+import { STRATEGY_STAGES, TAKER_FEE_RATE, AI_REPAIR_MAX_RETRIES, DEFAULT_SIZING_CONFIG } from "../constants";
+import { averageFundingRate, positionFunding, resolveNextFundingTime } from "./fundingService";
+import { formatContracts, formatSizing, sizeStrategyOrder, SizingOptions } from "./sizingService";
+import { calculateOrderFlowMetrics } from "./orderFlowService";
+import type { LLMProvider } from "./llmProvider";
+import { formatRepairPrompt, validateDecisionText } from "./decisionValidator";
+import { analyzeMultiTimeframe, confirmEntry, formatMultiTimeframe } from "./multiTimeframe";
+import { calcEMAArray, calculateIndicators, formatIndicators } from "./indicators";
 
 // --- Technical Indicator Helpers ---
 
-const calcEMAArray = (prices: number[], period: number): number[] => {
-  if (prices.length === 0) return [];
-  const k = 2 / (period + 1);
-  const emas = [prices[0]];
-  for (let i = 1; i < prices.length; i++) {
-    const val = prices[i] * k + emas[i - 1] * (1 - k);
-    emas.push(val);
-  }
-  return emas;
-};
-
-// --- DeepSeek API Helper ---
-const DEEPSEEK_API_URL = "https://api.deepseek.com/chat/completions";
-
-const callDeepSeek = async (apiKey: string, messages: any[]) => {
-    const cleanKey = apiKey ? apiKey.trim() : "";
-    if (!cleanKey) throw new Error("API Key 为空");
-    // eslint-disable-next-line no-control-regex
-    if (/[^\x00-\x7F]/.test(cleanKey)) {
-        throw new Error("API Key 包含非法字符(中文或特殊符号)");
-    }
-
-    try {
-        const response = await fetch(DEEPSEEK_API_URL, {
-            method: "POST",
-            headers: {
-                "Content-Type": "application/json",
-                "Authorization": `Bearer ${cleanKey}`
-            },
-            body: JSON.stringify({
-                model: "deepseek-chat",
-                messages: messages,
-                stream: false,
-                temperature: 0.8, // Slightly lower temp for strict logic
-                max_tokens: 4096,
-                response_format: { type: 'json_object' }
-            })
-        });
-
-        if (!response.ok) {
-            const errText = await response.text();
-            throw new Error(`DeepSeek API Error: ${response.status} - ${errText}`);
-        }
-
-        const json = await response.json();
-        return json.choices[0].message.content;
-    } catch (e: any) {
-        throw new Error(e.message || "DeepSeek 请求失败");
-    }
-};
-
-export const testConnection = async (apiKey: string): Promise<string> => {
-  if (!apiKey) throw new Error("API Key 为空");
-  try {
-    const content = await callDeepSeek(apiKey, [
-        { role: "user", content: "Please respond with a JSON object containing the message 'OK'." }
-    ]);
-    return content || "无响应内容";
-  } catch (e: any) {
-    throw new Error(e.message || "连接失败");
-  }
-};
-
-// --- News Fetcher (Internet Search Capability) ---
-const fetchRealTimeNews = async (): Promise<string> => {
-    try {
-        const url = "https://min-api.cryptocompare.com/data/v2/news/?lang=EN&sortOrder=latest&limit=6";
-        const res = await fetch(url);
-        if (!res.ok) return "暂无法连接互联网新闻源";
-        
-        const json = await res.json();
-        if (json.Data && Array.isArray(json.Data)) {
-            const items = json.Data.slice(0, 6).map((item: any) => {
-                const time = new Date(item.published_on * 1000).toLocaleTimeString();
-                return `- [${time}] ${item.title} (Source: ${item.source_info?.name || 'Web'})`;
-            });
-            return items.join("\n");
-        }
-        return "扫描未发现即时重大新闻";
-    } catch (e) {
-        return "实时搜索暂时不可用 (API Connection Error)";
-    }
-};
-
-// --- Main Decision Function ---
-
-export const getTradingDecision = async (
-  apiKey: string,
-  marketData: MarketDataCollection,
-  accountData: AccountContext
-): Promise<AIDecision> => {
-  if (!apiKey) throw new Error("请输入 DeepSeek API Key");
-
-  // --- 1. 数据准备 (Data Prep) ---
-  const currentPrice = parseFloat(marketData.ticker?.last || "0");
-  const totalEquity = parseFloat(accountData.balance.totalEq);
-  const availableEquity = parseFloat(accountData.balance.availEq);
-
-  // Core Data: 4H Candles
-  const candles4H = marketData.candles4H || [];
-  
-  // --- 2. 核心指标计算 (EMA 21/55 on 4H) ---
-  let emaAnalysis = {
+// EMA 21/55 trend state on the latest CLOSED candle of a series (4H by strategy)
+export const analyzeEmaTrend = (candles: CandleData[]): EmaTrendAnalysis => {
+  const emaAnalysis: EmaTrendAnalysis = {
       ema21: 0,
       ema55: 0,
       trend: "NEUTRAL",
@@ -118,19 +25,19 @@ export const getTradingDecision = async (
       prevLow: 0
   };
 
-  if (candles4H.length > 60) {
-      const closes4H = candles4H.map(c => parseFloat(c.c));
-      const ema21Arr = calcEMAArray(closes4H, 21);
-      const ema55Arr = calcEMAArray(closes4H, 55);
+  if (candles.length > 60) {
+      const closes = candles.map(c => parseFloat(c.c));
+      const ema21Arr = calcEMAArray(closes, 21);
+      const ema55Arr = calcEMAArray(closes, 55);
       
-      const lastIdx = closes4H.length - 1; 
+      const lastIdx = closes.length - 1; 
       // Current (Last Closed) Candle values
       const currEma21 = ema21Arr[lastIdx];
       const currEma55 = ema55Arr[lastIdx];
       const prevEma21 = ema21Arr[lastIdx - 1];
       const prevEma55 = ema55Arr[lastIdx - 1];
       
-      const lastCandle = candles4H[lastIdx];
+      const lastCandle = candles[lastIdx];
       const close = parseFloat(lastCandle.c);
       const open = parseFloat(lastCandle.o);
       
@@ -152,26 +59,65 @@ export const getTradingDecision = async (
       emaAnalysis.prevLow = parseFloat(lastCandle.l);
   }
 
-  // --- 3. 持仓分析 (Position Analysis) ---
-  const primaryPosition = accountData.positions.find(p => p.instId === INSTRUMENT_ID);
+  return emaAnalysis;
+};
+
+// --- Order Book & Trade Tape Block (prompt) ---
+const formatOrderFlowBlock = (m: OrderFlowMetrics | null): string => {
+  if (!m) return "【盘口与成交流】\n- 暂无盘口数据";
+  const fmtU = (v: number) => v >= 1e6 ? `${(v / 1e6).toFixed(2)}M` : v >= 1e3 ? `${(v / 1e3).toFixed(1)}K` : v.toFixed(0);
+  const windows = m.takerWindows.map(w => {
+    const total = w.buyVol + w.sellVol;
+    const buyPct = total > 0 ? (w.buyVol / total) * 100 : 50;
+    return `- 主动买/卖 (${w.label}): ${fmtU(w.buyVol)} / ${fmtU(w.sellVol)} U (买占比 ${buyPct.toFixed(1)}%)`;
+  }).join("\n");
+  return `【盘口与成交流】
+- 买一/卖一: ${m.bestBid} / ${m.bestAsk} (价差 ${m.spreadBps.toFixed(2)} bps)
+- ±0.5% 深度: 买盘 ${fmtU(m.bidDepth)} U / 卖盘 ${fmtU(m.askDepth)} U
+- 盘口失衡: ${(m.imbalance * 100).toFixed(1)}% (正值买盘占优)
+${windows}
+- 成交样本覆盖: ${(m.tradeCoverageMs / 1000).toFixed(0)}s`;
+};
+
+// Empty when no indicator is selected, so the default prompt stays as it was
+const formatIndicatorBlock = (candles4H: CandleData[], names: IndicatorName[], price: number): string =>
+  names.length === 0 ? '' : `\n【技术指标 (4H, 仅作参考)】\n${formatIndicators(calculateIndicators(candles4H), names, price)}`;
+
+// Funding rate, countdown to settlement and the recent average (7 days)
+const formatFundingBlock = (md: MarketDataCollection, nextFundingTime: number): string => {
+  const rate = parseFloat(md.fundingRate) || 0;
+  const mins = Math.max(0, Math.round((nextFundingTime - Date.now()) / 60000));
+  const avg = averageFundingRate(md.fundingHistory || []);
+  return `【资金费率】
+- 当前费率: ${(rate * 100).toFixed(4)}% (${rate >= 0 ? '多付空' : '空付多'})
+- 距下次结算: ${Math.floor(mins / 60)}小时${mins % 60}分
+- 近 ${md.fundingHistory?.length || 0} 次结算平均费率: ${(avg * 100).toFixed(4)}%`;
+};
+
+// --- Position & Funding State (shared by AI prompt and rule engine) ---
+export const analyzePositionState = (marketData: MarketDataCollection, accountData: AccountContext, spec: InstrumentSpec): StrategyState => {
+  const currentPrice = parseFloat(marketData.ticker?.last || "0");
+  const totalEquity = parseFloat(accountData.balance.totalEq);
+  const availableEquity = parseFloat(accountData.balance.availEq);
+
+  const primaryPosition = accountData.positions.find(p => p.instId === spec.instId);
   const hasPosition = !!primaryPosition && parseFloat(primaryPosition.pos) > 0;
   
   let netPnL = 0;
   let netProfitRatio = 0; // Net ROE
+  let totalFees = 0;
+  let accruedFunding = 0;
+  let nextFundingCost = 0;
   let rollingTrigger = false;
-  let positionContext = "当前无持仓";
-  let canRoll = true;
 
   // Strategy Params
   const leverage = 20; // Fixed Strategy Leverage
   const ruleReqEquity = totalEquity * 0.05; // 5% Rule
 
-  // Calculate Absolute Minimum Cost (0.01 contracts)
-  // OKX Min Size is typically 1 contract for many pairs, but code allows 0.01 float. 
-  // We assume 0.01 is the floor.
+  // Calculate Absolute Minimum Cost (instrument minSz contracts)
   const price = currentPrice > 0 ? currentPrice : 1;
-  const minContractSize = 0.01; 
-  const minPosVal = minContractSize * CONTRACT_VAL_ETH * price;
+  const minContractSize = spec.minSz; 
+  const minPosVal = minContractSize * spec.ctVal * price;
   const minMarginReq = minPosVal / leverage;
   const estimatedFee = minPosVal * TAKER_FEE_RATE * 1.5; // 1.5x buffer for safety
   const minOpenCost = minMarginReq + estimatedFee;
@@ -179,63 +125,175 @@ export const getTradingDecision = async (
   // Real Check: 
   // 1. Available Equity >= 5% Rule
   // 2. Available Equity >= Minimum Order Cost (to prevent 51008)
-  canRoll = availableEquity >= ruleReqEquity && availableEquity >= minOpenCost;
+  const canRoll = availableEquity >= ruleReqEquity && availableEquity >= minOpenCost;
 
   if (hasPosition) {
       const p = primaryPosition!;
-      const sizeContracts = parseFloat(p.pos);
-      const sizeCoin = sizeContracts * CONTRACT_VAL_ETH;
-      const entryPrice = parseFloat(p.avgPx);
+      const sizeCoin = parseFloat(p.pos) * spec.ctVal;
       const upl = parseFloat(p.upl);
       
-      const currentVal = sizeCoin * currentPrice;
-      const entryVal = sizeCoin * entryPrice;
-      
       // Strictly Calculate Net PnL (Subtracting Two-way Fees)
-      const openFee = entryVal * TAKER_FEE_RATE;
-      const closeFee = currentVal * TAKER_FEE_RATE;
-      const totalFees = openFee + closeFee;
-      
-      netPnL = upl - totalFees;
+      const openFee = sizeCoin * parseFloat(p.avgPx) * TAKER_FEE_RATE;
+      const closeFee = sizeCoin * currentPrice * TAKER_FEE_RATE;
+      totalFees = openFee + closeFee;
+
+      // Funding already settled counts toward net PnL; the next payment is only projected
+      const funding = positionFunding(p, marketData, spec.ctVal, price);
+      accruedFunding = funding.accrued;
+      nextFundingCost = funding.nextCost;
+
+      netPnL = upl - totalFees + accruedFunding;
       
       const margin = parseFloat(p.margin);
       if (margin > 0) {
           netProfitRatio = netPnL / margin;
+          // Rolling Logic Trigger: NET Profit > 5%, still true after paying the next funding
+          rollingTrigger = (netPnL - Math.max(0, nextFundingCost)) / margin >= 0.05;
       }
+  }
 
-      // Rolling Logic Trigger: NET Profit > 5%
-      if (netProfitRatio >= 0.05) {
-          rollingTrigger = true;
-      }
+  // Rule: Initial 5% of Equity. Rolling 5% of Equity.
+  const targetPosValue = totalEquity * 0.05 * leverage;
+  const targetContracts = targetPosValue / (spec.ctVal * price);
+
+  return {
+      price,
+      totalEquity,
+      availableEquity,
+      primaryPosition,
+      hasPosition,
+      netPnL,
+      netProfitRatio,
+      totalFees,
+      accruedFunding,
+      nextFundingCost,
+      nextFundingTime: resolveNextFundingTime(marketData),
+      rollingTrigger,
+      canRoll,
+      leverage,
+      ruleReqEquity,
+      minOpenCost,
+      targetContracts,
+  };
+};
+
+export const testConnection = async (provider: LLMProvider): Promise<string> => {
+  try {
+    const content = await provider.complete([
+        { role: "user", content: "Please respond with a JSON object containing the message 'OK'." }
+    ]);
+    return content || "无响应内容";
+  } catch (e: any) {
+    throw new Error(e.message || "连接失败");
+  }
+};
 
+// --- News Fetcher (Internet Search Capability) ---
+const fetchRealTimeNews = async (): Promise<string> => {
+    try {
+        const url = "https://min-api.cryptocompare.com/data/v2/news/?lang=EN&sortOrder=latest&limit=6";
+        const res = await fetch(url);
+        if (!res.ok) return "暂无法连接互联网新闻源";
+        
+        const json = await res.json();
+        if (json.Data && Array.isArray(json.Data)) {
+            const items = json.Data.slice(0, 6).map((item: any) => {
+                const time = new Date(item.published_on * 1000).toLocaleTimeString();
+                return `- [${time}] ${item.title} (Source: ${item.source_info?.name || 'Web'})`;
+            });
+            return items.join("\n");
+        }
+        return "扫描未发现即时重大新闻";
+    } catch (e) {
+        return "实时搜索暂时不可用 (API Connection Error)";
+    }
+};
+
+// Fallback when no usable AI answer exists: never trades
+const holdDecision = (spec: InstrumentSpec, reasoning: string): AIDecision => ({
+    stage_analysis: "AI Error",
+    market_assessment: "Unknown",
+    hot_events_overview: "N/A",
+    eth_analysis: "N/A",
+    trading_decision: {
+        action: 'hold',
+        confidence: "0%",
+        position_size: "0",
+        leverage: "0",
+        profit_target: "0",
+        stop_loss: "0",
+        invalidation_condition: "Error"
+    },
+    reasoning,
+    action: 'HOLD',
+    size: "0",
+    leverage: "0",
+    source: 'AI',
+    instId: spec.instId
+});
+
+// --- Main Decision Function ---
+
+export const getTradingDecision = async (
+  provider: LLMProvider,
+  marketData: MarketDataCollection,
+  accountData: AccountContext,
+  spec: InstrumentSpec,
+  options: {
+    refineEntry?: boolean; // 15m/3m must confirm a new 4H entry
+    indicators?: IndicatorName[]; // Extra 4H indicators shown in the prompt
+    sizing?: SizingOptions; // Opens and rolls (default: fixed 5% margin)
+  } = {}
+): Promise<AIDecision> => {
+  // --- 1. 数据准备 (Data Prep) ---
+  const currentPrice = parseFloat(marketData.ticker?.last || "0");
+  const totalEquity = parseFloat(accountData.balance.totalEq);
+  const availableEquity = parseFloat(accountData.balance.availEq);
+
+  // Core Data: 4H Candles
+  const candles4H = marketData.candles4H || [];
+  
+  // --- 2. 核心指标计算 (EMA 21/55 on 4H) ---
+  const emaAnalysis = analyzeEmaTrend(candles4H);
+  const mtf = analyzeMultiTimeframe(marketData);
+
+  // --- 3. 持仓分析 (Position Analysis) ---
+  const state = analyzePositionState(marketData, accountData, spec);
+  const { primaryPosition, hasPosition, netProfitRatio, rollingTrigger, canRoll, leverage } = state;
+  let positionContext = "当前无持仓";
+
+  if (hasPosition) {
+      const p = primaryPosition!;
       positionContext = `
       === 持仓详情 (净利润计价) ===
       方向: ${p.posSide.toUpperCase()}
       持仓量: ${p.pos} 张
-      开仓均价: ${entryPrice.toFixed(2)}
-      预估双边手续费: ${totalFees.toFixed(2)} U
-      浮动盈亏 (UPL): ${upl.toFixed(2)} U
-      净利润 (Net PnL): ${netPnL.toFixed(2)} U
+      开仓均价: ${parseFloat(p.avgPx).toFixed(2)}
+      预估双边手续费: ${state.totalFees.toFixed(2)} U
+      已结算资金费: ${state.accruedFunding >= 0 ? '+' : ''}${state.accruedFunding.toFixed(4)} U (正数为收入)
+      浮动盈亏 (UPL): ${parseFloat(p.upl).toFixed(2)} U
+      净利润 (Net PnL): ${state.netPnL.toFixed(2)} U
+      下次结算预计资金费: ${state.nextFundingCost > 0 ? '支付' : '收取'} ${Math.abs(state.nextFundingCost).toFixed(4)} U
       净收益率 (Net ROE): ${(netProfitRatio * 100).toFixed(2)}%
       
       === 资金与滚仓状态 ===
-      策略滚仓门槛 (5%): ${ruleReqEquity.toFixed(2)} U
-      最低下单成本 (0.01张): ${minOpenCost.toFixed(2)} U
+      策略滚仓门槛 (5%): ${state.ruleReqEquity.toFixed(2)} U
+      最低下单成本 (${spec.minSz}张): ${state.minOpenCost.toFixed(2)} U
       当前可用资金: ${availableEquity.toFixed(2)} U
       资金是否充足: ${canRoll ? "YES" : "NO (进入直营/止盈模式)"}
-      净利润达标 (5%): ${rollingTrigger ? "YES" : "NO"}
+      净利润达标 (5%, 已扣除下次资金费): ${rollingTrigger ? "YES" : "NO"}
       `;
-  } else {
-      // Empty position, check if enough to open
-      canRoll = availableEquity >= ruleReqEquity && availableEquity >= minOpenCost;
   }
 
+  const sizingConfig = options.sizing?.config ?? DEFAULT_SIZING_CONFIG;
+
   // --- 4. 构建 Prompt (The New 5 Rules) ---
   
   // Real-time News
   const newsContext = await fetchRealTimeNews();
 
   const marketDataBlock = `
+交易品种: ${spec.instId} (1张 = ${spec.ctVal} ${spec.ctValCcy})
 当前价格: ${currentPrice.toFixed(2)}
 【EMA指标 (4H)】
 - EMA21: ${emaAnalysis.ema21.toFixed(2)}
@@ -245,11 +303,15 @@ export const getTradingDecision = async (
 - 最新K线颜色: ${emaAnalysis.signalCandleColor} (Close ${emaAnalysis.signalCandleColor === 'GREEN' ? '>' : '<'} Open)
 - 前K高点: ${emaAnalysis.prevHigh}
 - 前K低点: ${emaAnalysis.prevLow}
+【多周期趋势 (EMA21/55, 仅作确认参考)】
+${formatMultiTimeframe(mtf)}${formatIndicatorBlock(candles4H, options.indicators || [], currentPrice)}
+${formatFundingBlock(marketData, state.nextFundingTime)}
+${formatOrderFlowBlock(calculateOrderFlowMetrics(marketData.orderbook, marketData.trades, spec.ctVal))}
 `;
 
   const systemPrompt = `
 你是一个严格执行 **EMA趋势策略** 的交易机器人。
-你 **必须** 忽略所有其他指标，仅关注 **EMA21** 和 **EMA55** 的 **4H** 走势。
+入场方向与信号 **只** 由 **4H** 级别的 **EMA21** 和 **EMA55** 决定; 1H/15m/5m/3m 的多周期趋势及其他技术指标只用于确认入场时机与评估风险, 不能单独产生信号。
 
 **市场技术面数据**:
 ${marketDataBlock}
@@ -259,7 +321,8 @@ ${newsContext}
 
 **特别说明 (Profit Definition)**:
 本策略中所有提到的“利润”、“收益”均指 **净利润 (Net Profit)**。
-**净利润 = 浮动盈亏 - 双边手续费**。
+**净利润 = 浮动盈亏 - 双边手续费 + 已结算资金费**。
+资金费每 8 小时结算: 费率为正时多单支付、空单收取。若下次结算的预计资金费会把净收益率压到 5% 以下, 不应滚仓加码; 持仓利润微薄且即将支付较大资金费时, 应在 market_assessment 中权衡继续持有的成本。
 **终极目标**: 在严格保本的前提下，通过滚仓实现净利润的无限放大。
 
 **核心原则 (不可违背)**:
@@ -270,13 +333,12 @@ ${newsContext}
 
 2. **入场时机 (Entry Rules - 宽容模式)**:
    - **做多 (Long)**: 基础条件 EMA21 > EMA55。触发: 金叉且收阳，或趋势中回调至EMA21不破。
-   - **做空 (Short)**: 基础条件 EMA21 < EMA55。触发: 死叉且收阴，或趋势中反弹至EMA21不破。
-
+   - **做空 (Short)**: 基础条件 EMA21 < EMA55。触发: 死叉且收阴，或趋势中反弹至EMA21不破。${options.refineEntry ? '\n   - **低周期确认 (已开启)**: 4H 信号出现后, 仅当 15m 趋势与信号同向且 3m 结构未逆向时才开首仓, 否则 HOLD 等待。' : ''}
 3. **止损坚决带好 (Stop Loss)**:
    - **位置**: 必须设在前一根 4H K线的 高点(空单SL) 或 低点(多单SL)。
    - **多单 SL**: ${emaAnalysis.prevLow}
    - **空单 SL**: ${emaAnalysis.prevHigh}
-   - **风控**: 单笔亏损不得超过总本金的 5%。
+   - **风控**: 单笔亏损不得超过总本金的 ${sizingConfig.maxRiskPct}%。开仓/滚仓数量由系统按 ${sizingConfig.mode} 模式根据止损计算, position_size 可留空。
 
 4. **"滚仓式"加码 (Rolling - 资金充足时)**:
    - **前提**: 可用资金 > 总权益的5%。
@@ -322,21 +384,39 @@ ${positionContext}
   `;
 
   try {
-    const text = await callDeepSeek(apiKey, [
+    const messages: LLMMessage[] = [
         { role: "system", content: systemPrompt + "\nJSON ONLY:\n" + responseSchema },
         { role: "user", content: `账户总权益: ${totalEquity} U。可用: ${availableEquity} U。请给出操作。` }
-    ]);
-
-    if (!text) throw new Error("AI 返回为空");
+    ];
+
+    // Validate, and on failure send the errors back for a bounded number of repair rounds
+    const validationCtx = { price: currentPrice, positionSide: hasPosition ? primaryPosition!.posSide as 'long' | 'short' : null };
+    const validation: DecisionValidationReport = { valid: false, attempts: 0, failures: [] };
+    let decision: AIDecision | null = null;
+
+    while (validation.attempts <= AI_REPAIR_MAX_RETRIES) {
+        validation.attempts++;
+        const text = await provider.complete(messages);
+        const result = validateDecisionText(text, validationCtx);
+        if (result.ok) {
+            decision = { ...result.decision, eth_analysis: "", action: 'HOLD', size: "0", leverage: "0" };
+            validation.valid = true;
+            break;
+        }
+        validation.failures.push({ attempt: validation.attempts, errors: result.errors });
+        console.warn(`[${spec.instId}] AI 决策校验失败 (第 ${validation.attempts} 次): ${result.errors.join('; ')}`);
+        messages.push({ role: "assistant", content: text || "" }, { role: "user", content: formatRepairPrompt(result.errors) });
+    }
 
-    // Parse JSON
-    let decision: AIDecision;
-    try {
-        const cleanText = text.replace(/```json/g, '').replace(/```/g, '').trim();
-        decision = JSON.parse(cleanText);
-    } catch (e) {
-        throw new Error("AI 返回格式错误");
+    if (!decision) {
+        const lastErrors = validation.failures[validation.failures.length - 1]?.errors || [];
+        return {
+            ...holdDecision(spec, `AI 输出连续 ${validation.attempts} 次未通过校验, 强制 HOLD: ${lastErrors.join('; ')}`),
+            stage_analysis: "AI 输出校验失败",
+            validation,
+        };
     }
+    decision.validation = validation;
 
     decision.action = decision.trading_decision.action.toUpperCase() as any;
 
@@ -348,14 +428,8 @@ ${positionContext}
     }
     
     // --- 资金管理逻辑 (Code Logic Override for Safety) ---
-    // Rule: Initial 5% of Equity. Rolling 5% of Equity.
-    const targetMargin = totalEquity * 0.05; // 5% of Total Equity
-    // leverage already defined above
-    
-    // Calculate contracts for 5% equity
-    const contractVal = CONTRACT_VAL_ETH * price; // Value of 1 contract in USDT
-    const targetPosValue = targetMargin * leverage;
-    const targetContracts = targetPosValue / contractVal;
+    // Opens/rolls are sized by sizeStrategyOrder; targetContracts (5% margin) only backs the reduce fallback
+    const { targetContracts } = state;
     
     if (decision.action === 'BUY' || decision.action === 'SELL') {
         
@@ -372,15 +446,22 @@ ${positionContext}
              // Use netProfitRatio calculated above
              if (!canRoll && netProfitRatio >= 0.05) {
                  const currentPos = parseFloat(primaryPosition!.pos);
-                 decision.size = (currentPos * 0.5).toFixed(2);
+                 decision.size = formatContracts(currentPos * 0.5, spec);
                  decision.reasoning += " [系统执行: 资金不足触发5%净利止盈减仓]";
              } else {
-                 decision.size = Math.max(targetContracts, 0.01).toFixed(2);
+                 decision.size = formatContracts(targetContracts, spec);
              }
         } else {
              // --- Opening or Rolling Logic ---
-             decision.size = Math.max(targetContracts, 0.01).toFixed(2);
-             
+             // Lower-timeframe entry refinement (new positions only)
+             if (!hasPosition && options.refineEntry) {
+                const check = confirmEntry(mtf, decision.posSide!);
+                if (!check.confirmed) {
+                    decision.action = 'HOLD';
+                    decision.reasoning += ` [系统拦截: 低周期未确认 - ${check.reason}]`;
+                }
+             }
+
              // Rolling Logic Check
              if (hasPosition) {
                 // If AI tries to Add (BUY for Long, SELL for Short)
@@ -393,7 +474,21 @@ ${positionContext}
                     // Prevent adding if funds exhausted
                     console.warn("AI attempted to add position but funds exhausted. Forcing HOLD.");
                     decision.action = 'HOLD';
-                    decision.reasoning += " [系统拦截: 资金耗尽(含最小0.01张限制)，无法滚仓]";
+                    decision.reasoning += ` [系统拦截: 资金耗尽(含最小${spec.minSz}张限制)，无法滚仓]`;
+                }
+             }
+
+             // Size from the stop distance; a zero size (caps, no edge) means no order
+             if (decision.action !== 'HOLD') {
+                const stopPrice = parseFloat(decision.trading_decision.stop_loss) || (decision.posSide === 'long' ? emaAnalysis.prevLow : emaAnalysis.prevHigh);
+                const sizing = sizeStrategyOrder(state, spec, decision.posSide!, stopPrice, candles4H, options.sizing);
+                if (sizing.contracts > 0) {
+                    decision.size = formatContracts(sizing.contracts, spec);
+                    decision.sizing = sizing;
+                    decision.reasoning += ` [系统仓位: ${formatSizing(sizing)}]`;
+                } else {
+                    decision.action = 'HOLD';
+                    decision.reasoning += ` [系统拦截: 仓位计算为 0 - ${sizing.notes.join('; ')}]`;
                 }
              }
         }
@@ -411,29 +506,62 @@ ${positionContext}
         decision.hot_events_overview = "AI未提供具体情报分析";
     }
     decision.eth_analysis = `EMA21: ${emaAnalysis.ema21.toFixed(1)}, EMA55: ${emaAnalysis.ema55.toFixed(1)}`;
+    decision.source = 'AI';
+    decision.instId = spec.instId;
 
     return decision;
 
   } catch (error: any) {
     console.error("AI Decision Error:", error);
-    return {
-        stage_analysis: "AI Error",
-        market_assessment: "Unknown",
-        hot_events_overview: "N/A",
-        eth_analysis: "N/A",
-        trading_decision: {
-            action: 'hold',
-            confidence: "0%",
-            position_size: "0",
-            leverage: "0",
-            profit_target: "0",
-            stop_loss: "0",
-            invalidation_condition: "Error"
-        },
-        reasoning: "System Error: " + error.message,
-        action: 'HOLD',
-        size: "0",
-        leverage: "0"
-    };
+    return holdDecision(spec, "System Error: " + error.message);
+  }
+};
+
+// --- AI Veto (Rule Engine Mode) ---
+// The LLM reviews a rule-engine signal and may only downgrade it to HOLD.
+// Any failure (no key, network, bad JSON) vetoes the signal: fail closed.
+export const getAIVeto = async (
+  provider: LLMProvider,
+  ruleDecision: AIDecision,
+  marketData: MarketDataCollection,
+  indicators: IndicatorName[] = []
+): Promise<{ veto: boolean; reason: string }> => {
+  try {
+    const newsContext = await fetchRealTimeNews();
+    const currentPrice = parseFloat(marketData.ticker?.last || "0");
+
+    const systemPrompt = `
+你是一个交易风控审核员。确定性规则引擎已经根据 EMA 4H 策略给出了交易信号。
+你 **不能** 修改方向、数量或止损，只能决定是否 **否决** 该信号 (否决后改为 HOLD)。
+仅在存在明确的重大风险 (如重大宏观事件、极端行情、信号与盘面明显矛盾) 时否决。
+
+**规则引擎信号**:
+- 操作: ${ruleDecision.action} (${ruleDecision.posSide || 'N/A'})
+- 数量: ${ruleDecision.size} 张, 杠杆: ${ruleDecision.leverage}x
+- 止损: ${ruleDecision.trading_decision.stop_loss}
+- 依据: ${ruleDecision.reasoning}
+- ${ruleDecision.eth_analysis}
+- ${ruleDecision.stage_analysis}
+- 品种: ${ruleDecision.instId || 'N/A'}, 当前价格: ${currentPrice.toFixed(2)}${formatIndicatorBlock(marketData.candles4H || [], indicators, currentPrice)}
+
+**互联网情报**:
+${newsContext}
+
+JSON ONLY:
+{ "veto": true|false, "reason": "简要说明原因" }
+`;
+
+    const text = await provider.complete([
+        { role: "system", content: systemPrompt },
+        { role: "user", content: "请审核该信号。" }
+    ]);
+    if (!text) throw new Error("AI 返回为空");
+
+    const cleanText = text.replace(/```json/g, '').replace(/```/g, '').trim();
+    const result = JSON.parse(cleanText);
+    return { veto: result.veto === true, reason: String(result.reason || "") };
+  } catch (error: any) {
+    console.error("AI Veto Error:", error);
+    return { veto: true, reason: `AI 审核失败, 安全起见否决: ${error.message}` };
   }
 };
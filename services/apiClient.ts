@@ -0,0 +1,73 @@
+import { AuthUser } from "../types";
+
+// --- Browser API client ---
+// Keeps the session token in localStorage and adds it to every /api request.
+// A 401 clears the session and notifies the app so it can show the login screen.
+
+const TOKEN_KEY = 'authToken';
+const USER_KEY = 'authUser';
+
+let onUnauthorized: (() => void) | null = null;
+
+export const setUnauthorizedHandler = (handler: (() => void) | null) => { onUnauthorized = handler; };
+
+export const getStoredUser = (): AuthUser | null => {
+  if (!localStorage.getItem(TOKEN_KEY)) return null;
+  try {
+    return JSON.parse(localStorage.getItem(USER_KEY) || 'null');
+  } catch (e) {
+    return null;
+  }
+};
+
+const clearSession = () => {
+  localStorage.removeItem(TOKEN_KEY);
+  localStorage.removeItem(USER_KEY);
+};
+
+export const apiFetch = async (url: string, init: RequestInit = {}): Promise<Response> => {
+  const token = localStorage.getItem(TOKEN_KEY);
+  const headers = new Headers(init.headers);
+  if (token) headers.set('Authorization', `Bearer ${token}`);
+  const res = await fetch(url, { ...init, headers });
+  if (res.status === 401) {
+    clearSession();
+    onUnauthorized?.();
+  }
+  return res;
+};
+
+// EventSource cannot set headers: trade the token for a short-lived one-time ticket and put
+// that in the query string. null when unsupported, logged out or the ticket request failed.
+export const openEventStream = async (url: string): Promise<EventSource | null> => {
+  if (!localStorage.getItem(TOKEN_KEY) || typeof EventSource === 'undefined') return null;
+  try {
+    const res = await apiFetch(`${url}/ticket`, { method: 'POST' });
+    if (!res.ok) return null;
+    const { ticket } = await res.json();
+    return new EventSource(`${url}?ticket=${encodeURIComponent(ticket)}`);
+  } catch (e) {
+    return null;
+  }
+};
+
+export const login = async (username: string, password: string): Promise<AuthUser> => {
+  const res = await fetch('/api/auth/login', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ username, password }),
+  });
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok) throw new Error(data.error || `登录失败 (${res.status})`);
+  localStorage.setItem(TOKEN_KEY, data.token);
+  localStorage.setItem(USER_KEY, JSON.stringify(data.user));
+  return data.user;
+};
+
+export const logout = async () => {
+  try {
+    await apiFetch('/api/auth/logout', { method: 'POST' });
+  } finally {
+    clearSession();
+  }
+};
@@ -0,0 +1,76 @@
+import { afterEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { createLoginThrottle, createSessionStore } from "./authService";
+
+const MINUTE = 60 * 1000;
+
+describe('login throttle', () => {
+  const throttle = () => createLoginThrottle({ maxFailures: 3, baseLockMs: 30000, maxLockMs: 2 * MINUTE, windowMs: 15 * MINUTE });
+
+  it('locks after repeated failures and doubles the lock up to the cap', () => {
+    const t = throttle();
+    t.fail('1.1.1.1', 'admin', 0);
+    t.fail('1.1.1.1', 'admin', 0);
+    assert.equal(t.retryAfter('1.1.1.1', 'admin', 0), 0);
+    t.fail('1.1.1.1', 'admin', 0);
+    assert.equal(t.retryAfter('1.1.1.1', 'admin', 0), 30000);
+    t.fail('1.1.1.1', 'admin', 30000);
+    assert.equal(t.retryAfter('1.1.1.1', 'admin', 30000), 60000);
+    t.fail('1.1.1.1', 'admin', 90000);
+    t.fail('1.1.1.1', 'admin', 90000);
+    assert.equal(t.retryAfter('1.1.1.1', 'admin', 90000), 2 * MINUTE);
+  });
+
+  it('counts per IP and per username separately', () => {
+    const t = throttle();
+    // One IP guessing many usernames
+    ['a', 'b', 'c'].forEach(name => t.fail('1.1.1.1', name, 0));
+    assert.ok(t.retryAfter('1.1.1.1', 'admin', 0) > 0);
+    assert.equal(t.retryAfter('2.2.2.2', 'admin', 0), 0);
+    // Many IPs guessing one username
+    ['3.3.3.3', '4.4.4.4', '5.5.5.5'].forEach(ip => t.fail(ip, 'Admin', 0));
+    assert.ok(t.retryAfter('6.6.6.6', 'admin', 0) > 0);
+  });
+
+  it('forgets failures after a quiet window or a successful login', () => {
+    const t = throttle();
+    t.fail('1.1.1.1', 'admin', 0);
+    t.fail('1.1.1.1', 'admin', 0);
+    t.fail('1.1.1.1', 'admin', 16 * MINUTE);
+    assert.equal(t.retryAfter('1.1.1.1', 'admin', 16 * MINUTE), 0);
+    t.fail('1.1.1.1', 'admin', 16 * MINUTE);
+    t.succeed('1.1.1.1', 'admin');
+    t.fail('1.1.1.1', 'admin', 16 * MINUTE);
+    t.fail('1.1.1.1', 'admin', 16 * MINUTE);
+    assert.equal(t.retryAfter('1.1.1.1', 'admin', 16 * MINUTE), 0);
+  });
+});
+
+describe('stream tickets', () => {
+  afterEach(() => mock.restoreAll());
+
+  it('redeem once for the session that asked for them', () => {
+    const sessions = createSessionStore(MINUTE, 30000);
+    const session = sessions.create({ username: 'admin', role: 'operator' });
+    const { ticket } = sessions.createTicket(session.token);
+    assert.notEqual(ticket, session.token);
+    assert.equal(sessions.redeemTicket(ticket)?.token, session.token);
+    assert.equal(sessions.redeemTicket(ticket), null);
+    assert.equal(sessions.redeemTicket(''), null);
+  });
+
+  it('expire quickly and die with their session', () => {
+    const sessions = createSessionStore(MINUTE, 30000);
+    const session = sessions.create({ username: 'admin', role: 'operator' });
+    const { ticket: late } = sessions.createTicket(session.token);
+    const { ticket: revoked } = sessions.createTicket(session.token);
+
+    const start = Date.now();
+    mock.method(Date, 'now', () => start + 30000);
+    assert.equal(sessions.redeemTicket(late), null);
+    mock.restoreAll();
+
+    sessions.revoke(session.token);
+    assert.equal(sessions.redeemTicket(revoked), null);
+  });
+});
@@ -0,0 +1,140 @@
+import crypto from 'crypto';
+import { AuthUser, UserRole } from "../types";
+
+// --- Authentication (server only) ---
+// Passwords are stored as salted scrypt hashes. Sessions are opaque random
+// bearer tokens held in memory, so a restart signs everyone out.
+
+const SCRYPT_KEYLEN = 64;
+
+export const hashPassword = (password: string): string => {
+  const salt = crypto.randomBytes(16).toString('hex');
+  const hash = crypto.scryptSync(password, salt, SCRYPT_KEYLEN).toString('hex');
+  return `scrypt$${salt}$${hash}`;
+};
+
+export const verifyPassword = (password: string, stored: string): boolean => {
+  const [scheme, salt, hash] = stored.split('$');
+  if (scheme !== 'scrypt' || !salt || !hash) return false;
+  const expected = Buffer.from(hash, 'hex');
+  const actual = crypto.scryptSync(password, salt, expected.length);
+  return actual.length === expected.length && crypto.timingSafeEqual(actual, expected);
+};
+
+// Operator implies viewer
+const ROLE_RANK: Record<UserRole, number> = { viewer: 0, operator: 1 };
+export const hasRole = (user: AuthUser, required: UserRole) => ROLE_RANK[user.role] >= ROLE_RANK[required];
+
+export const isUserRole = (v: unknown): v is UserRole => v === 'viewer' || v === 'operator';
+
+export interface Session extends AuthUser {
+  token: string;
+  expiresAt: number;
+}
+
+export const createSessionStore = (ttlMs: number, ticketTtlMs: number) => {
+  const sessions = new Map<string, Session>();
+  const tickets = new Map<string, { token: string; expiresAt: number }>(); // Stream ticket -> session token
+
+  const purgeExpired = (now: number) => {
+    sessions.forEach((s, token) => {
+      if (s.expiresAt <= now) sessions.delete(token);
+    });
+    tickets.forEach((t, ticket) => {
+      if (t.expiresAt <= now) tickets.delete(ticket);
+    });
+  };
+
+  const get = (token: string): Session | null => {
+    const s = sessions.get(token);
+    if (!s) return null;
+    if (s.expiresAt <= Date.now()) {
+      sessions.delete(token);
+      return null;
+    }
+    return s;
+  };
+
+  return {
+    create: (user: AuthUser): Session => {
+      purgeExpired(Date.now());
+      const session: Session = {
+        ...user,
+        token: crypto.randomBytes(32).toString('hex'),
+        expiresAt: Date.now() + ttlMs,
+      };
+      sessions.set(session.token, session);
+      return session;
+    },
+    get,
+    // EventSource cannot send headers: instead of the bearer token (which would end up in
+    // access logs) the stream URL carries a single-use ticket that expires within seconds
+    createTicket: (token: string): { ticket: string; expiresAt: number } => {
+      purgeExpired(Date.now());
+      const ticket = crypto.randomBytes(32).toString('hex');
+      const expiresAt = Date.now() + ticketTtlMs;
+      tickets.set(ticket, { token, expiresAt });
+      return { ticket, expiresAt };
+    },
+    // The ticket's session (its token included), or null; a ticket works once
+    redeemTicket: (ticket: string): Session | null => {
+      const t = tickets.get(ticket);
+      tickets.delete(ticket);
+      return t && t.expiresAt > Date.now() ? get(t.token) : null;
+    },
+    revoke: (token: string) => { sessions.delete(token); },
+    // Password or role changes invalidate existing logins for that user
+    revokeUser: (username: string) => {
+      sessions.forEach((s, token) => {
+        if (s.username === username) sessions.delete(token);
+      });
+    },
+  };
+};
+
+// Failed logins per client IP and per username. After `maxFailures` in a row the key
+// is locked, and every further failure doubles the lock up to `maxLockMs`. A key
+// with no failure for `windowMs` starts over; a successful login clears both keys.
+export interface LoginThrottleOptions {
+  maxFailures: number;
+  baseLockMs: number;
+  maxLockMs: number;
+  windowMs: number;
+}
+
+export const createLoginThrottle = (opts: LoginThrottleOptions) => {
+  const entries = new Map<string, { failures: number; lastFailureAt: number; lockedUntil: number }>();
+  const keysOf = (ip: string, username: string) => [`ip:${ip}`, `user:${username.toLowerCase()}`];
+
+  const isStale = (e: { lastFailureAt: number; lockedUntil: number }, now: number) =>
+    now - e.lastFailureAt > opts.windowMs && e.lockedUntil <= now;
+
+  const purge = (now: number) => {
+    entries.forEach((e, key) => {
+      if (isStale(e, now)) entries.delete(key);
+    });
+  };
+
+  return {
+    // ms until this client may try this username again, 0 = now
+    retryAfter: (ip: string, username: string, now = Date.now()): number => {
+      purge(now);
+      return Math.max(0, ...keysOf(ip, username).map(k => (entries.get(k)?.lockedUntil ?? 0) - now));
+    },
+    fail: (ip: string, username: string, now = Date.now()) => {
+      for (const key of keysOf(ip, username)) {
+        const prev = entries.get(key);
+        const e = prev && !isStale(prev, now) ? prev : { failures: 0, lastFailureAt: now, lockedUntil: 0 };
+        e.failures++;
+        e.lastFailureAt = now;
+        if (e.failures >= opts.maxFailures) {
+          e.lockedUntil = now + Math.min(opts.maxLockMs, opts.baseLockMs * 2 ** (e.failures - opts.maxFailures));
+        }
+        entries.set(key, e);
+      }
+    },
+    succeed: (ip: string, username: string) => {
+      keysOf(ip, username).forEach(k => entries.delete(k));
+    },
+  };
+};
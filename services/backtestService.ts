@@ -0,0 +1,281 @@
+import fs from 'fs';
+import { CandleData, BacktestConfig, BacktestFill, BacktestTrade, BacktestResult, BacktestEquityPoint, AIDecision, AccountContext, MarketDataCollection } from "../types";
+import { DEFAULT_BACKTEST_CONFIG, TAKER_FEE_RATE, MOCK_TICKER } from "../constants";
+import { getRuleDecision } from "./ruleEngine";
+import { getFallbackSpec, roundToLot, estimateLiquidationPrice, kellyStats } from "./sizingService";
+import { calculateSharpeRatio, calculateMaxDrawdown } from "./performanceService";
+
+// --- Candle Loaders ---
+
+// CSV: ts,o,h,l,c,vol (header row optional, OKX export order)
+export const parseCandleCsv = (text: string): CandleData[] => {
+  const candles: CandleData[] = [];
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line) continue;
+    const cols = line.split(',').map(c => c.trim());
+    if (cols.length < 5 || isNaN(parseFloat(cols[0]))) continue; // Skip header / junk
+    candles.push({ ts: cols[0], o: cols[1], h: cols[2], l: cols[3], c: cols[4], vol: cols[5] || "0" });
+  }
+  return sortCandles(candles);
+};
+
+// JSON: CandleData[] or raw OKX rows ([ts, o, h, l, c, vol, ...][]), optionally wrapped in { data: [...] }
+export const parseCandleJson = (text: string): CandleData[] => {
+  const json = JSON.parse(text);
+  const rows: any[] = Array.isArray(json) ? json : (json.data || []);
+  const candles = rows.map((r: any): CandleData => Array.isArray(r)
+    ? { ts: String(r[0]), o: String(r[1]), h: String(r[2]), l: String(r[3]), c: String(r[4]), vol: String(r[5] ?? "0") }
+    : { ts: String(r.ts), o: String(r.o), h: String(r.h), l: String(r.l), c: String(r.c), vol: String(r.vol ?? "0") });
+  return sortCandles(candles);
+};
+
+export const loadCandlesFromFile = (filePath: string): CandleData[] => {
+  const text = fs.readFileSync(filePath, 'utf-8');
+  return filePath.toLowerCase().endsWith('.json') ? parseCandleJson(text) : parseCandleCsv(text);
+};
+
+// OKX returns newest first; the engine needs oldest first
+const sortCandles = (candles: CandleData[]) => candles.sort((a, b) => parseInt(a.ts) - parseInt(b.ts));
+
+// --- Simulated Position ---
+
+interface SimPosition {
+  posSide: 'long' | 'short';
+  contracts: number;
+  avgPx: number;
+  margin: number; // Isolated margin locked
+  stopPx: number;
+  partialTpTaken: boolean; // 50% tiered take-profit already executed
+  openTs: string;
+  rolls: number;
+  maxContracts: number;
+  fees: number;
+  realized: number;
+  entryValue: number; // Sum(px * contracts) over OPEN/ROLL fills
+  entryContracts: number;
+  exitValue: number; // Sum(px * contracts) over exit fills
+  exitContracts: number;
+  fills: BacktestFill[];
+}
+
+// --- Engine ---
+
+// Steps bar by bar: the rule engine decides on each closed bar, the order fills
+// at the next bar's open, stops/liquidation are checked intrabar against high/low.
+export const runBacktest = (candles: CandleData[], overrides: Partial<BacktestConfig> = {}): BacktestResult => {
+  const cfg: BacktestConfig = { ...DEFAULT_BACKTEST_CONFIG, ...overrides, sizing: { ...DEFAULT_BACKTEST_CONFIG.sizing, ...overrides.sizing } };
+  if (candles.length <= cfg.lookbackBars) {
+    throw new Error(`K线数量不足: 需要超过 ${cfg.lookbackBars} 根, 当前 ${candles.length} 根`);
+  }
+
+  let balance = cfg.initialEquity; // Wallet balance (realized)
+  let position: SimPosition | null = null;
+  let pending: AIDecision | null = null;
+  let totalFees = 0;
+  const trades: BacktestTrade[] = [];
+  const equityCurve: BacktestEquityPoint[] = [];
+
+  // Offline run: contract value / lot size come from the fallback spec table
+  const spec = getFallbackSpec(cfg.instId);
+
+  const dir = (p: SimPosition) => (p.posSide === 'long' ? 1 : -1);
+  const coinOf = (contracts: number) => contracts * spec.ctVal;
+
+  const upl = (p: SimPosition, price: number) => (price - p.avgPx) * coinOf(p.contracts) * dir(p);
+
+  const liqPx = (p: SimPosition) => estimateLiquidationPrice(p.posSide, p.avgPx, coinOf(p.contracts), p.margin);
+
+  const equityAt = (price: number) => balance + (position ? upl(position, price) : 0);
+
+  // Snapshot the simulated account in the same shape fetchAccountData returns
+  const toAccountContext = (price: number): AccountContext => {
+    const p = position;
+    return {
+      balance: {
+        totalEq: equityAt(price).toString(),
+        availEq: (balance - (p?.margin || 0)).toString(),
+        uTime: Date.now().toString(),
+      },
+      positions: p ? [{
+        instId: spec.instId,
+        posSide: p.posSide,
+        pos: p.contracts.toString(),
+        avgPx: p.avgPx.toString(),
+        upl: upl(p, price).toString(),
+        uplRatio: (p.margin > 0 ? upl(p, price) / p.margin : 0).toString(),
+        mgnMode: 'isolated',
+        margin: p.margin.toString(),
+        liqPx: liqPx(p).toString(),
+        cTime: p.openTs,
+        slTriggerPx: p.stopPx.toString(),
+      }] : [],
+    };
+  };
+
+  const recordFill = (p: SimPosition, fill: BacktestFill) => {
+    p.fills.push(fill);
+    p.fees += fill.fee;
+    totalFees += fill.fee;
+    balance += fill.realizedPnL - fill.fee;
+  };
+
+  const openOrAdd = (ts: string, posSide: 'long' | 'short', price: number, contracts: number, leverage: number, stopPx: number, reason: string) => {
+    const notional = coinOf(contracts) * price;
+    const margin = notional / leverage;
+    const fee = notional * TAKER_FEE_RATE;
+    if (balance - (position?.margin || 0) < margin + fee) return; // 51008: 余额不足
+
+    const type = position ? 'ROLL' : 'OPEN';
+    if (!position) {
+      position = {
+        posSide, contracts: 0, avgPx: 0, margin: 0, stopPx, partialTpTaken: false, openTs: ts, rolls: 0,
+        maxContracts: 0, fees: 0, realized: 0, entryValue: 0, entryContracts: 0, exitValue: 0, exitContracts: 0, fills: []
+      };
+    }
+    const p: SimPosition = position;
+    p.avgPx = (p.avgPx * p.contracts + price * contracts) / (p.contracts + contracts);
+    p.contracts += contracts;
+    p.margin += margin;
+    p.maxContracts = Math.max(p.maxContracts, p.contracts);
+    p.entryValue += price * contracts;
+    p.entryContracts += contracts;
+    if (type === 'ROLL') {
+      p.rolls += 1;
+      p.partialTpTaken = false;
+    }
+    // Attached SL of the newest leg becomes the position stop
+    if (stopPx > 0) p.stopPx = stopPx;
+    recordFill(p, { ts, type, posSide, price, contracts, fee, realizedPnL: 0, reason });
+  };
+
+  const reduce = (ts: string, price: number, contracts: number, type: BacktestFill['type'], reason: string) => {
+    const p = position;
+    if (!p) return;
+    const qty = Math.min(contracts, p.contracts);
+    if (qty <= 0) return;
+    const realizedPnL = (price - p.avgPx) * coinOf(qty) * dir(p);
+    const fee = coinOf(qty) * price * TAKER_FEE_RATE;
+    // Liquidation wipes the isolated margin, never more
+    const cappedPnL = type === 'LIQUIDATION' ? -p.margin : realizedPnL;
+
+    p.margin -= p.margin * (qty / p.contracts);
+    p.contracts = roundToLot(p.contracts - qty, spec);
+    p.realized += cappedPnL;
+    p.exitValue += price * qty;
+    p.exitContracts += qty;
+    recordFill(p, { ts, type, posSide: p.posSide, price, contracts: qty, fee, realizedPnL: cappedPnL, reason });
+
+    if (p.contracts <= 0) {
+      trades.push({
+        posSide: p.posSide,
+        openTs: p.openTs,
+        closeTs: ts,
+        avgEntryPx: p.entryValue / p.entryContracts,
+        exitPx: p.exitValue / p.exitContracts,
+        maxContracts: p.maxContracts,
+        rolls: p.rolls,
+        fees: p.fees,
+        netPnL: p.realized - p.fees,
+        exitReason: reason,
+        fills: p.fills,
+      });
+      position = null;
+    }
+  };
+
+  // Execute a rule decision the same way executeOrder interprets it
+  const execute = (decision: AIDecision, ts: string, price: number) => {
+    if (decision.action === 'CLOSE') {
+      if (position) reduce(ts, price, position.contracts, 'CLOSE', decision.reasoning);
+      return;
+    }
+    if (decision.action !== 'BUY' && decision.action !== 'SELL') return;
+
+    const posSide = decision.posSide || (decision.action === 'BUY' ? 'long' : 'short');
+    const isReducing = (posSide === 'long' && decision.action === 'SELL') || (posSide === 'short' && decision.action === 'BUY');
+    const contracts = parseFloat(decision.size);
+
+    if (isReducing) {
+      if (!position) return;
+      const p: SimPosition = position;
+      p.partialTpTaken = true;
+      reduce(ts, price, contracts, 'REDUCE', decision.reasoning);
+    } else if (!position || position.posSide === posSide) {
+      const stopPx = parseFloat(decision.trading_decision.stop_loss) || 0;
+      openOrAdd(ts, posSide, price, contracts, parseFloat(decision.leverage), stopPx, decision.reasoning);
+    }
+  };
+
+  const startIdx = cfg.lookbackBars - 1;
+  for (let i = startIdx; i < candles.length; i++) {
+    const bar = candles[i];
+    const open = parseFloat(bar.o);
+    const high = parseFloat(bar.h);
+    const low = parseFloat(bar.l);
+    const close = parseFloat(bar.c);
+
+    // 1. Fill the order decided on the previous close at this bar's open (no look-ahead)
+    if (pending) {
+      execute(pending, bar.ts, open);
+      pending = null;
+    }
+
+    // 2. Intrabar stop-loss / liquidation (whichever is hit first from the position's view)
+    if (position) {
+      const p: SimPosition = position;
+      const liq = liqPx(p);
+      if (p.posSide === 'long') {
+        const trigger = Math.max(p.stopPx || 0, liq);
+        if (low <= trigger) {
+          const isLiq = liq >= (p.stopPx || 0);
+          reduce(bar.ts, Math.min(open, trigger), p.contracts, isLiq ? 'LIQUIDATION' : 'STOP', isLiq ? '触发强平' : '触发止损');
+        }
+      } else {
+        const trigger = p.stopPx > 0 ? Math.min(p.stopPx, liq) : liq;
+        if (high >= trigger) {
+          const isLiq = liq <= p.stopPx || !(p.stopPx > 0);
+          reduce(bar.ts, Math.max(open, trigger), p.contracts, isLiq ? 'LIQUIDATION' : 'STOP', isLiq ? '触发强平' : '触发止损');
+        }
+      }
+    }
+
+    // 3. Mark-to-market equity at the close
+    equityCurve.push({ ts: bar.ts, equity: equityAt(close) });
+
+    // 4. Run the rule engine on the closed bar; the order fills on the next bar
+    const window = candles.slice(i - cfg.lookbackBars + 1, i + 1);
+    const marketData: MarketDataCollection = {
+      ticker: { ...MOCK_TICKER, instId: spec.instId, last: bar.c, ts: bar.ts },
+      candles3m: [], candles5m: [], candles15m: [], candles1H: [],
+      candles4H: window,
+      fundingRate: "0", nextFundingTime: "0", fundingHistory: [], openInterest: "0", orderbook: null, trades: [],
+    };
+    const current = position as SimPosition | null; // Reassigned inside closures
+    const decision = getRuleDecision(marketData, toAccountContext(close), spec, {
+      partialTpTaken: current?.partialTpTaken,
+      sizing: { config: cfg.sizing, stats: kellyStats(trades.map(t => t.netPnL)) }, // KELLY learns from the trades so far
+    });
+    pending = decision.action === 'HOLD' ? null : decision;
+  }
+
+  const equities = equityCurve.map(p => p.equity);
+  const finalEquity = equities[equities.length - 1];
+  const wins = trades.filter(t => t.netPnL > 0).length;
+
+  return {
+    config: cfg,
+    bars: equityCurve.length,
+    startTs: candles[startIdx].ts,
+    endTs: candles[candles.length - 1].ts,
+    initialEquity: cfg.initialEquity,
+    finalEquity,
+    totalReturn: (finalEquity - cfg.initialEquity) / cfg.initialEquity,
+    maxDrawdown: calculateMaxDrawdown(equities),
+    winRate: trades.length > 0 ? wins / trades.length : 0,
+    sharpeRatio: calculateSharpeRatio(equities),
+    totalFees,
+    trades,
+    equityCurve,
+  };
+};
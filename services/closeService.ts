@@ -0,0 +1,100 @@
+import { CloseResult, InstrumentSpec, PositionData, SystemLog } from "../types";
+import { CLOSE_VERIFY_ATTEMPTS, CLOSE_VERIFY_DELAY_MS } from "../constants";
+import { formatContracts, roundToLot } from "./sizingService";
+
+// --- Close Service ---
+// Closes what the account actually holds: the position's own side and margin
+// mode, no trying long then short. After sending the order it re-reads the
+// positions until the side is flat (full) or down by the requested size
+// (partial); a full close that is still open is sent again. Only a verified
+// full close cancels the side's algo orders (TP/SL, take-profit ladder,
+// trailing stops), so a position that failed to close keeps its stops and
+// a later position on that side does not inherit stale ones. A partial
+// close keeps them; the stop manager and the ladder resize theirs.
+
+export interface CloseDeps {
+  fetchPositions: () => Promise<PositionData[]>;
+  getSpec: (instId: string) => Promise<InstrumentSpec>;
+  closeSide: (position: PositionData) => Promise<{ ordId: string }>;
+  reduceSide: (position: PositionData, spec: InstrumentSpec, size: string) => Promise<{ ordId: string }>;
+  cancelSideAlgos: (instId: string, posSide: PositionData['posSide']) => Promise<number>;
+  onLog: (type: SystemLog['type'], message: string) => void;
+  sleep?: (ms: number) => Promise<void>;
+}
+
+const SIDE_LABELS: Record<PositionData['posSide'], string> = { long: '多单', short: '空单' };
+
+export const createCloseService = (deps: CloseDeps) => {
+  const sleep = deps.sleep || ((ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms)));
+  const sizeOf = (p: PositionData | undefined) => (p ? parseFloat(p.pos) || 0 : 0);
+
+  // Re-read positions until the side holds at most `target` contracts; a full close is re-sent while it is not flat
+  const verify = async (position: PositionData, target: number): Promise<number> => {
+    let remaining = sizeOf(position);
+    for (let attempt = 1; attempt <= CLOSE_VERIFY_ATTEMPTS; attempt++) {
+      await sleep(CLOSE_VERIFY_DELAY_MS);
+      const current = (await deps.fetchPositions()).find(p => p.instId === position.instId && p.posSide === position.posSide);
+      remaining = sizeOf(current);
+      if (remaining <= target + 1e-9) return remaining;
+      if (target === 0 && current && attempt < CLOSE_VERIFY_ATTEMPTS) {
+        deps.onLog('WARNING', `[${position.instId}] ${SIDE_LABELS[position.posSide]}仍有 ${current.pos} 张, 重新市价全平 (第 ${attempt + 1} 次)`);
+        try {
+          await deps.closeSide(current);
+        } catch (e: any) {
+          deps.onLog('ERROR', `[${position.instId}] ${e.message}`);
+        }
+      }
+    }
+    return remaining;
+  };
+
+  // pct: share of the side to close, 100 (default) = all of it
+  const closePosition = async (position: PositionData, pct = 100, reason = ''): Promise<CloseResult> => {
+    const { instId, posSide } = position;
+    const spec = await deps.getSpec(instId);
+    const size = sizeOf(position);
+    const share = roundToLot(size * Math.min(pct, 100) / 100, spec);
+    const full = pct >= 100 || share >= size;
+    const requested = full ? size : share;
+    const label = `[${instId}] ${full ? '全平' : `平仓 ${pct}% `}${SIDE_LABELS[posSide]}${reason ? ` (${reason})` : ''}`;
+    if (!(size > 0)) throw new Error(`${label}: 持仓为空`);
+    if (!full && requested < spec.minSz) throw new Error(`${label}: ${requested} 张小于最小下单量 ${spec.minSz} 张`);
+
+    const { ordId } = full ? await deps.closeSide(position) : await deps.reduceSide(position, spec, formatContracts(requested, spec));
+    const target = full ? 0 : size - requested;
+    const remaining = await verify(position, target);
+    const result: CloseResult = { instId, posSide, pct: full ? 100 : pct, requested, ordId, remaining, verified: remaining <= target + 1e-9, cancelledAlgos: 0 };
+
+    if (!result.verified) {
+      result.error = `复查后仍有 ${remaining} 张 (目标 ${formatContracts(target, spec)} 张), 止盈止损未撤销, 请人工处理`;
+      deps.onLog('ERROR', `${label}: ${result.error}`);
+      return result;
+    }
+    if (full) {
+      try {
+        result.cancelledAlgos = await deps.cancelSideAlgos(instId, posSide);
+      } catch (e: any) {
+        deps.onLog('WARNING', `${label}: 已平仓, 但撤销剩余策略委托失败: ${e.message}`);
+      }
+    }
+    deps.onLog('TRADE', `${label}: ${formatContracts(requested, spec)} 张已确认${full ? `, 持仓已清空${result.cancelledAlgos > 0 ? `, 撤销 ${result.cancelledAlgos} 个策略委托` : ''}` : `, 剩余 ${remaining} 张`}`);
+    return result;
+  };
+
+  // Emergency: close every open side, one after another; a failure does not stop the rest
+  const flattenAll = async (reason: string): Promise<CloseResult[]> => {
+    const open = (await deps.fetchPositions()).filter(p => sizeOf(p) > 0);
+    const results: CloseResult[] = [];
+    for (const p of open) {
+      try {
+        results.push(await closePosition(p, 100, reason));
+      } catch (e: any) {
+        deps.onLog('ERROR', `[${p.instId}] 一键清仓${SIDE_LABELS[p.posSide]}失败: ${e.message}`);
+        results.push({ instId: p.instId, posSide: p.posSide, pct: 100, requested: sizeOf(p), ordId: '', remaining: sizeOf(p), verified: false, cancelledAlgos: 0, error: e.message });
+      }
+    }
+    return results;
+  };
+
+  return { closePosition, flattenAll };
+};
@@ -0,0 +1,118 @@
+import { after, before, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { AccountContext, MarketDataCollection } from "../types";
+import { AI_REPAIR_MAX_RETRIES } from "../constants";
+import { DecisionValidationContext, formatRepairPrompt, validateDecision, validateDecisionText } from "./decisionValidator";
+import { createScriptedProvider } from "./llmProvider";
+import { getTradingDecision } from "./aiService";
+import { getFallbackSpec } from "./sizingService";
+
+const FLAT: DecisionValidationContext = { price: 3000, positionSide: null };
+const LONG: DecisionValidationContext = { price: 3000, positionSide: 'long' };
+
+const decision = (td: Record<string, unknown> = {}) => ({
+  stage_analysis: '4H 多头',
+  market_assessment: '回调到位',
+  hot_events_overview: '',
+  reasoning: '按规则开仓',
+  trading_decision: {
+    action: 'BUY', confidence: '80%', position_size: '', leverage: '20',
+    stop_loss: '2900', profit_target: '0', invalidation_condition: '',
+    ...td,
+  },
+});
+
+const errorsOf = (raw: unknown, ctx = FLAT) => {
+  const result = validateDecision(raw, ctx);
+  assert.equal(result.ok, false);
+  return result.ok ? [] : result.errors;
+};
+
+describe('validateDecision', () => {
+  it('accepts a well-formed open and normalizes its fields', () => {
+    const result = validateDecision(decision({ stop_loss: 2900.5, leverage: 20 }), FLAT);
+    assert.ok(result.ok);
+    assert.deepEqual(result.decision.trading_decision, {
+      action: 'buy', confidence: '80%', position_size: '', leverage: '20',
+      profit_target: '0', stop_loss: '2900.5', invalidation_condition: '',
+    });
+  });
+
+  it('rejects an unknown action', () => {
+    assert.match(errorsOf(decision({ action: 'LONG' })).join(), /action 必须是 BUY\/SELL\/HOLD\/CLOSE\/UPDATE_TPSL 之一/);
+  });
+
+  it('rejects values out of range or not a single number', () => {
+    const errors = errorsOf(decision({ confidence: '150%', leverage: '200', position_size: 'all', stop_loss: '2900-2910', profit_target: '3200U' }));
+    assert.equal(errors.length, 5);
+    assert.match(errors[0], /confidence/);
+    assert.match(errors[1], /leverage 必须是 1-125/);
+    assert.match(errors[2], /position_size/);
+    assert.match(errors[3], /stop_loss 必须是单个价格数字/);
+    assert.match(errors[4], /profit_target/);
+  });
+
+  it('requires a stop for opens and adds but not for reductions', () => {
+    assert.match(errorsOf(decision({ stop_loss: '' })).join(), /BUY 必须给出 stop_loss/);
+    // SELL against a long trims it
+    assert.ok(validateDecision(decision({ action: 'SELL', stop_loss: '' }), LONG).ok);
+  });
+
+  it('checks stop and target against the side they protect', () => {
+    // Opening short: the stop must sit above price
+    assert.match(errorsOf(decision({ action: 'SELL', stop_loss: '2900' })).join(), /空单止损 2900 必须高于当前价 3000.00/);
+    // Holding long: a SELL still protects the long, so its target must be above price
+    assert.match(errorsOf(decision({ action: 'SELL', stop_loss: '2900', profit_target: '2800' }), LONG).join(), /多单止盈 2800 必须高于当前价/);
+    assert.match(errorsOf(decision({ action: 'UPDATE_TPSL', stop_loss: '3100' }), LONG).join(), /多单止损 3100 必须低于当前价/);
+    assert.match(errorsOf(decision({ action: 'UPDATE_TPSL' })).join(), /当前无持仓, 不能 UPDATE_TPSL/);
+  });
+
+  it('rejects text that is not a JSON object', () => {
+    assert.deepEqual(validateDecisionText('买入', FLAT), { ok: false, errors: ['返回内容不是合法 JSON'] });
+    assert.deepEqual(validateDecisionText('[1]', FLAT), { ok: false, errors: ['返回内容不是 JSON 对象'] });
+    assert.ok(validateDecisionText('```json\n' + JSON.stringify(decision()) + '\n```', FLAT).ok);
+  });
+});
+
+describe('getTradingDecision repair loop', () => {
+  const spec = getFallbackSpec('ETH-USDT-SWAP');
+  const marketData: MarketDataCollection = {
+    ticker: { instId: spec.instId, last: '3000', lastSz: '1', askPx: '3000.1', bidPx: '2999.9', open24h: '3000', high24h: '3000', low24h: '3000', volCcy24h: '0', ts: '0' },
+    candles3m: [], candles5m: [], candles15m: [], candles1H: [], candles4H: [],
+    fundingRate: '0', nextFundingTime: '0', fundingHistory: [], openInterest: '0', orderbook: null, trades: [],
+  };
+  const accountData: AccountContext = { balance: { totalEq: '100', availEq: '100', uTime: '0' }, positions: [] };
+  const hold = JSON.stringify(decision({ action: 'HOLD', stop_loss: '0' }));
+
+  // No news feed and no console noise in tests
+  before(() => {
+    mock.method(globalThis, 'fetch', async () => { throw new Error('offline'); });
+    mock.method(console, 'warn', () => undefined);
+    mock.method(console, 'error', () => undefined);
+  });
+  after(() => mock.restoreAll());
+
+  it('sends the errors back and takes the repaired answer', async () => {
+    const provider = createScriptedProvider([JSON.stringify(decision({ action: 'LONG' })), hold]);
+    const result = await getTradingDecision(provider, marketData, accountData, spec);
+    assert.equal(result.action, 'HOLD');
+    assert.deepEqual({ valid: result.validation!.valid, attempts: result.validation!.attempts }, { valid: true, attempts: 2 });
+    assert.equal(result.validation!.failures.length, 1);
+
+    const repairTurn = provider.calls[1].at(-1)!;
+    assert.equal(repairTurn.role, 'user');
+    assert.equal(repairTurn.content, formatRepairPrompt(result.validation!.failures[0].errors));
+    assert.equal(provider.calls[1].at(-2)!.role, 'assistant');
+  });
+
+  it('falls back to HOLD once the retries are used up', async () => {
+    const provider = createScriptedProvider(['not json']);
+    const result = await getTradingDecision(provider, marketData, accountData, spec);
+    assert.equal(provider.calls.length, AI_REPAIR_MAX_RETRIES + 1);
+    assert.equal(result.action, 'HOLD');
+    assert.equal(result.size, '0');
+    assert.equal(result.stage_analysis, 'AI 输出校验失败');
+    assert.equal(result.validation!.valid, false);
+    assert.match(result.reasoning, new RegExp(`连续 ${AI_REPAIR_MAX_RETRIES + 1} 次未通过校验, 强制 HOLD`));
+  });
+});
@@ -0,0 +1,135 @@
+import { AIDecision } from "../types";
+
+// --- AI Decision Validator ---
+// Checks the model's raw JSON before any field reaches sizing or OKX orders.
+// Errors are short Chinese sentences so they can be sent back to the model verbatim.
+
+export interface DecisionValidationContext {
+  price: number; // Current price, reference for stop/target side checks
+  positionSide: 'long' | 'short' | null; // Existing position on this instrument
+}
+
+export type RawDecision = Pick<AIDecision, 'stage_analysis' | 'market_assessment' | 'hot_events_overview' | 'trading_decision' | 'reasoning'>;
+
+export type DecisionValidationResult =
+  | { ok: true; decision: RawDecision }
+  | { ok: false; errors: string[] };
+
+const ACTIONS = ['buy', 'sell', 'hold', 'close', 'update_tpsl'] as const;
+const NUMERIC = /^\d+(\.\d+)?$/;
+const MAX_LEVERAGE = 125; // OKX swap ceiling
+
+const isObject = (v: unknown): v is Record<string, any> => typeof v === 'object' && v !== null && !Array.isArray(v);
+
+// Plain decimal only: "3200.5" or 3200.5. Ranges like "3200-3210", units, or commas are rejected.
+const toNumber = (v: unknown): number | null => {
+  if (typeof v === 'number') return Number.isFinite(v) ? v : null;
+  if (typeof v === 'string' && NUMERIC.test(v.trim())) return parseFloat(v);
+  return null;
+};
+
+// Strips ```json fences; returns null on invalid JSON
+export const parseDecisionText = (text: string): unknown => {
+  try {
+    return JSON.parse(text.replace(/```json/g, '').replace(/```/g, '').trim());
+  } catch (e) {
+    return null;
+  }
+};
+
+export const validateDecision = (raw: unknown, ctx: DecisionValidationContext): DecisionValidationResult => {
+  const errors: string[] = [];
+  if (!isObject(raw)) return { ok: false, errors: ['返回内容不是 JSON 对象'] };
+
+  for (const field of ['stage_analysis', 'market_assessment', 'reasoning'] as const) {
+    if (typeof raw[field] !== 'string' || !raw[field].trim()) errors.push(`${field} 必须是非空字符串`);
+  }
+  if (raw.hot_events_overview !== undefined && typeof raw.hot_events_overview !== 'string') {
+    errors.push('hot_events_overview 必须是字符串');
+  }
+
+  const td = raw.trading_decision;
+  if (!isObject(td)) {
+    errors.push('缺少 trading_decision 对象');
+    return { ok: false, errors };
+  }
+
+  // 1. Action enum
+  const action = typeof td.action === 'string' ? td.action.trim().toLowerCase() : '';
+  if (!(ACTIONS as readonly string[]).includes(action)) {
+    errors.push(`trading_decision.action 必须是 ${ACTIONS.map(a => a.toUpperCase()).join('/')} 之一, 收到 ${JSON.stringify(td.action)}`);
+  }
+
+  // 2. Numeric fields and ranges
+  const confidence = toNumber(typeof td.confidence === 'string' ? td.confidence.replace(/%$/, '') : td.confidence);
+  if (confidence === null || confidence > 100) errors.push(`trading_decision.confidence 必须是 0-100%, 收到 ${JSON.stringify(td.confidence)}`);
+
+  const leverage = toNumber(td.leverage);
+  if (leverage === null || leverage < 1 || leverage > MAX_LEVERAGE) errors.push(`trading_decision.leverage 必须是 1-${MAX_LEVERAGE} 的数字, 收到 ${JSON.stringify(td.leverage)}`);
+
+  // Size is recomputed in code, but a present value must still be a plain number
+  const sizeGiven = td.position_size !== undefined && td.position_size !== '';
+  if (sizeGiven && toNumber(td.position_size) === null) errors.push(`trading_decision.position_size 必须是数字或留空, 收到 ${JSON.stringify(td.position_size)}`);
+
+  const stopGiven = td.stop_loss !== undefined && td.stop_loss !== '';
+  const stopLoss = stopGiven ? toNumber(td.stop_loss) : 0;
+  if (stopLoss === null) errors.push(`trading_decision.stop_loss 必须是单个价格数字 (不能是区间或带单位), 收到 ${JSON.stringify(td.stop_loss)}`);
+
+  const targetGiven = td.profit_target !== undefined && td.profit_target !== '';
+  const profitTarget = targetGiven ? toNumber(td.profit_target) : 0;
+  if (profitTarget === null) errors.push(`trading_decision.profit_target 必须是单个价格数字或 0, 收到 ${JSON.stringify(td.profit_target)}`);
+
+  if (td.invalidation_condition !== undefined && typeof td.invalidation_condition !== 'string') {
+    errors.push('trading_decision.invalidation_condition 必须是字符串');
+  }
+
+  // 3. Stop/target must sit on the correct side of price for the position they protect
+  const posSide = ctx.positionSide || (action === 'buy' ? 'long' : action === 'sell' ? 'short' : null);
+  const needsStop = action === 'update_tpsl' || ((action === 'buy' || action === 'sell') && (!ctx.positionSide || posSide === (action === 'buy' ? 'long' : 'short')));
+
+  if (action === 'update_tpsl' && !ctx.positionSide) errors.push('当前无持仓, 不能 UPDATE_TPSL');
+  if (needsStop && stopLoss === 0) errors.push(`${action.toUpperCase()} 必须给出 stop_loss`);
+
+  if (posSide && ctx.price > 0 && action !== 'hold' && action !== 'close') {
+    const fmt = ctx.price.toFixed(2);
+    if (stopLoss && stopLoss > 0) {
+      if (posSide === 'long' && stopLoss >= ctx.price) errors.push(`多单止损 ${stopLoss} 必须低于当前价 ${fmt}`);
+      if (posSide === 'short' && stopLoss <= ctx.price) errors.push(`空单止损 ${stopLoss} 必须高于当前价 ${fmt}`);
+    }
+    if (profitTarget && profitTarget > 0) {
+      if (posSide === 'long' && profitTarget <= ctx.price) errors.push(`多单止盈 ${profitTarget} 必须高于当前价 ${fmt}`);
+      if (posSide === 'short' && profitTarget >= ctx.price) errors.push(`空单止盈 ${profitTarget} 必须低于当前价 ${fmt}`);
+    }
+  }
+
+  if (errors.length > 0) return { ok: false, errors };
+
+  return {
+    ok: true,
+    decision: {
+      stage_analysis: raw.stage_analysis,
+      market_assessment: raw.market_assessment,
+      hot_events_overview: raw.hot_events_overview || '',
+      reasoning: raw.reasoning,
+      trading_decision: {
+        action: action as AIDecision['trading_decision']['action'],
+        confidence: `${confidence}%`,
+        position_size: sizeGiven ? String(toNumber(td.position_size)) : '',
+        leverage: String(leverage),
+        profit_target: String(profitTarget),
+        stop_loss: String(stopLoss),
+        invalidation_condition: td.invalidation_condition || '',
+      },
+    },
+  };
+};
+
+export const validateDecisionText = (text: string, ctx: DecisionValidationContext): DecisionValidationResult => {
+  const raw = parseDecisionText(text || '');
+  if (raw === null) return { ok: false, errors: ['返回内容不是合法 JSON'] };
+  return validateDecision(raw, ctx);
+};
+
+// Follow-up user turn for a repair round
+export const formatRepairPrompt = (errors: string[]) =>
+  `你上一次的回答未通过格式校验:\n${errors.map(e => `- ${e}`).join('\n')}\n请修正以上问题, 仅返回完整的 JSON 对象, 不要包含其他文字。`;
@@ -0,0 +1,30 @@
+import { FundingRatePoint, MarketDataCollection, PositionData } from "../types";
+import { FUNDING_INTERVAL_MS } from "../constants";
+
+// --- Funding Helpers (shared by server and dashboard) ---
+// Positive rate: longs pay shorts at each settlement. Amounts are in USDT,
+// positive = paid, so they can be subtracted from net PnL directly.
+
+// Next settlement on the 8h UTC grid, for when the exchange did not say
+export const nextFundingTimeAfter = (now: number) => (Math.floor(now / FUNDING_INTERVAL_MS) + 1) * FUNDING_INTERVAL_MS;
+
+export const fundingPayment = (posSide: PositionData['posSide'], notional: number, rate: number) =>
+  (posSide === 'short' ? -1 : 1) * rate * notional;
+
+export const averageFundingRate = (history: FundingRatePoint[]) =>
+  history.length > 0 ? history.reduce((sum, p) => sum + p.rate, 0) / history.length : 0;
+
+export const resolveNextFundingTime = (md: MarketDataCollection, now: number = Date.now()) => {
+  const t = parseInt(md.nextFundingTime || "0");
+  return t > now ? t : nextFundingTimeAfter(now);
+};
+
+// Accrued and projected funding for one position at the current price
+export const positionFunding = (position: PositionData, md: MarketDataCollection, ctVal: number, price: number) => {
+  const notional = (parseFloat(position.pos) || 0) * ctVal * price;
+  return {
+    accrued: parseFloat(position.fundingFee || "0") || 0,
+    nextCost: fundingPayment(position.posSide, notional, parseFloat(md.fundingRate) || 0),
+    nextFundingTime: resolveNextFundingTime(md),
+  };
+};
@@ -0,0 +1,137 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { CandleData } from "../types";
+import {
+  calculateIndicators, createADX, createATR, createBollinger, createEMA, createMACD, createRSI,
+  createSMA, createStochastic, createVWAP, OhlcvBar, runSeries, toBars,
+} from "./indicators";
+
+const near = (actual: number | null | undefined, expected: number, digits = 2) => {
+  assert.ok(actual !== null && actual !== undefined, `expected ${expected}, got ${actual}`);
+  assert.equal(actual.toFixed(digits), expected.toFixed(digits));
+};
+
+const bar = (h: number, l: number, c: number, vol = 1, ts = 0): OhlcvBar => ({ ts, o: c, h, l, c, vol });
+
+// Wilder RSI(14) worked example (StockCharts "RSI" ChartSchool table)
+const RSI_CLOSES = [
+  44.34, 44.09, 44.15, 43.61, 44.33, 44.83, 45.10, 45.42, 45.84, 46.08, 45.89, 46.03, 45.61, 46.28, 46.28,
+  46.00, 46.03, 46.41, 46.22, 45.64, 46.21, 46.25, 45.71, 46.45, 45.78, 45.35, 44.03, 44.18, 44.22, 44.57,
+  43.42, 42.66, 43.13,
+];
+const RSI_EXPECTED = [
+  70.46, 66.25, 66.48, 69.35, 66.29, 57.92, 62.88, 63.21, 56.01, 62.34, 54.67, 50.39, 40.02, 41.49, 41.90,
+  45.50, 37.32, 33.09, 37.79,
+];
+
+describe('EMA / SMA', () => {
+  it('seeds the EMA with the first price', () => {
+    assert.deepEqual(runSeries(createEMA(3), [1, 2, 3]), [1, 1.5, 2.25]);
+  });
+
+  it('returns the SMA once the window is full', () => {
+    assert.deepEqual(runSeries(createSMA(3), [1, 2, 3, 4, 5]), [null, null, 2, 3, 4]);
+  });
+});
+
+describe('RSI', () => {
+  it('matches the Wilder reference table', () => {
+    const rsi = runSeries(createRSI(14), RSI_CLOSES);
+    assert.ok(rsi.slice(0, 14).every(v => v === null));
+    rsi.slice(14).forEach((v, i) => near(v, RSI_EXPECTED[i]));
+  });
+
+  it('is 100 without losses and 50 on a flat series', () => {
+    assert.equal(runSeries(createRSI(3), [1, 2, 3, 4]).at(-1), 100);
+    assert.equal(runSeries(createRSI(3), [5, 5, 5, 5]).at(-1), 50);
+  });
+});
+
+describe('MACD', () => {
+  it('starts on the slow period and keeps histogram = macd - signal', () => {
+    const closes = RSI_CLOSES;
+    const macd = runSeries(createMACD({ fast: 12, slow: 26, signal: 9 }), closes);
+    assert.ok(macd.slice(0, 25).every(v => v === null));
+    const fast = runSeries(createEMA(12), closes);
+    const slow = runSeries(createEMA(26), closes);
+    macd.slice(25).forEach((v, i) => {
+      near(v!.macd, fast[25 + i] - slow[25 + i], 6);
+      near(v!.histogram, v!.macd - v!.signal, 6);
+    });
+    // The signal EMA is seeded with the first MACD value it sees
+    near(macd[25]!.signal, macd[25]!.macd, 6);
+  });
+});
+
+describe('ATR', () => {
+  it('uses Wilder smoothing of the true range', () => {
+    const atr = runSeries(createATR(3), [bar(10, 8, 9), bar(11, 9, 10), bar(12, 10, 11), bar(13, 9, 12)]);
+    assert.deepEqual(atr.slice(0, 2), [null, null]);
+    near(atr[2], 2, 6);
+    near(atr[3], (2 * 2 + 4) / 3, 6);
+  });
+
+  it('counts a gap from the previous close', () => {
+    // TR of the last bar: |16 - 12| = 4, not its 1-point range
+    const atr = runSeries(createATR(2), [bar(12, 11, 12), bar(13, 11, 12), bar(16, 15, 15.5)]);
+    near(atr[2], ((1 + 2) / 2 + 4) / 2, 6);
+  });
+});
+
+describe('Bollinger', () => {
+  it('uses the population standard deviation', () => {
+    const bb = runSeries(createBollinger({ period: 5, stdDev: 2 }), [1, 2, 3, 4, 5]).at(-1)!;
+    near(bb.middle, 3, 6);
+    near(bb.upper, 3 + 2 * Math.SQRT2, 6);
+    near(bb.lower, 3 - 2 * Math.SQRT2, 6);
+    near(bb.percentB, (5 - bb.lower) / (4 * Math.SQRT2), 6);
+    near(bb.bandwidthPct, (4 * Math.SQRT2) / 3 * 100, 6);
+  });
+});
+
+describe('VWAP', () => {
+  it('weights typical prices by volume and resets each UTC day', () => {
+    const day = 86400000;
+    const vwap = runSeries(createVWAP(), [
+      bar(12, 8, 10, 1, 0), // typical 10
+      bar(24, 18, 21, 2, 4 * 3600000), // typical 21
+      bar(6, 3, 3, 5, day), // new day, typical 4
+    ]);
+    near(vwap[0], 10, 6);
+    near(vwap[1], (10 * 1 + 21 * 2) / 3, 6);
+    near(vwap[2], 4, 6);
+  });
+});
+
+describe('ADX', () => {
+  it('reads a steady uptrend as +DI only, ADX 100', () => {
+    const bars = Array.from({ length: 7 }, (_, i) => bar(12 + i, 10 + i, 11 + i));
+    const adx = runSeries(createADX(3), bars);
+    assert.ok(adx.slice(0, 5).every(v => v === null));
+    assert.equal(adx[5]!.minusDI, 0);
+    assert.ok(adx[5]!.plusDI > 0);
+    near(adx[5]!.adx, 100, 6);
+  });
+});
+
+describe('Stochastic', () => {
+  it('places the close within the high-low range, then smooths %K and %D', () => {
+    const bars = [bar(10, 0, 5), bar(10, 0, 10), bar(10, 0, 0), bar(10, 0, 5)];
+    const raw = runSeries(createStochastic({ period: 2, smoothK: 1, smoothD: 1 }), bars);
+    assert.deepEqual(raw.map(v => v?.k ?? null), [null, 100, 0, 50]);
+    const slow = runSeries(createStochastic({ period: 2, smoothK: 2, smoothD: 2 }), bars);
+    assert.deepEqual(slow.map(v => v && [v.k, v.d]), [null, null, null, [25, 37.5]]);
+  });
+});
+
+describe('calculateIndicators', () => {
+  it('returns an empty snapshot without candles', () => {
+    assert.ok(Object.values(calculateIndicators([])).every(v => v === null));
+  });
+
+  it('reads OKX candle strings', () => {
+    const candles: CandleData[] = RSI_CLOSES.map((c, i) => ({ ts: String(i * 14400000), o: String(c), h: String(c), l: String(c), c: String(c), vol: '1' }));
+    assert.equal(toBars(candles)[0].c, 44.34);
+    near(calculateIndicators(candles).rsi, RSI_EXPECTED.at(-1)!);
+  });
+});
@@ -0,0 +1,292 @@
+import { AdxValue, BollingerValue, CandleData, IndicatorName, IndicatorSnapshot, MacdValue, StochasticValue } from "../types";
+import { INDICATOR_PARAMS } from "../constants";
+
+// --- Technical Indicators (shared by server and dashboard) ---
+// Every indicator is a stepper: next() folds one more bar into its running
+// state and returns the value on that bar, null while it is warming up. A
+// whole series is a single pass, and a caller that keeps the stepper can feed
+// newly closed candles without recomputing the history.
+
+export interface OhlcvBar {
+  ts: number;
+  o: number;
+  h: number;
+  l: number;
+  c: number;
+  vol: number;
+}
+
+export interface Stepper<In, Out> {
+  next: (value: In) => Out;
+}
+
+export const INDICATOR_NAMES: { name: IndicatorName; label: string }[] = [
+  { name: 'RSI', label: 'RSI' },
+  { name: 'MACD', label: 'MACD' },
+  { name: 'ATR', label: 'ATR' },
+  { name: 'BOLLINGER', label: '布林带' },
+  { name: 'VWAP', label: 'VWAP' },
+  { name: 'ADX', label: 'ADX' },
+  { name: 'STOCHASTIC', label: '随机指标 KD' },
+];
+
+export const toBars = (candles: CandleData[]): OhlcvBar[] => candles.map(c => ({
+  ts: parseInt(c.ts),
+  o: parseFloat(c.o),
+  h: parseFloat(c.h),
+  l: parseFloat(c.l),
+  c: parseFloat(c.c),
+  vol: parseFloat(c.vol) || 0,
+}));
+
+export const runSeries = <In, Out>(stepper: Stepper<In, Out>, inputs: In[]): Out[] => inputs.map(v => stepper.next(v));
+
+// Seeded with the first price (no SMA warm-up), as the strategy has always computed it
+export const createEMA = (period: number): Stepper<number, number> => {
+  const k = 2 / (period + 1);
+  let ema: number | null = null;
+  return { next: v => (ema = ema === null ? v : v * k + ema * (1 - k)) };
+};
+
+export const calcEMAArray = (prices: number[], period: number): number[] => runSeries(createEMA(period), prices);
+
+export const createSMA = (period: number): Stepper<number, number | null> => {
+  const window: number[] = [];
+  let sum = 0;
+  return {
+    next: v => {
+      window.push(v);
+      sum += v;
+      if (window.length > period) sum -= window.shift()!;
+      return window.length === period ? sum / period : null;
+    },
+  };
+};
+
+// Wilder smoothing: simple average of the first `period` values, then avg += (v - avg) / period
+const createWilder = (period: number): Stepper<number, number | null> => {
+  let count = 0;
+  let sum = 0;
+  let avg: number | null = null;
+  return {
+    next: v => {
+      if (avg !== null) return (avg = (avg * (period - 1) + v) / period);
+      sum += v;
+      if (++count === period) avg = sum / period;
+      return avg;
+    },
+  };
+};
+
+const trueRange = (bar: OhlcvBar, prevClose: number | null) => prevClose === null
+  ? bar.h - bar.l
+  : Math.max(bar.h - bar.l, Math.abs(bar.h - prevClose), Math.abs(bar.l - prevClose));
+
+export const createRSI = (period = INDICATOR_PARAMS.rsiPeriod): Stepper<number, number | null> => {
+  const gains = createWilder(period);
+  const losses = createWilder(period);
+  let prev: number | null = null;
+  return {
+    next: close => {
+      if (prev === null) {
+        prev = close;
+        return null;
+      }
+      const change = close - prev;
+      prev = close;
+      const gain = gains.next(Math.max(change, 0));
+      const loss = losses.next(Math.max(-change, 0));
+      if (gain === null || loss === null) return null;
+      if (loss === 0) return gain === 0 ? 50 : 100;
+      return 100 - 100 / (1 + gain / loss);
+    },
+  };
+};
+
+export const createMACD = ({ fast, slow, signal } = INDICATOR_PARAMS.macd): Stepper<number, MacdValue | null> => {
+  const fastEma = createEMA(fast);
+  const slowEma = createEMA(slow);
+  const signalEma = createEMA(signal);
+  let count = 0;
+  return {
+    next: close => {
+      const macd = fastEma.next(close) - slowEma.next(close);
+      // The signal line starts once the slow EMA has seen a full period
+      if (++count < slow) return null;
+      const sig = signalEma.next(macd);
+      return { macd, signal: sig, histogram: macd - sig };
+    },
+  };
+};
+
+export const createATR = (period = INDICATOR_PARAMS.atrPeriod): Stepper<OhlcvBar, number | null> => {
+  const avg = createWilder(period);
+  let prevClose: number | null = null;
+  return {
+    next: bar => {
+      const tr = trueRange(bar, prevClose);
+      prevClose = bar.c;
+      return avg.next(tr);
+    },
+  };
+};
+
+export const createBollinger = ({ period, stdDev } = INDICATOR_PARAMS.bollinger): Stepper<number, BollingerValue | null> => {
+  const window: number[] = [];
+  return {
+    next: close => {
+      window.push(close);
+      if (window.length > period) window.shift();
+      if (window.length < period) return null;
+      const middle = window.reduce((sum, v) => sum + v, 0) / period;
+      const sd = Math.sqrt(window.reduce((sum, v) => sum + (v - middle) ** 2, 0) / period);
+      const upper = middle + stdDev * sd;
+      const lower = middle - stdDev * sd;
+      return {
+        upper,
+        middle,
+        lower,
+        bandwidthPct: middle > 0 ? ((upper - lower) / middle) * 100 : 0,
+        percentB: upper > lower ? (close - lower) / (upper - lower) : 0.5,
+      };
+    },
+  };
+};
+
+// Anchored to the UTC day, so it resets every 24h (six bars on 4H candles)
+export const createVWAP = (): Stepper<OhlcvBar, number | null> => {
+  let day = -1;
+  let priceVolume = 0;
+  let volume = 0;
+  return {
+    next: bar => {
+      const barDay = Math.floor(bar.ts / 86400000);
+      if (barDay !== day) {
+        day = barDay;
+        priceVolume = 0;
+        volume = 0;
+      }
+      priceVolume += ((bar.h + bar.l + bar.c) / 3) * bar.vol;
+      volume += bar.vol;
+      return volume > 0 ? priceVolume / volume : null;
+    },
+  };
+};
+
+export const createADX = (period = INDICATOR_PARAMS.adxPeriod): Stepper<OhlcvBar, AdxValue | null> => {
+  const trAvg = createWilder(period);
+  const plusAvg = createWilder(period);
+  const minusAvg = createWilder(period);
+  const dxAvg = createWilder(period);
+  let prev: OhlcvBar | null = null;
+  return {
+    next: bar => {
+      if (!prev) {
+        prev = bar;
+        return null;
+      }
+      const up = bar.h - prev.h;
+      const down = prev.l - bar.l;
+      const atr = trAvg.next(trueRange(bar, prev.c));
+      const plusDM = plusAvg.next(up > down && up > 0 ? up : 0);
+      const minusDM = minusAvg.next(down > up && down > 0 ? down : 0);
+      prev = bar;
+      if (atr === null || plusDM === null || minusDM === null) return null;
+
+      const plusDI = atr > 0 ? (plusDM / atr) * 100 : 0;
+      const minusDI = atr > 0 ? (minusDM / atr) * 100 : 0;
+      const diSum = plusDI + minusDI;
+      const adx = dxAvg.next(diSum > 0 ? (Math.abs(plusDI - minusDI) / diSum) * 100 : 0);
+      return adx === null ? null : { adx, plusDI, minusDI };
+    },
+  };
+};
+
+// Slow stochastic: %K is the SMA of the raw %K, %D the SMA of %K
+export const createStochastic = ({ period, smoothK, smoothD } = INDICATOR_PARAMS.stochastic): Stepper<OhlcvBar, StochasticValue | null> => {
+  const window: OhlcvBar[] = [];
+  const kAvg = createSMA(smoothK);
+  const dAvg = createSMA(smoothD);
+  return {
+    next: bar => {
+      window.push(bar);
+      if (window.length > period) window.shift();
+      if (window.length < period) return null;
+      const highest = Math.max(...window.map(b => b.h));
+      const lowest = Math.min(...window.map(b => b.l));
+      const k = kAvg.next(highest > lowest ? ((bar.c - lowest) / (highest - lowest)) * 100 : 50);
+      if (k === null) return null;
+      const d = dAvg.next(k);
+      return d === null ? null : { k, d };
+    },
+  };
+};
+
+// All indicators at once, one snapshot per bar
+export const createIndicators = (): Stepper<OhlcvBar, IndicatorSnapshot> => {
+  const ema21 = createEMA(21);
+  const ema55 = createEMA(55);
+  const rsi = createRSI();
+  const macd = createMACD();
+  const atr = createATR();
+  const bollinger = createBollinger();
+  const vwap = createVWAP();
+  const adx = createADX();
+  const stochastic = createStochastic();
+  return {
+    next: bar => ({
+      ema21: ema21.next(bar.c),
+      ema55: ema55.next(bar.c),
+      rsi: rsi.next(bar.c),
+      macd: macd.next(bar.c),
+      atr: atr.next(bar),
+      bollinger: bollinger.next(bar.c),
+      vwap: vwap.next(bar),
+      adx: adx.next(bar),
+      stochastic: stochastic.next(bar),
+    }),
+  };
+};
+
+export const calculateIndicatorSeries = (candles: CandleData[]): IndicatorSnapshot[] => runSeries(createIndicators(), toBars(candles));
+
+const EMPTY_SNAPSHOT: IndicatorSnapshot = { ema21: null, ema55: null, rsi: null, macd: null, atr: null, bollinger: null, vwap: null, adx: null, stochastic: null };
+
+// Values on the last candle
+export const calculateIndicators = (candles: CandleData[]): IndicatorSnapshot => {
+  const series = calculateIndicatorSeries(candles);
+  return series.length > 0 ? series[series.length - 1] : EMPTY_SNAPSHOT;
+};
+
+const { rsiPeriod, macd, atrPeriod, bollinger, adxPeriod, stochastic } = INDICATOR_PARAMS;
+
+const formatIndicator = (name: IndicatorName, s: IndicatorSnapshot, price: number): string => {
+  const missing = (label: string) => `- ${label}: 数据不足`;
+  switch (name) {
+    case 'RSI':
+      return s.rsi === null ? missing(`RSI(${rsiPeriod})`)
+        : `- RSI(${rsiPeriod}): ${s.rsi.toFixed(1)} (>70 超买, <30 超卖)`;
+    case 'MACD':
+      return s.macd === null ? missing('MACD')
+        : `- MACD(${macd.fast},${macd.slow},${macd.signal}): DIF ${s.macd.macd.toFixed(2)}, DEA ${s.macd.signal.toFixed(2)}, 柱 ${s.macd.histogram.toFixed(2)}`;
+    case 'ATR':
+      return s.atr === null ? missing(`ATR(${atrPeriod})`)
+        : `- ATR(${atrPeriod}): ${s.atr.toFixed(2)} (占价格 ${price > 0 ? ((s.atr / price) * 100).toFixed(2) : '0'}%)`;
+    case 'BOLLINGER':
+      return s.bollinger === null ? missing('布林带')
+        : `- 布林带(${bollinger.period},${bollinger.stdDev}): 上轨 ${s.bollinger.upper.toFixed(2)} / 中轨 ${s.bollinger.middle.toFixed(2)} / 下轨 ${s.bollinger.lower.toFixed(2)}, %B ${s.bollinger.percentB.toFixed(2)}, 带宽 ${s.bollinger.bandwidthPct.toFixed(2)}%`;
+    case 'VWAP':
+      return s.vwap === null ? missing('VWAP')
+        : `- VWAP (UTC 日内): ${s.vwap.toFixed(2)}, 现价在其${price >= s.vwap ? '上方' : '下方'}`;
+    case 'ADX':
+      return s.adx === null ? missing(`ADX(${adxPeriod})`)
+        : `- ADX(${adxPeriod}): ${s.adx.adx.toFixed(1)} (+DI ${s.adx.plusDI.toFixed(1)} / -DI ${s.adx.minusDI.toFixed(1)}, >25 趋势明确)`;
+    case 'STOCHASTIC':
+      return s.stochastic === null ? missing('随机指标 KD')
+        : `- 随机指标 KD(${stochastic.period},${stochastic.smoothK},${stochastic.smoothD}): K ${s.stochastic.k.toFixed(1)}, D ${s.stochastic.d.toFixed(1)} (>80 超买, <20 超卖)`;
+  }
+};
+
+// Prompt lines for the selected indicators, in INDICATOR_NAMES order
+export const formatIndicators = (s: IndicatorSnapshot, names: IndicatorName[], price: number): string =>
+  INDICATOR_NAMES.filter(i => names.includes(i.name)).map(i => formatIndicator(i.name, s, price)).join('\n');
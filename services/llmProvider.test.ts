@@ -0,0 +1,97 @@
+import { afterEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { AIDecision, AppConfig, LLMProviderKind, MarketDataCollection } from "../types";
+import { DEFAULT_CONFIG, LLM_PROVIDER_DEFAULTS } from "../constants";
+import { createProvider, createScriptedProvider } from "./llmProvider";
+import { getAIVeto, testConnection } from "./aiService";
+import { validateDecisionText } from "./decisionValidator";
+
+const configFor = (provider: LLMProviderKind, keys: Partial<AppConfig> = {}): AppConfig => ({
+  ...DEFAULT_CONFIG,
+  ...keys,
+  llm: { ...DEFAULT_CONFIG.llm, provider, model: LLM_PROVIDER_DEFAULTS[provider].model, baseUrl: LLM_PROVIDER_DEFAULTS[provider].baseUrl },
+});
+
+const marketData: MarketDataCollection = {
+  ticker: null, candles3m: [], candles5m: [], candles15m: [], candles1H: [], candles4H: [],
+  fundingRate: '0', nextFundingTime: '0', fundingHistory: [], openInterest: '0', orderbook: null, trades: [],
+};
+
+const ruleDecision = {
+  stage_analysis: '规则引擎', market_assessment: '', hot_events_overview: '', eth_analysis: '', reasoning: 'EMA 金叉',
+  trading_decision: { action: 'buy', confidence: '100%', position_size: '1', leverage: '20', profit_target: '0', stop_loss: '2900', invalidation_condition: '' },
+  action: 'BUY', size: '1', leverage: '20', posSide: 'long', instId: 'ETH-USDT-SWAP',
+} as AIDecision;
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(typeof body === 'string' ? body : JSON.stringify(body), { status });
+
+describe('llmProvider', () => {
+  afterEach(() => mock.restoreAll());
+
+  it('builds the provider the settings name', () => {
+    assert.equal(createProvider(configFor('DEEPSEEK')).kind, 'DEEPSEEK');
+    assert.equal(createProvider(configFor('GEMINI')).kind, 'GEMINI');
+    assert.equal(createProvider(configFor('OPENAI_COMPATIBLE')).kind, 'OPENAI_COMPATIBLE');
+    const fake = createProvider(configFor('FAKE'));
+    assert.deepEqual([fake.kind, fake.model], ['FAKE', 'scripted']);
+  });
+
+  it('answers offline with a valid HOLD from the FAKE provider', async () => {
+    const text = await createProvider(configFor('FAKE')).complete([{ role: 'user', content: '请给出操作' }]);
+    const result = validateDecisionText(text, { price: 3000, positionSide: null });
+    assert.ok(result.ok);
+    assert.equal(result.decision.trading_decision.action, 'hold');
+  });
+
+  it('replays its script in order and records every prompt', async () => {
+    const provider = createScriptedProvider(['a', messages => `echo ${messages.at(-1)!.content}`]);
+    assert.equal(await provider.complete([{ role: 'user', content: '1' }]), 'a');
+    assert.equal(await provider.complete([{ role: 'user', content: '2' }]), 'echo 2');
+    assert.equal(await provider.complete([{ role: 'user', content: '3' }]), 'echo 3'); // The last entry repeats
+    assert.deepEqual(provider.calls.map(c => c[0].content), ['1', '2', '3']);
+  });
+
+  it('posts OpenAI-style chat completions and reads the first choice', async () => {
+    const fetchMock = mock.method(globalThis, 'fetch', async () => jsonResponse({ choices: [{ message: { content: '{"veto":false}' } }] }));
+    const provider = createProvider(configFor('OPENAI_COMPATIBLE', { openaiApiKey: 'sk-local' }));
+    assert.equal(await provider.complete([{ role: 'user', content: 'hi' }]), '{"veto":false}');
+
+    const [url, init] = fetchMock.mock.calls[0].arguments as [string, RequestInit];
+    assert.equal(url, 'http://127.0.0.1:11434/v1/chat/completions');
+    assert.equal((init.headers as Record<string, string>).Authorization, 'Bearer sk-local');
+    const body = JSON.parse(init.body as string);
+    assert.deepEqual([body.model, body.messages], ['llama3.1', [{ role: 'user', content: 'hi' }]]);
+  });
+
+  it('reports HTTP errors and missing keys with the provider name', async () => {
+    mock.method(globalThis, 'fetch', async () => jsonResponse('rate limited', 429));
+    await assert.rejects(createProvider(configFor('OPENAI_COMPATIBLE')).complete([]), /OpenAI 兼容接口 API Error: 429 - rate limited/);
+    await assert.rejects(createProvider(configFor('DEEPSEEK')).complete([]), /API Key 为空/);
+  });
+});
+
+describe('aiService through the scripted provider', () => {
+  afterEach(() => mock.restoreAll());
+
+  it('testConnection returns the reply or the provider error', async () => {
+    assert.equal(await testConnection(createScriptedProvider(['{"message":"OK"}'])), '{"message":"OK"}');
+    assert.equal(await testConnection(createScriptedProvider([''])), '无响应内容');
+    await assert.rejects(testConnection(createScriptedProvider([new Error('401 Unauthorized')])), /401 Unauthorized/);
+  });
+
+  it('parses a fenced veto reply and fails closed on anything else', async () => {
+    mock.method(globalThis, 'fetch', async () => { throw new Error('offline'); }); // News feed
+    mock.method(console, 'error', () => undefined);
+
+    const pass = await getAIVeto(createScriptedProvider(['```json\n{"veto": false, "reason": "无重大风险"}\n```']), ruleDecision, marketData);
+    assert.deepEqual(pass, { veto: false, reason: '无重大风险' });
+
+    const garbled = await getAIVeto(createScriptedProvider(['同意']), ruleDecision, marketData);
+    assert.equal(garbled.veto, true);
+    assert.match(garbled.reason, /AI 审核失败, 安全起见否决/);
+
+    const down = await getAIVeto(createScriptedProvider([new Error('timeout')]), ruleDecision, marketData);
+    assert.deepEqual(down, { veto: true, reason: 'AI 审核失败, 安全起见否决: timeout' });
+  });
+});
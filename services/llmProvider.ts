@@ -0,0 +1,157 @@
+import { GoogleGenAI } from '@google/genai';
+import { AppConfig, LLMConfig, LLMMessage, LLMProviderKind } from "../types";
+import { LLM_PROVIDER_DEFAULTS } from "../constants";
+
+// --- LLM Provider Layer ---
+// Every prompt in aiService goes through `complete`, which returns the raw
+// text of a single reply (expected to be JSON). Providers are built per call
+// from AppConfig so settings changes apply on the next decision.
+
+export interface LLMProvider {
+  kind: LLMProviderKind;
+  model: string;
+  complete: (messages: LLMMessage[]) => Promise<string>;
+}
+
+const checkApiKey = (apiKey: string, required: boolean) => {
+  const cleanKey = apiKey ? apiKey.trim() : "";
+  if (required && !cleanKey) throw new Error("API Key 为空");
+  // eslint-disable-next-line no-control-regex
+  if (/[^\x00-\x7F]/.test(cleanKey)) {
+    throw new Error("API Key 包含非法字符(中文或特殊符号)");
+  }
+  return cleanKey;
+};
+
+// POST {baseUrl}/chat/completions. DeepSeek, OpenAI, llama.cpp and Ollama all speak this.
+export const createOpenAICompatibleProvider = (
+  settings: LLMConfig,
+  apiKey: string,
+  opts: { label: string; kind: LLMProviderKind; requireKey: boolean }
+): LLMProvider => ({
+  kind: opts.kind,
+  model: settings.model,
+  complete: async (messages) => {
+    const cleanKey = checkApiKey(apiKey, opts.requireKey);
+    const baseUrl = (settings.baseUrl || '').replace(/\/+$/, '');
+    if (!baseUrl) throw new Error(`${opts.label} Base URL 为空`);
+
+    try {
+      const headers: Record<string, string> = { "Content-Type": "application/json" };
+      if (cleanKey) headers["Authorization"] = `Bearer ${cleanKey}`;
+      const response = await fetch(`${baseUrl}/chat/completions`, {
+        method: "POST",
+        headers,
+        body: JSON.stringify({
+          model: settings.model,
+          messages,
+          stream: false,
+          temperature: settings.temperature,
+          max_tokens: settings.maxTokens,
+          response_format: { type: 'json_object' }
+        })
+      });
+
+      if (!response.ok) {
+        const errText = await response.text();
+        throw new Error(`${opts.label} API Error: ${response.status} - ${errText}`);
+      }
+
+      const json = await response.json();
+      return json.choices?.[0]?.message?.content || "";
+    } catch (e: any) {
+      throw new Error(e.message || `${opts.label} 请求失败`);
+    }
+  },
+});
+
+export const createDeepSeekProvider = (settings: LLMConfig, apiKey: string): LLMProvider =>
+  createOpenAICompatibleProvider(
+    { ...settings, baseUrl: LLM_PROVIDER_DEFAULTS.DEEPSEEK.baseUrl },
+    apiKey,
+    { label: 'DeepSeek', kind: 'DEEPSEEK', requireKey: true }
+  );
+
+// System messages become the systemInstruction, the rest map to user/model turns
+export const createGeminiProvider = (settings: LLMConfig, apiKey: string): LLMProvider => ({
+  kind: 'GEMINI',
+  model: settings.model,
+  complete: async (messages) => {
+    const cleanKey = checkApiKey(apiKey, true);
+    try {
+      const ai = new GoogleGenAI({ apiKey: cleanKey });
+      const system = messages.filter(m => m.role === 'system').map(m => m.content).join("\n");
+      const response = await ai.models.generateContent({
+        model: settings.model,
+        contents: messages
+          .filter(m => m.role !== 'system')
+          .map(m => ({ role: m.role === 'assistant' ? 'model' : 'user', parts: [{ text: m.content }] })),
+        config: {
+          systemInstruction: system || undefined,
+          temperature: settings.temperature,
+          maxOutputTokens: settings.maxTokens,
+          responseMimeType: 'application/json',
+        },
+      });
+      return response.text || "";
+    } catch (e: any) {
+      throw new Error(`Gemini API Error: ${e.message || "请求失败"}`);
+    }
+  },
+});
+
+// Replies from a script in order (the last one repeats); a function entry sees the prompt.
+// `calls` records every prompt so tests can assert on what was sent.
+export type ScriptedReply = string | Error | ((messages: LLMMessage[]) => string);
+
+export const createScriptedProvider = (script: ScriptedReply[]) => {
+  const calls: LLMMessage[][] = [];
+  const provider: LLMProvider & { calls: LLMMessage[][] } = {
+    kind: 'FAKE',
+    model: LLM_PROVIDER_DEFAULTS.FAKE.model,
+    calls,
+    complete: async (messages) => {
+      const entry = script[Math.min(calls.length, script.length - 1)];
+      calls.push(messages);
+      if (entry === undefined) throw new Error("脚本为空");
+      if (entry instanceof Error) throw entry;
+      return typeof entry === 'function' ? entry(messages) : entry;
+    },
+  };
+  return provider;
+};
+
+// FAKE in settings: always HOLD, never veto. Lets the loop run end to end offline.
+const DEFAULT_FAKE_REPLY = JSON.stringify({
+  message: "OK",
+  stage_analysis: "脚本模型: 固定观望",
+  market_assessment: "脚本模型不分析行情",
+  hot_events_overview: "N/A",
+  trading_decision: {
+    action: "hold",
+    confidence: "0%",
+    position_size: "0",
+    leverage: "20",
+    profit_target: "0",
+    stop_loss: "0",
+    invalidation_condition: "N/A"
+  },
+  reasoning: "FAKE 提供方仅返回 HOLD",
+  veto: false,
+  reason: "FAKE 提供方不否决",
+});
+
+export const createProvider = (config: AppConfig): LLMProvider => {
+  const settings = config.llm;
+  switch (settings.provider) {
+    case 'GEMINI':
+      return createGeminiProvider(settings, config.geminiApiKey);
+    case 'OPENAI_COMPATIBLE':
+      return createOpenAICompatibleProvider(settings, config.openaiApiKey, { label: 'OpenAI 兼容接口', kind: 'OPENAI_COMPATIBLE', requireKey: false });
+    case 'FAKE':
+      return createScriptedProvider([DEFAULT_FAKE_REPLY]);
+    case 'DEEPSEEK':
+    default:
+      return createDeepSeekProvider(settings, config.deepseekApiKey);
+  }
+};
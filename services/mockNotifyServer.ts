@@ -0,0 +1,153 @@
+import http from 'http';
+import net, { AddressInfo } from 'net';
+
+// --- Local Notification Stand-in ---
+// One HTTP server for Telegram (POST /bot<token>/sendMessage) and the generic
+// webhook (POST /webhook), plus an SMTP sink that accepts any login and keeps
+// the raw DATA. Every delivery is recorded so each notifier channel can be
+// exercised without a bot, an endpoint or a mail relay.
+
+export interface ReceivedNotification {
+  channel: 'telegram' | 'webhook' | 'email';
+  at: number;
+  body: any; // Parsed JSON for HTTP, { from, to, auth, data } for SMTP
+}
+
+export interface MockNotifyServer {
+  httpPort: number;
+  smtpPort: number;
+  telegramBaseUrl: string; // Use as notifications.telegram.apiBaseUrl
+  webhookUrl: string;
+  received: () => ReceivedNotification[];
+  // Next N requests on a channel fail (HTTP 500 / SMTP 554), to exercise error handling
+  failNext: (channel: ReceivedNotification['channel'], count?: number) => void;
+  close: () => Promise<void>;
+}
+
+// token: when given, Telegram requests for any other token get 401
+export const startMockNotifyServer = async (httpPort = 0, smtpPort = 0, token?: string): Promise<MockNotifyServer> => {
+  const received: ReceivedNotification[] = [];
+  const failures: Record<ReceivedNotification['channel'], number> = { telegram: 0, webhook: 0, email: 0 };
+  const takeFailure = (channel: ReceivedNotification['channel']) => {
+    if (failures[channel] <= 0) return false;
+    failures[channel]--;
+    return true;
+  };
+
+  const httpServer = http.createServer((req, res) => {
+    let raw = '';
+    req.on('data', chunk => { raw += chunk; });
+    req.on('end', () => {
+      const send = (status: number, payload: object) => {
+        res.writeHead(status, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(payload));
+      };
+      let body: any = null;
+      try { body = JSON.parse(raw); } catch (e) { /* rejected below */ }
+      const bot = (req.url || '').match(/^\/bot([^/]+)\/sendMessage$/);
+
+      if (req.method === 'POST' && bot) {
+        if (token && bot[1] !== token) return send(401, { ok: false, error_code: 401, description: 'Unauthorized' });
+        if (!body?.chat_id || !body?.text) return send(400, { ok: false, error_code: 400, description: 'Bad Request: chat_id and text are required' });
+        if (takeFailure('telegram')) return send(500, { ok: false, error_code: 500, description: 'Internal Server Error' });
+        received.push({ channel: 'telegram', at: Date.now(), body });
+        return send(200, { ok: true, result: { message_id: received.length, chat: { id: body.chat_id }, text: body.text } });
+      }
+      if (req.method === 'POST' && req.url === '/webhook') {
+        if (!body) return send(400, { error: 'invalid json' });
+        if (takeFailure('webhook')) return send(500, { error: 'mock failure' });
+        received.push({ channel: 'webhook', at: Date.now(), body });
+        return send(200, { ok: true });
+      }
+      send(404, { error: 'not found' });
+    });
+  });
+
+  const smtpServer = net.createServer(socket => {
+    let buffer = '';
+    let inData = false;
+    let authStep: 'user' | 'pass' | null = null;
+    let mail = { from: '', to: [] as string[], auth: '', data: '' };
+    const reply = (line: string) => socket.write(line + '\r\n');
+
+    reply('220 mock-smtp ready');
+    socket.on('data', chunk => {
+      buffer += chunk.toString('utf-8');
+      let idx: number;
+      while ((idx = buffer.indexOf('\r\n')) >= 0) {
+        const line = buffer.slice(0, idx);
+        buffer = buffer.slice(idx + 2);
+
+        if (inData) {
+          if (line !== '.') {
+            mail.data += (line.startsWith('..') ? line.slice(1) : line) + '\r\n';
+            continue;
+          }
+          inData = false;
+          if (takeFailure('email')) {
+            reply('554 mock failure');
+          } else {
+            received.push({ channel: 'email', at: Date.now(), body: mail });
+            reply('250 OK queued');
+          }
+          mail = { from: '', to: [], auth: mail.auth, data: '' };
+          continue;
+        }
+        if (authStep === 'user') {
+          mail.auth = Buffer.from(line, 'base64').toString('utf-8');
+          authStep = 'pass';
+          reply('334 UGFzc3dvcmQ6');
+          continue;
+        }
+        if (authStep === 'pass') {
+          authStep = null;
+          reply('235 Authentication successful');
+          continue;
+        }
+
+        const verb = line.split(' ')[0].toUpperCase();
+        if (verb === 'EHLO' || verb === 'HELO') {
+          reply('250-mock-smtp');
+          reply('250 AUTH LOGIN');
+        } else if (verb === 'AUTH') {
+          authStep = 'user';
+          reply('334 VXNlcm5hbWU6');
+        } else if (verb === 'MAIL') {
+          mail.from = line.replace(/^MAIL FROM:/i, '').replace(/[<>]/g, '');
+          reply('250 OK');
+        } else if (verb === 'RCPT') {
+          mail.to.push(line.replace(/^RCPT TO:/i, '').replace(/[<>]/g, ''));
+          reply('250 OK');
+        } else if (verb === 'DATA') {
+          inData = true;
+          reply('354 End data with <CR><LF>.<CR><LF>');
+        } else if (verb === 'QUIT') {
+          reply('221 Bye');
+          socket.end();
+        } else {
+          reply('502 Command not implemented');
+        }
+      }
+    });
+    socket.on('error', () => {});
+  });
+
+  const listen = (server: net.Server, port: number) => new Promise<number>(resolve => {
+    server.listen(port, '127.0.0.1', () => resolve((server.address() as AddressInfo).port));
+  });
+  const boundHttp = await listen(httpServer, httpPort);
+  const boundSmtp = await listen(smtpServer, smtpPort);
+
+  return {
+    httpPort: boundHttp,
+    smtpPort: boundSmtp,
+    telegramBaseUrl: `http://127.0.0.1:${boundHttp}`,
+    webhookUrl: `http://127.0.0.1:${boundHttp}/webhook`,
+    received: () => received.slice(),
+    failNext: (channel, count = 1) => { failures[channel] += count; },
+    close: () => new Promise<void>(resolve => {
+      httpServer.closeAllConnections();
+      httpServer.close(() => smtpServer.close(() => resolve()));
+    }),
+  };
+};
@@ -0,0 +1,128 @@
+import { WebSocketServer, WebSocket } from 'ws';
+import { AddressInfo } from 'net';
+import { OkxWsCredentials, signWsLogin } from "./okxWsService";
+
+// --- Local OKX WebSocket Stand-in ---
+// Speaks enough of the V5 protocol (ping/pong, login, subscribe/unsubscribe, pushes)
+// to exercise okxWsService without touching the real exchange.
+// Paths: /ws/v5/public, /ws/v5/private, /ws/v5/business
+
+export interface MockOkxWsServer {
+  port: number;
+  urls: { public: string; private: string; business: string };
+  // Send a push to every client subscribed to a matching arg (channel + instId/instType)
+  push: (arg: Record<string, string>, data: any[], action?: 'snapshot' | 'update') => void;
+  // All args currently subscribed on a path, e.g. subscriptions('public')
+  subscriptions: (path: 'public' | 'private' | 'business') => Record<string, string>[];
+  // Kill every open connection (clients should reconnect and resubscribe)
+  dropConnections: () => void;
+  close: () => Promise<void>;
+}
+
+interface ClientState {
+  path: 'public' | 'private' | 'business';
+  loggedIn: boolean;
+  args: Record<string, string>[];
+}
+
+const sameArg = (a: Record<string, string>, b: Record<string, string>) =>
+  a.channel === b.channel && a.instId === b.instId && a.instType === b.instType && a.ccy === b.ccy;
+
+// Private pushes are addressed by channel (+instType); the subscribed arg may be broader
+const matchesArg = (sub: Record<string, string>, arg: Record<string, string>) =>
+  sub.channel === arg.channel &&
+  (!sub.instId || sub.instId === arg.instId) &&
+  (!sub.instType || !arg.instType || sub.instType === arg.instType);
+
+// credentials: when given, login signatures are verified against them
+export const startMockOkxWsServer = (port = 0, credentials?: OkxWsCredentials): Promise<MockOkxWsServer> =>
+  new Promise((resolve) => {
+    const wss = new WebSocketServer({ port });
+    const clients = new Map<WebSocket, ClientState>();
+
+    const reply = (ws: WebSocket, payload: object) => ws.send(JSON.stringify(payload));
+
+    wss.on('connection', (ws, req) => {
+      const path = (req.url || '').split('/').pop() as ClientState['path'];
+      if (!['public', 'private', 'business'].includes(path)) {
+        ws.close(1008, 'unknown path');
+        return;
+      }
+      const state: ClientState = { path, loggedIn: false, args: [] };
+      clients.set(ws, state);
+
+      ws.on('message', (raw) => {
+        const text = raw.toString();
+        if (text === 'ping') {
+          ws.send('pong');
+          return;
+        }
+
+        let msg: any;
+        try {
+          msg = JSON.parse(text);
+        } catch (e) {
+          reply(ws, { event: 'error', code: '60012', msg: `Invalid request: ${text}` });
+          return;
+        }
+
+        if (msg.op === 'login') {
+          const login = msg.args?.[0];
+          const valid = !!login && (!credentials ||
+            (login.apiKey === credentials.apiKey && login.sign === signWsLogin(credentials, login.timestamp).sign));
+          if (!valid) {
+            reply(ws, { event: 'error', code: '60009', msg: 'Login failed.' });
+            return;
+          }
+          state.loggedIn = true;
+          reply(ws, { event: 'login', code: '0', msg: '' });
+          return;
+        }
+
+        if (msg.op === 'subscribe' || msg.op === 'unsubscribe') {
+          for (const arg of msg.args || []) {
+            if (state.path === 'private' && !state.loggedIn) {
+              reply(ws, { event: 'error', code: '60011', msg: 'Please log in.' });
+              continue;
+            }
+            if (msg.op === 'subscribe') {
+              if (!state.args.some(a => sameArg(a, arg))) state.args.push(arg);
+            } else {
+              state.args = state.args.filter(a => !sameArg(a, arg));
+            }
+            reply(ws, { event: msg.op, arg });
+          }
+          return;
+        }
+
+        reply(ws, { event: 'error', code: '60012', msg: `Invalid request: ${text}` });
+      });
+
+      ws.on('close', () => clients.delete(ws));
+    });
+
+    wss.on('listening', () => {
+      const actualPort = (wss.address() as AddressInfo).port;
+      const base = `ws://127.0.0.1:${actualPort}/ws/v5`;
+      resolve({
+        port: actualPort,
+        urls: { public: `${base}/public`, private: `${base}/private`, business: `${base}/business` },
+        push: (arg, data, action) => {
+          clients.forEach((state, ws) => {
+            if (ws.readyState !== WebSocket.OPEN) return;
+            if (state.args.some(sub => matchesArg(sub, arg))) reply(ws, action ? { arg, action, data } : { arg, data });
+          });
+        },
+        subscriptions: (path) =>
+          Array.from(clients.values()).filter(c => c.path === path).flatMap(c => c.args),
+        dropConnections: () => {
+          clients.forEach((_, ws) => ws.terminate());
+          clients.clear();
+        },
+        close: () => new Promise<void>((done) => {
+          clients.forEach((_, ws) => ws.terminate());
+          wss.close(() => done());
+        }),
+      });
+    });
+  });
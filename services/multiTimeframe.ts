@@ -0,0 +1,81 @@
+import { CandleData, CandleKey, EntryConfirmation, MarketDataCollection, MultiTimeframeAnalysis, TimeframeBar, TimeframeTrend } from "../types";
+import { MTF_BIAS_THRESHOLD, MTF_SLOPE_BARS, MTF_WEIGHTS } from "../constants";
+import { calcEMAArray } from "./indicators";
+
+// --- Multi-Timeframe Confluence (shared by server and dashboard) ---
+// Every timeframe gets the same EMA 21/55 read as the 4H strategy plus the
+// EMA21 slope and where price closed. The 4H signal stays the trigger; the
+// lower timeframes either add context (confluence score) or, with entry
+// refinement on, must confirm it: 15m trend on the same side and 3m price
+// not working against it.
+
+export const TIMEFRAMES: { bar: TimeframeBar; key: CandleKey }[] = [
+  { bar: '4H', key: 'candles4H' },
+  { bar: '1H', key: 'candles1H' },
+  { bar: '15m', key: 'candles15m' },
+  { bar: '5m', key: 'candles5m' },
+  { bar: '3m', key: 'candles3m' },
+];
+
+const sign = (v: number) => (v > 0 ? 1 : v < 0 ? -1 : 0);
+
+export const analyzeTimeframeTrend = (bar: TimeframeBar, candles: CandleData[]): TimeframeTrend => {
+  const trend: TimeframeTrend = { bar, ema21: 0, ema55: 0, close: 0, slopePct: 0, score: 0, state: 'INSUFFICIENT' };
+  // Same minimum as analyzeEmaTrend: EMA55 needs some history to settle
+  if (candles.length <= 55) return trend;
+
+  const closes = candles.map(c => parseFloat(c.c));
+  const ema21 = calcEMAArray(closes, 21);
+  const ema55 = calcEMAArray(closes, 55);
+  const last = closes.length - 1;
+  const base = ema21[last - MTF_SLOPE_BARS];
+
+  trend.ema21 = ema21[last];
+  trend.ema55 = ema55[last];
+  trend.close = closes[last];
+  trend.slopePct = base > 0 ? ((trend.ema21 - base) / base) * 100 : 0;
+  // Alignment carries half the weight, slope and close vs EMA21 a quarter each
+  trend.score = 0.5 * sign(trend.ema21 - trend.ema55) + 0.25 * sign(trend.slopePct) + 0.25 * sign(trend.close - trend.ema21);
+  trend.state = trend.score >= 0.5 ? 'BULLISH' : trend.score <= -0.5 ? 'BEARISH' : 'NEUTRAL';
+  return trend;
+};
+
+export const analyzeMultiTimeframe = (md: MarketDataCollection): MultiTimeframeAnalysis => {
+  const trends = TIMEFRAMES.map(({ bar, key }) => analyzeTimeframeTrend(bar, md[key] || []));
+  const usable = trends.filter(t => t.state !== 'INSUFFICIENT');
+  const weight = usable.reduce((sum, t) => sum + MTF_WEIGHTS[t.bar], 0);
+  const confluence = weight > 0 ? Math.round((usable.reduce((sum, t) => sum + t.score * MTF_WEIGHTS[t.bar], 0) / weight) * 100) : 0;
+  return {
+    trends,
+    confluence,
+    bias: confluence >= MTF_BIAS_THRESHOLD ? 'BULLISH' : confluence <= -MTF_BIAS_THRESHOLD ? 'BEARISH' : 'NEUTRAL',
+  };
+};
+
+export const getTimeframe = (mtf: MultiTimeframeAnalysis, bar: TimeframeBar) => mtf.trends.find(t => t.bar === bar)!;
+
+// Entry refinement: a 4H long/short is only taken when the 15m trend agrees and 3m is not against it
+export const confirmEntry = (mtf: MultiTimeframeAnalysis, posSide: 'long' | 'short'): EntryConfirmation => {
+  const want = posSide === 'long' ? 'BULLISH' : 'BEARISH';
+  const dir = posSide === 'long' ? 1 : -1;
+  const m15 = getTimeframe(mtf, '15m');
+  const m3 = getTimeframe(mtf, '3m');
+
+  if (m15.state === 'INSUFFICIENT' || m3.state === 'INSUFFICIENT') {
+    return { confirmed: false, reason: '15m/3m K线不足, 无法确认低周期结构' };
+  }
+  if (m15.state !== want) {
+    return { confirmed: false, reason: `15m 趋势 ${m15.state}, 未与 4H ${want} 同向` };
+  }
+  if (m3.score * dir <= 0) {
+    return { confirmed: false, reason: `3m 结构未确认 (评分 ${m3.score.toFixed(2)})` };
+  }
+  return { confirmed: true, reason: `15m ${m15.state} 且 3m 评分 ${m3.score.toFixed(2)}, 低周期确认` };
+};
+
+export const formatMultiTimeframe = (mtf: MultiTimeframeAnalysis) =>
+  mtf.trends
+    .map(t => t.state === 'INSUFFICIENT'
+      ? `- ${t.bar}: 数据不足`
+      : `- ${t.bar}: ${t.state} (EMA21 ${t.ema21.toFixed(2)} / EMA55 ${t.ema55.toFixed(2)}, EMA21 斜率 ${t.slopePct.toFixed(3)}%, 收盘${t.close >= t.ema21 ? '在 EMA21 上方' : '在 EMA21 下方'})`)
+    .join('\n') + `\n- 共振评分: ${mtf.confluence} (${mtf.bias}, -100 ~ 100, 正数偏多)`;
@@ -0,0 +1,102 @@
+import { after, before, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { AppConfig, NotificationConfig, SystemLog } from "../types";
+import { DEFAULT_CONFIG, DEFAULT_NOTIFICATION_CONFIG } from "../constants";
+import { createNotifier, NOTIFY_LOG_PREFIX } from "./notifier";
+import { MockNotifyServer, startMockNotifyServer } from "./mockNotifyServer";
+
+const TOKEN = '123:abc';
+
+const waitFor = async (check: () => boolean, what: string, timeoutMs = 3000) => {
+  const deadline = Date.now() + timeoutMs;
+  while (!check()) {
+    if (Date.now() > deadline) throw new Error(`timed out waiting for ${what}`);
+    await new Promise(resolve => setTimeout(resolve, 20));
+  }
+};
+
+const log = (type: SystemLog['type'], message: string): SystemLog => ({ id: message, timestamp: new Date(0), type, message });
+
+describe('notifier channels against the mock server', () => {
+  let server: MockNotifyServer;
+  let notifications: NotificationConfig;
+  const logs: { type: SystemLog['type']; message: string }[] = [];
+
+  before(async () => {
+    server = await startMockNotifyServer(0, 0, TOKEN);
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  beforeEach(() => {
+    logs.length = 0;
+    notifications = {
+      ...DEFAULT_NOTIFICATION_CONFIG,
+      telegram: { enabled: true, events: ['TRADE'], chatId: '42', apiBaseUrl: server.telegramBaseUrl },
+      webhook: { enabled: true, events: ['TRADE', 'WARNING'], url: server.webhookUrl },
+      email: { enabled: true, events: ['TRADE'], host: '127.0.0.1', port: server.smtpPort, secure: false, username: 'bot@example.com', from: 'Bot <bot@example.com>', to: 'a@example.com, b@example.com' },
+    };
+  });
+
+  const createFor = (secrets: Partial<AppConfig> = {}) => {
+    const config: AppConfig = { ...DEFAULT_CONFIG, telegramBotToken: TOKEN, smtpPassword: 'pw', ...secrets, notifications };
+    return createNotifier({ getConfig: () => config, onLog: (type, message) => logs.push({ type, message }) });
+  };
+
+  it('delivers a trade log to every subscribed channel', async () => {
+    const seen = server.received().length;
+    createFor().notify(log('TRADE', '[ETH-USDT-SWAP] 订单已提交: BUY 1 张'));
+    await waitFor(() => server.received().length - seen === 3, 'three deliveries');
+    const got = Object.fromEntries(server.received().slice(seen).map(r => [r.channel, r.body]));
+
+    const text = '💰 [模拟盘] [ETH-USDT-SWAP] 订单已提交: BUY 1 张\n' + new Date(0).toLocaleString('zh-CN', { hour12: false });
+    assert.deepEqual(got.telegram, { chat_id: '42', text, disable_web_page_preview: true });
+    assert.deepEqual(
+      { type: got.webhook.type, instId: got.webhook.instId, mode: got.webhook.mode, text: got.webhook.text },
+      { type: 'TRADE', instId: 'ETH-USDT-SWAP', mode: '模拟盘', text }
+    );
+
+    assert.equal(got.email.from, 'bot@example.com');
+    assert.deepEqual(got.email.to, ['a@example.com', 'b@example.com']);
+    assert.equal(got.email.auth, 'bot@example.com');
+    const [headers, body] = got.email.data.split('\r\n\r\n');
+    const subject = headers.match(/Subject: =\?UTF-8\?B\?(.+)\?=/)![1];
+    assert.equal(Buffer.from(subject, 'base64').toString('utf-8'), '[模拟盘] 交易 ETH-USDT-SWAP');
+    assert.equal(Buffer.from(body.replace(/\r\n/g, ''), 'base64').toString('utf-8'), text);
+  });
+
+  it('only sends the event types a channel subscribes to', async () => {
+    const seen = server.received().length;
+    const notifier = createFor();
+    notifier.notify(log('WARNING', '持仓对账偏差'));
+    notifier.notify(log('INFO', '不推送'));
+    await waitFor(() => server.received().length > seen, 'webhook delivery');
+    await new Promise(resolve => setTimeout(resolve, 100));
+    assert.deepEqual(server.received().slice(seen).map(r => r.channel), ['webhook']);
+  });
+
+  it('logs a failed delivery once and its recovery', async () => {
+    notifications.telegram.enabled = false;
+    notifications.email.enabled = false;
+    const notifier = createFor();
+    server.failNext('webhook', 2);
+    notifier.notify(log('TRADE', 'a'));
+    notifier.notify(log('TRADE', 'b'));
+    notifier.notify(log('TRADE', 'c'));
+    await waitFor(() => logs.some(l => l.type === 'INFO'), 'recovery log');
+    assert.deepEqual(logs.map(l => l.type), ['WARNING', 'INFO']);
+    assert.match(logs[0].message, new RegExp(`^\\${NOTIFY_LOG_PREFIX} webhook 通知发送失败: HTTP 500`));
+    assert.equal(server.received().at(-1)!.body.message, 'c');
+  });
+
+  it('reports channel errors from a test send', async () => {
+    const notifier = createFor();
+    await assert.rejects(notifier.test('telegram', notifications, { telegramBotToken: 'wrong', smtpPassword: '' }, true), /HTTP 401.*Unauthorized/);
+    server.failNext('email');
+    await assert.rejects(notifier.test('email', notifications, { telegramBotToken: TOKEN, smtpPassword: 'pw' }, true), /554/);
+    await notifier.test('webhook', notifications, { telegramBotToken: TOKEN, smtpPassword: 'pw' }, false);
+    assert.match(server.received().at(-1)!.body.text, /\[实盘\] \[Notify\] 测试通知: webhook 渠道配置正常/);
+  });
+});
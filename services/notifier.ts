@@ -0,0 +1,164 @@
+import { AppConfig, NotificationConfig, NotifyChannelKind, NotifyEventType, SystemLog } from "../types";
+import { NOTIFY_TIMEOUT_MS } from "../constants";
+import { sendMail } from "./smtpClient";
+
+// --- Notifier ---
+// Pushes TRADE/ERROR/WARNING logs to Telegram, a generic webhook and SMTP
+// email. Each channel has its own event subscription, a per-minute cap
+// (dropped messages are counted and reported with the next one that goes
+// out) and a send queue so messages arrive in order. Delivery failures are
+// logged with the NOTIFY_LOG_PREFIX, which the notifier never forwards.
+
+export const NOTIFY_LOG_PREFIX = '[Notify]';
+
+export interface NotifyMessage {
+  type: NotifyEventType;
+  message: string;
+  text: string; // Rendered template
+  time: string;
+  instId: string; // '' when the log is not about one instrument
+  mode: string;
+}
+
+export interface NotifySecrets {
+  telegramBotToken: string;
+  smtpPassword: string;
+}
+
+export interface NotifierDeps {
+  getConfig: () => AppConfig;
+  onLog: (type: SystemLog['type'], message: string) => void;
+}
+
+const CHANNELS: NotifyChannelKind[] = ['telegram', 'webhook', 'email'];
+const RATE_WINDOW_MS = 60000;
+
+const TYPE_LABELS: Record<NotifyEventType, string> = { TRADE: '交易', ERROR: '错误', WARNING: '警告' };
+
+export const isNotifyEvent = (type: SystemLog['type']): type is NotifyEventType =>
+  type === 'TRADE' || type === 'ERROR' || type === 'WARNING';
+
+// Unknown placeholders are left as they are
+export const renderTemplate = (template: string, vars: Record<string, string>) =>
+  template.replace(/\{(\w+)\}/g, (match, key: string) => (key in vars ? vars[key] : match));
+
+export const buildMessage = (cfg: NotificationConfig, type: NotifyEventType, message: string, isSimulation: boolean, at = new Date()): NotifyMessage => {
+  const vars = {
+    type,
+    message,
+    time: at.toLocaleString('zh-CN', { hour12: false }),
+    instId: message.match(/\[([A-Z0-9]+-[A-Z0-9]+-SWAP)\]/)?.[1] || '',
+    mode: isSimulation ? '模拟盘' : '实盘',
+  };
+  return { ...vars, text: renderTemplate(cfg.templates[type] || '{message}', vars) };
+};
+
+const postJson = async (url: string, body: unknown) => {
+  const res = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+    signal: AbortSignal.timeout(NOTIFY_TIMEOUT_MS),
+  });
+  const text = await res.text();
+  if (!res.ok) throw new Error(`HTTP ${res.status} ${text.substring(0, 200)}`);
+  return text;
+};
+
+// --- Channels (each throws when the message was not delivered) ---
+
+export const sendTelegram = async (cfg: NotificationConfig['telegram'], token: string, msg: NotifyMessage) => {
+  if (!token) throw new Error('Telegram Bot Token 未设置');
+  if (!cfg.chatId) throw new Error('Telegram Chat ID 未设置');
+  const base = (cfg.apiBaseUrl || 'https://api.telegram.org').replace(/\/+$/, '');
+  const text = await postJson(`${base}/bot${token}/sendMessage`, { chat_id: cfg.chatId, text: msg.text, disable_web_page_preview: true });
+  let json: any = null;
+  try { json = JSON.parse(text); } catch (e) { /* checked below */ }
+  if (!json?.ok) throw new Error(`Telegram 返回异常: ${json?.description || text.substring(0, 200)}`);
+};
+
+export const sendWebhook = async (cfg: NotificationConfig['webhook'], msg: NotifyMessage) => {
+  if (!cfg.url) throw new Error('Webhook URL 未设置');
+  await postJson(cfg.url, msg);
+};
+
+export const sendEmail = async (cfg: NotificationConfig['email'], password: string, msg: NotifyMessage) => {
+  await sendMail(
+    { host: cfg.host, port: cfg.port, secure: cfg.secure, username: cfg.username, password, timeoutMs: NOTIFY_TIMEOUT_MS },
+    {
+      from: cfg.from || cfg.username,
+      to: cfg.to.split(',').map(s => s.trim()).filter(Boolean),
+      subject: `[${msg.mode}] ${TYPE_LABELS[msg.type]}${msg.instId ? ` ${msg.instId}` : ''}`,
+      text: msg.text,
+    }
+  );
+};
+
+const deliver = (kind: NotifyChannelKind, cfg: NotificationConfig, secrets: NotifySecrets, msg: NotifyMessage) => {
+  if (kind === 'telegram') return sendTelegram(cfg.telegram, secrets.telegramBotToken, msg);
+  if (kind === 'webhook') return sendWebhook(cfg.webhook, msg);
+  return sendEmail(cfg.email, secrets.smtpPassword, msg);
+};
+
+export const createNotifier = (deps: NotifierDeps) => {
+  const sentAt: Record<NotifyChannelKind, number[]> = { telegram: [], webhook: [], email: [] };
+  const suppressed: Record<NotifyChannelKind, number> = { telegram: 0, webhook: 0, email: 0 };
+  const lastError: Record<NotifyChannelKind, string> = { telegram: '', webhook: '', email: '' };
+  const queues = new Map<NotifyChannelKind, Promise<void>>();
+
+  const enqueue = (kind: NotifyChannelKind, task: () => Promise<void>) => {
+    const next = (queues.get(kind) || Promise.resolve()).then(task);
+    queues.set(kind, next.catch(() => {})); // A failed send must not block the queue
+    return next;
+  };
+
+  // Sliding one-minute window per channel
+  const allow = (kind: NotifyChannelKind, maxPerMinute: number, now: number) => {
+    sentAt[kind] = sentAt[kind].filter(t => now - t < RATE_WINDOW_MS);
+    if (maxPerMinute > 0 && sentAt[kind].length >= maxPerMinute) {
+      suppressed[kind]++;
+      return false;
+    }
+    sentAt[kind].push(now);
+    return true;
+  };
+
+  return {
+    // Called for every system log; only subscribed event types go out
+    notify: (log: SystemLog) => {
+      if (!isNotifyEvent(log.type) || log.message.startsWith(NOTIFY_LOG_PREFIX)) return;
+      const config = deps.getConfig();
+      const cfg = config.notifications;
+      const secrets: NotifySecrets = { telegramBotToken: config.telegramBotToken, smtpPassword: config.smtpPassword };
+      const msg = buildMessage(cfg, log.type, log.message, config.isSimulation, log.timestamp);
+      const now = Date.now();
+
+      for (const kind of CHANNELS) {
+        const channel = cfg[kind];
+        if (!channel.enabled || !channel.events.includes(log.type)) continue;
+        if (!allow(kind, cfg.maxPerMinute, now)) continue;
+        const dropped = suppressed[kind];
+        suppressed[kind] = 0;
+        const out = dropped > 0 ? { ...msg, text: `${msg.text}\n(限流: 上一分钟内另有 ${dropped} 条通知未发送)` } : msg;
+
+        enqueue(kind, () => deliver(kind, cfg, secrets, out))
+          .then(() => {
+            if (lastError[kind]) deps.onLog('INFO', `${NOTIFY_LOG_PREFIX} ${kind} 通知已恢复`);
+            lastError[kind] = '';
+          })
+          .catch((e: any) => {
+            // Logged once per distinct error so an outage does not flood the log
+            if (e.message !== lastError[kind]) deps.onLog('WARNING', `${NOTIFY_LOG_PREFIX} ${kind} 通知发送失败: ${e.message}`);
+            lastError[kind] = e.message;
+          });
+      }
+    },
+
+    // Sends a test message through one channel with the given (possibly unsaved) settings,
+    // ignoring the enabled flag, subscriptions and rate limit
+    test: async (kind: NotifyChannelKind, cfg: NotificationConfig, secrets: NotifySecrets, isSimulation: boolean) => {
+      const msg = buildMessage(cfg, 'TRADE', `${NOTIFY_LOG_PREFIX} 测试通知: ${kind} 渠道配置正常`, isSimulation);
+      await enqueue(kind, () => deliver(kind, cfg, secrets, msg));
+    },
+  };
+};
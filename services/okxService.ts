@@ -1,7 +1,12 @@
 
 
-import { AccountBalance, CandleData, MarketDataCollection, PositionData, TickerData, AIDecision, AccountContext } from "../types";
-import { INSTRUMENT_ID, MOCK_TICKER, CONTRACT_VAL_ETH } from "../constants";
+import { AccountBalance, CandleData, MarketDataCollection, PositionData, TickerData, AIDecision, AccountContext, InstrumentSpec, OrderBook, TradeData, ClosedPosition, FillRecord, FundingRatePoint, OrderDetail } from "../types";
+import { MOCK_TICKER, MOCK_BASE_PRICES, ORDER_BOOK_DEPTH, PAPER_INITIAL_BALANCE, FUNDING_HISTORY_LIMIT, FUNDING_HISTORY_TTL_MS, FUNDING_INTERVAL_MS } from "../constants";
+import { formatContracts, getFallbackSpec } from "./sizingService";
+import { nextFundingTimeAfter } from "./fundingService";
+import { formatOrderBook, formatTrades } from "./orderFlowService";
+import { createPaperExchange } from "./paperExchange";
+import { algoWithSide, closedPositionSide, closeParams, isNetMode, marginModeOf, positionSide, posSideParam } from "./positionMode";
 import CryptoJS from 'crypto-js';
 
 const randomVariation = (base: number, percent: number) => {
@@ -10,6 +15,13 @@ const randomVariation = (base: number, percent: number) => {
 
 const BASE_URL = "https://www.okx.com";
 
+// Simulated account behind every isSimulation branch (lives for the process lifetime)
+const paper = createPaperExchange(PAPER_INITIAL_BALANCE);
+export const getPaperExchange = () => paper;
+
+// Paper trading prices: mock random walk unless the live public feed is selected
+const usesMockPrices = (config: any) => config.isSimulation && config.paperPriceSource !== 'LIVE';
+
 const signRequest = (method: string, requestPath: string, body: string = '', secretKey: string) => {
   const timestamp = new Date().toISOString();
   const message = timestamp + method + requestPath + body;
@@ -30,42 +42,112 @@ const getHeaders = (method: string, requestPath: string, body: string = '', conf
   };
 };
 
-export const fetchMarketData = async (config: any): Promise<MarketDataCollection> => {
-  if (config.isSimulation) {
-    return generateMockMarketData();
+// Instrument specs rarely change; cache them for the process lifetime
+const instrumentSpecCache = new Map<string, InstrumentSpec>();
+
+export const fetchInstrumentSpec = async (instId: string, config: any): Promise<InstrumentSpec> => {
+  const cached = instrumentSpecCache.get(instId);
+  if (cached) return cached;
+  if (usesMockPrices(config)) return getFallbackSpec(instId);
+
+  try {
+    const res = await fetch(`${BASE_URL}/api/v5/public/instruments?instType=SWAP&instId=${instId}`);
+    const json = await res.json();
+    const raw = json.data?.[0];
+    if (json.code !== '0' || !raw) throw new Error(json.msg || '品种不存在');
+
+    const spec: InstrumentSpec = {
+      instId,
+      ctVal: parseFloat(raw.ctVal),
+      ctValCcy: raw.ctValCcy,
+      lotSz: parseFloat(raw.lotSz),
+      minSz: parseFloat(raw.minSz),
+      tickSz: parseFloat(raw.tickSz),
+    };
+    instrumentSpecCache.set(instId, spec);
+    return spec;
+  } catch (error: any) {
+    console.error(`OKX Instrument API Error (${instId}):`, error);
+    throw new Error(`合约规格获取失败 (${instId}): ${error.message}`);
   }
+};
+
+// Settled funding rates change every 8h, so they are cached per instrument
+const fundingHistoryCache = new Map<string, { fetchedAt: number; history: FundingRatePoint[] }>();
 
+const fetchFundingHistory = async (instId: string): Promise<FundingRatePoint[]> => {
+  const cached = fundingHistoryCache.get(instId);
+  if (cached && Date.now() - cached.fetchedAt < FUNDING_HISTORY_TTL_MS) return cached.history;
   try {
-    const tickerRes = await fetch(`${BASE_URL}/api/v5/market/ticker?instId=${INSTRUMENT_ID}`);
+    const res = await fetch(`${BASE_URL}/api/v5/public/funding-rate-history?instId=${instId}&limit=${FUNDING_HISTORY_LIMIT}`);
+    const json = await res.json();
+    if (json.code !== '0') throw new Error(json.msg);
+    const history: FundingRatePoint[] = (json.data || []).map((f: any) => ({
+      fundingTime: parseInt(f.fundingTime),
+      rate: parseFloat(f.realizedRate || f.fundingRate) || 0,
+    }));
+    fundingHistoryCache.set(instId, { fetchedAt: Date.now(), history });
+    return history;
+  } catch (e: any) {
+    console.warn(`Funding history unavailable for ${instId}: ${e.message}`);
+    return cached?.history || [];
+  }
+};
+
+// Paper positions settle funding at the same rate and time as the market data shows
+const markPaper = (instId: string, md: MarketDataCollection) => {
+  if (!md.ticker) return;
+  paper.setFunding(instId, parseFloat(md.fundingRate) || 0, parseInt(md.nextFundingTime) || 0);
+  paper.markPrice(instId, md.ticker);
+};
+
+export const fetchMarketData = async (config: any, instId: string): Promise<MarketDataCollection> => {
+  if (usesMockPrices(config)) {
+    const mock = generateMockMarketData(instId);
+    markPaper(instId, mock);
+    return mock;
+  }
+
+  try {
+    const tickerRes = await fetch(`${BASE_URL}/api/v5/market/ticker?instId=${instId}`);
     const tickerJson = await tickerRes.json();
     
     // NEW: Fetch 3m candles for Precise Entry Strategy
-    const candles3mRes = await fetch(`${BASE_URL}/api/v5/market/candles?instId=${INSTRUMENT_ID}&bar=3m&limit=100`);
+    const candles3mRes = await fetch(`${BASE_URL}/api/v5/market/candles?instId=${instId}&bar=3m&limit=100`);
     const candles3mJson = await candles3mRes.json();
 
-    const candles5mRes = await fetch(`${BASE_URL}/api/v5/market/candles?instId=${INSTRUMENT_ID}&bar=5m&limit=50`);
+    const candles5mRes = await fetch(`${BASE_URL}/api/v5/market/candles?instId=${instId}&bar=5m&limit=100`);
     const candles5mJson = await candles5mRes.json();
     
-    const candles15mRes = await fetch(`${BASE_URL}/api/v5/market/candles?instId=${INSTRUMENT_ID}&bar=15m&limit=100`);
+    const candles15mRes = await fetch(`${BASE_URL}/api/v5/market/candles?instId=${instId}&bar=15m&limit=100`);
     const candles15mJson = await candles15mRes.json();
 
     // Fetch 1H candles for EMA Trend Strategy
-    const candles1HRes = await fetch(`${BASE_URL}/api/v5/market/candles?instId=${INSTRUMENT_ID}&bar=1H&limit=100`);
+    const candles1HRes = await fetch(`${BASE_URL}/api/v5/market/candles?instId=${instId}&bar=1H&limit=100`);
     const candles1HJson = await candles1HRes.json();
 
     // Fetch 4H candles for AI Strategy
-    const candles4HRes = await fetch(`${BASE_URL}/api/v5/market/candles?instId=${INSTRUMENT_ID}&bar=4H&limit=100`);
+    const candles4HRes = await fetch(`${BASE_URL}/api/v5/market/candles?instId=${instId}&bar=4H&limit=100`);
     const candles4HJson = await candles4HRes.json();
 
-    const fundingRes = await fetch(`${BASE_URL}/api/v5/public/funding-rate?instId=${INSTRUMENT_ID}`);
+    const fundingRes = await fetch(`${BASE_URL}/api/v5/public/funding-rate?instId=${instId}`);
     const fundingJson = await fundingRes.json();
     
-    const oiRes = await fetch(`${BASE_URL}/api/v5/public/open-interest?instId=${INSTRUMENT_ID}`);
+    const fundingHistory = await fetchFundingHistory(instId);
+
+    const oiRes = await fetch(`${BASE_URL}/api/v5/public/open-interest?instId=${instId}`);
     const oiJson = await oiRes.json();
 
+    // Order book depth and trade tape for liquidity metrics
+    const booksRes = await fetch(`${BASE_URL}/api/v5/market/books?instId=${instId}&sz=${ORDER_BOOK_DEPTH}`);
+    const booksJson = await booksRes.json();
+
+    const tradesRes = await fetch(`${BASE_URL}/api/v5/market/trades?instId=${instId}&limit=500`);
+    const tradesJson = await tradesRes.json();
+
     if (tickerJson.code !== '0') throw new Error(`OKX API Error (Ticker): ${tickerJson.msg}`);
 
-    return {
+    const marketData: MarketDataCollection = {
       ticker: tickerJson.data[0],
       candles3m: formatCandles(candles3mJson.data),
       candles5m: formatCandles(candles5mJson.data),
@@ -73,34 +155,98 @@ export const fetchMarketData = async (config: any): Promise<MarketDataCollection
       candles1H: formatCandles(candles1HJson.data),
       candles4H: formatCandles(candles4HJson.data),
       fundingRate: fundingJson.data[0]?.fundingRate || "0",
+      nextFundingTime: fundingJson.data[0]?.fundingTime || "0",
+      fundingHistory,
       openInterest: oiJson.data[0]?.oi || "0",
-      orderbook: {}, 
-      trades: [],
+      orderbook: formatOrderBook(booksJson.data?.[0]),
+      trades: formatTrades(tradesJson.data),
     };
+    // Paper trading on live prices: fills and TP/SL follow the real ticker
+    if (config.isSimulation) markPaper(instId, marketData);
+    return marketData;
   } catch (error: any) {
     console.error("OKX API 获取失败:", error);
     throw new Error(`无法连接 OKX API: ${error.message}`);
   }
 };
 
-// Fetch Pending Algo Orders (TP/SL)
-const fetchAlgoOrders = async (config: any): Promise<any[]> => {
-    if (config.isSimulation) return [];
+// Pending Algo Orders (TP/SL) for one instrument, or all swaps if omitted. Throws on API errors.
+export const fetchPendingAlgoOrders = async (config: any, instId?: string): Promise<any[]> => {
+    if (config.isSimulation) return paper.getAlgoOrders(instId).filter(o => o.ordType === 'conditional');
+    const filter = instId ? `instId=${instId}` : 'instType=SWAP';
+    const path = `/api/v5/trade/orders-algo-pending?${filter}&ordType=conditional,oco`;
+    const headers = getHeaders('GET', path, '', config);
+    const res = await fetch(BASE_URL + path, { method: 'GET', headers });
+    const json = await res.json();
+    if (json.code !== '0') throw new Error(`Algo Orders API: ${json.msg}`);
+    return json.data.map(algoWithSide);
+};
+
+// Same, but an unreachable API just means "no TP/SL shown" on the dashboard
+const fetchAlgoOrders = async (config: any, instId?: string): Promise<any[]> => {
     try {
-        const path = `/api/v5/trade/orders-algo-pending?instId=${INSTRUMENT_ID}&ordType=conditional,oco`;
-        const headers = getHeaders('GET', path, '', config);
-        const res = await fetch(BASE_URL + path, { method: 'GET', headers });
-        const json = await res.json();
-        return json.code === '0' ? json.data : [];
+        return await fetchPendingAlgoOrders(config, instId);
     } catch (e) {
         console.warn("Failed to fetch algo orders", e);
         return [];
     }
 };
 
+// Single order state (fill size, average price, fee). null if OKX does not know the ordId.
+export const fetchOrder = async (config: any, instId: string, ordId: string): Promise<OrderDetail | null> => {
+    if (config.isSimulation) return paper.getOrder(ordId);
+    const path = `/api/v5/trade/order?instId=${instId}&ordId=${ordId}`;
+    const headers = getHeaders('GET', path, '', config);
+    const res = await fetch(BASE_URL + path, { method: 'GET', headers });
+    const json = await res.json();
+    if (json.code === '51603') return null; // Order does not exist
+    if (json.code !== '0') throw new Error(`Order API: ${json.msg}`);
+    const o = json.data?.[0];
+    if (!o) return null;
+    return {
+        ordId: o.ordId,
+        instId: o.instId,
+        state: o.state,
+        accFillSz: o.accFillSz || "0",
+        avgPx: o.avgPx || "0",
+        fee: o.fee || "0",
+        feeCcy: o.feeCcy || "USDT",
+        uTime: o.uTime,
+    };
+};
+
+// Swap fills after `since` (ms), newest first. fills-history covers 3 months, 100 per page.
+export const fetchFills = async (config: any, since: number): Promise<FillRecord[]> => {
+    if (config.isSimulation) return paper.getFills(since);
+    const fills: FillRecord[] = [];
+    let after = '';
+    for (let page = 0; page < 10; page++) {
+        const path = `/api/v5/trade/fills-history?instType=SWAP&begin=${since}&limit=100${after ? `&after=${after}` : ''}`;
+        const headers = getHeaders('GET', path, '', config);
+        const res = await fetch(BASE_URL + path, { method: 'GET', headers });
+        const json = await res.json();
+        if (json.code !== '0') throw new Error(`Fills API: ${json.msg}`);
+        const data: any[] = json.data || [];
+        data.forEach(f => fills.push({
+            tradeId: f.tradeId,
+            ordId: f.ordId,
+            instId: f.instId,
+            side: f.side,
+            posSide: f.posSide,
+            fillSz: f.fillSz,
+            fillPx: f.fillPx,
+            fee: f.fee || "0",
+            ts: f.ts,
+        }));
+        if (data.length < 100) break;
+        after = data[data.length - 1].billId;
+    }
+    return fills;
+};
+
 export const fetchAccountData = async (config: any): Promise<AccountContext> => {
   if (config.isSimulation) {
-    return generateMockAccountData();
+    return paper.getAccount();
   }
 
   try {
@@ -109,8 +255,8 @@ export const fetchAccountData = async (config: any): Promise<AccountContext> =>
     const balRes = await fetch(BASE_URL + balPath, { method: 'GET', headers: balHeaders });
     const balJson = await balRes.json();
 
-    // Fetch positions for the specific instrument, or remove instId param to fetch all
-    const posPath = `/api/v5/account/positions?instId=${INSTRUMENT_ID}`;
+    // Fetch all swap positions; each strategy loop picks its own instrument
+    const posPath = `/api/v5/account/positions?instType=SWAP`;
     const posHeaders = getHeaders('GET', posPath, '', config);
     const posRes = await fetch(BASE_URL + posPath, { method: 'GET', headers: posHeaders });
     const posJson = await posRes.json();
@@ -127,22 +273,22 @@ export const fetchAccountData = async (config: any): Promise<AccountContext> =>
         positions = posJson.data.map((rawPos: any) => {
             const position: PositionData = {
                 instId: rawPos.instId,
-                posSide: rawPos.posSide,
-                pos: rawPos.pos,
+                ...positionSide(rawPos),
                 avgPx: rawPos.avgPx,
-                breakEvenPx: rawPos.breakEvenPx, // Map Exchange Breakeven Price
+                breakEvenPx: rawPos.bePx || rawPos.breakEvenPx, // Map Exchange Breakeven Price (OKX field: bePx)
                 upl: rawPos.upl,
                 uplRatio: rawPos.uplRatio,
                 mgnMode: rawPos.mgnMode,
                 margin: rawPos.margin,
                 liqPx: rawPos.liqPx,
-                cTime: rawPos.cTime
+                cTime: rawPos.cTime,
+                fundingFee: rawPos.fundingFee
             };
             
              // Find SL/TP orders specific to this position side
              if (algoOrders.length > 0) {
-                 const slOrder = algoOrders.find((o: any) => o.instId === rawPos.instId && o.posSide === rawPos.posSide && o.slTriggerPx && parseFloat(o.slTriggerPx) > 0);
-                 const tpOrder = algoOrders.find((o: any) => o.instId === rawPos.instId && o.posSide === rawPos.posSide && o.tpTriggerPx && parseFloat(o.tpTriggerPx) > 0);
+                 const slOrder = algoOrders.find((o: any) => o.instId === rawPos.instId && o.posSide === position.posSide && o.slTriggerPx && parseFloat(o.slTriggerPx) > 0);
+                 const tpOrder = algoOrders.find((o: any) => o.instId === rawPos.instId && o.posSide === position.posSide && o.tpTriggerPx && parseFloat(o.tpTriggerPx) > 0);
                  
                  if (slOrder) position.slTriggerPx = slOrder.slTriggerPx;
                  if (tpOrder) position.tpTriggerPx = tpOrder.tpTriggerPx;
@@ -166,16 +312,48 @@ export const fetchAccountData = async (config: any): Promise<AccountContext> =>
   }
 };
 
+// Recently closed positions (last 100, newest first) for realized PnL limits
+export const fetchClosedPositions = async (config: any): Promise<ClosedPosition[]> => {
+  if (config.isSimulation) return paper.getClosedPositions();
+
+  try {
+    const path = '/api/v5/account/positions-history?instType=SWAP&limit=100';
+    const headers = getHeaders('GET', path, '', config);
+    const res = await fetch(BASE_URL + path, { method: 'GET', headers });
+    const json = await res.json();
+    if (json.code !== '0') throw new Error(`Positions History API: ${json.msg}`);
+
+    return (json.data || []).map((p: any) => ({
+      instId: p.instId,
+      posSide: closedPositionSide(p),
+      openAvgPx: p.openAvgPx,
+      closeAvgPx: p.closeAvgPx,
+      realizedPnl: p.realizedPnl,
+      fundingFee: p.fundingFee || "0",
+      cTime: p.cTime,
+      uTime: p.uTime,
+    }));
+  } catch (error: any) {
+    console.error("OKX Positions History Error:", error);
+    throw new Error(`历史仓位获取失败: ${error.message}`);
+  }
+};
+
 // Helper to set leverage before order
-const setLeverage = async (instId: string, lever: string, posSide: string, config: any) => {
-    if (config.isSimulation) return;
+const setLeverage = async (instId: string, lever: string, posSide: 'long' | 'short', config: any) => {
+    if (config.isSimulation) {
+        paper.setLeverage(instId, posSide, parseFloat(lever), marginModeOf(config));
+        return;
+    }
     
+    // Cross and one-way leverage is per instrument; only isolated long/short sets it per side
     const path = "/api/v5/account/set-leverage";
+    const mgnMode = marginModeOf(config);
     const body = JSON.stringify({
         instId,
         lever,
-        mgnMode: "isolated",
-        posSide
+        mgnMode,
+        ...(mgnMode === 'isolated' ? posSideParam(posSide, config) : {})
     });
     const headers = getHeaders('POST', path, body, config);
     const response = await fetch(BASE_URL + path, { method: 'POST', headers, body });
@@ -187,78 +365,71 @@ const setLeverage = async (instId: string, lever: string, posSide: string, confi
     return json;
 };
 
-// Ensure account is in Long/Short mode
-const ensureLongShortMode = async (config: any) => {
-    if (config.isSimulation) return;
+// Ensure the account runs the configured position mode (OKX only switches it with no open positions or orders)
+const ensurePositionMode = async (config: any) => {
+    const posMode = isNetMode(config) ? 'net_mode' : 'long_short_mode';
+    if (config.isSimulation) return paper.setPositionMode(posMode);
     const path = "/api/v5/account/config";
     const headers = getHeaders('GET', path, '', config);
     const response = await fetch(BASE_URL + path, { method: 'GET', headers });
     const json = await response.json();
     
     if (json.code === '0' && json.data && json.data[0]) {
-        if (json.data[0].posMode !== 'long_short_mode') {
-            console.log("Current posMode:", json.data[0].posMode, "Switching to long_short_mode...");
+        if (json.data[0].posMode !== posMode) {
+            console.log("Current posMode:", json.data[0].posMode, `Switching to ${posMode}...`);
             const setPath = "/api/v5/account/set-position-mode";
-            const setBody = JSON.stringify({ posMode: 'long_short_mode' });
+            const setBody = JSON.stringify({ posMode });
             const setHeaders = getHeaders('POST', setPath, setBody, config);
             const setRes = await fetch(BASE_URL + setPath, { method: 'POST', headers: setHeaders, body: setBody });
             const setJson = await setRes.json();
             if (setJson.code !== '0') {
-                throw new Error(`无法切换持仓模式为双向持仓: ${setJson.msg}。请确保无持仓后重试。`);
+                throw new Error(`无法切换持仓模式为${posMode === 'net_mode' ? '单向' : '双向'}持仓: ${setJson.msg}。请确保无持仓后重试。`);
             }
         }
     }
 };
 
-export const executeOrder = async (order: AIDecision, config: any): Promise<any> => {
+// Paper fill for executeOrder: same BUY/SELL semantics, margin and position mode as the live path
+const executePaperOrder = async (order: AIDecision, config: any, spec: InstrumentSpec): Promise<any> => {
+  const instId = spec.instId;
+  await ensurePositionMode(config);
+
+  const posSide = order.posSide || (order.action === 'BUY' ? 'long' : 'short');
+  const side = order.action === 'BUY' ? 'buy' : 'sell';
+
+  const lever = parseFloat(order.leverage);
+  if (lever > 0) paper.setLeverage(instId, posSide, lever, marginModeOf(config));
+
+  const sizeFloat = parseFloat(order.size);
+  if (isNaN(sizeFloat)) throw new Error("无效数量: " + order.size);
+  if (sizeFloat < spec.minSz) throw new Error(`数量过小 (<${spec.minSz}张)`);
+
+  const cleanPrice = (p: string | undefined) => p && !isNaN(parseFloat(p)) && parseFloat(p) > 0 ? p : undefined;
+  const fill = paper.placeMarketOrder({
+    spec,
+    side,
+    posSide,
+    sz: parseFloat(formatContracts(sizeFloat, spec)),
+    mgnMode: marginModeOf(config),
+    reduceOnly: isNetMode(config) && (posSide === 'long') !== (side === 'buy'),
+    slTriggerPx: cleanPrice(order.trading_decision?.stop_loss),
+    tpTriggerPx: cleanPrice(order.trading_decision?.profit_target),
+  });
+  return { code: "0", msg: `模拟成交 ${fill.fillSz} 张 @ ${fill.fillPx}`, data: [{ ordId: fill.ordId, avgPx: fill.fillPx.toString(), fee: (-fill.fee).toString() }] };
+};
+
+// BUY / SELL only; closes go through closePositionSide / reducePositionSide (services/closeService.ts)
+export const executeOrder = async (order: AIDecision, config: any, spec: InstrumentSpec): Promise<any> => {
+  const instId = spec.instId;
+  if (order.action === 'CLOSE') throw new Error('平仓请使用平仓服务 (closeService)');
+
   if (config.isSimulation) {
-    console.log("SIMULATION: Executing Order", order);
-    return { code: "0", msg: "模拟下单成功", data: [{ ordId: "sim_" + Date.now() }] };
+    return executePaperOrder(order, config, spec);
   }
   
   try {
-    // 0. Ensure Position Mode is correct
-    try {
-        await ensureLongShortMode(config);
-    } catch (e: any) {
-        console.warn("Position Mode Check Failed:", e.message);
-        // Continue but warn
-    }
-
-    if (order.action === 'CLOSE') {
-        const closePath = "/api/v5/trade/close-position";
-        
-        // 1. 尝试平多单 (Try Closing LONG)
-        const closeLongBody = JSON.stringify({
-            instId: INSTRUMENT_ID,
-            posSide: 'long', 
-            mgnMode: 'isolated'
-        });
-        const headersLong = getHeaders('POST', closePath, closeLongBody, config);
-        const resLong = await fetch(BASE_URL + closePath, { method: 'POST', headers: headersLong, body: closeLongBody });
-        const jsonLong = await resLong.json();
-        
-        if (jsonLong.code === '0') return jsonLong; // 成功
-        
-        // 2. 如果平多单失败，尝试平空单 (Try Closing SHORT)
-        const closeShortBody = JSON.stringify({ 
-            instId: INSTRUMENT_ID, 
-            posSide: 'short', 
-            mgnMode: 'isolated' 
-        });
-        const headersShort = getHeaders('POST', closePath, closeShortBody, config);
-        const resShort = await fetch(BASE_URL + closePath, { method: 'POST', headers: headersShort, body: closeShortBody });
-        const jsonShort = await resShort.json();
-
-        if (jsonShort.code === '0') return jsonShort; // 成功
-
-        // 3. 如果都失败，抛出详细错误 (Both failed)
-        // 优先显示非“仓位不存在”的错误，或者合并显示
-        const longMsg = jsonLong.code === '51000' || jsonLong.msg.includes('不存在') ? '多单不存在' : jsonLong.msg;
-        const shortMsg = jsonShort.code === '51000' || jsonShort.msg.includes('不存在') ? '空单不存在' : jsonShort.msg;
-        
-        throw new Error(`平仓失败 (多: ${longMsg}, 空: ${shortMsg})`);
-    }
+    // 0. Ensure Position Mode is correct; on a mismatch every posSide would be rejected
+    await ensurePositionMode(config);
 
     // --- BUY / SELL ---
     
@@ -274,7 +445,7 @@ export const executeOrder = async (order: AIDecision, config: any): Promise<any>
     // 2. Set Leverage First (Crucial for V5)
     // V5 trade/order does NOT accept 'lever' param. It uses account setting.
     try {
-        await setLeverage(INSTRUMENT_ID, order.leverage || "50", posSide, config);
+        await setLeverage(instId, order.leverage || "50", posSide, config);
     } catch (e: any) {
         throw new Error(`无法设置战神策略杠杆: ${e.message}`);
     }
@@ -282,21 +453,20 @@ export const executeOrder = async (order: AIDecision, config: any): Promise<any>
     // 3. Prepare Order with Attached Algo Orders (TP/SL)
     const path = "/api/v5/trade/order";
     
-    // Validate Size
-    let sizeFloat = 0;
-    try {
-        sizeFloat = parseFloat(order.size);
-        if (sizeFloat < 0.01) throw new Error("数量过小 (<0.01张)");
-    } catch (e) {
-        throw new Error("无效数量: " + order.size);
-    }
-    const sizeStr = sizeFloat.toFixed(2);
-
+    // Validate Size (against instrument minimum order size)
+    const sizeFloat = parseFloat(order.size);
+    if (isNaN(sizeFloat)) throw new Error("无效数量: " + order.size);
+    if (sizeFloat < spec.minSz) throw new Error(`数量过小 (<${spec.minSz}张)`);
+    const sizeStr = formatContracts(sizeFloat, spec);
+
+    // One-way mode has no posSide; an order against the held side must not flip it
+    const reducing = (posSide === 'long') !== (side === 'buy');
     const bodyObj: any = {
-        instId: INSTRUMENT_ID,
-        tdMode: "isolated", 
+        instId,
+        tdMode: marginModeOf(config),
         side: side,
-        posSide: posSide, 
+        ...posSideParam(posSide, config),
+        ...(isNetMode(config) && reducing ? { reduceOnly: true } : {}),
         ordType: "market",
         sz: sizeStr
     };
@@ -346,18 +516,23 @@ export const executeOrder = async (order: AIDecision, config: any): Promise<any>
   }
 };
 
-export const updatePositionTPSL = async (instId: string, posSide: 'long' | 'short', size: string, slPrice?: string, tpPrice?: string, config?: any) => {
+// keepAlgoIds: orders owned elsewhere (take-profit ladder) that must survive the replacement
+export const updatePositionTPSL = async (instId: string, posSide: 'long' | 'short', size: string, slPrice?: string, tpPrice?: string, config?: any, keepAlgoIds: string[] = []) => {
     if (config.isSimulation) {
-        console.log(`[SIM] Updated TP/SL for ${posSide}: SL=${slPrice}, TP=${tpPrice}, Size=${size}`);
-        return { code: "0", msg: "模拟更新成功" };
+        // Same order as live: place the new algos first, then cancel the old ones
+        const toCancel = paper.getAlgoOrders(instId).filter(o => o.posSide === posSide && o.ordType === 'conditional' && !keepAlgoIds.includes(o.algoId)).map(o => o.algoId);
+        if (slPrice) paper.placeAlgoOrder({ instId, posSide, sz: size, slTriggerPx: slPrice });
+        if (tpPrice) paper.placeAlgoOrder({ instId, posSide, sz: size, tpTriggerPx: tpPrice });
+        paper.cancelAlgoOrders(toCancel);
+        return { code: "0", msg: "模拟止盈止损更新成功" };
     }
 
     try {
         // 1. Fetch existing algo orders (Pre-fetch to know what to cancel later)
-        const pendingAlgos = await fetchAlgoOrders(config);
+        const pendingAlgos = await fetchAlgoOrders(config, instId);
         
         const toCancel = pendingAlgos
-            .filter((o: any) => o.instId === instId && o.posSide === posSide)
+            .filter((o: any) => o.instId === instId && o.posSide === posSide && !keepAlgoIds.includes(o.algoId))
             .map((o: any) => ({ algoId: o.algoId, instId }));
 
         // 2. Place new Algo Order (Conditional Close) FIRST
@@ -368,8 +543,8 @@ export const updatePositionTPSL = async (instId: string, posSide: 'long' | 'shor
             if (slPrice) {
                 const slBody = JSON.stringify({
                     instId,
-                    posSide,
-                    tdMode: 'isolated',
+                    ...posSideParam(posSide, config),
+                    tdMode: marginModeOf(config),
                     side: posSide === 'long' ? 'sell' : 'buy', // Close Long = Sell
                     ordType: 'conditional',
                     sz: size, 
@@ -386,8 +561,8 @@ export const updatePositionTPSL = async (instId: string, posSide: 'long' | 'shor
             if (tpPrice) {
                  const tpBody = JSON.stringify({
                     instId,
-                    posSide,
-                    tdMode: 'isolated',
+                    ...posSideParam(posSide, config),
+                    tdMode: marginModeOf(config),
                     side: posSide === 'long' ? 'sell' : 'buy',
                     ordType: 'conditional',
                     sz: size,
@@ -423,13 +598,176 @@ export const updatePositionTPSL = async (instId: string, posSide: 'long' | 'shor
     }
 };
 
-export const addMargin = async (params: { instId: string; posSide: string; type: string; amt: string }, config: any) => {
-   if (config.isSimulation) {
-    return { code: "0", msg: "模拟追加保证金成功" };
+// Signed POST to a private endpoint; non-zero OKX codes throw with the first sCode message
+const signedPost = async (path: string, payload: any, config: any): Promise<any> => {
+    const body = JSON.stringify(payload);
+    const res = await fetch(BASE_URL + path, { method: 'POST', headers: getHeaders('POST', path, body, config), body });
+    const json = await res.json();
+    if (json.code !== '0') throw new Error(json.data?.[0]?.sMsg || json.msg || `code ${json.code}`);
+    return json;
+};
+
+// Live trailing stops (move_order_stop) for one instrument, or all swaps if omitted; pending-orders only lists one ordType family per call
+export const fetchTrailingStops = async (config: any, instId?: string): Promise<any[]> => {
+    if (config.isSimulation) return paper.getAlgoOrders(instId).filter(o => o.ordType === 'move_order_stop');
+    const filter = instId ? `instId=${instId}` : 'instType=SWAP';
+    const path = `/api/v5/trade/orders-algo-pending?${filter}&ordType=move_order_stop`;
+    const res = await fetch(BASE_URL + path, { method: 'GET', headers: getHeaders('GET', path, '', config) });
+    const json = await res.json();
+    if (json.code !== '0') throw new Error(`Algo Orders API: ${json.msg}`);
+    return json.data.map(algoWithSide);
+};
+
+// Move the stop of one side: a single new SL for `size` first, then the old SL-only orders are cancelled.
+// Take-profits (and combined TP/SL orders) are left alone.
+export const replaceStopLoss = async (instId: string, posSide: 'long' | 'short', size: string, slPrice: string, config: any) => {
+    const isOldStop = (o: any) => o.posSide === posSide && parseFloat(o.slTriggerPx) > 0 && !(parseFloat(o.tpTriggerPx) > 0);
+    if (config.isSimulation) {
+        const toCancel = paper.getAlgoOrders(instId).filter(o => o.ordType === 'conditional' && isOldStop(o)).map(o => o.algoId);
+        paper.placeAlgoOrder({ instId, posSide, sz: size, slTriggerPx: slPrice });
+        paper.cancelAlgoOrders(toCancel);
+        return { code: "0", msg: "模拟止损已移动" };
+    }
+    try {
+        // Must know what to cancel, so an unreachable algo list aborts the move
+        const toCancel = (await fetchPendingAlgoOrders(config, instId)).filter(isOldStop).map((o: any) => ({ algoId: o.algoId, instId }));
+        await signedPost('/api/v5/trade/order-algo', {
+            instId,
+            ...posSideParam(posSide, config),
+            tdMode: marginModeOf(config),
+            side: posSide === 'long' ? 'sell' : 'buy',
+            ordType: 'conditional',
+            sz: size,
+            reduceOnly: true,
+            slTriggerPx: slPrice,
+            slOrdPx: '-1',
+        }, config);
+        if (toCancel.length > 0) await signedPost('/api/v5/trade/cancel-algos', toCancel, config);
+        return { code: "0", msg: "止损已移动" };
+    } catch (e: any) {
+        throw new Error(`移动止损失败: ${e.message}`);
+    }
+};
+
+// Native trailing stop (move_order_stop), callback as a price distance. Replaces the side's previous trailing stops.
+export const placeTrailingStop = async (instId: string, posSide: 'long' | 'short', size: string, callbackSpread: string, config: any, activePx?: string): Promise<string> => {
+    if (config.isSimulation) {
+        const old = paper.getAlgoOrders(instId).filter(o => o.ordType === 'move_order_stop' && o.posSide === posSide).map(o => o.algoId);
+        const algoId = paper.placeTrailingStop({ instId, posSide, sz: size, callbackSpread, activePx });
+        paper.cancelAlgoOrders(old);
+        return algoId;
+    }
+    try {
+        const old = (await fetchTrailingStops(config, instId)).filter((o: any) => o.posSide === posSide).map((o: any) => ({ algoId: o.algoId, instId }));
+        const json = await signedPost('/api/v5/trade/order-algo', {
+            instId,
+            ...posSideParam(posSide, config),
+            tdMode: marginModeOf(config),
+            side: posSide === 'long' ? 'sell' : 'buy',
+            ordType: 'move_order_stop',
+            sz: size,
+            reduceOnly: true,
+            callbackSpread,
+            ...(activePx ? { activePx } : {}),
+        }, config);
+        if (old.length > 0) await signedPost('/api/v5/trade/cancel-algos', old, config);
+        return json.data?.[0]?.algoId || '';
+    } catch (e: any) {
+        throw new Error(`设置移动止损失败: ${e.message}`);
+    }
+};
+
+// Reduce-only take-profit for part of one side; returns the algoId
+export const placeTakeProfit = async (instId: string, posSide: 'long' | 'short', size: string, tpPrice: string, config: any): Promise<string> => {
+    if (config.isSimulation) return paper.placeAlgoOrder({ instId, posSide, sz: size, tpTriggerPx: tpPrice });
+    try {
+        const json = await signedPost('/api/v5/trade/order-algo', {
+            instId,
+            ...posSideParam(posSide, config),
+            tdMode: marginModeOf(config),
+            side: posSide === 'long' ? 'sell' : 'buy',
+            ordType: 'conditional',
+            sz: size,
+            reduceOnly: true,
+            tpTriggerPx: tpPrice,
+            tpOrdPx: '-1',
+        }, config);
+        return json.data?.[0]?.algoId || '';
+    } catch (e: any) {
+        throw new Error(`设置止盈失败: ${e.message}`);
+    }
+};
+
+export const cancelAlgoOrders = async (instId: string, algoIds: string[], config: any) => {
+    if (algoIds.length === 0) return;
+    if (config.isSimulation) return paper.cancelAlgoOrders(algoIds);
+    try {
+        await signedPost('/api/v5/trade/cancel-algos', algoIds.map(algoId => ({ algoId, instId })), config);
+    } catch (e: any) {
+        throw new Error(`撤销策略委托失败: ${e.message}`);
+    }
+};
+
+// Market close of one whole side, in the position's own margin mode
+export const closePositionSide = async (position: PositionData, config: any): Promise<{ ordId: string }> => {
+    const { instId, posSide, mgnMode } = position;
+    if (config.isSimulation) return { ordId: paper.closePosition(instId, posSide).ordId };
+    try {
+        await signedPost('/api/v5/trade/close-position', {
+            instId,
+            mgnMode,
+            ...posSideParam(posSide, config),
+        }, config);
+        return { ordId: '' };
+    } catch (e: any) {
+        throw new Error(`市价全平失败: ${e.message}`);
+    }
+};
+
+// Market order that closes `size` contracts of one side
+export const reducePositionSide = async (position: PositionData, spec: InstrumentSpec, size: string, config: any): Promise<{ ordId: string }> => {
+    const { instId, posSide, mgnMode } = position;
+    const params = closeParams(posSide, config);
+    if (config.isSimulation) {
+        return { ordId: paper.placeMarketOrder({ spec, side: params.side, posSide, sz: parseFloat(size), reduceOnly: 'reduceOnly' in params }).ordId };
+    }
+    try {
+        const json = await signedPost('/api/v5/trade/order', {
+            instId,
+            tdMode: mgnMode,
+            ordType: 'market',
+            sz: size,
+            ...params,
+        }, config);
+        return { ordId: json.data?.[0]?.ordId || '' };
+    } catch (e: any) {
+        throw new Error(`减仓失败: ${e.message}`);
+    }
+};
+
+// Cancels every algo order of one side: TP/SL, take-profit ladder and trailing stops. Returns how many.
+export const cancelSideAlgoOrders = async (instId: string, posSide: 'long' | 'short', config: any): Promise<number> => {
+    const orders = [...await fetchPendingAlgoOrders(config, instId), ...await fetchTrailingStops(config, instId)]
+        .filter((o: any) => o.posSide === posSide);
+    await cancelAlgoOrders(instId, orders.map((o: any) => o.algoId), config);
+    return orders.length;
+};
+
+// Isolated margin of one side; cross positions share the account equity and have none of their own
+export const addMargin = async (params: { instId: string; posSide: 'long' | 'short'; type: 'add' | 'reduce'; amt: string }, config: any) => {
+  if (marginModeOf(config) === 'cross') throw new Error('追加保证金错误: 全仓模式下保证金由账户共享, 无法单独调整');
+  if (config.isSimulation) {
+    try {
+      paper.adjustMargin(params.instId, params.posSide, params.type, parseFloat(params.amt));
+      return { code: "0", msg: params.type === 'reduce' ? "模拟减少保证金成功" : "模拟追加保证金成功" };
+    } catch (error: any) {
+      throw new Error(`追加保证金错误: ${error.message}`);
+    }
   }
   try {
       const path = "/api/v5/account/position/margin-balance";
-      const body = JSON.stringify(params);
+      // One-way positions are addressed as posSide 'net'
+      const body = JSON.stringify({ ...params, posSide: isNetMode(config) ? 'net' : params.posSide });
       const headers = getHeaders('POST', path, body, config);
       const response = await fetch(BASE_URL + path, { method: 'POST', headers: headers, body: body });
       const json = await response.json();
@@ -452,9 +790,10 @@ function formatCandles(apiCandles: any[]): CandleData[] {
   })).reverse(); 
 }
 
-function generateMockMarketData(): MarketDataCollection {
+function generateMockMarketData(instId: string): MarketDataCollection {
   const now = Date.now();
-  const currentPrice = 3250 + Math.sin(now / 10000) * 50; 
+  const basePrice = MOCK_BASE_PRICES[instId] || 100;
+  const currentPrice = basePrice + Math.sin(now / 10000) * basePrice * 0.015; 
   const generateCandles = (count: number, interval: number = 900000) => {
     const candles: CandleData[] = [];
     let price = currentPrice;
@@ -465,12 +804,12 @@ function generateMockMarketData(): MarketDataCollection {
       candles.push({ 
           ts, 
           o: open.toFixed(2), 
-          h: (Math.max(open, close) + 2).toFixed(2), 
-          l: (Math.min(open, close) - 2).toFixed(2), 
+          h: (Math.max(open, close) + basePrice * 0.0006).toFixed(2), 
+          l: (Math.min(open, close) - basePrice * 0.0006).toFixed(2), 
           c: close.toFixed(2), 
           vol: (Math.random() * 100).toFixed(2) 
       });
-      price = parseFloat(open.toFixed(2)) + (Math.random() - 0.5) * 10;
+      price = parseFloat(open.toFixed(2)) + (Math.random() - 0.5) * basePrice * 0.003;
     }
     return candles.reverse();
   };
@@ -483,26 +822,47 @@ function generateMockMarketData(): MarketDataCollection {
   const candles4H = generateCandles(100, 14400000).map(c => ({...c, vol: (parseFloat(c.vol)*16).toString()}));
 
   return {
-    ticker: { ...MOCK_TICKER, last: currentPrice.toFixed(2), ts: now.toString() },
+    ticker: {
+      ...MOCK_TICKER,
+      instId,
+      last: currentPrice.toFixed(2),
+      askPx: (currentPrice * 1.0001).toFixed(2),
+      bidPx: (currentPrice * 0.9999).toFixed(2),
+      ts: now.toString(),
+    },
     candles3m: candles3m,
-    candles5m: generateCandles(50, 300000),
+    candles5m: generateCandles(100, 300000),
     candles15m: generateCandles(100, 900000),
     candles1H: candles1H,
     candles4H: candles4H,
     fundingRate: "0.0001",
+    nextFundingTime: nextFundingTimeAfter(now).toString(),
+    fundingHistory: Array.from({ length: FUNDING_HISTORY_LIMIT }, (_, i) => ({
+      fundingTime: nextFundingTimeAfter(now) - (i + 1) * FUNDING_INTERVAL_MS,
+      rate: 0.0001,
+    })),
     openInterest: "50000",
-    orderbook: [],
-    trades: []
+    orderbook: generateMockOrderBook(currentPrice, now),
+    trades: generateMockTrades(currentPrice, now)
   };
 }
 
-function generateMockAccountData(): AccountContext {
-  return {
-    balance: {
-      totalEq: "15.00", // Start with 15U to simulate Stage 1
-      availEq: "15.00",
-      uTime: Date.now().toString(),
-    },
-    positions: []
-  };
-                                                                                    }
+// Symmetric ladder of 0.01% steps with random sizes around the mock price
+function generateMockOrderBook(price: number, now: number): OrderBook {
+  const levels = (dir: number) => Array.from({ length: 50 }, (_, i) => ({
+    px: (price * (1 + dir * (i + 1) * 0.0001)).toFixed(2),
+    sz: (Math.random() * 200 + 10).toFixed(0),
+  }));
+  return { asks: levels(1), bids: levels(-1), ts: now.toString() };
+}
+
+// One trade every ~2s over the last 15 minutes, newest first
+function generateMockTrades(price: number, now: number): TradeData[] {
+  return Array.from({ length: 450 }, (_, i) => ({
+    tradeId: (now - i).toString(),
+    px: randomVariation(price, 0.1).toFixed(2),
+    sz: (Math.random() * 20 + 1).toFixed(0),
+    side: Math.random() > 0.5 ? 'buy' as const : 'sell' as const,
+    ts: (now - i * 2000).toString(),
+  }));
+}
@@ -0,0 +1,67 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { SystemLog } from "../types";
+import { createOkxFeed, OkxFeed, OkxWsCredentials } from "./okxWsService";
+import { MockOkxWsServer, startMockOkxWsServer } from "./mockOkxWsServer";
+
+const CREDENTIALS: OkxWsCredentials = { apiKey: 'key', secretKey: 'secret', passphrase: 'pass' };
+
+const waitFor = async (check: () => boolean, what: string, timeoutMs = 3000) => {
+  const deadline = Date.now() + timeoutMs;
+  while (!check()) {
+    if (Date.now() > deadline) throw new Error(`timed out waiting for ${what}`);
+    await new Promise(resolve => setTimeout(resolve, 20));
+  }
+};
+
+const position = { instId: 'ETH-USDT-SWAP', posSide: 'long', pos: '2', avgPx: '3000', upl: '0', uplRatio: '0', mgnMode: 'isolated', margin: '60', liqPx: '2700', cTime: '1' };
+
+describe('okxWsService private stream', () => {
+  let server: MockOkxWsServer;
+  let feed: OkxFeed | null = null;
+  const logs: { type: SystemLog['type']; message: string }[] = [];
+
+  before(async () => {
+    server = await startMockOkxWsServer(0, CREDENTIALS);
+  });
+
+  after(async () => {
+    feed?.stop();
+    await server.close();
+  });
+
+  const startFeed = (credentials: OkxWsCredentials, seedAlgoOrders?: () => Promise<any[]>) => {
+    feed?.stop();
+    logs.length = 0;
+    feed = createOkxFeed({ urls: server.urls, seedAlgoOrders, onLog: (type, message) => logs.push({ type, message }) });
+    feed.setCredentials(credentials);
+    feed.start();
+    return feed;
+  };
+
+  it('loads existing algo orders on login and subscribes to trailing stops', async () => {
+    const f = startFeed(CREDENTIALS, async () => [
+      { algoId: 'sl-1', instId: 'ETH-USDT-SWAP', posSide: 'long', side: 'sell', ordType: 'conditional', state: 'live', slTriggerPx: '2900' },
+    ]);
+    await waitFor(() => server.subscriptions('private').some(a => a.channel === 'positions'), 'private subscriptions');
+    assert.ok(server.subscriptions('private').some(a => a.channel === 'algo-advance'));
+
+    server.push({ channel: 'account', ccy: 'USDT' }, [{ uTime: '1', details: [{ ccy: 'USDT', eq: '100', availEq: '40' }] }]);
+    server.push({ channel: 'positions', instType: 'SWAP' }, [position]);
+    await waitFor(() => !!f.getAccountData(), 'account snapshot');
+    // Never pushed: the stop only shows up through the REST snapshot
+    assert.equal(f.getAccountData()!.positions[0].slTriggerPx, '2900');
+
+    // A push that ends the order wins over the snapshot
+    server.push({ channel: 'orders-algo', instType: 'SWAP' }, [{ algoId: 'sl-1', instId: 'ETH-USDT-SWAP', posSide: 'long', side: 'sell', state: 'canceled', slTriggerPx: '2900' }]);
+    await waitFor(() => !f.getAccountData()!.positions[0].slTriggerPx, 'cancelled stop');
+  });
+
+  it('logs a rejected login and leaves the account to REST', async () => {
+    const f = startFeed({ ...CREDENTIALS, secretKey: 'wrong' });
+    await waitFor(() => logs.some(l => l.type === 'ERROR' && l.message.includes('登录失败')), 'login error');
+    assert.equal(f.getStatus().private, false);
+    assert.equal(f.getAccountData(), null);
+    assert.ok(!logs.some(l => l.message.includes('[WS:private] 连接断开')), 'no reconnect loop with bad credentials');
+  });
+});
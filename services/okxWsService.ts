@@ -0,0 +1,555 @@
+import WebSocket from 'ws';
+import CryptoJS from 'crypto-js';
+import { AccountContext, CandleData, FeedStatus, MarketDataCollection, OrderBook, PositionData, SystemLog } from "../types";
+import { ORDER_BOOK_DEPTH, TAKER_WINDOWS } from "../constants";
+import { formatTrades } from "./orderFlowService";
+import { algoWithSide, positionSide } from "./positionMode";
+
+// --- OKX WebSocket Feed ---
+// Keeps an in-memory MarketDataCollection per instrument and one AccountContext,
+// updated from OKX push channels. The trading loop reads snapshots from here and
+// only falls back to REST while a channel is down or not yet populated.
+
+export interface OkxWsUrls {
+  public: string;
+  private: string;
+  business: string;
+}
+
+export interface OkxWsCredentials {
+  apiKey: string;
+  secretKey: string;
+  passphrase: string;
+}
+
+export interface OkxFeedOptions {
+  urls: OkxWsUrls;
+  // REST history used to backfill candles before pushes arrive (WS only sends the latest bar)
+  seedMarketData?: (instId: string) => Promise<MarketDataCollection>;
+  // REST snapshot of pending algo orders (TP/SL and trailing stops); the algo channels only push changes
+  seedAlgoOrders?: () => Promise<any[]>;
+  onLog?: (type: SystemLog['type'], message: string) => void;
+}
+
+export interface OkxFeed {
+  start: () => void;
+  stop: () => void;
+  setInstruments: (instIds: string[]) => void;
+  setCredentials: (credentials: OkxWsCredentials | null) => void;
+  getMarketData: (instId: string) => MarketDataCollection | null;
+  getAccountData: () => AccountContext | null;
+  getRecentOrders: () => any[];
+  getStatus: () => FeedStatus;
+}
+
+type CandleKey = Extract<keyof MarketDataCollection, `candles${string}`>;
+
+// Same history depth as the REST fetch
+const CANDLE_CHANNELS: { channel: string; key: CandleKey; limit: number }[] = [
+  { channel: 'candle3m', key: 'candles3m', limit: 100 },
+  { channel: 'candle5m', key: 'candles5m', limit: 100 },
+  { channel: 'candle15m', key: 'candles15m', limit: 100 },
+  { channel: 'candle1H', key: 'candles1H', limit: 100 },
+  { channel: 'candle4H', key: 'candles4H', limit: 100 },
+];
+// 'books' = 400 levels, snapshot then incremental updates chained by seqId
+const PUBLIC_CHANNELS = ['tickers', 'books', 'trades', 'funding-rate', 'open-interest'];
+const PRIVATE_ARGS = [
+  { channel: 'account', ccy: 'USDT' },
+  { channel: 'positions', instType: 'SWAP' },
+  { channel: 'orders', instType: 'SWAP' },
+  { channel: 'orders-algo', instType: 'SWAP' },
+  { channel: 'algo-advance', instType: 'SWAP' }, // Trailing stops (move_order_stop)
+];
+
+const MAX_TRADES = 5000;
+const TRADE_RETENTION_MS = Math.max(...TAKER_WINDOWS.map(w => w.windowMs)); // Longest taker window
+const MAX_ORDERS = 100;
+const HEARTBEAT_IDLE_MS = 25000; // OKX drops connections idle for 30s
+const HEARTBEAT_TIMEOUT_MS = 40000; // No pong: treat as dead and reconnect
+const RECONNECT_BASE_MS = 1000;
+const RECONNECT_MAX_MS = 30000;
+const LIVE_ALGO_STATES = ['live', 'partially_effective'];
+
+// Login signature: Base64(HMAC-SHA256(timestamp + 'GET' + '/users/self/verify'))
+export const signWsLogin = (credentials: OkxWsCredentials, timestamp: string = (Date.now() / 1000).toFixed(0)) => {
+  const sign = CryptoJS.enc.Base64.stringify(CryptoJS.HmacSHA256(timestamp + 'GET' + '/users/self/verify', credentials.secretKey));
+  return { apiKey: credentials.apiKey, passphrase: credentials.passphrase, timestamp, sign };
+};
+
+const emptyMarketData = (): MarketDataCollection => ({
+  ticker: null,
+  candles3m: [],
+  candles5m: [],
+  candles15m: [],
+  candles1H: [],
+  candles4H: [],
+  fundingRate: "0",
+  nextFundingTime: "0",
+  fundingHistory: [],
+  openInterest: "0",
+  orderbook: null,
+  trades: [],
+});
+
+// Incrementally maintained order book: px -> sz per side
+interface BookState {
+  asks: Map<string, string>;
+  bids: Map<string, string>;
+  seqId: number;
+  ts: string;
+}
+
+const applyLevels = (side: Map<string, string>, rows: string[][]) => {
+  for (const row of rows || []) {
+    if (parseFloat(row[1]) === 0) side.delete(row[0]);
+    else side.set(row[0], row[1]);
+  }
+};
+
+const materializeBook = (book: BookState): OrderBook => {
+  const levels = (side: Map<string, string>, dir: number) => Array.from(side.entries())
+    .map(([px, sz]) => ({ px, sz }))
+    .sort((a, b) => dir * (parseFloat(a.px) - parseFloat(b.px)))
+    .slice(0, ORDER_BOOK_DEPTH);
+  return { asks: levels(book.asks, 1), bids: levels(book.bids, -1), ts: book.ts };
+};
+
+// Insert or replace a bar by ts, keeping ascending order and the history limit
+const upsertCandle = (candles: CandleData[], raw: string[], limit: number): CandleData[] => {
+  const bar: CandleData = { ts: raw[0], o: raw[1], h: raw[2], l: raw[3], c: raw[4], vol: raw[5] };
+  const next = candles.filter(c => c.ts !== bar.ts);
+  next.push(bar);
+  next.sort((a, b) => parseInt(a.ts) - parseInt(b.ts));
+  return next.slice(-limit);
+};
+
+// One socket with heartbeat and exponential-backoff reconnect.
+// onOpen runs after every (re)connect so callers resubscribe there.
+interface ManagedSocket {
+  connect: () => void;
+  close: () => void;
+  send: (payload: object) => void;
+  isOpen: () => boolean;
+  reconnect: () => void;
+}
+
+const createManagedSocket = (
+  name: string,
+  url: string,
+  handlers: { onOpen: () => void; onMessage: (msg: any) => void; onClose: () => void },
+  log: (type: SystemLog['type'], message: string) => void
+): ManagedSocket => {
+  let ws: WebSocket | null = null;
+  let stopped = true;
+  let attempts = 0;
+  let lastMessageAt = 0;
+  let heartbeat: ReturnType<typeof setInterval> | null = null;
+  let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+
+  const clearTimers = () => {
+    if (heartbeat) clearInterval(heartbeat);
+    if (reconnectTimer) clearTimeout(reconnectTimer);
+    heartbeat = null;
+    reconnectTimer = null;
+  };
+
+  const scheduleReconnect = () => {
+    if (stopped || reconnectTimer) return;
+    const delay = Math.min(RECONNECT_BASE_MS * 2 ** attempts, RECONNECT_MAX_MS);
+    attempts++;
+    log('WARNING', `[WS:${name}] 连接断开, ${(delay / 1000).toFixed(0)}s 后重连 (第 ${attempts} 次)`);
+    reconnectTimer = setTimeout(() => {
+      reconnectTimer = null;
+      open();
+    }, delay);
+  };
+
+  const open = () => {
+    if (stopped) return;
+    const socket = new WebSocket(url);
+    ws = socket;
+
+    socket.on('open', () => {
+      attempts = 0;
+      lastMessageAt = Date.now();
+      log('SUCCESS', `[WS:${name}] 已连接`);
+      heartbeat = setInterval(() => {
+        const idle = Date.now() - lastMessageAt;
+        if (idle > HEARTBEAT_TIMEOUT_MS) {
+          socket.terminate();
+        } else if (idle > HEARTBEAT_IDLE_MS && socket.readyState === WebSocket.OPEN) {
+          socket.send('ping');
+        }
+      }, 5000);
+      handlers.onOpen();
+    });
+
+    socket.on('message', (raw) => {
+      lastMessageAt = Date.now();
+      const text = raw.toString();
+      if (text === 'pong') return;
+      try {
+        handlers.onMessage(JSON.parse(text));
+      } catch (e: any) {
+        log('ERROR', `[WS:${name}] 消息处理失败: ${e.message}`);
+      }
+    });
+
+    socket.on('error', (e) => {
+      log('ERROR', `[WS:${name}] ${e.message}`);
+    });
+
+    socket.on('close', () => {
+      if (ws !== socket) return;
+      if (heartbeat) clearInterval(heartbeat);
+      heartbeat = null;
+      ws = null;
+      handlers.onClose();
+      scheduleReconnect();
+    });
+  };
+
+  return {
+    connect: () => {
+      if (!stopped) return;
+      stopped = false;
+      open();
+    },
+    close: () => {
+      stopped = true;
+      clearTimers();
+      const socket = ws;
+      ws = null;
+      if (socket) {
+        socket.removeAllListeners();
+        socket.on('error', () => {});
+        socket.terminate();
+      }
+      handlers.onClose();
+    },
+    send: (payload) => {
+      if (ws && ws.readyState === WebSocket.OPEN) ws.send(JSON.stringify(payload));
+    },
+    isOpen: () => !!ws && ws.readyState === WebSocket.OPEN,
+    // Drop the current connection; the close handler reconnects after the base delay
+    reconnect: () => {
+      if (stopped) return;
+      attempts = 0;
+      ws?.terminate();
+    },
+  };
+};
+
+export const createOkxFeed = (options: OkxFeedOptions): OkxFeed => {
+  const log = options.onLog || ((type, message) => console.log(`[${type}] ${message}`));
+
+  let instIds: string[] = [];
+  let credentials: OkxWsCredentials | null = null;
+  let running = false;
+  let loggedIn = false;
+
+  const markets = new Map<string, MarketDataCollection>();
+  const books = new Map<string, BookState>();
+  let balance: AccountContext['balance'] | null = null;
+  let positionsReady = false;
+  const positions = new Map<string, PositionData>(); // key: instId:posSide
+  const algoOrders = new Map<string, any>(); // key: algoId
+  let recentOrders: any[] = [];
+
+  const marketOf = (instId: string) => {
+    let md = markets.get(instId);
+    if (!md) {
+      md = emptyMarketData();
+      markets.set(instId, md);
+    }
+    return md;
+  };
+
+  const seed = async (instId: string) => {
+    if (!options.seedMarketData) return;
+    try {
+      const snapshot = await options.seedMarketData(instId);
+      if (!instIds.includes(instId)) return;
+      const md = marketOf(instId);
+      // Keep whatever the socket already pushed, backfill the rest
+      for (const { key, limit } of CANDLE_CHANNELS) {
+        const merged = new Map<string, CandleData>();
+        for (const c of snapshot[key]) merged.set(c.ts, c);
+        for (const c of md[key]) merged.set(c.ts, c);
+        md[key] = Array.from(merged.values()).sort((a, b) => parseInt(a.ts) - parseInt(b.ts)).slice(-limit);
+      }
+      if (!md.ticker) md.ticker = snapshot.ticker;
+      if (md.trades.length === 0) md.trades = snapshot.trades;
+      if (md.fundingRate === "0") md.fundingRate = snapshot.fundingRate;
+      if (md.nextFundingTime === "0") md.nextFundingTime = snapshot.nextFundingTime;
+      md.fundingHistory = snapshot.fundingHistory;
+      if (md.openInterest === "0") md.openInterest = snapshot.openInterest;
+    } catch (e: any) {
+      log('WARNING', `[WS] ${instId} 历史K线回填失败: ${e.message}`);
+    }
+  };
+
+  const publicArgs = (ids: string[]) => ids.flatMap(instId => PUBLIC_CHANNELS.map(channel => ({ channel, instId })));
+  const businessArgs = (ids: string[]) => ids.flatMap(instId => CANDLE_CHANNELS.map(({ channel }) => ({ channel, instId })));
+
+  const handleError = (name: string, msg: any) => {
+    if (msg.event === 'error') log('ERROR', `[WS:${name}] ${msg.code}: ${msg.msg}`);
+  };
+
+  const handlePublic = (msg: any) => {
+    handleError('public', msg);
+    if (!msg.arg || !Array.isArray(msg.data)) return;
+    const { channel, instId } = msg.arg;
+    if (!instIds.includes(instId)) return;
+    const md = marketOf(instId);
+    const data = msg.data;
+
+    switch (channel) {
+      case 'tickers':
+        md.ticker = data[data.length - 1];
+        break;
+      case 'books': {
+        const update = data[0];
+        if (!update) break;
+        if (msg.action === 'snapshot') {
+          const book: BookState = { asks: new Map(), bids: new Map(), seqId: update.seqId, ts: update.ts };
+          applyLevels(book.asks, update.asks);
+          applyLevels(book.bids, update.bids);
+          books.set(instId, book);
+          break;
+        }
+        const book = books.get(instId);
+        if (!book || update.prevSeqId !== book.seqId) {
+          // Missed an update: drop the book and ask for a fresh snapshot
+          books.delete(instId);
+          md.orderbook = null;
+          log('WARNING', `[WS:public] ${instId} 盘口序列中断, 重新订阅`);
+          publicSocket.send({ op: 'unsubscribe', args: [{ channel: 'books', instId }] });
+          publicSocket.send({ op: 'subscribe', args: [{ channel: 'books', instId }] });
+          break;
+        }
+        applyLevels(book.asks, update.asks);
+        applyLevels(book.bids, update.bids);
+        book.seqId = update.seqId;
+        book.ts = update.ts;
+        break;
+      }
+      case 'trades': {
+        const cutoff = Date.now() - TRADE_RETENTION_MS;
+        md.trades = [...formatTrades(data).sort((a, b) => parseInt(b.ts) - parseInt(a.ts)), ...md.trades]
+          .filter(t => parseInt(t.ts) >= cutoff)
+          .slice(0, MAX_TRADES);
+        break;
+      }
+      case 'funding-rate':
+        md.fundingRate = data[0]?.fundingRate || md.fundingRate;
+        md.nextFundingTime = data[0]?.fundingTime || md.nextFundingTime;
+        break;
+      case 'open-interest':
+        md.openInterest = data[0]?.oi || md.openInterest;
+        break;
+    }
+  };
+
+  const handleBusiness = (msg: any) => {
+    handleError('business', msg);
+    if (!msg.arg || !Array.isArray(msg.data)) return;
+    const { channel, instId } = msg.arg;
+    const def = CANDLE_CHANNELS.find(c => c.channel === channel);
+    if (!def || !instIds.includes(instId)) return;
+    const md = marketOf(instId);
+    let candles = md[def.key];
+    for (const raw of msg.data) candles = upsertCandle(candles, raw, def.limit);
+    md[def.key] = candles;
+  };
+
+  const applyAlgoOrder = (order: any) => {
+    if (LIVE_ALGO_STATES.includes(order.state)) algoOrders.set(order.algoId, algoWithSide(order));
+    else algoOrders.delete(order.algoId);
+  };
+
+  // Orders that already exist are never pushed, so load them once per login; pushes received meanwhile are newer
+  const seedAlgos = async () => {
+    if (!options.seedAlgoOrders) return;
+    try {
+      const pending = await options.seedAlgoOrders();
+      if (!loggedIn) return;
+      pending.filter(o => !algoOrders.has(o.algoId)).forEach(o => algoOrders.set(o.algoId, algoWithSide(o)));
+    } catch (e: any) {
+      log('WARNING', `[WS:private] 策略委托快照加载失败: ${e.message}`);
+    }
+  };
+
+  // A rejected login leaves the account on REST polling until the credentials change
+  const loginFailed = (msg: any) => {
+    log('ERROR', `[WS:private] 登录失败 ${msg.code}: ${msg.msg}, 账户数据回退 REST 轮询`);
+    privateSocket.close();
+  };
+
+  const handlePrivate = (msg: any) => {
+    if (msg.event === 'login') {
+      if (msg.code !== '0') return loginFailed(msg);
+      loggedIn = true;
+      log('SUCCESS', '[WS:private] 登录成功, 订阅账户/持仓/订单频道');
+      privateSocket.send({ op: 'subscribe', args: PRIVATE_ARGS });
+      seedAlgos();
+      return;
+    }
+    if (msg.event === 'error') {
+      if (!loggedIn) return loginFailed(msg);
+      handleError('private', msg);
+      return;
+    }
+    if (!msg.arg || !Array.isArray(msg.data)) return;
+
+    switch (msg.arg.channel) {
+      case 'account': {
+        const acc = msg.data[0];
+        const usdt = acc?.details?.find((d: any) => d.ccy === 'USDT') || acc?.details?.[0];
+        if (usdt) balance = { totalEq: usdt.eq || "0", availEq: usdt.availEq || "0", uTime: acc.uTime || Date.now().toString() };
+        break;
+      }
+      case 'positions': {
+        // First push is a full snapshot; later pushes carry only changed positions
+        if (!positionsReady) positions.clear();
+        positionsReady = true;
+        for (const raw of msg.data) {
+          const key = `${raw.instId}:${raw.posSide}`;
+          if (!raw.pos || parseFloat(raw.pos) === 0) {
+            positions.delete(key);
+            continue;
+          }
+          positions.set(key, {
+            instId: raw.instId,
+            ...positionSide(raw),
+            avgPx: raw.avgPx,
+            breakEvenPx: raw.bePx || raw.breakEvenPx,
+            upl: raw.upl,
+            uplRatio: raw.uplRatio,
+            mgnMode: raw.mgnMode,
+            margin: raw.margin,
+            liqPx: raw.liqPx,
+            cTime: raw.cTime,
+            fundingFee: raw.fundingFee,
+          });
+        }
+        break;
+      }
+      case 'orders':
+        recentOrders = [...msg.data, ...recentOrders].slice(0, MAX_ORDERS);
+        break;
+      case 'orders-algo':
+      case 'algo-advance':
+        msg.data.forEach(applyAlgoOrder);
+        break;
+    }
+  };
+
+  const login = () => {
+    if (!credentials) return;
+    privateSocket.send({ op: 'login', args: [signWsLogin(credentials)] });
+  };
+
+  const publicSocket = createManagedSocket('public', options.urls.public, {
+    onOpen: () => { if (instIds.length) publicSocket.send({ op: 'subscribe', args: publicArgs(instIds) }); },
+    onMessage: handlePublic,
+    // Books resume from a fresh snapshot after resubscribing
+    onClose: () => books.clear(),
+  }, log);
+
+  const businessSocket = createManagedSocket('business', options.urls.business, {
+    // Backfill on every (re)connect so bars missed while offline are restored
+    onOpen: () => {
+      if (!instIds.length) return;
+      businessSocket.send({ op: 'subscribe', args: businessArgs(instIds) });
+      instIds.forEach(seed);
+    },
+    onMessage: handleBusiness,
+    onClose: () => {},
+  }, log);
+
+  const privateSocket = createManagedSocket('private', options.urls.private, {
+    onOpen: login,
+    onMessage: handlePrivate,
+    // Snapshots must be re-received after reconnect before they are trusted again
+    onClose: () => {
+      loggedIn = false;
+      balance = null;
+      positionsReady = false;
+      algoOrders.clear();
+    },
+  }, log);
+
+  return {
+    start: () => {
+      if (running) return;
+      running = true;
+      publicSocket.connect();
+      businessSocket.connect();
+      if (credentials) privateSocket.connect();
+    },
+    stop: () => {
+      if (!running) return;
+      running = false;
+      publicSocket.close();
+      businessSocket.close();
+      privateSocket.close();
+    },
+    setInstruments: (next) => {
+      const added = next.filter(id => !instIds.includes(id));
+      const removed = instIds.filter(id => !next.includes(id));
+      instIds = [...next];
+      removed.forEach(id => {
+        markets.delete(id);
+        books.delete(id);
+      });
+      if (removed.length) {
+        publicSocket.send({ op: 'unsubscribe', args: publicArgs(removed) });
+        businessSocket.send({ op: 'unsubscribe', args: businessArgs(removed) });
+      }
+      if (added.length) {
+        publicSocket.send({ op: 'subscribe', args: publicArgs(added) });
+        businessSocket.send({ op: 'subscribe', args: businessArgs(added) });
+        if (running) added.forEach(seed);
+      }
+    },
+    setCredentials: (next) => {
+      const changed = JSON.stringify(next) !== JSON.stringify(credentials);
+      credentials = next;
+      if (!running || !changed) return;
+      if (!next) privateSocket.close();
+      else if (privateSocket.isOpen()) privateSocket.reconnect();
+      else privateSocket.connect();
+    },
+    // Null until the ticker and 4H history are in, so the caller can fall back to REST
+    getMarketData: (instId) => {
+      if (!running || !publicSocket.isOpen()) return null;
+      const md = markets.get(instId);
+      if (!md || !md.ticker || md.candles4H.length === 0) return null;
+      const book = books.get(instId);
+      return { ...md, orderbook: book ? materializeBook(book) : md.orderbook, trades: [...md.trades] };
+    },
+    getAccountData: () => {
+      if (!running || !loggedIn || !balance || !positionsReady) return null;
+      const algos = Array.from(algoOrders.values());
+      return {
+        balance: { ...balance },
+        positions: Array.from(positions.values()).map(p => {
+          const position: PositionData = { ...p };
+          const slOrder = algos.find(o => o.instId === p.instId && o.posSide === p.posSide && o.slTriggerPx && parseFloat(o.slTriggerPx) > 0);
+          const tpOrder = algos.find(o => o.instId === p.instId && o.posSide === p.posSide && o.tpTriggerPx && parseFloat(o.tpTriggerPx) > 0);
+          if (slOrder) position.slTriggerPx = slOrder.slTriggerPx;
+          if (tpOrder) position.tpTriggerPx = tpOrder.tpTriggerPx;
+          return position;
+        }),
+      };
+    },
+    getRecentOrders: () => [...recentOrders],
+    getStatus: () => ({
+      public: publicSocket.isOpen(),
+      business: businessSocket.isOpen(),
+      private: loggedIn,
+    }),
+  };
+};
@@ -0,0 +1,67 @@
+import { OrderBook, OrderBookLevel, OrderFlowMetrics, TradeData } from "../types";
+import { DEPTH_BAND_PCT, TAKER_WINDOWS } from "../constants";
+
+// --- Order Book & Trade Tape Metrics ---
+// Pure helpers shared by the AI prompt and the dashboard depth panel.
+// Sizes are contracts, so ctVal converts them to USDT notional.
+
+// OKX books rows: [px, sz, deprecated, numOrders]
+export const formatOrderBook = (raw: any): OrderBook | null => {
+  if (!raw || !Array.isArray(raw.asks) || !Array.isArray(raw.bids)) return null;
+  const toLevel = (row: string[]): OrderBookLevel => ({ px: row[0], sz: row[1] });
+  return { asks: raw.asks.map(toLevel), bids: raw.bids.map(toLevel), ts: raw.ts || Date.now().toString() };
+};
+
+export const formatTrades = (raw: any[]): TradeData[] => {
+  if (!Array.isArray(raw)) return [];
+  return raw.map(t => ({ tradeId: t.tradeId, px: t.px, sz: t.sz, side: t.side, ts: t.ts }));
+};
+
+const sumNotional = (levels: OrderBookLevel[], inBand: (px: number) => boolean, ctVal: number) =>
+  levels.reduce((acc, l) => {
+    const px = parseFloat(l.px);
+    return inBand(px) ? acc + px * parseFloat(l.sz) * ctVal : acc;
+  }, 0);
+
+export const calculateOrderFlowMetrics = (
+  orderbook: OrderBook | null,
+  trades: TradeData[],
+  ctVal: number = 1,
+  now: number = Date.now()
+): OrderFlowMetrics | null => {
+  if (!orderbook || orderbook.asks.length === 0 || orderbook.bids.length === 0) return null;
+
+  const bestAsk = parseFloat(orderbook.asks[0].px);
+  const bestBid = parseFloat(orderbook.bids[0].px);
+  const mid = (bestAsk + bestBid) / 2;
+  if (!(mid > 0)) return null;
+
+  const bidDepth = sumNotional(orderbook.bids, px => px >= mid * (1 - DEPTH_BAND_PCT), ctVal);
+  const askDepth = sumNotional(orderbook.asks, px => px <= mid * (1 + DEPTH_BAND_PCT), ctVal);
+  const totalDepth = bidDepth + askDepth;
+
+  const takerWindows = TAKER_WINDOWS.map(({ label, windowMs }) => {
+    let buyVol = 0;
+    let sellVol = 0;
+    for (const t of trades) {
+      if (now - parseInt(t.ts) > windowMs) continue;
+      const notional = parseFloat(t.px) * parseFloat(t.sz) * ctVal;
+      if (t.side === 'buy') buyVol += notional;
+      else sellVol += notional;
+    }
+    return { label, windowMs, buyVol, sellVol };
+  });
+
+  const oldest = trades.length > 0 ? parseInt(trades[trades.length - 1].ts) : now;
+
+  return {
+    bestBid,
+    bestAsk,
+    spreadBps: ((bestAsk - bestBid) / mid) * 10000,
+    bidDepth,
+    askDepth,
+    imbalance: totalDepth > 0 ? (bidDepth - askDepth) / totalDepth : 0,
+    takerWindows,
+    tradeCoverageMs: Math.max(0, now - oldest),
+  };
+};
@@ -0,0 +1,230 @@
+import { AIDecision, ClosedPosition, OrderDetail, PositionData, PositionDrift, ReconciliationReport, SystemLog, TrackedOrder } from "../types";
+import { MAX_TRACKED_ORDERS, ORDER_FILL_TIMEOUT_MS, RECONCILE_SETTLE_MS } from "../constants";
+
+// --- Order Tracker ---
+// Follows each bot order from the placement ack to a confirmed fill: fill
+// price, fee, slippage against the decision-time ticker and whether the
+// attached TP/SL exists. Confirmed fills add up to the position the bot
+// believes it holds, which reconcile() compares with the exchange.
+
+export interface OrderTrackerDeps {
+  fetchOrder: (instId: string, ordId: string) => Promise<OrderDetail | null>;
+  fetchAlgoOrders: (instId: string) => Promise<any[]>;
+  fetchClosedPositions: () => Promise<ClosedPosition[]>;
+  onLog: (type: SystemLog['type'], message: string) => void;
+  onOrderFinal: (order: TrackedOrder) => void; // Persist
+}
+
+export interface TrackOrderParams {
+  ordId: string;
+  decision: AIDecision;
+  decisionPx: number;
+  posSide: 'long' | 'short';
+  requestedSz?: string; // CLOSE orders: the position size being closed
+}
+
+const MAX_DRIFTS = 50;
+
+const keyOf = (instId: string, posSide: string) => `${instId}:${posSide}`;
+const isOpening = (o: Pick<TrackedOrder, 'side' | 'posSide'>) => (o.side === 'buy') === (o.posSide === 'long');
+const isFinal = (o: TrackedOrder) => o.status === 'FILLED' || o.status === 'CANCELED' || o.status === 'TIMEOUT';
+const samePx = (a?: string, b?: string) => !!a && !!b && Math.abs(parseFloat(a) - parseFloat(b)) < 1e-9;
+
+// Positive = worse than the reference (paid more on buys, received less on sells)
+export const calculateSlippageBps = (side: 'buy' | 'sell', referencePx: number, fillPx: number) =>
+  referencePx > 0 ? ((side === 'buy' ? fillPx - referencePx : referencePx - fillPx) / referencePx) * 10000 : 0;
+
+export const createOrderTracker = (deps: OrderTrackerDeps) => {
+  let orders: TrackedOrder[] = []; // Newest first
+  const applied = new Map<string, number>(); // ordId -> contracts already counted in `expected`
+  const expected = new Map<string, number>(); // instId:posSide -> contracts the bot believes it holds
+  const lastActivity = new Map<string, number>(); // instId:posSide -> last bot fill/close
+  let baselined = false;
+  let report: ReconciliationReport | null = null;
+
+  const touch = (key: string) => lastActivity.set(key, Date.now());
+
+  // Count newly filled contracts into the expected position
+  const applyFill = (o: TrackedOrder) => {
+    const filled = parseFloat(o.filledSz) || 0;
+    const delta = filled - (applied.get(o.ordId) || 0);
+    if (delta <= 0) return;
+    applied.set(o.ordId, filled);
+    const key = keyOf(o.instId, o.posSide);
+    const current = expected.get(key) || 0;
+    expected.set(key, Math.max(0, current + (isOpening(o) ? delta : -delta)));
+    touch(key);
+  };
+
+  const checkProtection = async (o: TrackedOrder) => {
+    if (!o.protection.requested || parseFloat(o.filledSz) <= 0) return;
+    try {
+      const algos = await deps.fetchAlgoOrders(o.instId);
+      o.protection.confirmed = algos.some(a =>
+        a.posSide === o.posSide &&
+        (!o.protection.slTriggerPx || samePx(a.slTriggerPx, o.protection.slTriggerPx)) &&
+        (!o.protection.tpTriggerPx || samePx(a.tpTriggerPx, o.protection.tpTriggerPx))
+      );
+      if (!o.protection.confirmed) {
+        deps.onLog('ERROR', `[${o.instId}] 订单 ${o.ordId} 已成交但未找到附带的止盈止损单 (SL ${o.protection.slTriggerPx || '-'} / TP ${o.protection.tpTriggerPx || '-'}), 请立即检查`);
+      }
+    } catch (e: any) {
+      deps.onLog('WARNING', `[${o.instId}] 止盈止损单确认失败: ${e.message}`);
+    }
+  };
+
+  const finalize = async (o: TrackedOrder) => {
+    if (o.status === 'FILLED' || (o.status === 'CANCELED' && parseFloat(o.filledSz) > 0)) {
+      const slip = o.slippageBps !== null ? `${o.slippageBps >= 0 ? '+' : ''}${o.slippageBps.toFixed(1)} bps` : '--';
+      deps.onLog('TRADE', `[${o.instId}] 成交确认: ${o.action} ${o.filledSz}/${o.requestedSz} 张 @ ${o.avgFillPx ?? '--'} (决策价 ${o.decisionPx}, 滑点 ${slip}, 手续费 ${o.fee?.toFixed(4) ?? '--'} ${o.feeCcy})`);
+      await checkProtection(o);
+    } else if (o.status === 'CANCELED') {
+      deps.onLog('WARNING', `[${o.instId}] 订单 ${o.ordId} 已撤销, 未成交`);
+    } else if (o.status === 'TIMEOUT') {
+      deps.onLog('WARNING', `[${o.instId}] 订单 ${o.ordId} 超过 ${ORDER_FILL_TIMEOUT_MS / 1000}s 未确认成交, 停止跟踪, 以对账结果为准`);
+    }
+    deps.onOrderFinal(o);
+  };
+
+  const updateFromDetail = (o: TrackedOrder, d: OrderDetail) => {
+    o.filledSz = d.accFillSz;
+    const avgPx = parseFloat(d.avgPx);
+    o.avgFillPx = avgPx > 0 ? avgPx : null;
+    o.fee = -(parseFloat(d.fee) || 0);
+    o.feeCcy = d.feeCcy;
+    o.slippageBps = o.avgFillPx !== null ? calculateSlippageBps(o.side, o.decisionPx, o.avgFillPx) : null;
+    o.status = d.state === 'filled' ? 'FILLED'
+      : d.state === 'partially_filled' ? 'PARTIALLY_FILLED'
+      : d.state === 'live' ? 'PENDING'
+      : 'CANCELED';
+    o.updatedAt = Date.now();
+  };
+
+  return {
+    // Finalized orders from storage (oldest first); they no longer affect `expected`
+    load: (persisted: TrackedOrder[]) => {
+      orders = persisted.slice().reverse().slice(0, MAX_TRACKED_ORDERS);
+      orders.forEach(o => applied.set(o.ordId, parseFloat(o.filledSz) || 0));
+    },
+
+    track: ({ ordId, decision, decisionPx, posSide, requestedSz }: TrackOrderParams): TrackedOrder => {
+      // CLOSE trades against the position: sell to close a long, buy to close a short
+      const side = decision.action === 'CLOSE' ? (posSide === 'long' ? 'sell' : 'buy') : decision.action === 'BUY' ? 'buy' : 'sell';
+      const sl = parseFloat(decision.trading_decision?.stop_loss || "0") > 0 ? decision.trading_decision.stop_loss : undefined;
+      const tp = parseFloat(decision.trading_decision?.profit_target || "0") > 0 ? decision.trading_decision.profit_target : undefined;
+      const order: TrackedOrder = {
+        ordId,
+        instId: decision.instId || '',
+        action: decision.action,
+        side,
+        posSide,
+        requestedSz: requestedSz ?? decision.size,
+        decisionPx,
+        decisionTs: decision.timestamp || Date.now(),
+        placedAt: Date.now(),
+        status: 'PENDING',
+        filledSz: "0",
+        avgFillPx: null,
+        fee: null,
+        feeCcy: 'USDT',
+        slippageBps: null,
+        protection: { requested: !!(sl || tp), slTriggerPx: sl, tpTriggerPx: tp, confirmed: null },
+        updatedAt: Date.now(),
+      };
+      orders = [order, ...orders].slice(0, MAX_TRACKED_ORDERS);
+      touch(keyOf(order.instId, posSide));
+      return order;
+    },
+
+    // close-position returns no ordId; the bot now expects this side flat
+    noteClosed: (instId: string, posSide: 'long' | 'short') => {
+      const key = keyOf(instId, posSide);
+      expected.set(key, 0);
+      touch(key);
+    },
+
+    // Reduce-only algo fills (take-profit levels) the bot saw itself
+    noteReduced: (instId: string, posSide: 'long' | 'short', contracts: number) => {
+      const key = keyOf(instId, posSide);
+      expected.set(key, Math.max(0, (expected.get(key) || 0) - contracts));
+      touch(key);
+    },
+
+    poll: async () => {
+      for (const o of orders.filter(o => !isFinal(o))) {
+        try {
+          const detail = await deps.fetchOrder(o.instId, o.ordId);
+          if (detail) updateFromDetail(o, detail);
+          applyFill(o);
+          if (!isFinal(o) && Date.now() - o.placedAt > ORDER_FILL_TIMEOUT_MS) o.status = 'TIMEOUT';
+          if (isFinal(o)) await finalize(o);
+        } catch (e: any) {
+          deps.onLog('WARNING', `[${o.instId}] 订单 ${o.ordId} 状态查询失败: ${e.message}`);
+        }
+      }
+    },
+
+    // Compare exchange positions with the bot's fills. The first call adopts the
+    // exchange as baseline; every drift is reported once and then adopted.
+    reconcile: async (positions: PositionData[]): Promise<ReconciliationReport> => {
+      const now = Date.now();
+      const actual = new Map<string, number>();
+      positions.forEach(p => {
+        const key = keyOf(p.instId, p.posSide);
+        actual.set(key, (actual.get(key) || 0) + (parseFloat(p.pos) || 0));
+      });
+
+      if (!baselined) {
+        actual.forEach((sz, key) => expected.set(key, sz));
+        baselined = true;
+        report = { checkedAt: now, inSync: true, drifts: [] };
+        return report;
+      }
+
+      const busy = new Set(orders.filter(o => !isFinal(o)).map(o => keyOf(o.instId, o.posSide)));
+      const keys = new Set([...Array.from(expected.keys()), ...Array.from(actual.keys())]);
+      const found: PositionDrift[] = [];
+      let closed: ClosedPosition[] | null = null;
+
+      for (const key of Array.from(keys)) {
+        // Let in-flight orders and fresh fills reach the account data first
+        if (busy.has(key) || now - (lastActivity.get(key) || 0) < RECONCILE_SETTLE_MS) continue;
+        const exp = expected.get(key) || 0;
+        const act = actual.get(key) || 0;
+        if (Math.abs(exp - act) < 1e-8) continue;
+
+        const [instId, posSide] = key.split(':') as [string, 'long' | 'short'];
+        // A full close after our last activity is a TP/SL/liquidation fill, not drift
+        let explained = false;
+        if (act === 0) {
+          try {
+            closed = closed ?? await deps.fetchClosedPositions();
+            explained = closed.some(c => c.instId === instId && c.posSide === posSide && parseInt(c.uTime) >= (lastActivity.get(key) || 0));
+          } catch (e) {
+            // History unavailable: report as drift
+          }
+        }
+
+        const drift: PositionDrift = { instId, posSide, expected: exp, actual: act, detectedAt: now, explained };
+        found.push(drift);
+        if (explained) {
+          deps.onLog('INFO', `[${instId}] ${posSide.toUpperCase()} 仓位已由交易所平仓 (止盈/止损/强平), 对账已同步`);
+        } else {
+          deps.onLog('WARNING', `[${instId}] 持仓对账偏差: ${posSide.toUpperCase()} 机器人预期 ${exp} 张, 交易所实际 ${act} 张 (可能为手动操作或未确认成交)`);
+        }
+        expected.set(key, act);
+        touch(key);
+      }
+
+      report = {
+        checkedAt: now,
+        inSync: found.every(d => d.explained),
+        drifts: [...found, ...(report?.drifts || [])].slice(0, MAX_DRIFTS),
+      };
+      return report;
+    },
+
+    getOrders: (instId?: string) => orders.filter(o => !instId || o.instId === instId),
+    getReport: () => report,
+  };
+};
@@ -0,0 +1,59 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createPaperExchange } from "./paperExchange";
+import { getFallbackSpec } from "./sizingService";
+import * as okxService from "./okxService";
+
+const spec = getFallbackSpec('ETH-USDT-SWAP');
+const INST = spec.instId;
+
+const exchangeAt = (price: number) => {
+  const paper = createPaperExchange(1000);
+  paper.markPrice(INST, { last: price.toString() });
+  return paper;
+};
+
+describe('paperExchange margin mode', () => {
+  it('reports the mode a position opened with and backs cross positions with the free balance', () => {
+    const paper = exchangeAt(3000);
+    paper.setLeverage(INST, 'long', 10, 'cross');
+    paper.placeMarketOrder({ spec, side: 'buy', posSide: 'long', sz: 1, mgnMode: 'cross' });
+    const [pos] = paper.getAccount().positions;
+    assert.equal(pos.mgnMode, 'cross');
+    assert.equal(pos.margin, '30.0000');
+    // The whole account stands behind it: far below the isolated 10x liquidation (~2715)
+    assert.ok(parseFloat(pos.liqPx) < 0, pos.liqPx);
+    assert.throws(() => paper.adjustMargin(INST, 'long', 'add', 10), /全仓/);
+  });
+
+  it('refuses margin changes on cross positions before touching the paper account', async () => {
+    await assert.rejects(
+      okxService.addMargin({ instId: INST, posSide: 'long', type: 'add', amt: '10' }, { isSimulation: true, marginMode: 'cross' }),
+      /全仓模式/
+    );
+  });
+});
+
+describe('paperExchange position mode', () => {
+  it('trades one side per instrument in net mode', () => {
+    const paper = exchangeAt(3000);
+    paper.setPositionMode('net_mode');
+    paper.placeMarketOrder({ spec, side: 'buy', posSide: 'long', sz: 2 });
+    // An order against the held side reduces it, whatever posSide it names
+    paper.placeMarketOrder({ spec, side: 'sell', posSide: 'short', sz: 1 });
+    assert.deepEqual(paper.getAccount().positions.map(p => [p.posSide, p.pos]), [['long', '1']]);
+    assert.throws(() => paper.placeMarketOrder({ spec, side: 'sell', posSide: 'short', sz: 3 }), /反手/);
+    // reduceOnly caps at the held size
+    paper.placeMarketOrder({ spec, side: 'sell', posSide: 'long', sz: 3, reduceOnly: true });
+    assert.deepEqual(paper.getAccount().positions, []);
+    assert.throws(() => paper.placeMarketOrder({ spec, side: 'sell', posSide: 'long', sz: 1, reduceOnly: true }), /51000/);
+  });
+
+  it('only switches position mode while flat', () => {
+    const paper = exchangeAt(3000);
+    paper.placeMarketOrder({ spec, side: 'buy', posSide: 'long', sz: 1 });
+    paper.placeMarketOrder({ spec, side: 'sell', posSide: 'short', sz: 1 });
+    assert.throws(() => paper.setPositionMode('net_mode'), /无法切换持仓模式/);
+    assert.equal(paper.getAccount().positions.length, 2);
+  });
+});
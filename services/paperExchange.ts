@@ -0,0 +1,444 @@
+import { AccountContext, ClosedPosition, FillRecord, InstrumentSpec, MarginMode, OrderDetail, PositionData, PositionMode } from "../types";
+import { FUNDING_INTERVAL_MS, TAKER_FEE_RATE } from "../constants";
+import { estimateLiquidationPrice } from "./sizingService";
+
+// --- Paper Trading Exchange ---
+// Local stand-in for the OKX account used when isSimulation is on: market
+// fills at bid/ask with taker fees, TP/SL and trailing-stop algo orders and
+// liquidation checked on every price mark, funding settled when a mark passes
+// the funding time. Each position keeps the margin mode it opened with:
+// isolated positions stand on their own margin, cross positions are also
+// backed by the free balance. In one-way (net) mode an instrument holds one
+// side and orders against it reduce it, as on OKX.
+
+type Side = 'long' | 'short';
+
+interface PaperPosition {
+  instId: string;
+  posSide: Side;
+  mgnMode: MarginMode;
+  contracts: number;
+  ctVal: number;
+  avgPx: number;
+  margin: number;
+  realizedPnl: number; // Closed portions, net of all fees and funding so far
+  fundingFee: number; // Settled funding, positive = received
+  closedCoin: number; // For the average close price
+  closedValue: number;
+  cTime: number;
+}
+
+export interface PaperAlgoOrder {
+  algoId: string;
+  instId: string;
+  posSide: Side;
+  ordType: 'conditional' | 'move_order_stop';
+  sz: string;
+  slTriggerPx?: string;
+  tpTriggerPx?: string;
+  callbackSpread?: string; // move_order_stop: distance from the best price that triggers
+  activePx?: string; // move_order_stop: starts tracking once price reaches it (immediately if absent)
+  moveTriggerPx?: string; // move_order_stop: current trigger, set once active
+  state: 'live';
+  cTime: string;
+}
+
+export interface PaperQuote {
+  last: string;
+  bidPx?: string;
+  askPx?: string;
+}
+
+export interface PaperFill {
+  ordId: string;
+  fillPx: number;
+  fillSz: number;
+  fee: number;
+}
+
+export interface PaperEvent {
+  type: 'TP' | 'SL' | 'LIQUIDATION' | 'CLOSED'; // CLOSED: position flat, with its realized PnL
+  instId: string;
+  posSide: Side;
+  message: string;
+}
+
+export interface PaperExchange {
+  markPrice: (instId: string, quote: PaperQuote) => void;
+  setFunding: (instId: string, rate: number, nextFundingTime: number) => void;
+  setPositionMode: (mode: PositionMode) => void; // Like OKX, only switches with no open positions
+  setLeverage: (instId: string, posSide: Side, lever: number, mgnMode?: MarginMode) => void;
+  // Net mode ignores posSide: the order trades against the held side, reduceOnly keeps it from opening
+  placeMarketOrder: (params: { spec: InstrumentSpec; side: 'buy' | 'sell'; posSide: Side; sz: number; mgnMode?: MarginMode; reduceOnly?: boolean; slTriggerPx?: string; tpTriggerPx?: string }) => PaperFill;
+  closePosition: (instId: string, posSide: Side) => PaperFill;
+  placeAlgoOrder: (params: { instId: string; posSide: Side; sz: string; slTriggerPx?: string; tpTriggerPx?: string }) => string;
+  placeTrailingStop: (params: { instId: string; posSide: Side; sz: string; callbackSpread: string; activePx?: string }) => string;
+  cancelAlgoOrders: (algoIds: string[]) => void;
+  getAlgoOrders: (instId?: string) => PaperAlgoOrder[];
+  adjustMargin: (instId: string, posSide: Side, type: 'add' | 'reduce', amt: number) => void;
+  getAccount: () => AccountContext;
+  getClosedPositions: () => ClosedPosition[];
+  getOrder: (ordId: string) => OrderDetail | null;
+  getFills: (since: number) => FillRecord[]; // Newest first
+  onEvent: (listener: (event: PaperEvent) => void) => void;
+}
+
+const DEFAULT_LEVERAGE = 20;
+const MAX_CLOSED_POSITIONS = 100;
+const MAX_ORDERS = 500;
+const MAX_FILLS = 1000;
+
+export const createPaperExchange = (initialBalance: number): PaperExchange => {
+  let balance = initialBalance; // Free USDT (position margin excluded)
+  let positionMode: PositionMode = 'long_short_mode';
+  const positions = new Map<string, PaperPosition>();
+  const leverages = new Map<string, number>();
+  const quotes = new Map<string, PaperQuote>();
+  const funding = new Map<string, { rate: number; nextFundingTime: number }>();
+  let algoOrders: PaperAlgoOrder[] = [];
+  let closedPositions: ClosedPosition[] = [];
+  const orders = new Map<string, OrderDetail>(); // Insertion ordered, oldest evicted first
+  let fills: FillRecord[] = []; // Newest first
+  const listeners: ((event: PaperEvent) => void)[] = [];
+  let seq = 0;
+
+  const keyOf = (instId: string, posSide: Side) => `${instId}:${posSide}`;
+  const dir = (p: PaperPosition) => (p.posSide === 'long' ? 1 : -1);
+  const coinOf = (p: PaperPosition, contracts = p.contracts) => contracts * p.ctVal;
+  const lastOf = (instId: string) => parseFloat(quotes.get(instId)?.last || "0");
+  // Cross positions can draw on the free balance before they are liquidated
+  const backingOf = (p: PaperPosition) => p.margin + (p.mgnMode === 'cross' ? Math.max(0, balance) : 0);
+  const liqPxOf = (p: PaperPosition) => estimateLiquidationPrice(p.posSide, p.avgPx, coinOf(p), backingOf(p));
+  // Leverage key as OKX keeps it: per side for isolated long/short, per instrument otherwise
+  const leverKey = (instId: string, posSide: Side, mgnMode: MarginMode) =>
+    mgnMode === 'isolated' && positionMode === 'long_short_mode' ? keyOf(instId, posSide) : instId;
+  const heldOf = (instId: string) => Array.from(positions.values()).find(p => p.instId === instId);
+  const nextId = (prefix: string) => `${prefix}_${Date.now()}_${++seq}`;
+
+  const emit = (event: PaperEvent) => listeners.forEach(l => l(event));
+
+  // Market orders fill immediately; keep OKX-shaped order and fill records for lookups
+  const recordFill = (instId: string, side: 'buy' | 'sell', posSide: Side, fill: PaperFill): PaperFill => {
+    fills = [{
+      tradeId: nextId('trade'),
+      ordId: fill.ordId,
+      instId,
+      side,
+      posSide,
+      fillSz: fill.fillSz.toString(),
+      fillPx: fill.fillPx.toString(),
+      fee: (-fill.fee).toString(),
+      ts: Date.now().toString(),
+    }, ...fills].slice(0, MAX_FILLS);
+    orders.set(fill.ordId, {
+      ordId: fill.ordId,
+      instId,
+      state: 'filled',
+      accFillSz: fill.fillSz.toString(),
+      avgPx: fill.fillPx.toString(),
+      fee: (-fill.fee).toString(),
+      feeCcy: 'USDT',
+      uTime: Date.now().toString(),
+    });
+    if (orders.size > MAX_ORDERS) orders.delete(orders.keys().next().value!);
+    return fill;
+  };
+
+  // Buys lift the ask, sells hit the bid
+  const fillPrice = (instId: string, side: 'buy' | 'sell') => {
+    const q = quotes.get(instId);
+    if (!q) throw new Error(`模拟盘无 ${instId} 行情, 无法成交`);
+    const px = parseFloat((side === 'buy' ? q.askPx : q.bidPx) || q.last);
+    return px > 0 ? px : parseFloat(q.last);
+  };
+
+  const finalize = (p: PaperPosition, reason: string) => {
+    positions.delete(keyOf(p.instId, p.posSide));
+    algoOrders = algoOrders.filter(o => !(o.instId === p.instId && o.posSide === p.posSide));
+    closedPositions = [{
+      instId: p.instId,
+      posSide: p.posSide,
+      openAvgPx: p.avgPx.toString(),
+      closeAvgPx: p.closedCoin > 0 ? (p.closedValue / p.closedCoin).toString() : "0",
+      realizedPnl: p.realizedPnl.toFixed(4),
+      fundingFee: p.fundingFee.toFixed(4),
+      cTime: p.cTime.toString(),
+      uTime: Date.now().toString(),
+    }, ...closedPositions].slice(0, MAX_CLOSED_POSITIONS);
+    emit({ type: 'CLOSED', instId: p.instId, posSide: p.posSide, message: `已平仓 (${reason}), 已实现盈亏 ${p.realizedPnl.toFixed(4)} U` });
+  };
+
+  // Reduce a position at px; releases margin pro rata
+  const reduce = (p: PaperPosition, contracts: number, px: number, reason: string): PaperFill => {
+    const closing = Math.min(contracts, p.contracts);
+    const coin = coinOf(p, closing);
+    const pnl = (px - p.avgPx) * coin * dir(p);
+    const fee = coin * px * TAKER_FEE_RATE;
+    const released = p.margin * (closing / p.contracts);
+
+    balance += released + pnl - fee;
+    p.margin -= released;
+    p.contracts -= closing;
+    p.realizedPnl += pnl - fee;
+    p.closedCoin += coin;
+    p.closedValue += coin * px;
+
+    if (p.contracts <= 1e-9) finalize(p, reason);
+    return recordFill(p.instId, p.posSide === 'long' ? 'sell' : 'buy', p.posSide, { ordId: nextId('paper'), fillPx: px, fillSz: closing, fee });
+  };
+
+  const placeAlgoOrder: PaperExchange['placeAlgoOrder'] = ({ instId, posSide, sz, slTriggerPx, tpTriggerPx }) => {
+    if (!slTriggerPx && !tpTriggerPx) throw new Error('止盈止损价格不能同时为空');
+    const algoId = nextId('algo');
+    algoOrders.push({ algoId, instId, posSide, ordType: 'conditional', sz, slTriggerPx, tpTriggerPx, state: 'live', cTime: Date.now().toString() });
+    return algoId;
+  };
+
+  // Trailing stop: the trigger follows the best price by callbackSpread and never moves back
+  const trailTrigger = (algo: PaperAlgoOrder, posSide: Side, price: number): boolean => {
+    const spread = parseFloat(algo.callbackSpread || "0");
+    const active = parseFloat(algo.activePx || "0");
+    let trigger = parseFloat(algo.moveTriggerPx || "0");
+    if (!(trigger > 0)) {
+      if (active > 0 && (posSide === 'long' ? price < active : price > active)) return false;
+      trigger = posSide === 'long' ? price - spread : price + spread;
+    } else {
+      trigger = posSide === 'long' ? Math.max(trigger, price - spread) : Math.min(trigger, price + spread);
+    }
+    algo.moveTriggerPx = trigger.toString();
+    return posSide === 'long' ? price <= trigger : price >= trigger;
+  };
+
+  // Positive rate: longs pay shorts, on the notional at the settlement price
+  const settleFunding = (instId: string, price: number) => {
+    const schedule = funding.get(instId);
+    if (!schedule || !(schedule.nextFundingTime > 0) || Date.now() < schedule.nextFundingTime) return;
+    for (const p of Array.from(positions.values())) {
+      if (p.instId !== instId) continue;
+      const payment = -dir(p) * schedule.rate * coinOf(p) * price;
+      if (p.mgnMode === 'cross') balance += payment;
+      else p.margin += payment;
+      p.fundingFee += payment;
+      p.realizedPnl += payment;
+    }
+    schedule.nextFundingTime += FUNDING_INTERVAL_MS;
+  };
+
+  // TP/SL and liquidation for every position on this instrument at the new price
+  const checkTriggers = (instId: string, price: number) => {
+    for (const p of Array.from(positions.values())) {
+      if (p.instId !== instId) continue;
+
+      const liqPx = liqPxOf(p);
+      if (liqPx > 0 && (p.posSide === 'long' ? price <= liqPx : price >= liqPx)) {
+        // The whole margin is lost, for a cross position the free balance with it
+        recordFill(instId, p.posSide === 'long' ? 'sell' : 'buy', p.posSide, { ordId: nextId('liq'), fillPx: price, fillSz: p.contracts, fee: 0 });
+        p.realizedPnl -= backingOf(p);
+        if (p.mgnMode === 'cross') balance = Math.min(balance, 0);
+        p.closedCoin += coinOf(p);
+        p.closedValue += coinOf(p) * price;
+        p.margin = 0;
+        p.contracts = 0;
+        finalize(p, '强平');
+        emit({ type: 'LIQUIDATION', instId, posSide: p.posSide, message: `强平触发 @ ${price} (预估强平价 ${liqPx.toFixed(2)})` });
+        continue;
+      }
+
+      for (const algo of algoOrders.filter(o => o.instId === instId && o.posSide === p.posSide)) {
+        if (!positions.has(keyOf(instId, p.posSide))) break;
+        const sl = parseFloat(algo.slTriggerPx || "0");
+        const tp = parseFloat(algo.tpTriggerPx || "0");
+        const slHit = algo.ordType === 'move_order_stop'
+          ? trailTrigger(algo, p.posSide, price)
+          : sl > 0 && (p.posSide === 'long' ? price <= sl : price >= sl);
+        const tpHit = tp > 0 && (p.posSide === 'long' ? price >= tp : price <= tp);
+        if (!slHit && !tpHit) continue;
+
+        algoOrders = algoOrders.filter(o => o.algoId !== algo.algoId);
+        const label = algo.ordType === 'move_order_stop' ? '移动止损' : slHit ? '止损' : '止盈';
+        const fill = reduce(p, parseFloat(algo.sz), price, label);
+        emit({
+          type: slHit ? 'SL' : 'TP',
+          instId,
+          posSide: p.posSide,
+          message: `${label}触发 @ ${price}, 平仓 ${fill.fillSz} 张, 手续费 ${fill.fee.toFixed(4)} U`,
+        });
+      }
+    }
+  };
+
+  return {
+    markPrice: (instId, quote) => {
+      quotes.set(instId, quote);
+      const price = parseFloat(quote.last);
+      if (!(price > 0)) return;
+      settleFunding(instId, price);
+      checkTriggers(instId, price);
+    },
+
+    // The exchange-reported schedule wins; after a settlement we step 8h until the next update
+    setFunding: (instId, rate, nextFundingTime) => {
+      const current = funding.get(instId);
+      funding.set(instId, {
+        rate,
+        nextFundingTime: current && current.nextFundingTime > nextFundingTime ? current.nextFundingTime : nextFundingTime,
+      });
+    },
+
+    setPositionMode: (mode) => {
+      if (mode === positionMode) return;
+      if (positions.size > 0 || algoOrders.length > 0) {
+        throw new Error(`无法切换持仓模式为${mode === 'net_mode' ? '单向' : '双向'}持仓: 模拟盘仍有持仓或委托。请确保无持仓后重试。`);
+      }
+      positionMode = mode;
+    },
+
+    setLeverage: (instId, posSide, lever, mgnMode = 'isolated') => {
+      if (!(lever > 0) || lever > 125) throw new Error(`无效杠杆: ${lever}`);
+      leverages.set(leverKey(instId, posSide, mgnMode), lever);
+    },
+
+    placeMarketOrder: ({ spec, side, sz, mgnMode = 'isolated', reduceOnly, slTriggerPx, tpTriggerPx, ...params }) => {
+      const instId = spec.instId;
+      const px = fillPrice(instId, side);
+      let posSide = params.posSide;
+
+      if (positionMode === 'net_mode') {
+        const held = heldOf(instId);
+        if (held && (side === 'buy') !== (held.posSide === 'long')) {
+          // A flip would need a close and an open in one order; the bot never sends one
+          if (!reduceOnly && sz > held.contracts + 1e-9) throw new Error(`单向持仓: 数量 ${sz} 张超过 ${held.posSide} 持仓 ${held.contracts} 张, 模拟盘不支持反手, 请先平仓`);
+          return reduce(held, sz, px, '减仓');
+        }
+        if (reduceOnly) throw new Error(`仓位不存在 (51000): ${instId}`);
+        posSide = side === 'buy' ? 'long' : 'short';
+      }
+
+      const existing = positions.get(keyOf(instId, posSide));
+      const opening = (side === 'buy') === (posSide === 'long');
+
+      if (!opening) {
+        if (!existing) throw new Error(`仓位不存在 (51000): ${instId} ${posSide}`);
+        return reduce(existing, sz, px, '减仓');
+      }
+      if (existing && existing.mgnMode !== mgnMode) {
+        throw new Error(`${instId} ${posSide} 已有${existing.mgnMode === 'cross' ? '全仓' : '逐仓'}持仓, 不能以${mgnMode === 'cross' ? '全仓' : '逐仓'}加仓`);
+      }
+
+      const lever = leverages.get(leverKey(instId, posSide, mgnMode)) || DEFAULT_LEVERAGE;
+      const coin = sz * spec.ctVal;
+      const margin = (coin * px) / lever;
+      const fee = coin * px * TAKER_FEE_RATE;
+      if (balance < margin + fee) {
+        throw new Error(`余额不足 (51008): 需要 ${(margin + fee).toFixed(4)} U, 可用 ${balance.toFixed(4)} U`);
+      }
+
+      balance -= margin + fee;
+      if (existing) {
+        const totalCoin = coinOf(existing) + coin;
+        existing.avgPx = (coinOf(existing) * existing.avgPx + coin * px) / totalCoin;
+        existing.contracts += sz;
+        existing.margin += margin;
+        existing.realizedPnl -= fee;
+      } else {
+        positions.set(keyOf(instId, posSide), {
+          instId, posSide, mgnMode, contracts: sz, ctVal: spec.ctVal, avgPx: px, margin,
+          realizedPnl: -fee, fundingFee: 0, closedCoin: 0, closedValue: 0, cTime: Date.now(),
+        });
+      }
+
+      // attachAlgoOrds: TP/SL sized to this order
+      if (slTriggerPx || tpTriggerPx) placeAlgoOrder({ instId, posSide, sz: sz.toString(), slTriggerPx, tpTriggerPx });
+
+      return recordFill(instId, side, posSide, { ordId: nextId('paper'), fillPx: px, fillSz: sz, fee });
+    },
+
+    closePosition: (instId, posSide) => {
+      const p = positions.get(keyOf(instId, posSide));
+      if (!p) throw new Error(`仓位不存在 (51000): ${instId} ${posSide}`);
+      return reduce(p, p.contracts, fillPrice(instId, posSide === 'long' ? 'sell' : 'buy'), '市价全平');
+    },
+
+    placeAlgoOrder,
+
+    placeTrailingStop: ({ instId, posSide, sz, callbackSpread, activePx }) => {
+      if (!(parseFloat(callbackSpread) > 0)) throw new Error(`无效回调幅度: ${callbackSpread}`);
+      const algoId = nextId('algo');
+      algoOrders.push({ algoId, instId, posSide, ordType: 'move_order_stop', sz, callbackSpread, activePx, state: 'live', cTime: Date.now().toString() });
+      return algoId;
+    },
+
+    cancelAlgoOrders: (algoIds) => {
+      algoOrders = algoOrders.filter(o => !algoIds.includes(o.algoId));
+    },
+
+    getAlgoOrders: (instId) => algoOrders.filter(o => !instId || o.instId === instId).map(o => ({ ...o })),
+
+    adjustMargin: (instId, posSide, type, amt) => {
+      const p = positions.get(keyOf(instId, posSide));
+      if (!p) throw new Error(`仓位不存在 (51000): ${instId} ${posSide}`);
+      if (p.mgnMode === 'cross') throw new Error('全仓模式下保证金由账户共享, 无法单独调整');
+      if (!(amt > 0)) throw new Error(`无效金额: ${amt}`);
+      if (type === 'add') {
+        if (amt > balance) throw new Error(`余额不足 (51008): 可用 ${balance.toFixed(4)} U`);
+        balance -= amt;
+        p.margin += amt;
+      } else {
+        // Keep at least the initial margin requirement at the current leverage
+        const lever = leverages.get(leverKey(instId, posSide, p.mgnMode)) || DEFAULT_LEVERAGE;
+        const minMargin = (coinOf(p) * (lastOf(instId) || p.avgPx)) / lever;
+        if (p.margin - amt < minMargin) throw new Error(`可减少保证金不足, 最多 ${Math.max(0, p.margin - minMargin).toFixed(4)} U`);
+        balance += amt;
+        p.margin -= amt;
+      }
+    },
+
+    getAccount: () => {
+      let usedEquity = 0;
+      const positionList: PositionData[] = Array.from(positions.values()).map(p => {
+        const price = lastOf(p.instId) || p.avgPx;
+        const upl = (price - p.avgPx) * coinOf(p) * dir(p);
+        usedEquity += p.margin + upl;
+        const sl = algoOrders.find(o => o.instId === p.instId && o.posSide === p.posSide && o.ordType === 'conditional' && o.slTriggerPx);
+        const tp = algoOrders.find(o => o.instId === p.instId && o.posSide === p.posSide && o.tpTriggerPx);
+        return {
+          instId: p.instId,
+          posSide: p.posSide,
+          pos: parseFloat(p.contracts.toFixed(8)).toString(),
+          avgPx: p.avgPx.toFixed(4),
+          upl: upl.toFixed(4),
+          uplRatio: p.margin > 0 ? (upl / p.margin).toFixed(4) : "0",
+          mgnMode: p.mgnMode,
+          margin: p.margin.toFixed(4),
+          liqPx: liqPxOf(p).toFixed(2),
+          cTime: p.cTime.toString(),
+          fundingFee: p.fundingFee.toFixed(4),
+          slTriggerPx: sl?.slTriggerPx,
+          tpTriggerPx: tp?.tpTriggerPx,
+        };
+      });
+
+      return {
+        balance: {
+          totalEq: (balance + usedEquity).toFixed(4),
+          availEq: balance.toFixed(4),
+          uTime: Date.now().toString(),
+        },
+        positions: positionList,
+      };
+    },
+
+    getClosedPositions: () => [...closedPositions],
+
+    getOrder: (ordId) => {
+      const o = orders.get(ordId);
+      return o ? { ...o } : null;
+    },
+
+    getFills: (since) => fills.filter(f => parseInt(f.ts) > since).map(f => ({ ...f })),
+
+    onEvent: (listener) => {
+      listeners.push(listener);
+    },
+  };
+};
@@ -0,0 +1,41 @@
+// --- Performance Metrics (shared by live server & backtest) ---
+
+// Calculate Sharpe Ratio from an equity series
+export const calculateSharpeRatio = (history: number[]): number => {
+    if (history.length < 2) return 0;
+
+    const returns: number[] = [];
+    for (let i = 1; i < history.length; i++) {
+        const prev = history[i - 1];
+        const curr = history[i];
+        if (prev === 0) continue;
+        returns.push((curr - prev) / prev);
+    }
+
+    if (returns.length === 0) return 0;
+
+    const meanReturn = returns.reduce((a, b) => a + b, 0) / returns.length;
+
+    const squaredDiffs = returns.map(r => Math.pow(r - meanReturn, 2));
+    const avgSquaredDiff = squaredDiffs.reduce((a, b) => a + b, 0) / returns.length;
+    const stdDev = Math.sqrt(avgSquaredDiff);
+
+    if (stdDev === 0) return 0;
+
+    // Assuming Risk Free Rate is negligible for short term high frequency
+    return meanReturn / stdDev;
+};
+
+// Max Drawdown as a ratio of the running peak (0.25 = -25%)
+export const calculateMaxDrawdown = (history: number[]): number => {
+    let peak = -Infinity;
+    let maxDd = 0;
+    for (const eq of history) {
+        if (eq > peak) peak = eq;
+        if (peak > 0) {
+            const dd = (peak - eq) / peak;
+            if (dd > maxDd) maxDd = dd;
+        }
+    }
+    return maxDd;
+};
@@ -0,0 +1,37 @@
+import { MarginMode } from "../types";
+
+// --- Margin & Position Mode ---
+// In one-way (net) mode OKX reports one signed position per instrument with
+// posSide 'net'. Everything past okxService works with the side a position
+// holds, so net positions, their algo orders and history records are read as
+// long/short here; orders going out get the posSide and tdMode the configured
+// modes expect.
+
+type Side = 'long' | 'short';
+
+export const marginModeOf = (config: any): MarginMode => (config.marginMode === 'cross' ? 'cross' : 'isolated');
+
+export const isNetMode = (config: any) => config.positionMode === 'net_mode';
+
+// posSide of an order for one side: omitted in net mode, where OKX nets buys and sells
+export const posSideParam = (side: Side, config: any): { posSide?: Side } => (isNetMode(config) ? {} : { posSide: side });
+
+// Closing order of one side; in net mode reduceOnly keeps it from flipping the position
+export const closeParams = (side: Side, config: any) => ({
+  side: side === 'long' ? 'sell' as const : 'buy' as const,
+  ...(isNetMode(config) ? { reduceOnly: true } : { posSide: side }),
+});
+
+// Raw OKX position: a net position holds the side of its sign
+export const positionSide = (raw: { posSide: string; pos: string }): { posSide: Side; pos: string } =>
+  raw.posSide === 'net'
+    ? { posSide: parseFloat(raw.pos) < 0 ? 'short' : 'long', pos: raw.pos.replace(/^-/, '') }
+    : { posSide: raw.posSide as Side, pos: raw.pos };
+
+// Raw OKX algo order: a net-mode close sells a long and buys back a short
+export const algoWithSide = <T extends { posSide: string; side: string }>(o: T): T =>
+  o.posSide === 'net' ? { ...o, posSide: o.side === 'sell' ? 'long' : 'short' } : o;
+
+// positions-history carries the side of a net position in `direction`
+export const closedPositionSide = (raw: { posSide: string; direction?: string }): Side =>
+  raw.posSide === 'net' ? (raw.direction === 'short' ? 'short' : 'long') : raw.posSide as Side;
@@ -0,0 +1,69 @@
+import type { Request, Response } from 'express';
+import { StatusSnapshot, StreamEvent } from "../types";
+import { STREAM_RECONNECT_MS } from "../constants";
+import { createBaseline, diffStatus, StatusBaseline } from "./statusStream";
+
+// --- Dashboard Push Hub (server only) ---
+// Server-sent events on /api/stream: a full snapshot on connect, then the
+// diff against the previously published state once per publishChanges()
+// call, logs as they happen and a periodic ping. Clients whose session is
+// no longer valid are dropped on the next heartbeat.
+
+interface StreamClient {
+  res: Response;
+  isAuthorized: () => boolean;
+}
+
+export const createPushHub = (deps: { snapshot: () => StatusSnapshot }) => {
+  const clients = new Set<StreamClient>();
+  let baseline: StatusBaseline | null = null;
+
+  const frame = (ev: StreamEvent) => `data: ${JSON.stringify(ev)}\n\n`;
+  const publish = (ev: StreamEvent) => {
+    if (clients.size === 0) return;
+    const data = frame(ev);
+    clients.forEach(c => c.res.write(data));
+  };
+
+  return {
+    attach: (req: Request, res: Response, isAuthorized: () => boolean) => {
+      res.writeHead(200, {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache, no-transform',
+        Connection: 'keep-alive',
+        'X-Accel-Buffering': 'no', // nginx: do not buffer the stream
+      });
+      res.write(`retry: ${STREAM_RECONNECT_MS}\n\n`);
+      const snapshot = deps.snapshot();
+      if (!baseline) baseline = createBaseline(snapshot);
+      res.write(frame({ type: 'snapshot', data: snapshot }));
+      const client = { res, isAuthorized };
+      clients.add(client);
+      req.on('close', () => clients.delete(client));
+    },
+
+    publish,
+
+    // Diff the current state against the last published one (no clients: nothing to track)
+    publishChanges: () => {
+      if (clients.size === 0) {
+        baseline = null;
+        return;
+      }
+      const { events, baseline: next } = diffStatus(baseline, deps.snapshot());
+      baseline = next;
+      events.forEach(publish);
+    },
+
+    heartbeat: () => {
+      clients.forEach(c => {
+        if (c.isAuthorized()) return;
+        clients.delete(c);
+        c.res.end();
+      });
+      publish({ type: 'ping' });
+    },
+
+    clientCount: () => clients.size,
+  };
+};
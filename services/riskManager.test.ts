@@ -0,0 +1,118 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { AccountContext, AIDecision, ClosedPosition, PositionData, RealizedPnlStats, RiskLimits } from "../types";
+import { DEFAULT_RISK_LIMITS } from "../constants";
+import { checkOrderRisk, isReducingOrder, summarizeRealizedPnl } from "./riskManager";
+import { estimateLiquidationPrice, getFallbackSpec } from "./sizingService";
+
+const spec = getFallbackSpec('ETH-USDT-SWAP'); // 0.1 ETH per contract
+const PRICE = 3000;
+const CLEAN: RealizedPnlStats = { dailyRealizedPnl: 0, consecutiveLosses: 0 };
+
+const order = (action: AIDecision['action'], fields: { size?: string; leverage?: string; stop?: string; posSide?: 'long' | 'short' } = {}): AIDecision => ({
+  stage_analysis: '', market_assessment: '', hot_events_overview: '', eth_analysis: '', reasoning: '',
+  trading_decision: {
+    action: action.toLowerCase() as AIDecision['trading_decision']['action'], confidence: '100%',
+    position_size: fields.size ?? '1', leverage: fields.leverage ?? '10', profit_target: '0',
+    stop_loss: fields.stop ?? '2900', invalidation_condition: '',
+  },
+  action,
+  size: fields.size ?? '1',
+  leverage: fields.leverage ?? '10',
+  posSide: fields.posSide,
+  instId: spec.instId,
+});
+
+const long = (pos: string, avgPx = '3000', margin = '30'): PositionData => ({
+  instId: spec.instId, posSide: 'long', pos, avgPx, upl: '0', uplRatio: '0', mgnMode: 'isolated', margin, liqPx: '', cTime: '1',
+});
+
+const account = (positions: PositionData[] = []): AccountContext => ({ balance: { totalEq: '1000', availEq: '1000', uTime: '0' }, positions });
+
+const check = (decision: AIDecision, opts: { positions?: PositionData[]; realized?: RealizedPnlStats; limits?: Partial<RiskLimits> } = {}) =>
+  checkOrderRisk(
+    { decision, accountData: account(opts.positions), spec, price: PRICE, realized: opts.realized ?? CLEAN },
+    { ...DEFAULT_RISK_LIMITS, ...opts.limits }
+  );
+
+const codes = (result: ReturnType<typeof checkOrderRisk>) => result.violations.map(v => v.code);
+
+describe('checkOrderRisk', () => {
+  it('accepts an open within every limit', () => {
+    const result = check(order('BUY'));
+    assert.equal(result.allowed, true);
+    assert.deepEqual(result.violations, []);
+  });
+
+  it('lets closes, trims and holds through whatever the limits say', () => {
+    const breached = { realized: { dailyRealizedPnl: -100, consecutiveLosses: 10 } };
+    assert.equal(check(order('CLOSE', { posSide: 'long' }), breached).allowed, true);
+    assert.equal(check(order('SELL', { posSide: 'long', stop: '0' }), breached).allowed, true);
+    assert.equal(check(order('HOLD'), breached).allowed, true);
+    assert.equal(isReducingOrder(order('BUY', { posSide: 'short' })), true);
+    assert.equal(isReducingOrder(order('BUY', { posSide: 'long' })), false);
+  });
+
+  it('rejects leverage above the cap', () => {
+    const result = check(order('BUY', { leverage: '25', stop: '2950' }));
+    assert.deepEqual(codes(result), ['MAX_LEVERAGE']);
+    assert.deepEqual([result.violations[0].limit, result.violations[0].actual], [20, 25]);
+  });
+
+  it('counts the existing same-side position toward the notional cap', () => {
+    // 1 contract = 300 U; 6 held + 1 new = 2100 U > 2000 U
+    const result = check(order('BUY'), { positions: [long('6', '3000', '180')] });
+    assert.deepEqual(codes(result), ['MAX_NOTIONAL']);
+    assert.equal(result.violations[0].actual, 2100);
+    assert.equal(check(order('BUY'), { positions: [{ ...long('6'), posSide: 'short' }] }).allowed, true);
+  });
+
+  it('stops opening after the daily loss limit or a losing streak', () => {
+    assert.deepEqual(codes(check(order('BUY'), { realized: { dailyRealizedPnl: -5, consecutiveLosses: 0 } })), ['MAX_DAILY_LOSS']);
+    assert.deepEqual(codes(check(order('BUY'), { realized: { dailyRealizedPnl: 0, consecutiveLosses: 3 } })), ['MAX_CONSECUTIVE_LOSSES']);
+    assert.equal(check(order('BUY'), { realized: { dailyRealizedPnl: -4.99, consecutiveLosses: 2 } }).allowed, true);
+  });
+
+  it('requires a stop on the protective side of price', () => {
+    assert.deepEqual(codes(check(order('BUY', { stop: '0' }))), ['MISSING_STOP_LOSS']);
+    const wrongSide = check(order('SELL', { stop: '2900' }));
+    assert.deepEqual(codes(wrongSide), ['MISSING_STOP_LOSS']);
+    assert.match(wrongSide.violations[0].message, /错误一侧/);
+    assert.equal(check(order('BUY', { stop: '0' }), { limits: { requireStopLoss: false } }).allowed, true);
+  });
+
+  it('rejects a stop too close to the estimated liquidation price', () => {
+    // 1 contract at 20x: 15 U margin
+    const liqPx = estimateLiquidationPrice('long', PRICE, 0.1, 15);
+    const near = check(order('BUY', { leverage: '20', stop: (liqPx + 3).toFixed(2) }));
+    assert.deepEqual(codes(near), ['STOP_TOO_CLOSE_TO_LIQ']);
+    assert.equal(near.violations[0].actual.toFixed(2), (3 / PRICE * 100).toFixed(2));
+    assert.equal(check(order('BUY', { leverage: '20', stop: (liqPx + 20).toFixed(2) })).allowed, true);
+  });
+
+  it('treats 0 as no limit', () => {
+    const limits = { maxLeverage: 0, maxPositionNotional: 0, maxDailyLoss: 0, maxConsecutiveLosses: 0, minStopLiqDistancePct: 0 };
+    const result = check(order('BUY', { size: '100', leverage: '100', stop: '2999' }), { limits, realized: { dailyRealizedPnl: -50, consecutiveLosses: 9 } });
+    assert.equal(result.allowed, true);
+  });
+});
+
+describe('summarizeRealizedPnl', () => {
+  const closed = (realizedPnl: string, uTime: number): ClosedPosition => ({
+    instId: spec.instId, posSide: 'long', openAvgPx: '3000', closeAvgPx: '3000', realizedPnl, fundingFee: '0', cTime: '0', uTime: String(uTime),
+  });
+
+  it('sums today (UTC) and counts the losses since the last win', () => {
+    const now = Date.UTC(2026, 0, 2, 12);
+    const today = Date.UTC(2026, 0, 2);
+    const result = summarizeRealizedPnl([
+      closed('-1', today + 3000), // Newest
+      closed('-2', today + 2000),
+      closed('4', today + 1000),
+      closed('-3', today + 500),
+      closed('-50', today - 1), // Yesterday
+    ], now);
+    assert.deepEqual(result, { dailyRealizedPnl: -2, consecutiveLosses: 2 });
+    assert.deepEqual(summarizeRealizedPnl([closed('-50', today - 1)], now), { dailyRealizedPnl: 0, consecutiveLosses: 0 });
+  });
+});
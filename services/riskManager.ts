@@ -0,0 +1,103 @@
+import { AIDecision, AccountContext, ClosedPosition, InstrumentSpec, RealizedPnlStats, RiskCheckResult, RiskLimits, RiskViolation } from "../types";
+import { estimateLiquidationPrice } from "./sizingService";
+
+// --- Pre-trade Risk Gate ---
+// Hard limits that hold regardless of which engine produced the decision.
+// Only exposure-increasing orders are gated; closes and trims always pass.
+
+export interface RiskCheckInput {
+  decision: AIDecision;
+  accountData: AccountContext;
+  spec: InstrumentSpec;
+  price: number; // Reference price for notional and liquidation estimates
+  realized: RealizedPnlStats;
+}
+
+const startOfUtcDay = (now: number) => {
+  const d = new Date(now);
+  return Date.UTC(d.getUTCFullYear(), d.getUTCMonth(), d.getUTCDate());
+};
+
+// Today's (UTC) realized PnL and the current losing streak within today.
+// The streak resets at 00:00 UTC so a lockout cannot outlive the day.
+export const summarizeRealizedPnl = (closed: ClosedPosition[], now: number = Date.now()): RealizedPnlStats => {
+  const dayStart = startOfUtcDay(now);
+  const today = closed
+    .filter(p => parseInt(p.uTime) >= dayStart)
+    .sort((a, b) => parseInt(b.uTime) - parseInt(a.uTime));
+
+  let consecutiveLosses = 0;
+  for (const p of today) {
+    if (parseFloat(p.realizedPnl) < 0) consecutiveLosses++;
+    else break;
+  }
+
+  return {
+    dailyRealizedPnl: today.reduce((acc, p) => acc + (parseFloat(p.realizedPnl) || 0), 0),
+    consecutiveLosses,
+  };
+};
+
+// Is this BUY/SELL/CLOSE reducing the targeted position?
+export const isReducingOrder = (d: AIDecision) =>
+  d.action === 'CLOSE' ||
+  (d.posSide === 'long' && d.action === 'SELL') ||
+  (d.posSide === 'short' && d.action === 'BUY');
+
+export const checkOrderRisk = (input: RiskCheckInput, limits: RiskLimits): RiskCheckResult => {
+  const { decision, accountData, spec, price, realized } = input;
+  const violations: RiskViolation[] = [];
+  const pass = (): RiskCheckResult => ({ allowed: violations.length === 0, violations, checkedAt: Date.now() });
+
+  if (decision.action !== 'BUY' && decision.action !== 'SELL') return pass();
+  if (isReducingOrder(decision)) return pass();
+
+  const posSide: 'long' | 'short' = decision.posSide || (decision.action === 'BUY' ? 'long' : 'short');
+  const leverage = parseFloat(decision.leverage) || 0;
+  const sizeCoin = (parseFloat(decision.size) || 0) * spec.ctVal;
+  const stopLoss = parseFloat(decision.trading_decision?.stop_loss || "0") || 0;
+
+  // 1. Leverage
+  if (limits.maxLeverage > 0 && leverage > limits.maxLeverage) {
+    violations.push({ code: 'MAX_LEVERAGE', message: `杠杆 ${leverage}x 超过上限 ${limits.maxLeverage}x`, limit: limits.maxLeverage, actual: leverage });
+  }
+
+  // 2. Resulting position notional (existing same-side position + this order)
+  const existing = accountData.positions.find(p => p.instId === spec.instId && p.posSide === posSide);
+  const existingCoin = existing ? parseFloat(existing.pos) * spec.ctVal : 0;
+  const existingAvg = existing ? parseFloat(existing.avgPx) : 0;
+  const notional = (existingCoin + sizeCoin) * price;
+  if (limits.maxPositionNotional > 0 && notional > limits.maxPositionNotional) {
+    violations.push({ code: 'MAX_NOTIONAL', message: `持仓名义价值 ${notional.toFixed(2)} U 超过上限 ${limits.maxPositionNotional} U`, limit: limits.maxPositionNotional, actual: notional });
+  }
+
+  // 3. Daily realized loss
+  if (limits.maxDailyLoss > 0 && -realized.dailyRealizedPnl >= limits.maxDailyLoss) {
+    violations.push({ code: 'MAX_DAILY_LOSS', message: `今日已实现亏损 ${(-realized.dailyRealizedPnl).toFixed(2)} U 达到上限 ${limits.maxDailyLoss} U`, limit: limits.maxDailyLoss, actual: -realized.dailyRealizedPnl });
+  }
+
+  // 4. Losing streak
+  if (limits.maxConsecutiveLosses > 0 && realized.consecutiveLosses >= limits.maxConsecutiveLosses) {
+    violations.push({ code: 'MAX_CONSECUTIVE_LOSSES', message: `今日连续亏损 ${realized.consecutiveLosses} 笔达到上限 ${limits.maxConsecutiveLosses} 笔`, limit: limits.maxConsecutiveLosses, actual: realized.consecutiveLosses });
+  }
+
+  // 5. Mandatory stop-loss on the protective side of price
+  const stopValid = stopLoss > 0 && (posSide === 'long' ? stopLoss < price : stopLoss > price);
+  if (limits.requireStopLoss && !stopValid) {
+    violations.push({ code: 'MISSING_STOP_LOSS', message: stopLoss > 0 ? `止损价 ${stopLoss} 位于当前价 ${price} 的错误一侧` : '开仓/加仓未设置止损', limit: 1, actual: 0 });
+  }
+
+  // 6. Stop must trigger well before the estimated liquidation of the resulting position
+  if (limits.minStopLiqDistancePct > 0 && stopValid && leverage > 0) {
+    const totalCoin = existingCoin + sizeCoin;
+    const avgPx = totalCoin > 0 ? (existingCoin * existingAvg + sizeCoin * price) / totalCoin : price;
+    const margin = (existing ? parseFloat(existing.margin) || 0 : 0) + (sizeCoin * price) / leverage;
+    const liqPx = estimateLiquidationPrice(posSide, avgPx, totalCoin, margin);
+    const distancePct = (posSide === 'long' ? stopLoss - liqPx : liqPx - stopLoss) / price * 100;
+    if (liqPx > 0 && distancePct < limits.minStopLiqDistancePct) {
+      violations.push({ code: 'STOP_TOO_CLOSE_TO_LIQ', message: `止损 ${stopLoss} 距预估强平价 ${liqPx.toFixed(2)} 仅 ${distancePct.toFixed(2)}% (要求 ≥ ${limits.minStopLiqDistancePct}%)`, limit: limits.minStopLiqDistancePct, actual: distancePct });
+    }
+  }
+
+  return pass();
+};
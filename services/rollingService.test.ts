@@ -0,0 +1,50 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { AccountContext, AIDecision, PositionData, RiskCheckResult, StrategyState } from "../types";
+import { DEFAULT_RISK_LIMITS, DEFAULT_ROLLING_CONFIG } from "../constants";
+import { createRollingExecutor } from "./rollingService";
+import { checkOrderRisk } from "./riskManager";
+import { getFallbackSpec } from "./sizingService";
+
+const spec = getFallbackSpec('ETH-USDT-SWAP');
+
+const position: PositionData = {
+  instId: 'ETH-USDT-SWAP', posSide: 'long', pos: '2', avgPx: '3000', upl: '60', uplRatio: '1',
+  mgnMode: 'isolated', margin: '60', liqPx: '2730', cTime: '1', slTriggerPx: '2900',
+};
+
+// 100% net ROE at 3300, well past the 50% trigger
+const state = {
+  price: 3300, totalEquity: 200, availableEquity: 100, primaryPosition: position, hasPosition: true,
+  netPnL: 58, netProfitRatio: 0.97, totalFees: 2, accruedFunding: 0, nextFundingCost: 0, nextFundingTime: 0,
+  rollingTrigger: true, canRoll: true, leverage: 10, ruleReqEquity: 0, minOpenCost: 0, targetContracts: 0,
+} as StrategyState;
+
+describe('rollingService executor', () => {
+  it('sends roll legs that pass the default risk gate', async () => {
+    const accountData: AccountContext = { balance: { totalEq: '200', availEq: '100', uTime: '1' }, positions: [position] };
+    const placed: { decision: AIDecision; risk: RiskCheckResult }[] = [];
+    const roller = createRollingExecutor({
+      getConfig: () => ({ ...DEFAULT_ROLLING_CONFIG, enabled: true }),
+      placeLeg: async (decision) => {
+        const risk = checkOrderRisk({ decision, accountData, spec, price: state.price, realized: { dailyRealizedPnl: 0, consecutiveLosses: 0 } }, DEFAULT_RISK_LIMITS);
+        placed.push({ decision, risk });
+        if (!risk.allowed) throw new Error('风控拦截');
+      },
+      replaceStopLoss: async () => undefined,
+      onStopPlaced: () => undefined,
+      onLog: () => undefined,
+    });
+
+    await roller.observe(position, spec, state.price, 1000);
+    await roller.maybeRoll(position, spec, state, 1000);
+
+    assert.equal(placed.length, 1);
+    const { decision, risk } = placed[0];
+    assert.deepEqual(risk.violations, []);
+    assert.equal(risk.allowed, true);
+    // The planned stop: break-even of the existing position, above the old 2900 stop
+    const stop = parseFloat(decision.trading_decision.stop_loss);
+    assert.ok(stop > 3000 && stop < state.price, `stop ${stop}`);
+  });
+});
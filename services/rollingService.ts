@@ -0,0 +1,271 @@
+import { AIDecision, InstrumentSpec, PositionData, RollingConfig, RollLadder, RollLegSource, StrategyState, SystemLog } from "../types";
+import { ROLL_PENDING_MS, STOP_MIN_GAP_PCT, TAKER_FEE_RATE } from "../constants";
+import { breakEvenPrice } from "./stopManager";
+import { estimateLiquidationPrice, formatContracts, formatPrice, roundToLot } from "./sizingService";
+
+// --- Rolling (Pyramiding) Executor ---
+// Every open position gets a ladder: the entry leg plus one leg for each size
+// increase seen on the exchange, whoever ordered it. After a roll the whole
+// position is covered by a single stop again: the most protective of the
+// current stop and the break-even from before the roll, so the new leg can
+// give back profit but not the original margin. With the executor enabled it
+// also adds legs itself once net ROE reaches the trigger, using a share of the
+// net profit as margin. maxRolls caps every roll, the strategy's included.
+
+type Side = 'long' | 'short';
+
+export const ROLL_SOURCE_LABELS: Record<RollLegSource, string> = {
+  ENTRY: '开仓',
+  STRATEGY: '策略滚仓',
+  AUTO: '自动滚仓',
+};
+
+export interface RollingDeps {
+  getConfig: () => RollingConfig;
+  // Runs the risk gate, submits and tracks the leg; throws when it was not placed
+  placeLeg: (decision: AIDecision, spec: InstrumentSpec) => Promise<void>;
+  replaceStopLoss: (instId: string, posSide: Side, size: string, slPrice: string) => Promise<unknown>;
+  onStopPlaced: (instId: string, posSide: Side, size: number, slPrice: number) => void;
+  onLog: (type: SystemLog['type'], message: string) => void;
+}
+
+export interface RollPlan {
+  contracts: number;
+  margin: number; // Margin committed to the new leg, from profit
+  avgPx: number; // Projected average of the combined position
+  liqPx: number; // Projected liquidation price (isolated estimate)
+  stopPx: number; // Stop for the whole position after the roll
+  netRoePct: number;
+}
+
+const isBetter = (side: Side, a: number, b: number) => (side === 'long' ? a > b : a < b);
+
+// Most protective stop that sits between the liquidation price and the price (STOP_MIN_GAP_PCT away); 0 = none
+export const pickRollStop = (side: Side, price: number, liqPx: number, candidates: number[]): number => {
+  const gap = price * STOP_MIN_GAP_PCT / 100;
+  return candidates
+    .filter(c => c > 0 && (side === 'long'
+      ? c <= price - gap && !(liqPx > 0 && c <= liqPx)
+      : c >= price + gap && !(liqPx > 0 && c >= liqPx)))
+    .reduce((best, c) => (best === 0 || isBetter(side, c, best) ? c : best), 0);
+};
+
+// Combined position after `contracts` more at `price`, with `legMargin` added to the isolated margin
+export const projectRoll = (position: PositionData, spec: InstrumentSpec, price: number, contracts: number, legMargin: number) => {
+  const side: Side = position.posSide === 'short' ? 'short' : 'long';
+  const size = parseFloat(position.pos);
+  const total = size + contracts;
+  const avgPx = (parseFloat(position.avgPx) * size + price * contracts) / total;
+  const margin = parseFloat(position.margin) + legMargin;
+  return { avgPx, margin, liqPx: estimateLiquidationPrice(side, avgPx, total * spec.ctVal, margin) };
+};
+
+// Leg the executor would add now; reason says why not when plan is null
+export const planRoll = (
+  cfg: RollingConfig,
+  position: PositionData,
+  spec: InstrumentSpec,
+  state: StrategyState,
+  currentStop: number
+): { plan: RollPlan | null; triggered: boolean; reason: string } => {
+  const side: Side = position.posSide === 'short' ? 'short' : 'long';
+  const margin = parseFloat(position.margin);
+  // Judged after the projected next funding payment, like the strategy's 5% trigger
+  const netRoePct = margin > 0 ? ((state.netPnL - Math.max(0, state.nextFundingCost)) / margin) * 100 : 0;
+  if (netRoePct < cfg.triggerRoePct) {
+    return { plan: null, triggered: false, reason: `净收益率 ${netRoePct.toFixed(2)}% 未达 ${cfg.triggerRoePct}%` };
+  }
+  const fail = (reason: string) => ({ plan: null, triggered: true, reason });
+
+  const price = state.price;
+  const coinValue = price * spec.ctVal;
+  const budget = Math.max(0, state.netPnL) * cfg.profitSharePct / 100;
+  // Leg margin plus taker fee must fit in the available balance
+  const affordable = state.availableEquity / (coinValue * (1 / state.leverage + TAKER_FEE_RATE));
+  const contracts = roundToLot(Math.min((budget * state.leverage) / coinValue, affordable), spec);
+  if (contracts < spec.minSz) {
+    return fail(`利润 ${budget.toFixed(2)} U (可用 ${state.availableEquity.toFixed(2)} U) 不足以加仓最小下单量 ${spec.minSz} 张`);
+  }
+
+  const legMargin = (contracts * coinValue) / state.leverage;
+  const projected = projectRoll(position, spec, price, contracts, legMargin);
+  const stopPx = pickRollStop(side, price, projected.liqPx, [currentStop, breakEvenPrice(position)]);
+  if (!(stopPx > 0)) {
+    return fail(`滚仓后没有位于强平价 ${projected.liqPx.toFixed(2)} 与现价之间的止损, 不滚仓`);
+  }
+  return {
+    plan: { contracts, margin: legMargin, avgPx: projected.avgPx, liqPx: projected.liqPx, stopPx, netRoePct },
+    triggered: true,
+    reason: '',
+  };
+};
+
+// Per position (instId:posSide, reset when cTime changes)
+interface TrackedLadder {
+  ladder: RollLadder;
+  contracts: number;
+  avgPx: number;
+  bePx: number;
+  stopPx: number; // Best stop known for the whole position
+  pending: { contracts: number; stopPx: number; at: number } | null; // Executor leg not seen on the exchange yet
+  lastSkip: string;
+}
+
+export const createRollingExecutor = (deps: RollingDeps) => {
+  const tracked = new Map<string, TrackedLadder>();
+  const keyOf = (instId: string, posSide: string) => `${instId}:${posSide}`;
+  const isPending = (t: TrackedLadder, now: number) => !!t.pending && now - t.pending.at < ROLL_PENDING_MS;
+
+  const liqOf = (position: PositionData, spec: InstrumentSpec, side: Side) => {
+    const liqPx = parseFloat(position.liqPx || "0");
+    if (liqPx > 0) return liqPx;
+    return estimateLiquidationPrice(side, parseFloat(position.avgPx), parseFloat(position.pos) * spec.ctVal, parseFloat(position.margin));
+  };
+
+  // Record the position's legs and, after a roll, put one stop on the full size
+  const observe = async (position: PositionData, spec: InstrumentSpec, price: number, now = Date.now()) => {
+    const side: Side = position.posSide;
+    const instId = position.instId;
+    const contracts = parseFloat(position.pos);
+    const avgPx = parseFloat(position.avgPx);
+    if (!(contracts > 0) || !(avgPx > 0)) return;
+    const exchangeStop = parseFloat(position.slTriggerPx || "0");
+
+    const key = keyOf(instId, side);
+    let t = tracked.get(key);
+    if (!t || t.ladder.openedAt !== position.cTime) {
+      t = {
+        ladder: {
+          instId,
+          posSide: side,
+          openedAt: position.cTime,
+          legs: [{ ts: parseInt(position.cTime) || now, source: 'ENTRY', contracts, price: avgPx, avgPx, liqPx: liqOf(position, spec, side), stopPx: exchangeStop }],
+          rolls: 0,
+          maxRolls: deps.getConfig().maxRolls,
+        },
+        contracts,
+        avgPx,
+        bePx: breakEvenPrice(position),
+        stopPx: exchangeStop,
+        pending: null,
+        lastSkip: '',
+      };
+      tracked.set(key, t);
+      return;
+    }
+
+    if (contracts > t.contracts) {
+      const added = contracts - t.contracts;
+      const legPx = (avgPx * contracts - t.avgPx * t.contracts) / added;
+      const source: RollLegSource = isPending(t, now) ? 'AUTO' : 'STRATEGY';
+      const liqPx = liqOf(position, spec, side);
+      const stopPx = pickRollStop(side, price, liqPx, [t.stopPx, exchangeStop, t.bePx, t.pending?.stopPx || 0]);
+      t.pending = null;
+      t.ladder.legs.push({ ts: now, source, contracts: added, price: legPx, avgPx, liqPx, stopPx: 0 });
+      t.ladder.rolls = t.ladder.legs.length - 1;
+
+      if (stopPx > 0) {
+        const slPx = formatPrice(stopPx, spec);
+        try {
+          await deps.replaceStopLoss(instId, side, position.pos, slPx);
+          deps.onStopPlaced(instId, side, contracts, parseFloat(slPx));
+          t.ladder.legs[t.ladder.legs.length - 1].stopPx = parseFloat(slPx);
+          t.stopPx = parseFloat(slPx);
+          deps.onLog('SUCCESS', `[${instId}] ${ROLL_SOURCE_LABELS[source]}第 ${t.ladder.rolls} 腿 +${formatContracts(added, spec)} 张 @ ${legPx.toFixed(2)}: 均价 ${avgPx.toFixed(2)}, 强平价 ${liqPx.toFixed(2)}, 全仓止损 ${slPx} (${position.pos} 张)`);
+        } catch (e: any) {
+          deps.onLog('ERROR', `[${instId}] 滚仓后重挂全仓止损失败: ${e.message}`);
+        }
+      } else {
+        deps.onLog('WARNING', `[${instId}] 滚仓后没有位于强平价 ${liqPx.toFixed(2)} 与现价之间的止损, 全仓止损未重挂`);
+      }
+    } else if (exchangeStop > 0) {
+      t.stopPx = exchangeStop;
+    }
+
+    t.contracts = contracts;
+    t.avgPx = avgPx;
+    t.bePx = breakEvenPrice(position);
+  };
+
+  // Gate for strategy rolls: the cap counts legs already added and executor legs in flight
+  const canRoll = (instId: string, posSide: Side, now = Date.now()): { allowed: boolean; reason: string } => {
+    const t = tracked.get(keyOf(instId, posSide));
+    const maxRolls = deps.getConfig().maxRolls;
+    const rolls = t ? t.ladder.rolls + (isPending(t, now) ? 1 : 0) : 0;
+    return rolls < maxRolls
+      ? { allowed: true, reason: '' }
+      : { allowed: false, reason: `已滚仓 ${rolls} 次, 达到上限 ${maxRolls} 次` };
+  };
+
+  // Executor: add a profit-funded leg once net ROE reaches the trigger
+  const maybeRoll = async (position: PositionData, spec: InstrumentSpec, state: StrategyState, now = Date.now()) => {
+    const cfg = deps.getConfig();
+    if (!cfg.enabled) return;
+    const side: Side = position.posSide;
+    const instId = position.instId;
+    const t = tracked.get(keyOf(instId, side));
+    if (!t || isPending(t, now)) return;
+
+    const skip = (reason: string) => {
+      if (reason !== t.lastSkip) deps.onLog('INFO', `[${instId}] 自动滚仓跳过: ${reason}`);
+      t.lastSkip = reason;
+    };
+    const { plan, triggered, reason } = planRoll(cfg, position, spec, state, t.stopPx);
+    if (!triggered) return;
+    const cap = canRoll(instId, side, now);
+    if (!cap.allowed) return skip(cap.reason);
+    if (!plan) return skip(reason);
+    t.lastSkip = '';
+
+    const size = formatContracts(plan.contracts, spec);
+    const action = side === 'long' ? 'BUY' : 'SELL';
+    const reasoning = `净收益率 ${plan.netRoePct.toFixed(2)}% >= ${cfg.triggerRoePct}%, 以 ${plan.margin.toFixed(2)} U 利润作保证金滚仓加码 ${size} 张`;
+    const decision: AIDecision = {
+      stage_analysis: '滚仓执行器',
+      market_assessment: reasoning,
+      hot_events_overview: '',
+      eth_analysis: '',
+      trading_decision: {
+        action: action.toLowerCase() as AIDecision['trading_decision']['action'],
+        confidence: '100%',
+        position_size: size,
+        leverage: state.leverage.toString(),
+        profit_target: '0',
+        // Planned whole-position stop: passes the risk gate and guards the leg until
+        // observe() re-places one stop on the full size
+        stop_loss: formatPrice(plan.stopPx, spec),
+        invalidation_condition: '',
+      },
+      reasoning,
+      action,
+      size,
+      leverage: state.leverage.toString(),
+      posSide: side,
+      instId,
+      timestamp: now,
+    };
+
+    deps.onLog('SUCCESS', `[${instId}] 触发自动滚仓: ${reasoning}, 预计均价 ${plan.avgPx.toFixed(2)}, 强平价 ${plan.liqPx.toFixed(2)}, 全仓止损 ${formatPrice(plan.stopPx, spec)}`);
+    t.pending = { contracts: plan.contracts, stopPx: plan.stopPx, at: now };
+    try {
+      await deps.placeLeg(decision, spec);
+    } catch (e: any) {
+      t.pending = null;
+      deps.onLog('ERROR', `[${instId}] 滚仓失败: ${e.message}`);
+    }
+  };
+
+  return {
+    observe,
+    canRoll,
+    maybeRoll,
+    getLadders: (instId: string): RollLadder[] =>
+      Array.from(tracked.values())
+        .filter(t => t.ladder.instId === instId)
+        .map(t => ({ ...t.ladder, legs: [...t.ladder.legs], maxRolls: deps.getConfig().maxRolls })),
+    // Drop ladders of positions that are gone
+    prune: (openKeys: string[]) => {
+      Array.from(tracked.keys()).filter(k => !openKeys.includes(k)).forEach(k => tracked.delete(k));
+    },
+  };
+};
@@ -0,0 +1,161 @@
+import { AIDecision, MarketDataCollection, AccountContext, InstrumentSpec, SizingResult } from "../types";
+import { analyzeEmaTrend, analyzePositionState } from "./aiService";
+import { formatContracts, formatSizing, sizeStrategyOrder, SizingOptions } from "./sizingService";
+import { analyzeMultiTimeframe, confirmEntry } from "./multiTimeframe";
+
+// --- Deterministic Rule Engine ---
+// Pure TypeScript implementation of the EMA 4H strategy spelled out in the
+// getTradingDecision prompt. No network call, same AIDecision shape.
+
+export interface RuleEngineOptions {
+  // The 50% tiered take-profit leaves Net ROE unchanged, so the caller tracks
+  // whether it already fired for the current position to avoid repeated trims.
+  partialTpTaken?: boolean;
+  // Lower-timeframe entry refinement: new entries wait for 15m/3m confirmation
+  refineEntry?: boolean;
+  // Opens and rolls are sized by this (default: fixed 5% margin)
+  sizing?: SizingOptions;
+}
+
+export const getRuleDecision = (
+  marketData: MarketDataCollection,
+  accountData: AccountContext,
+  spec: InstrumentSpec,
+  options: RuleEngineOptions = {}
+): AIDecision => {
+  const candles4H = marketData.candles4H || [];
+  const ema = analyzeEmaTrend(candles4H);
+  const state = analyzePositionState(marketData, accountData, spec);
+  const mtf = analyzeMultiTimeframe(marketData);
+  const { primaryPosition, hasPosition, netProfitRatio, canRoll, leverage } = state;
+
+  const roePct = (netProfitRatio * 100).toFixed(2);
+  const crossText = ema.isGoldenCross ? "金叉" : ema.isDeathCross ? "死叉" : "无新交叉";
+
+  let action: AIDecision['action'] = 'HOLD';
+  let posSide: 'long' | 'short' | undefined;
+  let size = "0";
+  let stopLoss = "0";
+  let reasoning = "";
+  let sizing: SizingResult | undefined;
+
+  if (ema.ema21 === 0) {
+      reasoning = "4H K线不足 60 根, 无法计算 EMA21/55, 观望";
+  } else if (hasPosition && primaryPosition) {
+      const side = primaryPosition.posSide === 'short' ? 'short' : 'long';
+      posSide = side;
+      const reverseCross = (side === 'long' && ema.isDeathCross) || (side === 'short' && ema.isGoldenCross);
+
+      if (reverseCross) {
+          // Rule 4: Exit on reverse cross
+          action = 'CLOSE';
+          reasoning = `EMA 发生反向${crossText}, 立即平掉所有仓位`;
+      } else if (state.rollingTrigger && canRoll) {
+          // Rule 4: Rolling - add another leg
+          stopLoss = (side === 'long' ? ema.prevLow : ema.prevHigh).toString();
+          sizing = sizeStrategyOrder(state, spec, side, parseFloat(stopLoss), candles4H, options.sizing);
+          if (sizing.contracts > 0) {
+              action = side === 'long' ? 'BUY' : 'SELL';
+              size = formatContracts(sizing.contracts, spec);
+              reasoning = `净收益率 ${roePct}% >= 5% 且资金充足, 滚仓加码 ${size} 张`;
+          } else {
+              stopLoss = "0";
+              reasoning = `净收益率 ${roePct}% >= 5%, 但仓位计算为 0, 不加码: ${sizing.notes.join('; ')}`;
+          }
+      } else if (state.rollingTrigger && netProfitRatio >= 0.08) {
+          // Rule 5: Funds exhausted, clear at 8% net ROE
+          action = 'CLOSE';
+          reasoning = `资金不足以滚仓, 净收益率 ${roePct}% >= 8%, 清仓落袋`;
+      } else if (state.rollingTrigger && !options.partialTpTaken) {
+          // Rule 5: Funds exhausted, trim 50% at 5% net ROE
+          action = side === 'long' ? 'SELL' : 'BUY';
+          size = formatContracts(parseFloat(primaryPosition.pos) * 0.5, spec);
+          reasoning = `资金不足以滚仓, 净收益率 ${roePct}% >= 5%, 减仓 50% 保利`;
+      } else if (netProfitRatio >= 0.05) {
+          // Net ROE is there, but the next funding payment would take it back under 5%
+          reasoning = `净收益率 ${roePct}%, 但下次结算预计支付资金费 ${state.nextFundingCost.toFixed(4)} U, 扣除后低于 5%, 暂不加码/止盈`;
+      } else {
+          reasoning = `持仓中, 净收益率 ${roePct}%, 未达加码/止盈标准, 趋势 ${ema.trend}`;
+      }
+  } else {
+      // Rule 2: Entry (cross + candle color, or pullback to EMA21 that holds)
+      const lastCandle = candles4H[candles4H.length - 1];
+      const close = parseFloat(lastCandle.c);
+      const low = parseFloat(lastCandle.l);
+      const high = parseFloat(lastCandle.h);
+
+      if (!canRoll) {
+          reasoning = "可用资金不足 5% 规则或最低下单成本, 无法开仓";
+      } else if (ema.trend === 'BULLISH') {
+          const crossEntry = ema.isGoldenCross && ema.signalCandleColor === 'GREEN';
+          const pullbackEntry = low <= ema.ema21 && close > ema.ema21;
+          if ((crossEntry || pullbackEntry) && ema.prevLow < close) {
+              action = 'BUY';
+              posSide = 'long';
+              stopLoss = ema.prevLow.toString();
+              reasoning = crossEntry ? "4H 金叉且收阳, 开多" : "多头趋势中回踩 EMA21 不破, 开多";
+          } else {
+              reasoning = "多头趋势, 等待金叉收阳或回踩 EMA21";
+          }
+      } else if (ema.trend === 'BEARISH') {
+          const crossEntry = ema.isDeathCross && ema.signalCandleColor === 'RED';
+          const pullbackEntry = high >= ema.ema21 && close < ema.ema21;
+          if ((crossEntry || pullbackEntry) && ema.prevHigh > close) {
+              action = 'SELL';
+              posSide = 'short';
+              stopLoss = ema.prevHigh.toString();
+              reasoning = crossEntry ? "4H 死叉且收阴, 开空" : "空头趋势中反弹至 EMA21 不破, 开空";
+          } else {
+              reasoning = "空头趋势, 等待死叉收阴或反弹至 EMA21";
+          }
+      } else {
+          reasoning = "4H 趋势不明, 观望";
+      }
+
+      if (action !== 'HOLD' && options.refineEntry) {
+          const check = confirmEntry(mtf, posSide!);
+          if (check.confirmed) {
+              reasoning += `, ${check.reason}`;
+          } else {
+              reasoning = `${reasoning || '4H 入场信号'}, 但信号待低周期确认: ${check.reason}, 观望`;
+              action = 'HOLD';
+              stopLoss = "0";
+          }
+      }
+      if (action !== 'HOLD') {
+          sizing = sizeStrategyOrder(state, spec, posSide!, parseFloat(stopLoss), candles4H, options.sizing);
+          if (sizing.contracts > 0) {
+              size = formatContracts(sizing.contracts, spec);
+          } else {
+              reasoning = `${reasoning}, 但仓位计算为 0, 观望: ${sizing.notes.join('; ')}`;
+              action = 'HOLD';
+              stopLoss = "0";
+          }
+      }
+  }
+  if (sizing && action !== 'HOLD') reasoning += ` [${formatSizing(sizing)}]`;
+
+  return {
+      stage_analysis: `规则引擎: EMA 4H ${ema.trend} (${crossText}), 多周期共振 ${mtf.confluence} (${mtf.bias})`,
+      market_assessment: reasoning,
+      hot_events_overview: "规则引擎模式不调用互联网情报",
+      eth_analysis: `EMA21: ${ema.ema21.toFixed(1)}, EMA55: ${ema.ema55.toFixed(1)}`,
+      trading_decision: {
+          action: action.toLowerCase() as AIDecision['trading_decision']['action'],
+          confidence: action === 'HOLD' ? "0%" : "100%",
+          position_size: size,
+          leverage: leverage.toString(),
+          profit_target: "0",
+          stop_loss: stopLoss,
+          invalidation_condition: posSide === 'short' ? "4H EMA21 上穿 EMA55 (金叉)" : "4H EMA21 下穿 EMA55 (死叉)",
+      },
+      reasoning,
+      action,
+      size,
+      leverage: leverage.toString(),
+      posSide,
+      source: 'RULE',
+      instId: spec.instId,
+      sizing: action === 'HOLD' ? undefined : sizing,
+  };
+};
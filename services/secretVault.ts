@@ -0,0 +1,151 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { SecretInfo, SecretName, SecretSource, SecretVaultStatus } from "../types";
+
+// --- Secret Vault (server only) ---
+// Credentials are encrypted with AES-256-GCM under a key derived from
+// VAULT_MASTER_KEY and written to DATA_DIR/secrets.json. Env vars (or .env)
+// take precedence at startup. Without a master key nothing touches disk.
+
+export const SECRET_NAMES: SecretName[] = ['okxApiKey', 'okxSecretKey', 'okxPassphrase', 'deepseekApiKey', 'geminiApiKey', 'openaiApiKey', 'telegramBotToken', 'smtpPassword'];
+
+export const SECRET_ENV_VARS: Record<SecretName, string> = {
+  okxApiKey: 'OKX_API_KEY',
+  okxSecretKey: 'OKX_SECRET_KEY',
+  okxPassphrase: 'OKX_PASSPHRASE',
+  deepseekApiKey: 'DEEPSEEK_API_KEY',
+  geminiApiKey: 'GEMINI_API_KEY',
+  openaiApiKey: 'OPENAI_API_KEY',
+  telegramBotToken: 'TELEGRAM_BOT_TOKEN',
+  smtpPassword: 'SMTP_PASSWORD',
+};
+
+interface EncryptedSecret {
+  iv: string;
+  tag: string;
+  data: string;
+  updatedAt: number;
+}
+
+interface VaultFile {
+  version: 1;
+  salt: string;
+  secrets: Partial<Record<SecretName, EncryptedSecret>>;
+}
+
+export const fingerprintSecret = (value: string) =>
+  'SHA256:' + crypto.createHash('sha256').update(value).digest('hex').slice(0, 12);
+
+export const createSecretVault = (file: string, masterKey: string | undefined) => {
+  const values = new Map<SecretName, { value: string; source: SecretSource; updatedAt: number }>();
+  let vaultFile: VaultFile = { version: 1, salt: crypto.randomBytes(16).toString('hex'), secrets: {} };
+  let key: Buffer | null = null;
+  // Cleared if the file exists but cannot be decrypted, so a wrong master key never overwrites it
+  let writable = !!masterKey;
+
+  const deriveKey = () => masterKey ? crypto.scryptSync(masterKey, vaultFile.salt, 32) : null;
+
+  const encrypt = (value: string, k: Buffer): EncryptedSecret => {
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv('aes-256-gcm', k, iv);
+    const data = Buffer.concat([cipher.update(value, 'utf8'), cipher.final()]);
+    return { iv: iv.toString('base64'), tag: cipher.getAuthTag().toString('base64'), data: data.toString('base64'), updatedAt: Date.now() };
+  };
+
+  const decrypt = (s: EncryptedSecret, k: Buffer): string => {
+    const decipher = crypto.createDecipheriv('aes-256-gcm', k, Buffer.from(s.iv, 'base64'));
+    decipher.setAuthTag(Buffer.from(s.tag, 'base64'));
+    return Buffer.concat([decipher.update(Buffer.from(s.data, 'base64')), decipher.final()]).toString('utf8');
+  };
+
+  // Serialized like the state store so rapid saves cannot interleave
+  let writeQueue: Promise<void> = Promise.resolve();
+  const persist = () => {
+    const snapshot = JSON.stringify(vaultFile, null, 2);
+    writeQueue = writeQueue.then(async () => {
+      await fs.promises.mkdir(path.dirname(file), { recursive: true });
+      const tmp = file + '.tmp';
+      await fs.promises.writeFile(tmp, snapshot, { mode: 0o600 });
+      await fs.promises.rename(tmp, file);
+    }).catch((e: any) => console.error(`[Vault] 写入失败 ${file}: ${e.message}`));
+  };
+
+  return {
+    // Returns warnings for the caller to surface in the system log
+    load: async (): Promise<string[]> => {
+      const warnings: string[] = [];
+      let exists = false;
+      try {
+        vaultFile = JSON.parse(await fs.promises.readFile(file, 'utf-8'));
+        exists = true;
+      } catch (e: any) {
+        if (e.code !== 'ENOENT') {
+          warnings.push(`密钥库文件损坏, 已停用写入: ${e.message}`);
+          writable = false;
+        }
+      }
+      key = deriveKey();
+
+      if (exists && !key) {
+        warnings.push('发现加密密钥库但未设置 VAULT_MASTER_KEY, 已存储的密钥无法加载');
+      } else if (exists && key) {
+        for (const name of SECRET_NAMES) {
+          const enc = vaultFile.secrets[name];
+          if (!enc) continue;
+          try {
+            values.set(name, { value: decrypt(enc, key), source: 'vault', updatedAt: enc.updatedAt });
+          } catch (e) {
+            // One key derives all entries, so the rest would fail the same way
+            warnings.push(`密钥库解密失败 (VAULT_MASTER_KEY 不匹配?), 已设为只读`);
+            writable = false;
+            values.clear();
+            break;
+          }
+        }
+      }
+
+      for (const name of SECRET_NAMES) {
+        const envValue = process.env[SECRET_ENV_VARS[name]];
+        if (envValue) values.set(name, { value: envValue, source: 'env', updatedAt: Date.now() });
+      }
+      return warnings;
+    },
+
+    get: (name: SecretName) => values.get(name)?.value || '',
+
+    // Empty value removes the secret. Returns the source it ended up in.
+    set: (name: SecretName, value: string): SecretSource | null => {
+      if (!value) {
+        values.delete(name);
+        if (writable && vaultFile.secrets[name]) {
+          delete vaultFile.secrets[name];
+          persist();
+        }
+        return null;
+      }
+      const source: SecretSource = writable && key ? 'vault' : 'memory';
+      values.set(name, { value, source, updatedAt: Date.now() });
+      if (source === 'vault') {
+        vaultFile.secrets[name] = encrypt(value, key!);
+        persist();
+      }
+      return source;
+    },
+
+    isPersistent: () => writable && !!key,
+
+    status: (): SecretVaultStatus => {
+      const keys: Partial<Record<SecretName, SecretInfo>> = {};
+      values.forEach((v, name) => {
+        keys[name] = { fingerprint: fingerprintSecret(v.value), source: v.source, updatedAt: v.updatedAt };
+      });
+      return { persistent: writable && !!key, keys };
+    },
+  };
+};
+
+export type SecretVault = ReturnType<typeof createSecretVault>;
+
+export const createVaultFromEnv = (): SecretVault =>
+  createSecretVault(path.join(process.env.DATA_DIR || path.join(process.cwd(), 'data'), 'secrets.json'), process.env.VAULT_MASTER_KEY);
@@ -0,0 +1,192 @@
+import { CandleData, InstrumentSpec, KellyStats, SizingConfig, SizingResult, StrategyState } from "../types";
+import { DEFAULT_SIZING_CONFIG, FALLBACK_INSTRUMENT_SPECS, KELLY_MIN_TRADES, MAINT_MARGIN_RATE, TAKER_FEE_RATE } from "../constants";
+import { createATR, runSeries, toBars } from "./indicators";
+
+// --- Contract Sizing Helpers (lot size / tick size aware) ---
+
+// Number of decimals implied by an increment (0.01 -> 2, 1 -> 0)
+const decimalsOf = (step: number): number => {
+  const str = step.toString();
+  if (str.includes('e-')) return parseInt(str.split('e-')[1]);
+  return str.includes('.') ? str.split('.')[1].length : 0;
+};
+
+// Floor a contract quantity to the instrument's lot size
+export const roundToLot = (contracts: number, spec: InstrumentSpec): number => {
+  if (!(contracts > 0)) return 0;
+  const lots = Math.floor(contracts / spec.lotSz + 1e-9);
+  return parseFloat((lots * spec.lotSz).toFixed(decimalsOf(spec.lotSz)));
+};
+
+// Order size string for OKX: lot-rounded, at least minSz
+export const formatContracts = (contracts: number, spec: InstrumentSpec): string => {
+  const size = Math.max(roundToLot(contracts, spec), spec.minSz);
+  return size.toFixed(decimalsOf(spec.lotSz));
+};
+
+// Price string rounded to the instrument's tick size
+export const formatPrice = (price: number, spec: InstrumentSpec): string => {
+  const ticks = Math.round(price / spec.tickSz);
+  return (ticks * spec.tickSz).toFixed(decimalsOf(spec.tickSz));
+};
+
+// Isolated liquidation estimate: margin + UPL <= maintenance margin
+export const estimateLiquidationPrice = (posSide: 'long' | 'short', avgPx: number, sizeCoin: number, margin: number): number => {
+  if (!(sizeCoin > 0)) return 0;
+  return posSide === 'long'
+    ? (avgPx * sizeCoin - margin) / (sizeCoin * (1 - MAINT_MARGIN_RATE))
+    : (avgPx * sizeCoin + margin) / (sizeCoin * (1 + MAINT_MARGIN_RATE));
+};
+
+// Offline spec: known instruments use FALLBACK_INSTRUMENT_SPECS, unknown ones a 1-coin contract
+export const getFallbackSpec = (instId: string): InstrumentSpec =>
+  FALLBACK_INSTRUMENT_SPECS[instId] || {
+    instId,
+    ctVal: 1,
+    ctValCcy: instId.split('-')[0],
+    lotSz: 1,
+    minSz: 1,
+    tickSz: 0.01,
+  };
+
+// --- Position Sizing ---
+// Each mode proposes a contract count; then, whatever the mode, the loss at
+// the actual stop is capped at maxRiskPct of equity, the margin at what is
+// available, and the count is rounded to the lot size. A count below minSz
+// becomes minSz only if that still fits both caps, otherwise 0 (no trade).
+
+export interface SizingOptions {
+  config: SizingConfig;
+  stats?: KellyStats | null; // Closed-trade stats for KELLY; configured inputs are used when missing or too few
+}
+
+export interface SizingInput extends SizingOptions {
+  posSide: 'long' | 'short';
+  price: number;
+  stopPrice: number; // 0 = none
+  atr: number | null;
+  totalEquity: number;
+  availableEquity: number;
+  leverage: number;
+  spec: InstrumentSpec;
+}
+
+// Win rate and average win / average loss of closed trades (net PnL)
+export const kellyStats = (pnls: number[]): KellyStats | null => {
+  const wins = pnls.filter(p => p > 0);
+  const losses = pnls.filter(p => p < 0);
+  if (wins.length === 0 || losses.length === 0) return null;
+  const avgWin = wins.reduce((sum, p) => sum + p, 0) / wins.length;
+  const avgLoss = -losses.reduce((sum, p) => sum + p, 0) / losses.length;
+  return { trades: pnls.length, winRate: wins.length / pnls.length, payoff: avgWin / avgLoss };
+};
+
+// Full Kelly share of equity to risk: W - (1 - W) / R
+export const kellyFraction = (winRate: number, payoff: number): number => payoff > 0 ? winRate - (1 - winRate) / payoff : 0;
+
+export const sizePosition = (input: SizingInput): SizingResult => {
+  const { config, stats, posSide, price, stopPrice, atr, totalEquity, availableEquity, leverage, spec } = input;
+  const notes: string[] = [];
+  const dir = posSide === 'long' ? 1 : -1;
+  const validStop = stopPrice > 0 && (price - stopPrice) * dir > 0;
+  const stopDistance = validStop ? Math.abs(price - stopPrice) : 0;
+  // USDT lost per contract if price moves `distance` against us, taker fee on entry and exit
+  const lossPerContract = (distance: number) => spec.ctVal * (distance + (2 * price - dir * distance) * TAKER_FEE_RATE);
+  const contractsForRisk = (riskPct: number, distance: number) => distance > 0 ? (totalEquity * riskPct / 100) / lossPerContract(distance) : 0;
+
+  let targetRiskPct = config.riskPct;
+  let contracts = 0;
+  switch (config.mode) {
+    case 'FIXED':
+      contracts = (totalEquity * config.fixedMarginPct / 100) * leverage / (spec.ctVal * price);
+      targetRiskPct = validStop ? (lossPerContract(stopDistance) * contracts / totalEquity) * 100 : 0;
+      if (!validStop) notes.push('无有效止损, 风险无法计量');
+      break;
+    case 'RISK':
+      contracts = contractsForRisk(targetRiskPct, stopDistance);
+      if (!validStop) notes.push('无有效止损, 无法按止损距离计算仓位');
+      break;
+    case 'ATR':
+      if (atr && atr > 0) {
+        contracts = contractsForRisk(targetRiskPct, atr * config.atrMultiple);
+      } else {
+        contracts = contractsForRisk(targetRiskPct, stopDistance);
+        notes.push('ATR 数据不足, 改用止损距离');
+      }
+      break;
+    case 'KELLY': {
+      const useStats = !!stats && stats.trades >= KELLY_MIN_TRADES;
+      const winRate = useStats ? stats!.winRate : config.kellyWinRate;
+      const payoff = useStats ? stats!.payoff : config.kellyPayoff;
+      const full = kellyFraction(winRate, payoff);
+      targetRiskPct = Math.min(Math.max(full * config.kellyFraction * 100, 0), config.maxRiskPct);
+      notes.push(`Kelly ${(full * 100).toFixed(1)}% x ${config.kellyFraction} (胜率 ${(winRate * 100).toFixed(0)}%, 盈亏比 ${payoff.toFixed(2)}, ${useStats ? `${stats!.trades} 笔历史交易` : '配置值'})`);
+      if (full <= 0) notes.push('Kelly 无正期望, 不开仓');
+      contracts = contractsForRisk(targetRiskPct, stopDistance);
+      if (!validStop) notes.push('无有效止损, 无法按止损距离计算仓位');
+      break;
+    }
+  }
+
+  const maxByRisk = validStop ? contractsForRisk(config.maxRiskPct, stopDistance) : Infinity;
+  if (contracts > maxByRisk) {
+    contracts = maxByRisk;
+    notes.push(`止损处亏损超过 ${config.maxRiskPct}% 上限, 已缩减`);
+  }
+  const costPerContract = spec.ctVal * price * (1 / leverage + TAKER_FEE_RATE);
+  const maxByMargin = Math.max(availableEquity, 0) / costPerContract;
+  if (contracts > maxByMargin) {
+    contracts = maxByMargin;
+    notes.push('可用保证金不足, 已缩减');
+  }
+
+  let rounded = roundToLot(contracts, spec);
+  if (contracts > 0 && rounded < spec.minSz) {
+    if (spec.minSz <= maxByRisk && spec.minSz <= maxByMargin) {
+      rounded = spec.minSz;
+      notes.push(`不足最小下单量, 按 ${spec.minSz} 张`);
+    } else {
+      rounded = 0;
+      notes.push(`最小下单量 ${spec.minSz} 张超出风险或保证金上限`);
+    }
+  }
+
+  const riskAmount = validStop ? lossPerContract(stopDistance) * rounded : 0;
+  return {
+    mode: config.mode,
+    contracts: rounded,
+    targetRiskPct,
+    stopPrice: validStop ? stopPrice : 0,
+    stopDistancePct: validStop ? (stopDistance / price) * 100 : 0,
+    riskAmount,
+    riskPct: totalEquity > 0 ? (riskAmount / totalEquity) * 100 : 0,
+    marginRequired: rounded * spec.ctVal * price / leverage,
+    notes,
+  };
+};
+
+// Opens and rolls for the strategy (AI and rule engine): equity and leverage from the state, ATR from 4H
+export const sizeStrategyOrder = (
+  state: StrategyState,
+  spec: InstrumentSpec,
+  posSide: 'long' | 'short',
+  stopPrice: number,
+  candles4H: CandleData[],
+  options: SizingOptions = { config: DEFAULT_SIZING_CONFIG }
+): SizingResult => {
+  const atr = runSeries(createATR(), toBars(candles4H));
+  return sizePosition({
+    ...options,
+    posSide,
+    price: state.price,
+    stopPrice,
+    atr: atr.length > 0 ? atr[atr.length - 1] : null,
+    totalEquity: state.totalEquity,
+    availableEquity: state.availableEquity,
+    leverage: state.leverage,
+    spec,
+  });
+};
+
+export const formatSizing = (s: SizingResult): string =>
+  `${s.mode} 仓位 ${s.contracts} 张, 止损距离 ${s.stopDistancePct.toFixed(2)}%, 止损亏损 ${s.riskAmount.toFixed(2)} U (${s.riskPct.toFixed(2)}% 权益)${s.notes.length > 0 ? `; ${s.notes.join('; ')}` : ''}`;
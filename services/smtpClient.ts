@@ -0,0 +1,160 @@
+import net from 'net';
+import tls from 'tls';
+
+// --- Minimal SMTP Client (server only) ---
+// Enough of RFC 5321 to hand one plain-text message to a relay: EHLO,
+// STARTTLS when offered, AUTH LOGIN, MAIL/RCPT/DATA, QUIT. Implicit TLS
+// (port 465) is `secure: true`. No dependency beyond node's net/tls.
+
+export interface SmtpOptions {
+  host: string;
+  port: number;
+  secure: boolean;
+  username: string; // Empty = skip AUTH
+  password: string;
+  timeoutMs: number;
+}
+
+export interface SmtpMail {
+  from: string;
+  to: string[];
+  subject: string;
+  text: string;
+}
+
+interface SmtpReply {
+  code: number;
+  text: string;
+}
+
+// "Bot <bot@example.com>" -> "bot@example.com"
+const bareAddress = (addr: string) => {
+  const m = addr.match(/<([^>]+)>/);
+  return (m ? m[1] : addr).trim();
+};
+
+const b64 = (s: string) => Buffer.from(s, 'utf-8').toString('base64');
+
+const buildMessage = (mail: SmtpMail) => {
+  const body = b64(mail.text).replace(/.{1,76}/g, '$&\r\n');
+  return [
+    `From: ${mail.from}`,
+    `To: ${mail.to.join(', ')}`,
+    `Subject: =?UTF-8?B?${b64(mail.subject)}?=`,
+    `Date: ${new Date().toUTCString()}`,
+    'MIME-Version: 1.0',
+    'Content-Type: text/plain; charset=UTF-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    body,
+  ].join('\r\n');
+};
+
+const connect = (opts: SmtpOptions) => new Promise<net.Socket>((resolve, reject) => {
+  const socket = opts.secure
+    ? tls.connect({ host: opts.host, port: opts.port, servername: net.isIP(opts.host) ? undefined : opts.host })
+    : net.connect({ host: opts.host, port: opts.port });
+  const timer = setTimeout(() => { socket.destroy(); reject(new Error('SMTP 连接超时')); }, opts.timeoutMs);
+  socket.once(opts.secure ? 'secureConnect' : 'connect', () => { clearTimeout(timer); resolve(socket); });
+  socket.once('error', (e) => { clearTimeout(timer); reject(e); });
+});
+
+// Reply reader over a socket that may be upgraded to TLS mid-session
+const createSession = (initial: net.Socket, timeoutMs: number) => {
+  let socket = initial;
+  let buffer = '';
+  let lines: string[] = [];
+  const replies: SmtpReply[] = [];
+  let failure: Error | null = null;
+  let pending: { resolve: (r: SmtpReply) => void; reject: (e: Error) => void } | null = null;
+
+  const flush = () => {
+    if (!pending) return;
+    const p = pending;
+    if (replies.length > 0) {
+      pending = null;
+      p.resolve(replies.shift()!);
+    } else if (failure) {
+      pending = null;
+      p.reject(failure);
+    }
+  };
+
+  const onData = (chunk: Buffer) => {
+    buffer += chunk.toString('utf-8');
+    let idx: number;
+    while ((idx = buffer.indexOf('\n')) >= 0) {
+      const line = buffer.slice(0, idx).replace(/\r$/, '');
+      buffer = buffer.slice(idx + 1);
+      lines.push(line);
+      // "250-..." continues a multi-line reply, "250 ..." ends it
+      if (/^\d{3}( |$)/.test(line)) {
+        replies.push({ code: parseInt(line.slice(0, 3)), text: lines.map(l => l.slice(4)).join('\n') });
+        lines = [];
+      }
+    }
+    flush();
+  };
+  const onError = (e: Error) => { failure = e; flush(); };
+  const onClose = () => { failure = failure || new Error('SMTP 连接被服务器关闭'); flush(); };
+
+  const attach = (s: net.Socket) => { s.on('data', onData); s.on('error', onError); s.on('close', onClose); };
+  const detach = (s: net.Socket) => { s.off('data', onData); s.off('error', onError); s.off('close', onClose); };
+  attach(socket);
+
+  const read = () => new Promise<SmtpReply>((resolve, reject) => {
+    const timer = setTimeout(() => { pending = null; reject(new Error('SMTP 响应超时')); }, timeoutMs);
+    pending = {
+      resolve: (r) => { clearTimeout(timer); resolve(r); },
+      reject: (e) => { clearTimeout(timer); reject(e); },
+    };
+    flush();
+  });
+
+  return {
+    // Write one line (null = just read, e.g. the greeting) and require one of the expected codes
+    command: async (line: string | null, expect: number[], label = line || 'greeting') => {
+      if (line !== null) socket.write(line + '\r\n');
+      const reply = await read();
+      if (!expect.includes(reply.code)) throw new Error(`SMTP ${label} 失败: ${reply.code} ${reply.text}`);
+      return reply;
+    },
+    startTls: (host: string) => new Promise<void>((resolve, reject) => {
+      detach(socket);
+      const secure = tls.connect({ socket, servername: net.isIP(host) ? undefined : host }, () => resolve());
+      secure.once('error', reject);
+      socket = secure;
+      attach(secure);
+    }),
+    close: () => socket.destroy(),
+  };
+};
+
+export const sendMail = async (opts: SmtpOptions, mail: SmtpMail) => {
+  if (!opts.host) throw new Error('SMTP 服务器未设置');
+  if (mail.to.length === 0) throw new Error('收件人为空');
+
+  const session = createSession(await connect(opts), opts.timeoutMs);
+  try {
+    await session.command(null, [220]);
+    let ehlo = await session.command('EHLO okx-bot', [250]);
+    if (!opts.secure && /^STARTTLS\b/im.test(ehlo.text)) {
+      await session.command('STARTTLS', [220]);
+      await session.startTls(opts.host);
+      ehlo = await session.command('EHLO okx-bot', [250]);
+    }
+    if (opts.username) {
+      await session.command('AUTH LOGIN', [334]);
+      await session.command(b64(opts.username), [334], 'AUTH 用户名');
+      await session.command(b64(opts.password), [235], 'AUTH 密码');
+    }
+    await session.command(`MAIL FROM:<${bareAddress(mail.from)}>`, [250]);
+    for (const rcpt of mail.to) await session.command(`RCPT TO:<${bareAddress(rcpt)}>`, [250, 251]);
+    await session.command('DATA', [354]);
+    // Base64 body never starts a line with '.', so no dot-stuffing is needed
+    await session.command(buildMessage(mail) + '\r\n.', [250], 'DATA 正文');
+    await session.command('QUIT', [221]).catch(() => {}); // Message already accepted
+  } finally {
+    session.close();
+  }
+};
@@ -0,0 +1,158 @@
+import { CandleData, CandleKey, InstrumentStatus, MarketDataCollection, MarketExtras, StatusSnapshot, StreamEvent } from "../types";
+
+// --- Dashboard Status Stream (shared by server and dashboard) ---
+// The server turns consecutive status snapshots into small events
+// (diffStatus) and the dashboard folds them back into its copy
+// (applyStreamEvent). Every event replaces or upserts, so applying one the
+// client already has (it connected between two diffs) is harmless.
+// Logs are not diffed: the server publishes each one as it is added.
+
+export const CANDLE_KEYS: CandleKey[] = ['candles3m', 'candles5m', 'candles15m', 'candles1H', 'candles4H'];
+
+// Serialized copy of what was last published (server state is mutated in place)
+interface InstrumentBaseline {
+  ticker: string;
+  market: string;
+  candles: Record<CandleKey, Map<string, string>>; // ts -> serialized bar
+  decision: string;
+  meta: string;
+}
+
+export interface StatusBaseline {
+  instIds: string;
+  status: string;
+  account: string;
+  instruments: Map<string, InstrumentBaseline>;
+}
+
+const marketExtras = (md: MarketDataCollection): MarketExtras => ({
+  fundingRate: md.fundingRate,
+  nextFundingTime: md.nextFundingTime,
+  fundingHistory: md.fundingHistory,
+  openInterest: md.openInterest,
+  orderbook: md.orderbook,
+  trades: md.trades,
+});
+
+const statusPart = (s: StatusSnapshot) => ({
+  isRunning: s.isRunning,
+  feed: s.feed,
+  config: s.config,
+  secrets: s.secrets,
+  reconciliation: s.reconciliation,
+});
+
+const instrumentBaseline = (inst: InstrumentStatus): InstrumentBaseline => {
+  const md = inst.marketData;
+  const candles = {} as InstrumentBaseline['candles'];
+  CANDLE_KEYS.forEach(key => {
+    candles[key] = new Map((md?.[key] || []).map(c => [c.ts, JSON.stringify(c)]));
+  });
+  return {
+    ticker: JSON.stringify(md?.ticker ?? null),
+    market: md ? JSON.stringify(marketExtras(md)) : '',
+    candles,
+    decision: JSON.stringify(inst.latestDecision),
+    meta: JSON.stringify({ spec: inst.spec, recentOrders: inst.recentOrders, ladders: inst.ladders, takeProfits: inst.takeProfits }),
+  };
+};
+
+export const createBaseline = (s: StatusSnapshot): StatusBaseline => ({
+  instIds: s.instruments.map(i => i.instId).join(','),
+  status: JSON.stringify(statusPart(s)),
+  account: JSON.stringify(s.accountData),
+  instruments: new Map(s.instruments.map(i => [i.instId, instrumentBaseline(i)])),
+});
+
+// Events that take a client from `prev` to `next`; a changed instrument list resends everything
+export const diffStatus = (prev: StatusBaseline | null, next: StatusSnapshot): { events: StreamEvent[]; baseline: StatusBaseline } => {
+  const baseline = createBaseline(next);
+  if (!prev || prev.instIds !== baseline.instIds) return { events: [{ type: 'snapshot', data: next }], baseline };
+
+  const events: StreamEvent[] = [];
+  if (prev.status !== baseline.status) events.push({ type: 'status', ...statusPart(next) });
+  if (prev.account !== baseline.account) events.push({ type: 'account', accountData: next.accountData });
+
+  next.instruments.forEach(inst => {
+    const instId = inst.instId;
+    const before = prev.instruments.get(instId)!;
+    const after = baseline.instruments.get(instId)!;
+    const md = inst.marketData;
+    if (before.meta !== after.meta) events.push({ type: 'instrument', instId, spec: inst.spec, recentOrders: inst.recentOrders, ladders: inst.ladders, takeProfits: inst.takeProfits });
+    if (before.decision !== after.decision) events.push({ type: 'decision', instId, decision: inst.latestDecision });
+    if (!md) return;
+    if (before.ticker !== after.ticker) events.push({ type: 'ticker', instId, ticker: md.ticker });
+    CANDLE_KEYS.forEach(key => {
+      const series = md[key];
+      const changed = series.filter(c => before.candles[key].get(c.ts) !== after.candles[key].get(c.ts));
+      if (changed.length === 0) return;
+      // A live series only trims old bars; one rebuilt with new timestamps (REST reload, mock data) is sent whole
+      const firstTs = parseInt(series[0].ts);
+      const rebuilt = Array.from(before.candles[key].keys()).some(ts => parseInt(ts) >= firstTs && !after.candles[key].has(ts));
+      events.push(rebuilt
+        ? { type: 'candles', instId, key, candles: series, total: series.length, replace: true }
+        : { type: 'candles', instId, key, candles: changed, total: series.length, replace: false });
+    });
+    if (before.market !== after.market) events.push({ type: 'market', instId, market: marketExtras(md) });
+  });
+  return { events, baseline };
+};
+
+const emptyMarketData = (): MarketDataCollection => ({
+  ticker: null,
+  candles3m: [],
+  candles5m: [],
+  candles15m: [],
+  candles1H: [],
+  candles4H: [],
+  fundingRate: '0',
+  nextFundingTime: '0',
+  fundingHistory: [],
+  openInterest: '0',
+  orderbook: null,
+  trades: [],
+});
+
+// Replace bars by ts, keep ascending order and the server's series length
+const upsertCandles = (candles: CandleData[], bars: CandleData[], total: number, replace: boolean) => {
+  if (replace) return bars;
+  const byTs = new Map(candles.map(c => [c.ts, c]));
+  bars.forEach(b => byTs.set(b.ts, b));
+  return Array.from(byTs.values()).sort((a, b) => parseInt(a.ts) - parseInt(b.ts)).slice(-total);
+};
+
+const updateInstrument = (s: StatusSnapshot, instId: string, fn: (inst: InstrumentStatus) => InstrumentStatus): StatusSnapshot => ({
+  ...s,
+  instruments: s.instruments.map(i => (i.instId === instId ? fn(i) : i)),
+});
+
+const updateMarket = (s: StatusSnapshot, instId: string, fn: (md: MarketDataCollection) => MarketDataCollection) =>
+  updateInstrument(s, instId, inst => ({ ...inst, marketData: fn(inst.marketData || emptyMarketData()) }));
+
+// Unchanged parts keep their identity so React skips them
+export const applyStreamEvent = (state: StatusSnapshot | null, ev: StreamEvent): StatusSnapshot | null => {
+  if (ev.type === 'snapshot') return ev.data;
+  if (!state) return state; // Nothing to patch until the first snapshot
+  switch (ev.type) {
+    case 'status': {
+      const { type, ...rest } = ev;
+      return { ...state, ...rest };
+    }
+    case 'account':
+      return { ...state, accountData: ev.accountData };
+    case 'log':
+      return { ...state, logs: [...state.logs, ev.log].slice(-state.config.retention.maxLogs) };
+    case 'instrument':
+      return updateInstrument(state, ev.instId, inst => ({ ...inst, spec: ev.spec, recentOrders: ev.recentOrders, ladders: ev.ladders, takeProfits: ev.takeProfits }));
+    case 'decision':
+      return updateInstrument(state, ev.instId, inst => ({ ...inst, latestDecision: ev.decision }));
+    case 'ticker':
+      return updateMarket(state, ev.instId, md => ({ ...md, ticker: ev.ticker }));
+    case 'candles':
+      return updateMarket(state, ev.instId, md => ({ ...md, [ev.key]: upsertCandles(md[ev.key], ev.candles, ev.total, ev.replace) }));
+    case 'market':
+      return updateMarket(state, ev.instId, md => ({ ...md, ...ev.market }));
+    default:
+      return state;
+  }
+};
@@ -0,0 +1,209 @@
+import { CandleData, InstrumentSpec, MarketDataCollection, PositionData, StopManagerConfig, StopMoveReason, StopTarget, SystemLog } from "../types";
+import { STOP_MIN_GAP_PCT, STOP_MIN_STEP_PCT, TAKER_FEE_RATE, TRAIL_RESPREAD_PCT } from "../constants";
+import { createATR, runSeries, toBars } from "./indicators";
+import { formatPrice } from "./sizingService";
+
+// --- Server-Side Stop Manager ---
+// Runs on every loop tick for each open long/short position, without waiting
+// for an AI call. The rules propose stop prices (break-even, ATR or 4H candle
+// trail, a step after each roll); the best one replaces the exchange stop when
+// it improves it. Stops only move in the position's favour and keep a minimum
+// gap to the price. With native trailing on, the ATR trail is left to an OKX
+// move_order_stop instead.
+
+type Side = 'long' | 'short';
+
+const FOUR_HOURS_MS = 4 * 60 * 60 * 1000;
+
+export const STOP_REASON_LABELS: Record<StopMoveReason, string> = {
+  BREAK_EVEN: '保本',
+  TRAIL_ATR: 'ATR 跟踪',
+  TRAIL_CANDLE: '4H K线跟踪',
+  ROLL_STEP: '滚仓上移',
+};
+
+export interface StopManagerDeps {
+  getConfig: () => StopManagerConfig;
+  replaceStopLoss: (instId: string, posSide: Side, size: string, slPrice: string) => Promise<unknown>;
+  placeTrailingStop: (instId: string, posSide: Side, size: string, callbackSpread: string) => Promise<string>;
+  onLog: (type: SystemLog['type'], message: string) => void;
+}
+
+export interface StopContext {
+  position: PositionData;
+  marketData: MarketDataCollection;
+  spec: InstrumentSpec;
+  netRoePct: number; // Net ROE of the position, %
+  now?: number;
+}
+
+// Exchange break-even (fees and funding) when reported, else entry plus taker fees both ways
+export const breakEvenPrice = (position: PositionData): number => {
+  const be = parseFloat(position.breakEvenPx || "0");
+  if (be > 0) return be;
+  const avgPx = parseFloat(position.avgPx);
+  return position.posSide === 'short'
+    ? avgPx * (1 - TAKER_FEE_RATE) / (1 + TAKER_FEE_RATE)
+    : avgPx * (1 + TAKER_FEE_RATE) / (1 - TAKER_FEE_RATE);
+};
+
+// The forming candle is the last one in the series; the trail uses the newest candle that has closed
+export const lastClosedCandle = (candles: CandleData[], now: number): CandleData | null => {
+  for (let i = candles.length - 1; i >= 0; i--) {
+    if (parseInt(candles[i].ts) + FOUR_HOURS_MS <= now) return candles[i];
+  }
+  return null;
+};
+
+export const latestAtr = (candles: CandleData[]): number | null => {
+  const atr = runSeries(createATR(), toBars(candles));
+  return atr.length > 0 ? atr[atr.length - 1] : null;
+};
+
+// Stops the rules ask for at this ROE; rollStepPx is the pre-roll break-even waiting to be applied
+export const proposeStops = (
+  cfg: StopManagerConfig,
+  ctx: StopContext,
+  opts: { atr: number | null; includeAtrTrail: boolean; rollStepPx: number }
+): StopTarget[] => {
+  const side: Side = ctx.position.posSide;
+  const price = parseFloat(ctx.marketData.ticker?.last || "0");
+  const targets: StopTarget[] = [];
+
+  if (cfg.breakEvenRoePct > 0 && ctx.netRoePct >= cfg.breakEvenRoePct) {
+    targets.push({ price: breakEvenPrice(ctx.position), reason: 'BREAK_EVEN' });
+  }
+  if (ctx.netRoePct >= cfg.trailActivationRoePct) {
+    if (cfg.trailMode === 'ATR' && opts.includeAtrTrail && opts.atr && opts.atr > 0) {
+      const distance = opts.atr * cfg.trailAtrMultiple;
+      targets.push({ price: side === 'long' ? price - distance : price + distance, reason: 'TRAIL_ATR' });
+    }
+    if (cfg.trailMode === 'CANDLE') {
+      const candle = lastClosedCandle(ctx.marketData.candles4H || [], ctx.now ?? Date.now());
+      if (candle) targets.push({ price: parseFloat(side === 'long' ? candle.l : candle.h), reason: 'TRAIL_CANDLE' });
+    }
+  }
+  if (cfg.stepOnRoll && opts.rollStepPx > 0) targets.push({ price: opts.rollStepPx, reason: 'ROLL_STEP' });
+  return targets.filter(t => t.price > 0);
+};
+
+const isBetter = (side: Side, a: number, b: number) => (side === 'long' ? a > b : a < b);
+
+// Most protective candidate that beats `current` by STOP_MIN_STEP_PCT and stays STOP_MIN_GAP_PCT from price
+export const pickStop = (side: Side, price: number, current: number, candidates: StopTarget[]): StopTarget | null => {
+  const gap = price * STOP_MIN_GAP_PCT / 100;
+  const step = price * STOP_MIN_STEP_PCT / 100;
+  const valid = candidates.filter(t => {
+    const clear = side === 'long' ? t.price <= price - gap : t.price >= price + gap;
+    const improves = !(current > 0) || (side === 'long' ? t.price >= current + step : t.price <= current - step);
+    return clear && improves;
+  });
+  return valid.reduce<StopTarget | null>((best, t) => (!best || isBetter(side, t.price, best.price) ? t : best), null);
+};
+
+// Per position (instId:posSide, reset when cTime changes)
+interface ManagedStop {
+  openedAt: string;
+  contracts: number;
+  bePx: number;
+  stopPx: number; // Best stop known on the exchange
+  placedSize: number; // Size of the stop we placed, 0 = none yet
+  rollStepPx: number;
+  trailing: { spread: number; size: number } | null; // Native move_order_stop we placed
+  noted: boolean; // Stop placed elsewhere this tick, the position snapshot does not show it yet
+  lastError: string;
+}
+
+export const createStopManager = (deps: StopManagerDeps) => {
+  const managed = new Map<string, ManagedStop>();
+
+  const reportError = (s: ManagedStop, instId: string, message: string) => {
+    if (message !== s.lastError) deps.onLog('ERROR', `[${instId}] ${message}`);
+    s.lastError = message;
+  };
+
+  const manage = async (ctx: StopContext) => {
+    const cfg = deps.getConfig();
+    const { position, spec, marketData } = ctx;
+    if (!cfg.enabled) return;
+    const side: Side = position.posSide;
+    const instId = position.instId;
+    const price = parseFloat(marketData.ticker?.last || "0");
+    const contracts = parseFloat(position.pos);
+    if (!(price > 0) || !(contracts > 0)) return;
+
+    const key = `${instId}:${side}`;
+    let s = managed.get(key);
+    if (!s || s.openedAt !== position.cTime) {
+      s = { openedAt: position.cTime, contracts, bePx: breakEvenPrice(position), stopPx: 0, placedSize: 0, rollStepPx: 0, trailing: null, noted: false, lastError: '' };
+      managed.set(key, s);
+    }
+
+    // A roll raises the size: remember the break-even from before it for the roll step
+    if (contracts > s.contracts && cfg.stepOnRoll) s.rollStepPx = s.bePx;
+    if (contracts !== s.contracts) {
+      s.contracts = contracts;
+      s.bePx = breakEvenPrice(position);
+    }
+
+    // Stops placed elsewhere (order attach, AI UPDATE_TPSL) count if they are better
+    const exchangeStop = parseFloat(position.slTriggerPx || "0");
+    if (exchangeStop > 0 && (!(s.stopPx > 0) || isBetter(side, exchangeStop, s.stopPx))) s.stopPx = exchangeStop;
+    if (s.rollStepPx > 0 && s.stopPx > 0 && !isBetter(side, s.rollStepPx, s.stopPx)) s.rollStepPx = 0;
+
+    const atr = latestAtr(marketData.candles4H || []);
+    const native = cfg.trailMode === 'ATR' && cfg.nativeTrailing;
+    const target = pickStop(side, price, s.stopPx, proposeStops(cfg, ctx, { atr, includeAtrTrail: !native, rollStepPx: s.rollStepPx }));
+    // Our stop covers a fixed size, so a roll or partial close re-places it at the same price;
+    // so does a missing or looser stop on the exchange (cancelled by hand, replaced by UPDATE_TPSL)
+    const resync = s.placedSize > 0 && !s.noted && (s.placedSize !== contracts || !(exchangeStop > 0) || isBetter(side, s.stopPx, exchangeStop));
+    s.noted = false;
+
+    if (target || resync) {
+      const slPx = formatPrice(target ? target.price : s.stopPx, spec);
+      try {
+        await deps.replaceStopLoss(instId, side, position.pos, slPx);
+        deps.onLog('SUCCESS', target
+          ? `[${instId}] 止损${side === 'long' ? '上移' : '下移'} ${s.stopPx > 0 ? s.stopPx : '无'} -> ${slPx} (${STOP_REASON_LABELS[target.reason]}, 净收益率 ${ctx.netRoePct.toFixed(2)}%)`
+          : `[${instId}] 止损 ${slPx} 已按 ${position.pos} 张重新挂出`);
+        s.stopPx = parseFloat(slPx);
+        s.placedSize = contracts;
+        if (target?.reason === 'ROLL_STEP') s.rollStepPx = 0;
+        s.lastError = '';
+      } catch (e: any) {
+        reportError(s, instId, e.message);
+      }
+    }
+
+    if (native && atr && atr > 0 && ctx.netRoePct >= cfg.trailActivationRoePct) {
+      const spread = parseFloat(formatPrice(atr * cfg.trailAtrMultiple, spec));
+      const drift = s.trailing ? Math.abs(spread - s.trailing.spread) / s.trailing.spread * 100 : 0;
+      if (spread > 0 && (!s.trailing || s.trailing.size !== contracts || drift > TRAIL_RESPREAD_PCT)) {
+        try {
+          await deps.placeTrailingStop(instId, side, position.pos, spread.toString());
+          deps.onLog('SUCCESS', `[${instId}] 原生移动止损已${s.trailing ? '更新' : '设置'}: 回调 ${spread} (${cfg.trailAtrMultiple} x ATR), ${position.pos} 张`);
+          s.trailing = { spread, size: contracts };
+          s.lastError = '';
+        } catch (e: any) {
+          reportError(s, instId, e.message);
+        }
+      }
+    }
+  };
+
+  return {
+    manage,
+    // A stop placed for the full size elsewhere (after a roll) counts as ours, so it is not re-placed
+    noteStop: (instId: string, posSide: Side, size: number, slPrice: number) => {
+      const s = managed.get(`${instId}:${posSide}`);
+      if (!s) return;
+      s.stopPx = slPrice;
+      s.placedSize = size;
+      s.noted = true;
+    },
+    // Drop state of positions that are gone
+    prune: (openKeys: string[]) => {
+      Array.from(managed.keys()).filter(k => !openKeys.includes(k)).forEach(k => managed.delete(k));
+    },
+  };
+};
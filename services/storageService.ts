@@ -0,0 +1,165 @@
+import fs from 'fs';
+import path from 'path';
+import { AIDecision, AppConfig, AuditEntry, PersistedState, RetentionConfig, SystemLog, TrackedOrder, TradeRecord, UserAccount } from "../types";
+import { MAX_AUDIT_ENTRIES, MAX_JOURNAL_TRADES, MAX_TRACKED_ORDERS } from "../constants";
+
+// --- Persistence Layer ---
+// Server state (decisions, logs, equity, config, users, audit trail, orders, trade journal) survives restarts/redeploys.
+// Pick a driver with STORAGE_DRIVER=jsonl|memory, files go to DATA_DIR (default ./data).
+
+export interface StateStore {
+  load: (retention: RetentionConfig) => Promise<PersistedState>;
+  appendDecision: (decision: AIDecision) => void;
+  appendLog: (log: SystemLog) => void;
+  appendEquity: (equity: number) => void;
+  saveConfig: (config: AppConfig) => void;
+  saveUsers: (users: UserAccount[]) => void;
+  appendAudit: (entry: AuditEntry) => void;
+  appendOrder: (order: TrackedOrder) => void; // Finalized orders only
+  appendTrade: (trade: TradeRecord) => void; // Closed round-trips only
+  setRetention: (retention: RetentionConfig) => void;
+}
+
+// No-op store: state lives only in memory (previous behaviour)
+export const createMemoryStore = (): StateStore => ({
+  load: async () => ({ config: null, decisions: [], logs: [], equityHistory: [], users: [], audit: [], orders: [], trades: [] }),
+  appendDecision: () => {},
+  appendLog: () => {},
+  appendEquity: () => {},
+  saveConfig: () => {},
+  saveUsers: () => {},
+  appendAudit: () => {},
+  appendOrder: () => {},
+  appendTrade: () => {},
+  setRetention: () => {},
+});
+
+// JSON-lines store: one append-only file per collection, compacted to the
+// retention limit once it grows past twice that size.
+export const createJsonlStore = (dataDir: string): StateStore => {
+  const files = {
+    decisions: path.join(dataDir, 'decisions.jsonl'),
+    logs: path.join(dataDir, 'logs.jsonl'),
+    equity: path.join(dataDir, 'equity.jsonl'),
+    config: path.join(dataDir, 'config.json'),
+    users: path.join(dataDir, 'users.json'),
+    audit: path.join(dataDir, 'audit.jsonl'),
+    orders: path.join(dataDir, 'orders.jsonl'),
+    trades: path.join(dataDir, 'journal.jsonl'),
+  };
+  const lineCounts: Record<string, number> = {};
+  let retention: RetentionConfig | null = null;
+
+  // Serialize writes per file so appends and compactions never interleave
+  const queues = new Map<string, Promise<void>>();
+  const enqueue = (file: string, task: () => Promise<void>) => {
+    const prev = queues.get(file) || Promise.resolve();
+    const next = prev.then(task).catch((e: any) => console.error(`[Storage] 写入失败 ${file}: ${e.message}`));
+    queues.set(file, next);
+  };
+
+  const readLines = async (file: string): Promise<any[]> => {
+    try {
+      const text = await fs.promises.readFile(file, 'utf-8');
+      const items: any[] = [];
+      for (const line of text.split('\n')) {
+        if (!line.trim()) continue;
+        try {
+          items.push(JSON.parse(line));
+        } catch (e) {
+          // Skip a torn last line from a crash mid-write
+        }
+      }
+      return items;
+    } catch (e: any) {
+      if (e.code === 'ENOENT') return [];
+      throw e;
+    }
+  };
+
+  const writePrivate = (file: string, data: unknown) => enqueue(file, async () => {
+    const tmp = file + '.tmp';
+    await fs.promises.writeFile(tmp, JSON.stringify(data, null, 2), { mode: 0o600 });
+    await fs.promises.rename(tmp, file);
+  });
+
+  const append = (file: string, record: unknown, limit: () => number | undefined) => {
+    enqueue(file, async () => {
+      await fs.promises.appendFile(file, JSON.stringify(record) + '\n');
+      lineCounts[file] = (lineCounts[file] || 0) + 1;
+
+      const max = limit();
+      if (max && lineCounts[file] > max * 2) {
+        const kept = (await readLines(file)).slice(-max);
+        const tmp = file + '.tmp';
+        await fs.promises.writeFile(tmp, kept.map(r => JSON.stringify(r)).join('\n') + '\n');
+        await fs.promises.rename(tmp, file);
+        lineCounts[file] = kept.length;
+      }
+    });
+  };
+
+  return {
+    load: async (initialRetention) => {
+      retention = initialRetention;
+      await fs.promises.mkdir(dataDir, { recursive: true });
+
+      let config: AppConfig | null = null;
+      try {
+        config = JSON.parse(await fs.promises.readFile(files.config, 'utf-8'));
+      } catch (e: any) {
+        if (e.code !== 'ENOENT') console.error(`[Storage] 配置文件损坏, 使用默认配置: ${e.message}`);
+      }
+      // Saved config may carry its own retention policy
+      const r = config?.retention || initialRetention;
+      retention = r;
+
+      let users: UserAccount[] = [];
+      try {
+        users = JSON.parse(await fs.promises.readFile(files.users, 'utf-8'));
+      } catch (e: any) {
+        if (e.code !== 'ENOENT') console.error(`[Storage] 用户文件损坏, 忽略: ${e.message}`);
+      }
+
+      const decisions = await readLines(files.decisions);
+      const logs = await readLines(files.logs);
+      const equity = await readLines(files.equity);
+      lineCounts[files.decisions] = decisions.length;
+      lineCounts[files.logs] = logs.length;
+      lineCounts[files.equity] = equity.length;
+      const audit = await readLines(files.audit);
+      lineCounts[files.audit] = audit.length;
+      const orders = await readLines(files.orders);
+      lineCounts[files.orders] = orders.length;
+      const trades = await readLines(files.trades);
+      lineCounts[files.trades] = trades.length;
+
+      return {
+        config,
+        decisions: (decisions as AIDecision[]).slice(-r.maxDecisions).reverse(),
+        logs: (logs as SystemLog[]).slice(-r.maxLogs).map(l => ({ ...l, timestamp: new Date(l.timestamp) })),
+        equityHistory: equity.map((e: any) => Number(e.eq)).filter(v => !isNaN(v)).slice(-r.maxEquityPoints),
+        users: Array.isArray(users) ? users : [],
+        audit: (audit as AuditEntry[]).slice(-MAX_AUDIT_ENTRIES),
+        orders: (orders as TrackedOrder[]).slice(-MAX_TRACKED_ORDERS),
+        trades: (trades as TradeRecord[]).slice(-MAX_JOURNAL_TRADES),
+      };
+    },
+    appendDecision: (decision) => append(files.decisions, decision, () => retention?.maxDecisions),
+    appendLog: (log) => append(files.logs, log, () => retention?.maxLogs),
+    appendEquity: (equity) => append(files.equity, { ts: Date.now(), eq: equity }, () => retention?.maxEquityPoints),
+    // Both contain credentials: owner read/write only
+    saveConfig: (config) => writePrivate(files.config, config),
+    saveUsers: (users) => writePrivate(files.users, users),
+    appendAudit: (entry) => append(files.audit, entry, () => MAX_AUDIT_ENTRIES),
+    appendOrder: (order) => append(files.orders, order, () => MAX_TRACKED_ORDERS),
+    appendTrade: (trade) => append(files.trades, trade, () => MAX_JOURNAL_TRADES),
+    setRetention: (r) => { retention = r; },
+  };
+};
+
+export const createStoreFromEnv = (): StateStore => {
+  const driver = (process.env.STORAGE_DRIVER || 'jsonl').toLowerCase();
+  if (driver === 'memory') return createMemoryStore();
+  return createJsonlStore(process.env.DATA_DIR || path.join(process.cwd(), 'data'));
+};
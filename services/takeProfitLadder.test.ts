@@ -0,0 +1,63 @@
+import { describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { PositionData } from "../types";
+import { DEFAULT_TAKE_PROFIT_CONFIG, RECONCILE_SETTLE_MS } from "../constants";
+import { createOrderTracker } from "./orderTracker";
+import { createTakeProfitLadder } from "./takeProfitLadder";
+import { getFallbackSpec } from "./sizingService";
+
+const spec = getFallbackSpec('ETH-USDT-SWAP');
+
+const position = (pos: string): PositionData => ({
+  instId: 'ETH-USDT-SWAP', posSide: 'long', pos, avgPx: '3000', upl: '0', uplRatio: '0',
+  mgnMode: 'isolated', margin: '60', liqPx: '2730', cTime: '1', slTriggerPx: '2900',
+});
+
+describe('takeProfitLadder', () => {
+  it('reports a filled level to the order tracker so reconcile sees no drift', async () => {
+    let now = 1_000_000;
+    mock.method(Date, 'now', () => now);
+    try {
+      const logs: string[] = [];
+      const tracker = createOrderTracker({
+        fetchOrder: async () => null,
+        fetchAlgoOrders: async () => [],
+        fetchClosedPositions: async () => [],
+        onLog: (type, message) => logs.push(`${type} ${message}`),
+        onOrderFinal: () => undefined,
+      });
+      let pending: string[] = [];
+      const ladder = createTakeProfitLadder({
+        getConfig: () => ({ ...DEFAULT_TAKE_PROFIT_CONFIG, enabled: true }),
+        fetchPendingAlgoIds: async () => pending,
+        placeTakeProfit: async () => {
+          const algoId = `tp-${pending.length + 1}`;
+          pending = [...pending, algoId];
+          return algoId;
+        },
+        cancelAlgos: async () => undefined,
+        onFilled: (instId, posSide, contracts) => tracker.noteReduced(instId, posSide, contracts),
+        onLog: (type, message) => logs.push(`${type} ${message}`),
+      });
+
+      await tracker.reconcile([position('10')]); // Baseline
+      await ladder.sync(position('10'), spec, 3050);
+      const first = ladder.getLadders('ETH-USDT-SWAP')[0].levels[0];
+      assert.equal(first.status, 'PLACED');
+      assert.equal(first.contracts, 3);
+
+      // 1R level filled on the exchange: its order is gone and the position shrank
+      pending = pending.filter(id => id !== first.algoId);
+      await ladder.sync(position('7'), spec, 3100);
+      assert.equal(ladder.getLadders('ETH-USDT-SWAP')[0].levels[0].status, 'FILLED');
+
+      now += RECONCILE_SETTLE_MS + 1;
+      const report = await tracker.reconcile([position('7')]);
+      assert.deepEqual(report.drifts, []);
+      assert.equal(report.inSync, true);
+      assert.ok(!logs.some(l => l.includes('持仓对账偏差')), logs.join('\n'));
+    } finally {
+      mock.restoreAll();
+    }
+  });
+});
@@ -0,0 +1,162 @@
+import { InstrumentSpec, PositionData, SystemLog, TakeProfitConfig, TakeProfitLadder } from "../types";
+import { STOP_MIN_GAP_PCT } from "../constants";
+import { formatContracts, formatPrice, roundToLot } from "./sizingService";
+
+// --- Partial Take-Profit Ladder ---
+// Each configured level is its own reduce-only TP algo order at N x R from the
+// average price, R being the entry-to-stop distance the position opened with.
+// Level sizes are shares of the basis (entry size plus rolls), never more
+// than the position still holds. Every loop tick the orders are checked: a
+// level whose order is gone after the position shrank (or price reached it)
+// is filled, any other missing order is placed again; a roll or a different
+// average re-places the open levels at the new size and price.
+
+type Side = 'long' | 'short';
+
+export interface TakeProfitDeps {
+  getConfig: () => TakeProfitConfig;
+  fetchPendingAlgoIds: (instId: string) => Promise<string[]>;
+  placeTakeProfit: (instId: string, posSide: Side, size: string, tpPrice: string) => Promise<string>;
+  cancelAlgos: (instId: string, algoIds: string[]) => Promise<unknown>;
+  onFilled: (instId: string, posSide: Side, contracts: number) => void;
+  onLog: (type: SystemLog['type'], message: string) => void;
+}
+
+// Per position (instId:posSide, reset when cTime changes)
+interface TrackedTakeProfits {
+  ladder: TakeProfitLadder;
+  contracts: number;
+  lastNote: string;
+}
+
+export const createTakeProfitLadder = (deps: TakeProfitDeps) => {
+  const tracked = new Map<string, TrackedTakeProfits>();
+
+  const note = (t: TrackedTakeProfits, type: SystemLog['type'], message: string) => {
+    if (message !== t.lastNote) deps.onLog(type, `[${t.ladder.instId}] ${message}`);
+    t.lastNote = message;
+  };
+
+  const sync = async (position: PositionData, spec: InstrumentSpec, price: number) => {
+    const cfg = deps.getConfig();
+    if (!cfg.enabled || cfg.levels.length === 0) return;
+    const side: Side = position.posSide;
+    const instId = position.instId;
+    const contracts = parseFloat(position.pos);
+    const avgPx = parseFloat(position.avgPx);
+    if (!(contracts > 0) || !(avgPx > 0) || !(price > 0)) return;
+
+    const key = `${instId}:${side}`;
+    let t = tracked.get(key);
+    if (!t || t.ladder.openedAt !== position.cTime) {
+      t = {
+        ladder: {
+          instId,
+          posSide: side,
+          openedAt: position.cTime,
+          riskPerUnit: 0,
+          basis: contracts,
+          levels: cfg.levels.map(l => ({ ...l, price: 0, contracts: 0, status: 'WAITING' as const, algoId: '' })),
+        },
+        contracts,
+        lastNote: '',
+      };
+      tracked.set(key, t);
+    }
+    const { ladder } = t;
+
+    // R is fixed by the first stop seen on the correct side of the entry
+    if (!(ladder.riskPerUnit > 0)) {
+      const stop = parseFloat(position.slTriggerPx || "0");
+      const risk = side === 'long' ? avgPx - stop : stop - avgPx;
+      if (!(stop > 0) || !(risk > 0)) return note(t, 'INFO', '持仓尚无开仓止损, 无法计算 R, 止盈阶梯等待中');
+      if (risk < avgPx * STOP_MIN_GAP_PCT / 100) return note(t, 'WARNING', `止损距离 ${risk.toFixed(2)} 过小, 不按 R 挂止盈阶梯`);
+      ladder.riskPerUnit = risk;
+    }
+
+    const shrank = contracts < t.contracts;
+    if (contracts > t.contracts) ladder.basis += contracts - t.contracts;
+    t.contracts = contracts;
+
+    const reached = (px: number) => (side === 'long' ? price >= px : price <= px);
+
+    // Placed levels that left the pending list
+    const placed = ladder.levels.filter(l => l.status === 'PLACED');
+    if (placed.length > 0) {
+      let pending: string[];
+      try {
+        pending = await deps.fetchPendingAlgoIds(instId);
+      } catch (e: any) {
+        return note(t, 'ERROR', `止盈阶梯同步失败: ${e.message}`);
+      }
+      placed.filter(l => !pending.includes(l.algoId)).forEach(l => {
+        const n = ladder.levels.indexOf(l) + 1;
+        if (shrank || reached(l.price)) {
+          l.status = 'FILLED';
+          deps.onFilled(instId, side, l.contracts);
+          deps.onLog('TRADE', `[${instId}] 止盈第 ${n} 档 (${l.rMultiple}R) 已成交: ${formatContracts(l.contracts, spec)} 张 @ ${l.price}`);
+        } else {
+          l.status = 'WAITING';
+          l.algoId = '';
+          deps.onLog('WARNING', `[${instId}] 止盈第 ${n} 档委托已不在挂单列表, 重新挂出`);
+        }
+      });
+    }
+
+    // Open levels at the current average and basis
+    let left = contracts;
+    const toCancel: string[] = [];
+    for (const [i, l] of Array.from(ladder.levels.entries())) {
+      if (l.status === 'FILLED') continue;
+      const px = parseFloat(formatPrice(side === 'long' ? avgPx + l.rMultiple * ladder.riskPerUnit : avgPx - l.rMultiple * ladder.riskPerUnit, spec));
+      const sz = Math.min(roundToLot(ladder.basis * l.sizePct / 100, spec), roundToLot(left, spec));
+      left -= sz;
+      if (l.status === 'PLACED' && px === l.price && sz === l.contracts) continue;
+
+      const old = l.status === 'PLACED' ? { algoId: l.algoId, price: l.price, contracts: l.contracts } : null;
+      l.price = px;
+      l.contracts = sz;
+      if (sz < spec.minSz || reached(px)) {
+        // Not placeable now; drop an outdated order and wait
+        if (old) toCancel.push(old.algoId);
+        l.status = 'WAITING';
+        l.algoId = '';
+        continue;
+      }
+      try {
+        l.algoId = await deps.placeTakeProfit(instId, side, formatContracts(sz, spec), formatPrice(px, spec));
+        l.status = 'PLACED';
+        if (old) toCancel.push(old.algoId);
+        t.lastNote = '';
+        deps.onLog('SUCCESS', `[${instId}] 止盈第 ${i + 1} 档${old ? '已更新' : '已挂出'}: ${l.rMultiple}R @ ${formatPrice(px, spec)}, ${formatContracts(sz, spec)} 张 (${l.sizePct}%)`);
+      } catch (e: any) {
+        // The old order, if any, still stands and is retried next tick
+        if (old) Object.assign(l, old);
+        else l.status = 'WAITING';
+        note(t, 'ERROR', e.message);
+      }
+    }
+    if (toCancel.length > 0) {
+      try {
+        await deps.cancelAlgos(instId, toCancel);
+      } catch (e: any) {
+        note(t, 'ERROR', e.message);
+      }
+    }
+  };
+
+  return {
+    sync,
+    getLadders: (instId: string): TakeProfitLadder[] =>
+      Array.from(tracked.values())
+        .filter(t => t.ladder.instId === instId)
+        .map(t => ({ ...t.ladder, levels: t.ladder.levels.map(l => ({ ...l })) })),
+    // Algo orders the ladder owns on one side, which other TP/SL updates must leave alone
+    algoIds: (instId: string, posSide: Side): string[] =>
+      tracked.get(`${instId}:${posSide}`)?.ladder.levels.filter(l => l.status === 'PLACED').map(l => l.algoId) || [],
+    // Drop ladders of positions that are gone
+    prune: (openKeys: string[]) => {
+      Array.from(tracked.keys()).filter(k => !openKeys.includes(k)).forEach(k => tracked.delete(k));
+    },
+  };
+};
@@ -0,0 +1,232 @@
+import { ClosedPosition, FillRecord, SystemLog, TradeLeg, TradeLegDecision, TradeRecord } from "../types";
+import { JOURNAL_FUNDING_WAIT_MS, JOURNAL_LOOKBACK_MS, MAX_JOURNAL_TRADES } from "../constants";
+
+// --- Trade Journal ---
+// Replays exchange fills per instId/posSide into round-trips: the first
+// opening fill starts a trade, adds and partial closes become legs, and the
+// trade ends when the position is flat again. Funding is taken from the
+// matching positions-history record, so a closed trade waits for it (up to
+// JOURNAL_FUNDING_WAIT_MS) before it is persisted.
+
+export interface TradeJournalDeps {
+  fetchFills: (since: number) => Promise<FillRecord[]>;
+  fetchClosedPositions: () => Promise<ClosedPosition[]>;
+  getCtVal: (instId: string) => number;
+  describeOrder: (ordId: string) => TradeLegDecision | undefined; // Bot orders only
+  onLog: (type: SystemLog['type'], message: string) => void;
+  onTradeClosed: (trade: TradeRecord) => void; // Persist
+}
+
+// Running totals behind a TradeRecord
+interface TripState {
+  trade: TradeRecord;
+  ctVal: number;
+  size: number; // Contracts currently held
+  posAvgPx: number; // Average cost of the held size (PnL reference)
+  openCost: number; // Sum of px * sz over opening legs
+  openSz: number;
+  exitCost: number;
+  exitSz: number;
+  lowPx: number; // Price extremes seen while open (fills and ticker marks)
+  highPx: number;
+}
+
+const MAX_SEEN_FILLS = 2000;
+const CLOSE_MATCH_MS = 60000; // positions-history uTime vs our last closing fill
+
+const keyOf = (instId: string, posSide: string) => `${instId}:${posSide}`;
+
+// Derived fields, recomputed after every change
+const refresh = (s: TripState, now: number) => {
+  const t = s.trade;
+  const dir = t.posSide === 'long' ? 1 : -1;
+  t.entryAvgPx = s.openSz > 0 ? s.openCost / s.openSz : 0;
+  t.exitAvgPx = s.exitSz > 0 ? s.exitCost / s.exitSz : null;
+  t.grossPnl = t.legs.reduce((sum, l) => sum + l.pnl, 0);
+  t.fees = t.legs.reduce((sum, l) => sum + l.fee, 0);
+  t.netPnl = t.grossPnl - t.fees + t.funding;
+  t.holdMs = (t.closedAt ?? now) - t.openedAt;
+  if (t.entryAvgPx > 0) {
+    const worst = dir === 1 ? s.lowPx : s.highPx;
+    const best = dir === 1 ? s.highPx : s.lowPx;
+    t.mae = Math.max(0, ((t.entryAvgPx - worst) * dir / t.entryAvgPx) * 100);
+    t.mfe = Math.max(0, ((best - t.entryAvgPx) * dir / t.entryAvgPx) * 100);
+  }
+};
+
+export const createTradeJournal = (deps: TradeJournalDeps) => {
+  let closed: TradeRecord[] = []; // Persisted, newest first
+  const open = new Map<string, TripState>(); // instId:posSide -> trade in progress
+  let settling: TripState[] = []; // Flat, waiting for funding from positions-history
+  let cursor = Date.now() - JOURNAL_LOOKBACK_MS; // Newest fill ts processed
+  const seen = new Set<string>(); // tradeIds already applied (the cursor ts is fetched again)
+  let lastError = '';
+
+  // One-way fills carry posSide 'net': they belong to the trade open on the instrument, else start one in their direction
+  const sideOf = (f: FillRecord): 'long' | 'short' => {
+    if (f.posSide !== 'net') return f.posSide;
+    if (open.has(keyOf(f.instId, 'long'))) return 'long';
+    if (open.has(keyOf(f.instId, 'short'))) return 'short';
+    return f.side === 'buy' ? 'long' : 'short';
+  };
+
+  const applyFill = (f: FillRecord) => {
+    const posSide = sideOf(f);
+    const key = keyOf(f.instId, posSide);
+    const sz = parseFloat(f.fillSz) || 0;
+    const px = parseFloat(f.fillPx) || 0;
+    if (sz <= 0 || px <= 0) return;
+    const ts = parseInt(f.ts);
+    const opening = (f.side === 'buy') === (posSide === 'long');
+    let s = open.get(key);
+
+    if (!s) {
+      if (!opening) {
+        deps.onLog('INFO', `[${f.instId}] 成交 ${f.ordId} 为平仓, 但开仓早于交易日志起点, 已跳过`);
+        return;
+      }
+      const ctVal = deps.getCtVal(f.instId);
+      s = {
+        trade: {
+          id: `${key}:${ts}`,
+          instId: f.instId,
+          posSide,
+          status: 'OPEN',
+          openedAt: ts,
+          closedAt: null,
+          holdMs: 0,
+          legs: [],
+          maxSize: 0,
+          entryAvgPx: 0,
+          exitAvgPx: null,
+          grossPnl: 0,
+          fees: 0,
+          funding: 0,
+          netPnl: 0,
+          mae: null,
+          mfe: null,
+        },
+        ctVal, size: 0, posAvgPx: 0, openCost: 0, openSz: 0, exitCost: 0, exitSz: 0, lowPx: px, highPx: px,
+      };
+      open.set(key, s);
+    }
+
+    const t = s.trade;
+    const dir = t.posSide === 'long' ? 1 : -1;
+    let pnl = 0;
+    if (opening) {
+      s.posAvgPx = (s.posAvgPx * s.size + px * sz) / (s.size + sz);
+      s.size += sz;
+      s.openCost += px * sz;
+      s.openSz += sz;
+      t.maxSize = Math.max(t.maxSize, s.size);
+    } else {
+      const closing = Math.min(sz, s.size);
+      pnl = (px - s.posAvgPx) * closing * s.ctVal * dir;
+      s.size = Math.max(0, s.size - sz);
+      s.exitCost += px * closing;
+      s.exitSz += closing;
+    }
+    s.lowPx = Math.min(s.lowPx, px);
+    s.highPx = Math.max(s.highPx, px);
+
+    const type: TradeLeg['type'] = opening ? (t.legs.length === 0 ? 'OPEN' : 'ADD') : s.size <= 1e-9 ? 'CLOSE' : 'REDUCE';
+    const fee = -(parseFloat(f.fee) || 0);
+    const last = t.legs[t.legs.length - 1];
+    if (last && last.ordId === f.ordId) {
+      // Partial fills of one order form a single leg
+      last.px = (last.px * last.sz + px * sz) / (last.sz + sz);
+      last.sz += sz;
+      last.fee += fee;
+      last.pnl += pnl;
+      last.type = last.type === 'OPEN' ? 'OPEN' : type;
+    } else {
+      t.legs.push({ type, ts, ordId: f.ordId, sz, px, fee, pnl, decision: deps.describeOrder(f.ordId) });
+    }
+
+    if (s.size <= 1e-9) {
+      t.status = 'CLOSED';
+      t.closedAt = ts;
+      open.delete(key);
+      settling.push(s);
+    }
+    refresh(s, Date.now());
+  };
+
+  const finalize = (s: TripState, funding: number | null) => {
+    const t = s.trade;
+    t.funding = funding ?? 0;
+    refresh(s, Date.now());
+    closed = [t, ...closed].slice(0, MAX_JOURNAL_TRADES);
+    deps.onTradeClosed(t);
+    const hold = (t.holdMs / 60000).toFixed(0);
+    deps.onLog(t.netPnl >= 0 ? 'SUCCESS' : 'INFO', `[${t.instId}] 交易回合结束: ${t.posSide.toUpperCase()} ${t.legs.length} 笔成交, 持仓 ${hold} 分钟, 净盈亏 ${t.netPnl.toFixed(4)} U (手续费 ${t.fees.toFixed(4)}, 资金费 ${t.funding.toFixed(4)}${funding === null ? ' 未获取' : ''})`);
+  };
+
+  return {
+    // Closed trades from storage (oldest first); fills after the newest one are replayed
+    load: (persisted: TradeRecord[]) => {
+      closed = persisted.slice().reverse().slice(0, MAX_JOURNAL_TRADES);
+      // +1: the closing fill of that trade is already in it
+      if (closed.length > 0 && closed[0].closedAt) cursor = Math.max(cursor, closed[0].closedAt + 1);
+    },
+
+    // Ticker marks between syncs, for MAE/MFE
+    markPrice: (instId: string, px: number) => {
+      if (!(px > 0)) return;
+      open.forEach(s => {
+        if (s.trade.instId !== instId) return;
+        s.lowPx = Math.min(s.lowPx, px);
+        s.highPx = Math.max(s.highPx, px);
+      });
+    },
+
+    sync: async () => {
+      try {
+        // `since` is exclusive: step back 1ms so fills sharing the cursor ts are not lost
+        const fills = (await deps.fetchFills(cursor - 1))
+          .filter(f => !seen.has(f.tradeId))
+          .reverse() // Newest first -> oldest first, keeps same-ms fills in order
+          .sort((a, b) => parseInt(a.ts) - parseInt(b.ts));
+        fills.forEach(f => {
+          seen.add(f.tradeId);
+          cursor = Math.max(cursor, parseInt(f.ts));
+          applyFill(f);
+        });
+        if (seen.size > MAX_SEEN_FILLS) Array.from(seen).slice(0, seen.size - MAX_SEEN_FILLS).forEach(id => seen.delete(id));
+
+        if (settling.length > 0) {
+          const history = await deps.fetchClosedPositions();
+          const now = Date.now();
+          settling = settling.filter(s => {
+            const t = s.trade;
+            const match = history.find(c => c.instId === t.instId && c.posSide === t.posSide && Math.abs(parseInt(c.uTime) - (t.closedAt || 0)) <= CLOSE_MATCH_MS);
+            if (match) {
+              finalize(s, parseFloat(match.fundingFee) || 0);
+              return false;
+            }
+            if (now - (t.closedAt || 0) > JOURNAL_FUNDING_WAIT_MS) {
+              finalize(s, null);
+              return false;
+            }
+            return true;
+          });
+        }
+        lastError = '';
+      } catch (e: any) {
+        // Logged once per distinct error, retried on the next sync
+        if (e.message !== lastError) deps.onLog('WARNING', `交易日志同步失败: ${e.message}`);
+        lastError = e.message;
+      }
+    },
+
+    // Open and settling trades first, then closed ones, newest first
+    getTrades: (instId?: string) => {
+      const now = Date.now();
+      const active = [...Array.from(open.values()), ...settling];
+      active.forEach(s => refresh(s, now));
+      return [...active.map(s => s.trade).sort((a, b) => b.openedAt - a.openedAt), ...closed]
+        .filter(t => !instId || t.instId === instId);
+    },
+  };
+};
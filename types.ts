@@ -14,6 +14,16 @@ export interface TickerData {
   ts: string;
 }
 
+// Contract specification from /api/v5/public/instruments
+export interface InstrumentSpec {
+  instId: string;
+  ctVal: number; // Coin per contract (e.g. 0.1 ETH)
+  ctValCcy: string; // Coin symbol of ctVal
+  lotSz: number; // Order size increment (contracts)
+  minSz: number; // Minimum order size (contracts)
+  tickSz: number; // Price increment
+}
+
 export interface CandleData {
   ts: string;
   o: string;
@@ -29,9 +39,10 @@ export interface AccountBalance {
   uTime: string;
 }
 
+// One-way (net) positions are read as the side they hold, size unsigned (services/positionMode.ts)
 export interface PositionData {
   instId: string;
-  posSide: 'long' | 'short' | 'net';
+  posSide: 'long' | 'short';
   pos: string; // Size
   avgPx: string; // Average Price
   breakEvenPx?: string; // NEW: Exchange provided Breakeven Price
@@ -41,11 +52,24 @@ export interface PositionData {
   margin: string; // Margin used
   liqPx: string; // Liquidation Price
   cTime: string;
+  fundingFee?: string; // Accrued funding since open, positive = received
   // New fields for protection
   slTriggerPx?: string;
   tpTriggerPx?: string;
 }
 
+// Closed position from /api/v5/account/positions-history
+export interface ClosedPosition {
+  instId: string;
+  posSide: 'long' | 'short';
+  openAvgPx: string;
+  closeAvgPx: string;
+  realizedPnl: string; // Net of fees and funding
+  fundingFee: string; // Accumulated funding, positive = received
+  cTime: string;
+  uTime: string; // Close time
+}
+
 // Wrapper for account data to support multiple positions
 export interface AccountContext {
   balance: AccountBalance;
@@ -60,10 +84,58 @@ export interface MarketDataCollection {
   candles15m: CandleData[]; // Used for indicators
   candles1H: CandleData[]; // NEW: Used for EMA Trend Strategy
   candles4H: CandleData[]; // NEW: Used for AI Strategy (Restored)
-  fundingRate: string;
+  fundingRate: string; // Rate applied at nextFundingTime
+  nextFundingTime: string; // ms, "0" if unknown
+  fundingHistory: FundingRatePoint[]; // Settled rates, newest first
   openInterest: string;
-  orderbook: any; 
-  trades: any[];
+  orderbook: OrderBook | null;
+  trades: TradeData[]; // Newest first
+}
+
+// One settled funding rate from /api/v5/public/funding-rate-history
+export interface FundingRatePoint {
+  fundingTime: number;
+  rate: number;
+}
+
+// Order book level as returned by OKX (contracts)
+export interface OrderBookLevel {
+  px: string;
+  sz: string;
+}
+
+export interface OrderBook {
+  asks: OrderBookLevel[]; // Best (lowest) first
+  bids: OrderBookLevel[]; // Best (highest) first
+  ts: string;
+}
+
+export interface TradeData {
+  tradeId: string;
+  px: string;
+  sz: string; // Contracts
+  side: 'buy' | 'sell'; // Taker side
+  ts: string;
+}
+
+// Taker volume (USDT notional) over a recent window of the trade tape
+export interface TakerVolumeWindow {
+  label: string;
+  windowMs: number;
+  buyVol: number;
+  sellVol: number;
+}
+
+// Liquidity metrics derived from the order book and trade tape
+export interface OrderFlowMetrics {
+  bestBid: number;
+  bestAsk: number;
+  spreadBps: number;
+  bidDepth: number; // USDT notional within DEPTH_BAND_PCT below mid
+  askDepth: number; // USDT notional within DEPTH_BAND_PCT above mid
+  imbalance: number; // (bid - ask) / (bid + ask), -1..1
+  takerWindows: TakerVolumeWindow[];
+  tradeCoverageMs: number; // Time span covered by the retained trades
 }
 
 // AI Decision Types - 10U God of War Structure
@@ -90,6 +162,57 @@ export interface AIDecision {
   rollover_trigger?: string; // Derived or default
   timestamp?: number;
   posSide?: 'long' | 'short'; // NEW: Explicitly target a specific position side (prevents accidental reverse opens)
+  instId?: string; // Instrument this decision was made for
+  source?: DecisionMode; // Which engine produced this decision
+  vetoReason?: string; // AI_VETO mode: why the LLM downgraded the rule signal to HOLD
+  riskCheck?: RiskCheckResult; // Set when the order went through the pre-trade risk gate
+  sizing?: SizingResult; // Opens/rolls: how the size was derived and what it risks at the stop
+  validation?: DecisionValidationReport; // AI decisions: schema check of the model output
+}
+
+// Runtime check of the LLM's JSON against the AIDecision shape
+export interface DecisionValidationFailure {
+  attempt: number; // 1 = first answer, 2+ = repair rounds
+  errors: string[];
+}
+
+export interface DecisionValidationReport {
+  valid: boolean; // Final answer passed (false => forced HOLD)
+  attempts: number;
+  failures: DecisionValidationFailure[];
+}
+
+// 4H EMA Trend Snapshot (latest closed candle)
+export interface EmaTrendAnalysis {
+  ema21: number;
+  ema55: number;
+  trend: 'BULLISH' | 'BEARISH' | 'NEUTRAL';
+  isGoldenCross: boolean;
+  isDeathCross: boolean;
+  signalCandleColor: 'GREEN' | 'RED' | 'NEUTRAL';
+  prevHigh: number; // Short SL reference
+  prevLow: number; // Long SL reference
+}
+
+// Derived position / funding state used by both AI and rule-based decisions
+export interface StrategyState {
+  price: number; // Current price (falls back to 1 to avoid division by zero)
+  totalEquity: number;
+  availableEquity: number;
+  primaryPosition?: PositionData;
+  hasPosition: boolean;
+  netPnL: number; // UPL - estimated two-way fees + accrued funding
+  netProfitRatio: number; // Net ROE (ratio of margin)
+  totalFees: number;
+  accruedFunding: number; // Funding settled on the open position, positive = received
+  nextFundingCost: number; // Projected payment at nextFundingTime, positive = paid
+  nextFundingTime: number; // ms, 0 if unknown
+  rollingTrigger: boolean; // Net ROE after the next funding payment >= 5%
+  canRoll: boolean; // Available funds cover 5% rule and min order cost
+  leverage: number;
+  ruleReqEquity: number;
+  minOpenCost: number;
+  targetContracts: number; // 5% equity margin x leverage, in contracts
 }
 
 export interface SystemLog {
@@ -99,10 +222,626 @@ export interface SystemLog {
   message: string;
 }
 
+// --- LLM Provider Types ---
+// OPENAI_COMPATIBLE: any /chat/completions server (llama.cpp, Ollama, vLLM...). FAKE: scripted replies, no network.
+export type LLMProviderKind = 'DEEPSEEK' | 'GEMINI' | 'OPENAI_COMPATIBLE' | 'FAKE';
+
+export interface LLMConfig {
+  provider: LLMProviderKind;
+  model: string;
+  temperature: number;
+  maxTokens: number;
+  baseUrl: string; // OPENAI_COMPATIBLE only, e.g. http://127.0.0.1:11434/v1
+}
+
+export interface LLMMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+// AI: LLM decides. RULE: deterministic rule engine only. AI_VETO: rule engine decides, LLM may only downgrade to HOLD
+export type DecisionMode = 'AI' | 'RULE' | 'AI_VETO';
+
+// How many records are kept in memory and on disk
+export interface RetentionConfig {
+  maxLogs: number;
+  maxDecisions: number;
+  maxEquityPoints: number;
+}
+
 export interface AppConfig {
   okxApiKey: string;
   okxSecretKey: string;
   okxPassphrase: string;
   deepseekApiKey: string; // Renamed from geminiApiKey
+  geminiApiKey: string;
+  openaiApiKey: string; // OpenAI-compatible endpoint, optional for local servers
+  llm: LLMConfig;
   isSimulation: boolean;
+  decisionMode: DecisionMode;
+  retention: RetentionConfig;
+  instruments: string[]; // Each instrument runs its own strategy loop
+  marketFeed: MarketFeedMode;
+  marginMode: MarginMode;
+  positionMode: PositionMode;
+  risk: RiskLimits;
+  paperPriceSource: PaperPriceSource;
+  multiTimeframe: MultiTimeframeConfig;
+  indicators: IndicatorConfig;
+  sizing: SizingConfig;
+  stopManager: StopManagerConfig;
+  rolling: RollingConfig;
+  takeProfit: TakeProfitConfig;
+  notifications: NotificationConfig;
+  telegramBotToken: string;
+  smtpPassword: string;
+}
+
+// --- Multi-Timeframe Types ---
+export type TimeframeBar = '3m' | '5m' | '15m' | '1H' | '4H';
+
+// EMA 21/55 trend state of one timeframe
+export interface TimeframeTrend {
+  bar: TimeframeBar;
+  ema21: number;
+  ema55: number;
+  close: number;
+  slopePct: number; // EMA21 change over MTF_SLOPE_BARS bars, %
+  score: number; // -1..1 from EMA alignment, EMA21 slope and close vs EMA21
+  state: 'BULLISH' | 'BEARISH' | 'NEUTRAL' | 'INSUFFICIENT'; // INSUFFICIENT: fewer than 56 candles
+}
+
+export interface MultiTimeframeAnalysis {
+  trends: TimeframeTrend[]; // 4H first
+  confluence: number; // -100..100, weighted by timeframe, positive = bullish
+  bias: 'BULLISH' | 'BEARISH' | 'NEUTRAL';
+}
+
+// Lower-timeframe check of a 4H entry signal
+export interface EntryConfirmation {
+  confirmed: boolean;
+  reason: string;
+}
+
+export interface MultiTimeframeConfig {
+  // Per decision mode: only take a 4H entry when the 15m/3m structure confirms it
+  refineEntry: Record<DecisionMode, boolean>;
+}
+
+// --- Position Sizing Types ---
+// FIXED: fixed share of equity as margin (original 5% rule). RISK: size from the
+// stop distance. ATR: size from an ATR multiple. KELLY: risk share from Kelly.
+export type SizingMode = 'FIXED' | 'RISK' | 'ATR' | 'KELLY';
+
+export interface SizingConfig {
+  mode: SizingMode;
+  fixedMarginPct: number; // FIXED: margin per leg, % of total equity
+  riskPct: number; // RISK/ATR: equity lost if the stop is hit, %
+  atrMultiple: number; // ATR: stop distance assumed for sizing, in 4H ATRs
+  kellyFraction: number; // KELLY: share of full Kelly (0.5 = half Kelly)
+  kellyWinRate: number; // KELLY: win rate (0-1) used until the journal has enough trades
+  kellyPayoff: number; // KELLY: average win / average loss used until then
+  maxRiskPct: number; // All modes: size is cut so the loss at the stop stays under this % of equity
+}
+
+// Win rate and payoff from closed trades, for KELLY
+export interface KellyStats {
+  trades: number;
+  winRate: number;
+  payoff: number; // Average win / average loss
+}
+
+export interface SizingResult {
+  mode: SizingMode;
+  contracts: number; // Lot-rounded; 0 = do not trade
+  targetRiskPct: number; // Risk the mode aimed for, % of equity
+  stopPrice: number; // Stop the risk is measured against
+  stopDistancePct: number;
+  riskAmount: number; // USDT lost at the stop, taker fees both ways included
+  riskPct: number; // riskAmount as % of total equity
+  marginRequired: number;
+  notes: string[]; // Adjustments: caps, lot rounding, fallbacks
+}
+
+// --- Stop Manager Types ---
+// ATR: stop trails price by N x 4H ATR. CANDLE: stop trails the last closed 4H candle's low/high.
+export type TrailMode = 'OFF' | 'ATR' | 'CANDLE';
+
+export interface StopManagerConfig {
+  enabled: boolean;
+  breakEvenRoePct: number; // Net ROE % that moves the stop to the break-even price, 0 = off
+  trailMode: TrailMode;
+  trailAtrMultiple: number;
+  trailActivationRoePct: number; // Trailing starts at this net ROE %
+  stepOnRoll: boolean; // After a roll, lift the stop to the break-even price from before the roll
+  nativeTrailing: boolean; // ATR mode: place an exchange move_order_stop instead of moving a conditional stop
+}
+
+// What moved a stop
+export type StopMoveReason = 'BREAK_EVEN' | 'TRAIL_ATR' | 'TRAIL_CANDLE' | 'ROLL_STEP';
+
+export interface StopTarget {
+  price: number;
+  reason: StopMoveReason;
+}
+
+// --- Rolling (Pyramiding) Types ---
+export interface RollingConfig {
+  enabled: boolean; // Rolling executor: add legs funded from profit on its own
+  triggerRoePct: number; // Net ROE %, after the next funding payment, that adds a leg
+  profitSharePct: number; // Share of the net profit committed as the new leg's margin, %
+  maxRolls: number; // Legs on top of the entry, rolls by the AI/rule decision included
+}
+
+// ENTRY: opening leg. STRATEGY: roll ordered by the AI/rule decision. AUTO: rolling executor.
+export type RollLegSource = 'ENTRY' | 'STRATEGY' | 'AUTO';
+
+export interface RollLeg {
+  ts: number;
+  source: RollLegSource;
+  contracts: number;
+  price: number; // Fill price, derived from the change in average price
+  avgPx: number; // Position average after this leg
+  liqPx: number; // Liquidation price after this leg (exchange value, else estimated)
+  stopPx: number; // Single stop for the whole position after this leg, 0 = none
+}
+
+// Legs of one open position, oldest first
+export interface RollLadder {
+  instId: string;
+  posSide: 'long' | 'short';
+  openedAt: string; // Position cTime
+  legs: RollLeg[];
+  rolls: number; // legs.length - 1
+  maxRolls: number;
+}
+
+// --- Take-Profit Ladder Types ---
+export interface TakeProfitLevel {
+  rMultiple: number; // Distance from the average price, in R (entry-to-stop distance when the position opened)
+  sizePct: number; // Share of the position closed at this level, %
+}
+
+export interface TakeProfitConfig {
+  enabled: boolean;
+  levels: TakeProfitLevel[]; // Nearest first; what the levels leave open is left to the stop / trailing stop
+}
+
+// WAITING: not on the exchange (no R yet, below minSz, or price already past it)
+export type TakeProfitLevelStatus = 'WAITING' | 'PLACED' | 'FILLED';
+
+export interface TakeProfitLevelState extends TakeProfitLevel {
+  price: number; // Trigger price for the current average, 0 = not known yet
+  contracts: number;
+  status: TakeProfitLevelStatus;
+  algoId: string; // Reduce-only algo order while PLACED
+}
+
+export interface TakeProfitLadder {
+  instId: string;
+  posSide: 'long' | 'short';
+  openedAt: string; // Position cTime
+  riskPerUnit: number; // R as a price distance, 0 = no stop seen yet
+  basis: number; // Contracts the level shares apply to: the entry plus every roll
+  levels: TakeProfitLevelState[];
+}
+
+// --- Close Types ---
+// Outcome of closing (part of) one position side
+export interface CloseResult {
+  instId: string;
+  posSide: 'long' | 'short';
+  pct: number; // Share requested, 100 = whole side
+  requested: number; // Contracts sent to close
+  ordId: string; // Empty when the exchange returns none (close-position)
+  remaining: number; // Contracts still open after verification
+  verified: boolean; // Full: side is flat. Partial: reduced by the requested size.
+  cancelledAlgos: number; // Side's algo orders cancelled after a verified full close
+  error?: string;
+}
+
+// --- Technical Indicator Types ---
+// Indicators that can be added to the AI prompts (EMA 21/55 is always there)
+export type IndicatorName = 'RSI' | 'MACD' | 'ATR' | 'BOLLINGER' | 'VWAP' | 'ADX' | 'STOCHASTIC';
+
+export interface MacdValue {
+  macd: number; // Fast EMA - slow EMA
+  signal: number;
+  histogram: number;
+}
+
+export interface BollingerValue {
+  upper: number;
+  middle: number;
+  lower: number;
+  bandwidthPct: number; // (upper - lower) / middle, %
+  percentB: number; // 0 at the lower band, 1 at the upper band
+}
+
+export interface AdxValue {
+  adx: number;
+  plusDI: number;
+  minusDI: number;
+}
+
+export interface StochasticValue {
+  k: number;
+  d: number;
+}
+
+// Values on the last candle of a series; null while an indicator is still warming up
+export interface IndicatorSnapshot {
+  ema21: number | null;
+  ema55: number | null;
+  rsi: number | null;
+  macd: MacdValue | null;
+  atr: number | null;
+  bollinger: BollingerValue | null;
+  vwap: number | null;
+  adx: AdxValue | null;
+  stochastic: StochasticValue | null;
+}
+
+export interface IndicatorConfig {
+  prompt: IndicatorName[]; // 4H values added to the decision and veto prompts
+}
+
+// --- Notification Types ---
+// SystemLog types that can be pushed out; INFO/SUCCESS stay in the log panel
+export type NotifyEventType = 'TRADE' | 'ERROR' | 'WARNING';
+export type NotifyChannelKind = 'telegram' | 'webhook' | 'email';
+
+interface NotifyChannelBase {
+  enabled: boolean;
+  events: NotifyEventType[];
+}
+
+export interface TelegramChannelConfig extends NotifyChannelBase {
+  chatId: string;
+  apiBaseUrl: string; // Default https://api.telegram.org, point at a stand-in for tests
+}
+
+// POSTs JSON { type, message, text, time, instId, mode }
+export interface WebhookChannelConfig extends NotifyChannelBase {
+  url: string;
+}
+
+export interface EmailChannelConfig extends NotifyChannelBase {
+  host: string;
+  port: number;
+  secure: boolean; // Implicit TLS (465); otherwise STARTTLS when the server offers it
+  username: string; // Empty = no AUTH
+  from: string;
+  to: string; // Comma separated
+}
+
+export interface NotificationConfig {
+  telegram: TelegramChannelConfig;
+  webhook: WebhookChannelConfig;
+  email: EmailChannelConfig;
+  maxPerMinute: number; // Per channel, excess messages are dropped and counted
+  // Placeholders: {type} {message} {time} {instId} {mode}
+  templates: Record<NotifyEventType, string>;
+}
+
+// Price source for the paper exchange when isSimulation is on
+export type PaperPriceSource = 'MOCK' | 'LIVE';
+
+// Hard pre-trade limits enforced by riskManager (0 disables a numeric limit)
+export interface RiskLimits {
+  maxLeverage: number;
+  maxPositionNotional: number; // USDT, resulting position after the order
+  maxDailyLoss: number; // USDT realized loss since 00:00 UTC
+  maxConsecutiveLosses: number; // Losing closes in a row today (UTC)
+  minStopLiqDistancePct: number; // % of price between stop-loss and estimated liquidation
+  requireStopLoss: boolean; // Every opening/adding order must carry a stop-loss
+}
+
+export type RiskViolationCode =
+  | 'MAX_LEVERAGE'
+  | 'MAX_NOTIONAL'
+  | 'MAX_DAILY_LOSS'
+  | 'MAX_CONSECUTIVE_LOSSES'
+  | 'STOP_TOO_CLOSE_TO_LIQ'
+  | 'MISSING_STOP_LOSS'
+  | 'RISK_DATA_UNAVAILABLE'; // Realized PnL could not be loaded: fail closed
+
+export interface RiskViolation {
+  code: RiskViolationCode;
+  message: string;
+  limit: number;
+  actual: number;
+}
+
+export interface RiskCheckResult {
+  allowed: boolean;
+  violations: RiskViolation[];
+  checkedAt: number;
+}
+
+// Realized PnL summary feeding the daily-loss and losing-streak limits
+export interface RealizedPnlStats {
+  dailyRealizedPnl: number;
+  consecutiveLosses: number;
+}
+
+// WS: OKX WebSocket push with REST fallback; REST: poll every loop tick
+export type MarketFeedMode = 'WS' | 'REST';
+
+// OKX tdMode / mgnMode of orders the bot opens
+export type MarginMode = 'isolated' | 'cross';
+
+// OKX posMode: hedge (long and short sides) or one-way (net)
+export type PositionMode = 'long_short_mode' | 'net_mode';
+
+export interface FeedStatus {
+  public: boolean;
+  business: boolean;
+  private: boolean; // Logged in
+}
+
+// Per-instrument dashboard slice returned by /api/status
+export interface InstrumentStatus {
+  instId: string;
+  spec: InstrumentSpec | null;
+  marketData: MarketDataCollection | null;
+  latestDecision: AIDecision | null;
+  recentOrders: TrackedOrder[]; // Newest first
+  ladders: RollLadder[]; // One per open side
+  takeProfits: TakeProfitLadder[]; // One per open side with the ladder enabled
+}
+
+// Full /api/status payload, also the first event on /api/stream
+export interface StatusSnapshot {
+  isRunning: boolean;
+  feed: FeedStatus;
+  config: AppConfig; // Secrets blanked
+  secrets: SecretVaultStatus;
+  accountData: AccountContext | null;
+  instruments: InstrumentStatus[];
+  reconciliation: ReconciliationReport | null; // Before the first reconcile
+  logs: SystemLog[]; // Oldest first
+}
+
+// --- Dashboard Push Types (/api/stream, server-sent events) ---
+export type CandleKey = 'candles3m' | 'candles5m' | 'candles15m' | 'candles1H' | 'candles4H';
+// Market data besides ticker and candles: funding, open interest, order book, trades
+export type MarketExtras = Omit<MarketDataCollection, 'ticker' | CandleKey>;
+
+export type StreamEvent =
+  | { type: 'snapshot'; data: StatusSnapshot } // On connect and whenever the instrument list changes
+  | { type: 'ticker'; instId: string; ticker: TickerData | null }
+  // New or changed bars (ascending), total = series length after upsert; replace = whole series, drop the old one
+  | { type: 'candles'; instId: string; key: CandleKey; candles: CandleData[]; total: number; replace: boolean }
+  | { type: 'market'; instId: string; market: MarketExtras }
+  | { type: 'instrument'; instId: string; spec: InstrumentSpec | null; recentOrders: TrackedOrder[]; ladders: RollLadder[]; takeProfits: TakeProfitLadder[] }
+  | { type: 'decision'; instId: string; decision: AIDecision | null }
+  | { type: 'log'; log: SystemLog }
+  | { type: 'account'; accountData: AccountContext | null } // Balance and positions
+  | { type: 'status'; isRunning: boolean; feed: FeedStatus; config: AppConfig; secrets: SecretVaultStatus; reconciliation: ReconciliationReport | null }
+  | { type: 'ping' }; // Heartbeat, lets the client detect a stalled stream
+
+// Snapshot rehydrated from the persistence layer on boot
+// --- Order Tracking Types ---
+// Exchange-side view of one order (OKX /trade/order fields we use)
+export interface OrderDetail {
+  ordId: string;
+  instId: string;
+  state: 'live' | 'partially_filled' | 'filled' | 'canceled' | 'mmp_canceled';
+  accFillSz: string; // Contracts
+  avgPx: string;
+  fee: string; // Negative = charged (OKX convention)
+  feeCcy: string;
+  uTime: string;
+}
+
+export type TrackedOrderStatus = 'PENDING' | 'PARTIALLY_FILLED' | 'FILLED' | 'CANCELED' | 'TIMEOUT';
+
+// A bot order from placement to confirmed fill
+export interface TrackedOrder {
+  ordId: string;
+  instId: string;
+  action: AIDecision['action'];
+  side: 'buy' | 'sell';
+  posSide: 'long' | 'short';
+  requestedSz: string; // Contracts
+  decisionPx: number; // Ticker last when the decision was made (slippage reference)
+  decisionTs: number;
+  placedAt: number;
+  status: TrackedOrderStatus;
+  filledSz: string;
+  avgFillPx: number | null;
+  fee: number | null; // Cost in feeCcy, positive = paid
+  feeCcy: string;
+  slippageBps: number | null; // Positive = filled worse than decisionPx
+  protection: {
+    requested: boolean; // Order carried attached TP/SL
+    slTriggerPx?: string;
+    tpTriggerPx?: string;
+    confirmed: boolean | null; // null until checked after the fill
+  };
+  updatedAt: number;
+}
+
+// Exchange position differs from what the bot's confirmed fills add up to
+export interface PositionDrift {
+  instId: string;
+  posSide: 'long' | 'short';
+  expected: number; // Contracts
+  actual: number;
+  detectedAt: number;
+  explained: boolean; // Matched a TP/SL/liquidation close in position history
+}
+
+export interface ReconciliationReport {
+  checkedAt: number;
+  inSync: boolean; // No unexplained drift in the latest check
+  drifts: PositionDrift[]; // Recent, newest first
+}
+
+// --- Trade Journal Types ---
+// One execution from /api/v5/trade/fills-history (or the paper exchange)
+export interface FillRecord {
+  tradeId: string;
+  ordId: string;
+  instId: string;
+  side: 'buy' | 'sell';
+  posSide: 'long' | 'short' | 'net';
+  fillSz: string; // Contracts
+  fillPx: string;
+  fee: string; // Negative = charged (OKX convention)
+  ts: string;
+}
+
+export type TradeLegType = 'OPEN' | 'ADD' | 'REDUCE' | 'CLOSE';
+
+// The decision behind a leg; absent for exchange-triggered fills (TP/SL, liquidation)
+export interface TradeLegDecision {
+  ts: number;
+  action: AIDecision['action'];
+  source?: DecisionMode;
+  summary: string;
+}
+
+export interface TradeLeg {
+  type: TradeLegType;
+  ts: number;
+  ordId: string;
+  sz: number; // Contracts
+  px: number; // Average fill price of the leg
+  fee: number; // USDT, positive = paid
+  pnl: number; // Gross PnL realized by this leg (0 for OPEN/ADD)
+  decision?: TradeLegDecision;
+}
+
+// Open -> adds/partial closes -> flat, for one instId/posSide
+export interface TradeRecord {
+  id: string;
+  instId: string;
+  posSide: 'long' | 'short';
+  status: 'OPEN' | 'CLOSED';
+  openedAt: number;
+  closedAt: number | null;
+  holdMs: number;
+  legs: TradeLeg[];
+  maxSize: number; // Largest position held, contracts
+  entryAvgPx: number; // Over all opening legs
+  exitAvgPx: number | null; // Over all reducing legs
+  grossPnl: number;
+  fees: number;
+  funding: number; // Positive = received
+  netPnl: number; // grossPnl - fees + funding
+  mae: number | null; // Max adverse excursion, % of entryAvgPx
+  mfe: number | null; // Max favourable excursion, % of entryAvgPx
+}
+
+export interface PersistedState {
+  config: AppConfig | null;
+  decisions: AIDecision[]; // Newest first
+  logs: SystemLog[]; // Oldest first
+  equityHistory: number[]; // Oldest first
+  users: UserAccount[];
+  audit: AuditEntry[]; // Oldest first
+  orders: TrackedOrder[]; // Oldest first
+  trades: TradeRecord[]; // Closed round-trips, oldest first
+}
+
+// --- Secret Vault Types ---
+export type SecretName = 'okxApiKey' | 'okxSecretKey' | 'okxPassphrase' | 'deepseekApiKey' | 'geminiApiKey' | 'openaiApiKey' | 'telegramBotToken' | 'smtpPassword';
+// env: env var / .env (wins at startup). vault: encrypted file. memory: set via UI but not persisted (no master key)
+export type SecretSource = 'env' | 'vault' | 'memory';
+
+export interface SecretInfo {
+  fingerprint: string; // SHA256:<first 12 hex>, safe to display
+  source: SecretSource;
+  updatedAt: number;
+}
+
+export interface SecretVaultStatus {
+  persistent: boolean; // Master key present and vault file readable
+  keys: Partial<Record<SecretName, SecretInfo>>;
+}
+
+// --- Auth Types ---
+// viewer: read-only dashboard. operator: may also change config and start/stop the engine.
+export type UserRole = 'viewer' | 'operator';
+
+export interface UserAccount {
+  username: string;
+  role: UserRole;
+  passwordHash: string; // scrypt$<salt>$<hash>, never sent to the client
+  createdAt: number;
+}
+
+export interface AuthUser {
+  username: string;
+  role: UserRole;
+}
+
+export type AuditAction = 'LOGIN' | 'LOGOUT' | 'CONFIG_UPDATE' | 'ENGINE_TOGGLE' | 'USER_UPDATE' | 'POSITION_CLOSE' | 'FLATTEN' | 'AI_TEST' | 'NOTIFY_TEST';
+
+export interface AuditEntry {
+  id: string;
+  ts: number;
+  username: string; // Attempted name for failed logins
+  role: UserRole | null;
+  action: AuditAction;
+  success: boolean;
+  detail: string;
+  ip: string;
+}
+
+// --- Backtest Types ---
+export interface BacktestConfig {
+  instId: string; // Contract spec used for sizing/fees
+  initialEquity: number; // USDT
+  lookbackBars: number; // Candle window fed to the EMA rules on each bar (live fetch uses 100)
+  sizing: SizingConfig;
+}
+
+export interface BacktestFill {
+  ts: string;
+  type: 'OPEN' | 'ROLL' | 'REDUCE' | 'CLOSE' | 'STOP' | 'LIQUIDATION';
+  posSide: 'long' | 'short';
+  price: number;
+  contracts: number;
+  fee: number;
+  realizedPnL: number; // Gross PnL of this fill (fees excluded)
+  reason: string;
+}
+
+// One round-trip: first open -> position flat
+export interface BacktestTrade {
+  posSide: 'long' | 'short';
+  openTs: string;
+  closeTs: string;
+  avgEntryPx: number;
+  exitPx: number; // Size-weighted average exit price
+  maxContracts: number;
+  rolls: number;
+  fees: number;
+  netPnL: number; // Realized PnL net of all fees
+  exitReason: string;
+  fills: BacktestFill[];
+}
+
+export interface BacktestEquityPoint {
+  ts: string;
+  equity: number;
+}
+
+export interface BacktestResult {
+  config: BacktestConfig;
+  bars: number;
+  startTs: string;
+  endTs: string;
+  initialEquity: number;
+  finalEquity: number;
+  totalReturn: number; // Ratio
+  maxDrawdown: number; // Ratio of peak
+  winRate: number; // Ratio of winning round-trips
+  sharpeRatio: number; // Per-bar, same formula as live dashboard
+  totalFees: number;
+  trades: BacktestTrade[];
+  equityCurve: BacktestEquityPoint[];
 }